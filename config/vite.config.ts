@@ -48,6 +48,15 @@ export default defineConfig({
       'fs': path.resolve(__dirname, '../src/shared/polyfills/fs.ts'),
     },
   },
+  build: {
+    rollupOptions: {
+      // Main app + the desktop quick-launch overlay window
+      input: {
+        main: path.resolve(__dirname, '../index.html'),
+        quickLaunch: path.resolve(__dirname, '../quick-launch.html'),
+      },
+    },
+  },
   optimizeDeps: {
     esbuildOptions: {
       define: {
@@ -1,5 +1,7 @@
 -- Pocket Prompt Turso Database Schema
--- Run this SQL against your Turso database to set up tables
+-- Reference snapshot of the latest schema. The app creates and upgrades the
+-- database itself with the numbered migrations in src/backend/api/migrations.ts
+-- (tracked in schema_migrations); change the schema there, then mirror it here.
 
 -- Users (anonymous device-based identity)
 CREATE TABLE IF NOT EXISTS users (
@@ -16,6 +18,9 @@ CREATE TABLE IF NOT EXISTS prompts (
   title TEXT NOT NULL,
   description TEXT DEFAULT '',
   content TEXT NOT NULL,
+  variables TEXT, -- JSON-encoded template variable declarations
+  default_provider TEXT, -- "Open in LLM" provider id
+  share_token TEXT, -- public share link token
   is_archived INTEGER NOT NULL DEFAULT 0,
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL,
@@ -23,6 +28,7 @@ CREATE TABLE IF NOT EXISTS prompts (
 );
 CREATE INDEX IF NOT EXISTS idx_prompts_user_id ON prompts(user_id);
 CREATE INDEX IF NOT EXISTS idx_prompts_updated_at ON prompts(updated_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompts_share_token ON prompts(share_token) WHERE share_token IS NOT NULL;
 
 -- Version history
 CREATE TABLE IF NOT EXISTS prompt_versions (
@@ -61,3 +67,67 @@ CREATE TABLE IF NOT EXISTS saved_searches (
   updated_at INTEGER NOT NULL
 );
 CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id);
+
+-- Packs (curated, ordered prompt bundles; deleting a pack never deletes prompts)
+CREATE TABLE IF NOT EXISTS packs (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  visibility TEXT NOT NULL DEFAULT 'private', -- private | shared | public
+  share_token TEXT,
+  tags TEXT, -- JSON-encoded string[]
+  cover_image TEXT,
+  cover_color TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_packs_user_id ON packs(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_packs_share_token ON packs(share_token) WHERE share_token IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS pack_prompts (
+  pack_id TEXT NOT NULL REFERENCES packs(id) ON DELETE CASCADE,
+  prompt_id TEXT NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  added_at INTEGER NOT NULL,
+  PRIMARY KEY (pack_id, prompt_id)
+);
+CREATE INDEX IF NOT EXISTS idx_pack_prompts_prompt ON pack_prompts(prompt_id);
+
+-- Cloud sync bookkeeping (local to each database; triggers on prompts,
+-- prompt_tags and saved_searches record changes in sync_changes, see migration 6)
+CREATE TABLE IF NOT EXISTS sync_changes (
+  entity TEXT NOT NULL, -- prompt | saved_search
+  entity_id TEXT NOT NULL,
+  deleted INTEGER NOT NULL DEFAULT 0,
+  seq INTEGER NOT NULL,
+  changed_at INTEGER NOT NULL,
+  PRIMARY KEY (entity, entity_id)
+);
+CREATE INDEX IF NOT EXISTS idx_sync_changes_seq ON sync_changes(seq);
+
+CREATE TABLE IF NOT EXISTS sync_meta (
+  key TEXT PRIMARY KEY,
+  value TEXT
+);
+
+CREATE TABLE IF NOT EXISTS sync_base (
+  entity TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  snapshot TEXT NOT NULL, -- JSON of the last synced copy
+  PRIMARY KEY (entity, entity_id)
+);
+
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+  prompt_id TEXT PRIMARY KEY,
+  detected_at INTEGER NOT NULL,
+  source TEXT NOT NULL DEFAULT 'cloud', -- cloud | directory
+  base_version INTEGER -- common ancestor in prompt_versions
+);
+
+-- Applied migrations
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at INTEGER NOT NULL
+);
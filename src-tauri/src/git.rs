@@ -0,0 +1,137 @@
+// Git history for attached directories: the commits touching a prompt file,
+// a file as it was at a commit, and committing saved files. Shells out to the
+// git binary with fixed arguments, so the frontend can't run arbitrary git
+// commands (options like -c or --upload-pack). The commands are async so
+// git runs off the main thread.
+
+use serde::Serialize;
+use std::path::Path;
+use std::process::{Command, Output};
+
+// A commit that touched a file
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct GitCommit {
+    hash: String,
+    // Commit time in milliseconds
+    timestamp: i64,
+    author: String,
+    subject: String,
+    // The file's path at this commit, relative to the repository root
+    // (it changes across renames)
+    path: String,
+}
+
+fn run_git(dir: &str, args: &[&str]) -> Result<Output, String> {
+    Command::new("git")
+        .arg("-C")
+        .arg(dir)
+        // Report non-ASCII file names as they are
+        .args(["-c", "core.quotepath=off"])
+        .args(args)
+        .output()
+        .map_err(|e| format!("Failed to run git: {}", e))
+}
+
+fn git(dir: &str, args: &[&str]) -> Result<String, String> {
+    let output = run_git(dir, args)?;
+    if !output.status.success() {
+        return Err(String::from_utf8_lossy(&output.stderr).trim().to_string());
+    }
+    Ok(String::from_utf8_lossy(&output.stdout).into_owned())
+}
+
+// Revisions come from git_file_log; refuse anything that could be read as an option
+fn check_revision(hash: &str) -> Result<(), String> {
+    if hash.is_empty() || !hash.chars().all(|c| c.is_ascii_hexdigit()) {
+        return Err(format!("Invalid commit: {}", hash));
+    }
+    Ok(())
+}
+
+// Top-level folder of the repository a directory is in, if it's in one
+#[tauri::command(async)]
+pub fn git_repo_root(dir: String) -> Option<String> {
+    git(&dir, &["rev-parse", "--show-toplevel"])
+        .ok()
+        .map(|root| root.trim().to_string())
+        .filter(|root| !root.is_empty())
+}
+
+// Commits touching a file, newest first, following renames
+#[tauri::command(async)]
+pub fn git_file_log(dir: String, file: String, limit: Option<u32>) -> Result<Vec<GitCommit>, String> {
+    let max_count = format!("--max-count={}", limit.unwrap_or(100));
+    let log = git(
+        &dir,
+        &[
+            "log",
+            "--follow",
+            max_count.as_str(),
+            "--name-only",
+            "--format=%x1e%H%x1f%at%x1f%an%x1f%s",
+            "--",
+            file.as_str(),
+        ],
+    )?;
+
+    // One record per commit: the header line, then the file's path
+    Ok(log
+        .split('\x1e')
+        .filter_map(|record| {
+            let mut lines = record.lines().filter(|line| !line.is_empty());
+            let mut fields = lines.next()?.split('\x1f');
+            let hash = fields.next()?.to_string();
+            let seconds: i64 = fields.next()?.parse().ok()?;
+            let author = fields.next()?.to_string();
+            let subject = fields.next().unwrap_or("").to_string();
+            let path = lines.next()?.to_string();
+            Some(GitCommit {
+                hash,
+                timestamp: seconds * 1000,
+                author,
+                subject,
+                path,
+            })
+        })
+        .collect())
+}
+
+// A file as it was at a commit; path is relative to the repository root
+#[tauri::command(async)]
+pub fn git_show_file(dir: String, hash: String, path: String) -> Result<String, String> {
+    check_revision(&hash)?;
+    let object = format!("{}:{}", hash, path);
+    git(&dir, &["show", object.as_str()])
+}
+
+// Commit the given files (new, changed or deleted) and nothing else that's
+// staged. Files that are gone and were never committed are skipped; nothing
+// is committed if the files didn't change.
+#[tauri::command(async)]
+pub fn git_commit_files(dir: String, files: Vec<String>, message: String) -> Result<(), String> {
+    let files: Vec<&str> = files
+        .iter()
+        .map(String::as_str)
+        .filter(|file| {
+            Path::new(&dir).join(file).exists() || git(&dir, &["ls-files", "--error-unmatch", "--", *file]).is_ok()
+        })
+        .collect();
+    if files.is_empty() {
+        return Ok(());
+    }
+
+    let mut add = vec!["add", "-A", "--"];
+    add.extend(&files);
+    git(&dir, &add)?;
+
+    let mut staged = vec!["diff", "--cached", "--quiet", "--"];
+    staged.extend(&files);
+    if run_git(&dir, &staged)?.status.success() {
+        return Ok(());
+    }
+
+    let mut commit = vec!["commit", "--quiet", "-m", message.as_str(), "--"];
+    commit.extend(&files);
+    git(&dir, &commit).map(|_| ())
+}
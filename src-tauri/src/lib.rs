@@ -1,14 +1,21 @@
 use std::sync::Mutex;
-use tauri::{Emitter, Manager};
+use tauri::{Emitter, Manager, WindowEvent};
 use tauri_plugin_deep_link::DeepLinkExt;
-use tauri_plugin_global_shortcut::{Code, GlobalShortcutExt, Modifiers, Shortcut};
+use tauri_plugin_global_shortcut::{Code, GlobalShortcutExt, Modifiers, Shortcut, ShortcutState};
 
+mod git;
 mod plugins;
 use plugins::mac_rounded_corners;
 
 // State to hold pending deep link URL until frontend is ready
 struct PendingDeepLink(Mutex<Option<String>>);
 
+// Label of the spotlight-style overlay opened by the global shortcut
+const QUICK_LAUNCH_LABEL: &str = "quick-launch";
+
+// Whether the main window had focus when the overlay opened, so focus can go back to it
+struct QuickLaunchReturnToMain(Mutex<bool>);
+
 // Command for frontend to signal it's ready and get any pending deep link
 #[tauri::command]
 fn frontend_ready(state: tauri::State<PendingDeepLink>) -> Option<String> {
@@ -27,12 +34,101 @@ fn frontend_ready(state: tauri::State<PendingDeepLink>) -> Option<String> {
     }
 }
 
+// Command to open an http(s) URL in the system browser ("Open in LLM")
+#[tauri::command]
+fn open_external_url(url: String) -> Result<(), String> {
+    if !(url.starts_with("https://") || url.starts_with("http://")) {
+        return Err(format!("Refusing to open non-http URL: {}", url));
+    }
+
+    #[cfg(target_os = "macos")]
+    let result = std::process::Command::new("open").arg(&url).spawn();
+    #[cfg(target_os = "windows")]
+    let result = std::process::Command::new("rundll32")
+        .args(["url.dll,FileProtocolHandler", &url])
+        .spawn();
+    #[cfg(all(not(target_os = "macos"), not(target_os = "windows")))]
+    let result = std::process::Command::new("xdg-open").arg(&url).spawn();
+
+    result.map(|_| ()).map_err(|e| {
+        log::error!("[OpenUrl] Failed to open URL: {}", e);
+        e.to_string()
+    })
+}
+
+// Hide the quick-launch overlay and hand focus back to the previously active app
+fn hide_quick_launch_window(app: &tauri::AppHandle) {
+    // Read before hiding: the blur handler resets the flag
+    let return_to_main = app
+        .state::<QuickLaunchReturnToMain>()
+        .0
+        .lock()
+        .map(|mut flag| std::mem::take(&mut *flag))
+        .unwrap_or(false);
+
+    if let Some(window) = app.get_webview_window(QUICK_LAUNCH_LABEL) {
+        let _ = window.hide();
+    }
+
+    if return_to_main {
+        if let Some(main) = app.get_webview_window("main") {
+            let _ = main.set_focus();
+        }
+        return;
+    }
+
+    // On macOS the app stays active after the overlay hides; hiding the app
+    // returns focus to the previous app (the main window is restored as it was)
+    #[cfg(target_os = "macos")]
+    {
+        let _ = app.hide();
+    }
+}
+
+// Command for the overlay to dismiss itself after copying (or on Escape)
+#[tauri::command]
+fn hide_quick_launch(app: tauri::AppHandle) {
+    hide_quick_launch_window(&app);
+}
+
+// Show the overlay centered and let its frontend reset the search
+fn toggle_quick_launch(app: &tauri::AppHandle) {
+    let Some(window) = app.get_webview_window(QUICK_LAUNCH_LABEL) else {
+        log::error!("[QuickLaunch] Overlay window not found");
+        return;
+    };
+
+    if window.is_visible().unwrap_or(false) {
+        hide_quick_launch_window(app);
+    } else {
+        let main_focused = app
+            .get_webview_window("main")
+            .and_then(|w| w.is_focused().ok())
+            .unwrap_or(false);
+        if let Ok(mut flag) = app.state::<QuickLaunchReturnToMain>().0.lock() {
+            *flag = main_focused;
+        }
+
+        let _ = window.center();
+        let _ = window.show();
+        let _ = window.set_focus();
+        let _ = window.emit("quick-launch-shown", ());
+    }
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
     tauri::Builder::default()
         .manage(PendingDeepLink(Mutex::new(None)))
+        .manage(QuickLaunchReturnToMain(Mutex::new(false)))
         .invoke_handler(tauri::generate_handler![
             frontend_ready,
+            open_external_url,
+            hide_quick_launch,
+            git::git_repo_root,
+            git::git_file_log,
+            git::git_show_file,
+            git::git_commit_files,
             mac_rounded_corners::enable_rounded_corners,
             mac_rounded_corners::enable_modern_window_style,
             mac_rounded_corners::reposition_traffic_lights
@@ -153,19 +249,32 @@ pub fn run() {
             #[cfg(not(target_os = "macos"))]
             let shortcut = Shortcut::new(Some(Modifiers::CONTROL | Modifiers::SHIFT), Code::KeyP);
 
-            let window = app.get_webview_window("main").unwrap();
-
             app.global_shortcut()
-                .on_shortcut(shortcut, move |_app, _shortcut, _event| {
-                    // Toggle window visibility
-                    if window.is_visible().unwrap_or(false) {
-                        let _ = window.hide();
-                    } else {
-                        let _ = window.show();
-                        let _ = window.set_focus();
+                .on_shortcut(shortcut, move |app, _shortcut, event| {
+                    // Toggle the quick-launch overlay; the main window is left alone
+                    if event.state() == ShortcutState::Pressed {
+                        toggle_quick_launch(app);
                     }
                 })?;
 
+            // Dismiss the overlay when it loses focus (click outside, app switch)
+            if let Some(overlay) = app.get_webview_window(QUICK_LAUNCH_LABEL) {
+                let overlay_clone = overlay.clone();
+                overlay.on_window_event(move |event| {
+                    if let WindowEvent::Focused(false) = event {
+                        let _ = overlay_clone.hide();
+                        if let Ok(mut flag) = overlay_clone
+                            .app_handle()
+                            .state::<QuickLaunchReturnToMain>()
+                            .0
+                            .lock()
+                        {
+                            *flag = false;
+                        }
+                    }
+                });
+            }
+
             Ok(())
         })
         .run(tauri::generate_context!())
@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createClient, type Client } from '@libsql/client';
+import { runMigrations } from '@/backend/api/migrations';
+
+// turso-queries writes to whichever device database is current; the "server"
+// is a third database file standing in for sqld
+const db = vi.hoisted(() => ({ client: null as Client | null, remote: null as Client | null }));
+
+vi.mock('@/backend/api/turso', () => ({
+  isTursoConfigured: () => true,
+  getTursoClient: () => db.client!,
+  createSyncServerClient: () => db.remote!,
+  executeQuery: async (sql: string, args: (string | number | null)[] = []) =>
+    (await db.client!.execute({ sql, args })).rows,
+  executeMutation: async (sql: string, args: (string | number | null)[] = []) =>
+    (await db.client!.execute({ sql, args })).rowsAffected,
+  executeBatch: (statements: Array<{ sql: string; args?: (string | number | null)[] }>) =>
+    db.client!.batch(statements.map((s) => ({ sql: s.sql, args: s.args || [] })), 'write'),
+}));
+
+import * as queries from '@/backend/api/turso-queries';
+import { CloudSync } from '@/backend/storage/CloudSync';
+import { TursoCloudBackend } from '@/backend/storage/TursoCloudBackend';
+import { getDeviceId } from '@/core/identity/device';
+import type { PromptChanges } from '@/shared/interfaces/StorageBackend';
+
+interface Device {
+  client: Client;
+  sync: CloudSync;
+  userId: string;
+}
+
+describe('CloudSync', () => {
+  const dbFiles: string[] = [];
+  const clients: Client[] = [];
+  let a: Device;
+  let b: Device;
+
+  async function openDatabase(): Promise<Client> {
+    const file = path.join(os.tmpdir(), `pocket-prompt-test-${crypto.randomUUID()}.db`);
+    dbFiles.push(file);
+    const client = createClient({ url: `file:${file}` });
+    clients.push(client);
+    await client.execute('PRAGMA foreign_keys = ON');
+    await runMigrations(client);
+    return client;
+  }
+
+  async function openDevice(deviceId: string): Promise<Device> {
+    const client = await openDatabase();
+    // Each device talks to the server through its own connection
+    const remote = createClient({ url: `file:${dbFiles[0]}` });
+    clients.push(remote);
+    db.client = client;
+    const userId = (await queries.getOrCreateUser(deviceId)).id;
+    return { client, sync: new CloudSync(client, remote, deviceId), userId };
+  }
+
+  /** Run turso-queries against a device's database */
+  function on(device: Device) {
+    db.client = device.client;
+    return queries;
+  }
+
+  beforeEach(async () => {
+    // The first database file is the server
+    await openDatabase();
+    a = await openDevice('device-a');
+    b = await openDevice('device-b');
+  });
+
+  afterEach(() => {
+    clients.forEach((client) => client.close());
+    clients.length = 0;
+    dbFiles.splice(0).forEach((file) => rmSync(file, { force: true }));
+  });
+
+  it('should push local changes and pull them on another device', async () => {
+    const created = await on(a).createPrompt(a.userId, {
+      title: 'Greeting',
+      description: '',
+      content: 'Hello',
+      tags: ['intro'],
+    });
+    await a.sync.refreshStatus();
+    expect(a.sync.getSyncStatus().pendingChanges).toBe(1);
+
+    await a.sync.sync();
+    await b.sync.sync();
+
+    const pulled = await on(b).getPromptsByUserId(b.userId);
+    expect(a.sync.getSyncStatus()).toMatchObject({ pendingChanges: 0, error: null });
+    expect(a.sync.getSyncStatus().lastSyncAt).not.toBeNull();
+    expect(pulled.map((p) => [p.id, p.title, p.tags])).toEqual([[created.id, 'Greeting', ['intro']]]);
+    expect(pulled[0].versions).toHaveLength(1);
+
+    // Pulled rows are not queued to be pushed back
+    await b.sync.refreshStatus();
+    expect(b.sync.getSyncStatus().pendingChanges).toBe(0);
+  });
+
+  it('should queue data written before sync was enabled', async () => {
+    await on(a).createPrompt(a.userId, { title: 'Old', description: '', content: 'x', tags: [] });
+    await a.client.execute('DELETE FROM sync_changes');
+
+    await a.sync.sync();
+    await b.sync.sync();
+
+    expect(await on(b).getPromptsByUserId(b.userId)).toHaveLength(1);
+  });
+
+  it('should propagate edits, deletions and saved searches', async () => {
+    const prompt = await on(a).createPrompt(a.userId, { title: 'T', description: '', content: 'v1', tags: [] });
+    await on(a).saveSavedSearch(a.userId, {
+      id: 'search-1',
+      name: 'Mine',
+      expression: { type: 'tag', value: 'intro' },
+      updatedAt: Date.now(),
+    });
+    await a.sync.sync();
+    await b.sync.sync();
+
+    await on(b).updatePrompt(prompt.id, { content: 'v2' }, 'Content updated');
+    await b.sync.sync();
+    await a.sync.sync();
+    expect((await on(a).getPromptById(prompt.id))?.content).toBe('v2');
+    expect(await on(b).getSavedSearches(b.userId)).toHaveLength(1);
+
+    await on(a).deletePrompt(prompt.id);
+    await a.sync.sync();
+    await b.sync.sync();
+    expect(await on(b).getPromptById(prompt.id)).toBeNull();
+  });
+
+  it('should report concurrent edits as conflicts and resolve them', async () => {
+    const prompt = await on(a).createPrompt(a.userId, { title: 'T', description: '', content: 'base', tags: [] });
+    await a.sync.sync();
+    await b.sync.sync();
+
+    await on(a).updatePrompt(prompt.id, { content: 'from a' });
+    await on(b).updatePrompt(prompt.id, { content: 'from b' });
+    await a.sync.sync();
+    await b.sync.sync();
+
+    const conflicts = await b.sync.getConflicts();
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ source: 'cloud', baseVersion: 1, baseContent: 'base' });
+    expect(conflicts[0].localVersion.content).toBe('from b');
+    expect(conflicts[0].remoteVersion.content).toBe('from a');
+
+    await b.sync.resolveConflict(prompt.id, { strategy: 'merge', mergedContent: 'from a and b', changeNote: 'Combined' });
+    await a.sync.sync();
+
+    expect(await b.sync.getConflicts()).toHaveLength(0);
+    expect((await on(a).getPromptById(prompt.id))?.content).toBe('from a and b');
+    expect((await on(b).getPromptById(prompt.id))?.content).toBe('from a and b');
+
+    // Both edits stay in the history, with the merge on top
+    const history = await on(a).getVersionHistory(prompt.id);
+    expect(history.map((v) => v.version)).toEqual([4, 3, 2, 1]);
+    expect(history[0].changeNote).toBe('Combined');
+    const contents = await Promise.all(history.map((v) => on(a).getVersionContent(v.txId)));
+    expect(contents).toEqual(['from a and b', 'from b', 'from a', 'base']);
+  });
+
+  it('should save a kept copy as a new version', async () => {
+    const prompt = await on(a).createPrompt(a.userId, { title: 'T', description: '', content: 'base', tags: [] });
+    await a.sync.sync();
+    await b.sync.sync();
+
+    await on(a).updatePrompt(prompt.id, { content: 'from a' });
+    await on(b).updatePrompt(prompt.id, { content: 'from b' });
+    await a.sync.sync();
+    await b.sync.sync();
+
+    await b.sync.resolveConflict(prompt.id, { strategy: 'remote' });
+    await a.sync.sync();
+
+    const history = await on(b).getVersionHistory(prompt.id);
+    expect((await on(b).getPromptById(prompt.id))?.content).toBe('from a');
+    expect(history[0].changeNote).toBe('Resolved conflict: kept the copy from another device');
+    expect(await on(a).getVersionHistory(prompt.id)).toHaveLength(history.length);
+  });
+
+  it('should keep working offline and leave changes queued', async () => {
+    const offline = new CloudSync(a.client, createClient({ url: 'http://127.0.0.1:9' }), 'device-a');
+    await on(a).createPrompt(a.userId, { title: 'T', description: '', content: 'c', tags: [] });
+
+    await offline.sync();
+
+    expect(offline.getSyncStatus().error).toBeTruthy();
+    expect(offline.getSyncStatus().pendingChanges).toBe(1);
+    expect(await on(a).getPromptsByUserId(a.userId)).toHaveLength(1);
+    offline.dispose();
+  });
+
+  it('should report each remote change once to a backend watched again', async () => {
+    // A third device using the cloud backend, as the app does
+    const local = await openDatabase();
+    db.client = local;
+    db.remote = createClient({ url: `file:${dbFiles[0]}` });
+    clients.push(db.remote);
+    const backend = new TursoCloudBackend('http://sync.test', undefined, false);
+    await backend.initialize();
+    await backend.getOrCreateUser(getDeviceId());
+
+    const onChange = vi.fn<(changes: PromptChanges) => void>();
+    await backend.watch(onChange);
+    await backend.watch(onChange);
+
+    const created = await on(a).createPrompt(a.userId, { title: 'T', description: '', content: 'x', tags: [] });
+    await a.sync.sync();
+    db.client = local;
+    await backend.sync.sync();
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled());
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange.mock.calls[0][0].added.map((p) => p.id)).toEqual([created.id]);
+  });
+});
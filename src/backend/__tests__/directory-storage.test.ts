@@ -0,0 +1,330 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { PromptChanges } from '@/shared/interfaces/StorageBackend';
+import { DEFAULT_DIRECTORY_OPTIONS } from '@/core/directory/folders';
+import { OBSIDIAN_FRONTMATTER_PROFILE } from '@/core/directory/frontmatter';
+
+// In-memory file system standing in for the Tauri fs plugin
+const fs = vi.hoisted(() => {
+  const files = new Map<string, { content: string; mtime: number }>();
+  const state = {
+    files,
+    clock: 1,
+    reads: 0,
+    watcher: null as ((event: { paths: string[] }) => void) | null,
+    write(path: string, content: string) {
+      files.set(path, { content, mtime: state.clock++ });
+    },
+  };
+  return state;
+});
+
+vi.mock('@tauri-apps/plugin-fs', () => ({
+  readDir: async (dir: string) => {
+    const names = new Map<string, boolean>();
+    for (const path of fs.files.keys()) {
+      if (!path.startsWith(`${dir}/`)) continue;
+      const [name, ...rest] = path.slice(dir.length + 1).split('/');
+      names.set(name, rest.length > 0);
+    }
+    return [...names].map(([name, isDirectory]) => ({ name, isDirectory, isFile: !isDirectory, isSymlink: false }));
+  },
+  readTextFile: async (path: string) => {
+    fs.reads++;
+    const file = fs.files.get(path);
+    if (!file) throw new Error(`No such file: ${path}`);
+    return file.content;
+  },
+  writeTextFile: vi.fn(async (path: string, content: string) => fs.write(path, content)),
+  remove: async (path: string) => {
+    fs.files.delete(path);
+  },
+  exists: async (path: string) => fs.files.has(path),
+  stat: async (path: string) => {
+    const file = fs.files.get(path);
+    if (!file) throw new Error(`No such file: ${path}`);
+    return { mtime: new Date(file.mtime), size: file.content.length };
+  },
+  watch: async (_path: string, callback: (event: { paths: string[] }) => void) => {
+    fs.watcher = callback;
+    return () => {
+      fs.watcher = null;
+    };
+  },
+}));
+
+vi.mock('@tauri-apps/plugin-dialog', () => ({ open: async () => null }));
+
+const git = vi.hoisted(() => ({
+  root: null as string | null,
+  commits: [] as { files: string[]; message: string }[],
+}));
+
+vi.mock('@/backend/api/git-history', () => ({
+  findRepoRoot: async () => git.root,
+  commitFiles: async (_dir: string, files: string[], message: string) => {
+    git.commits.push({ files, message });
+  },
+}));
+
+import {
+  readPromptsFromDirectory,
+  findPromptFilePath,
+  updatePromptInDirectory,
+  writePromptToDirectory,
+  watchDirectory,
+  stopWatching,
+  diagnoseDirectory,
+  assignPromptId,
+  renamePromptFile,
+  mergeDuplicatePrompts,
+} from '@/backend/api/directory-storage';
+import { DirectoryBackend } from '@/backend/storage/DirectoryBackend';
+import type { TursoLocalBackend } from '@/backend/storage/TursoLocalBackend';
+import { writeTextFile } from '@tauri-apps/plugin-fs';
+
+function markdown(id: string, title: string, content: string): string {
+  return `---\nid: ${id}\ntitle: "${title}"\n---\n\n${content}`;
+}
+
+describe('Directory storage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    // A fresh directory per test, so each starts with an empty manifest
+    dir = `/vault-${crypto.randomUUID()}`;
+    fs.files.clear();
+    fs.reads = 0;
+    fs.write(`${dir}/a.md`, markdown('a', 'A', 'first'));
+    fs.write(`${dir}/notes/b.md`, markdown('b', 'B', 'second'));
+  });
+
+  afterEach(() => {
+    stopWatching();
+    vi.useRealTimers();
+  });
+
+  it('should only re-read files that changed since the last scan', async () => {
+    expect(await readPromptsFromDirectory(dir)).toHaveLength(2);
+    expect(fs.reads).toBe(2);
+
+    fs.reads = 0;
+    await readPromptsFromDirectory(dir);
+    expect(fs.reads).toBe(0);
+
+    fs.write(`${dir}/a.md`, markdown('a', 'A', 'edited'));
+    const prompts = await readPromptsFromDirectory(dir);
+    expect(fs.reads).toBe(1);
+    expect(prompts.find(p => p.id === 'a')?.content).toBe('edited');
+  });
+
+  it('should find prompt files without reading the directory again', async () => {
+    await readPromptsFromDirectory(dir);
+    fs.reads = 0;
+
+    expect(await findPromptFilePath(dir, 'b')).toBe(`${dir}/notes/b.md`);
+    expect(await findPromptFilePath(dir, 'missing')).toBeNull();
+    expect(fs.reads).toBe(0);
+  });
+
+  it('should report added, updated and removed prompts from watch events', async () => {
+    vi.useFakeTimers();
+    await readPromptsFromDirectory(dir);
+    const onChange = vi.fn<(changes: PromptChanges) => void>();
+    await watchDirectory(dir, onChange);
+
+    fs.write(`${dir}/a.md`, markdown('a', 'A', 'edited'));
+    fs.write(`${dir}/c.md`, markdown('c', 'C', 'third'));
+    fs.files.delete(`${dir}/notes/b.md`);
+    fs.watcher!({ paths: [`${dir}/a.md`, `${dir}/c.md`, `${dir}/notes/b.md`] });
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    const changes = onChange.mock.calls[0][0];
+    expect(changes.added.map(p => p.id)).toEqual(['c']);
+    expect(changes.updated.map(p => p.content)).toEqual(['edited']);
+    expect(changes.removed).toEqual(['b']);
+  });
+
+  it('should not report the app\'s own writes or touched files', async () => {
+    vi.useFakeTimers();
+    const [prompt] = (await readPromptsFromDirectory(dir)).filter(p => p.id === 'a');
+    const onChange = vi.fn();
+    await watchDirectory(dir, onChange);
+
+    const filePath = await updatePromptInDirectory(dir, { ...prompt, content: 'saved' }, `${dir}/a.md`);
+    // Touched: new mtime, same content
+    fs.write(`${dir}/notes/b.md`, fs.files.get(`${dir}/notes/b.md`)!.content);
+    fs.watcher!({ paths: [filePath, `${dir}/notes/b.md`] });
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should hold a removal back a round to recognize renames', async () => {
+    vi.useFakeTimers();
+    await readPromptsFromDirectory(dir);
+    const onChange = vi.fn<(changes: PromptChanges) => void>();
+    await watchDirectory(dir, onChange);
+
+    // Renamed in another app: the removal and creation arrive separately
+    const content = fs.files.get(`${dir}/a.md`)!.content;
+    fs.files.delete(`${dir}/a.md`);
+    fs.watcher!({ paths: [`${dir}/a.md`] });
+    await vi.advanceTimersByTimeAsync(300);
+    fs.write(`${dir}/Renamed.md`, content);
+    fs.watcher!({ paths: [`${dir}/Renamed.md`] });
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange.mock.calls[0][0]).toMatchObject({ added: [], removed: [] });
+    expect(onChange.mock.calls[0][0].updated.map(p => p._filePath)).toEqual([`${dir}/Renamed.md`]);
+
+    // A plain deletion is reported a round later
+    fs.files.delete(`${dir}/notes/b.md`);
+    fs.watcher!({ paths: [`${dir}/notes/b.md`] });
+    await vi.advanceTimersByTimeAsync(300);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(300);
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange.mock.calls[1][0].removed).toEqual(['b']);
+  });
+
+  describe('File names', () => {
+    it('should number a new file rather than overwrite another', async () => {
+      fs.write(`${dir}/Review.md`, 'not a prompt');
+      const [prompt] = await readPromptsFromDirectory(dir);
+
+      const filePath = await writePromptToDirectory(dir, { ...prompt, id: 'r', title: 'Review', folder: '' });
+
+      expect(filePath).toBe(`${dir}/Review_2.md`);
+      expect(fs.files.get(`${dir}/Review.md`)?.content).toBe('not a prompt');
+    });
+
+    it('should rename files with their titles, and keep numbered names', async () => {
+      fs.write(`${dir}/Review.md`, 'not a prompt');
+      const [prompt] = (await readPromptsFromDirectory(dir)).filter(p => p.id === 'a');
+
+      const renamed = await updatePromptInDirectory(dir, { ...prompt, title: 'Review' }, `${dir}/a.md`);
+      expect(renamed).toBe(`${dir}/Review_2.md`);
+      expect(fs.files.has(`${dir}/a.md`)).toBe(false);
+
+      const saved = await updatePromptInDirectory(dir, { ...prompt, title: 'Review', content: 'edited' }, renamed);
+      expect(saved).toBe(renamed);
+    });
+
+    it('should name files after ids, or keep their names', async () => {
+      const options = { ...DEFAULT_DIRECTORY_OPTIONS, fileNames: 'id' as const };
+      const [prompt] = (await readPromptsFromDirectory(dir, options)).filter(p => p.id === 'a');
+      expect(await writePromptToDirectory(dir, { ...prompt, id: 'new', folder: '' }, options)).toBe(`${dir}/new.md`);
+      expect(await updatePromptInDirectory(dir, { ...prompt, title: 'Other' }, `${dir}/a.md`, options)).toBe(`${dir}/a.md`);
+
+      const keep = { ...DEFAULT_DIRECTORY_OPTIONS, fileNames: 'keep' as const };
+      await readPromptsFromDirectory(dir, keep);
+      expect(await updatePromptInDirectory(dir, { ...prompt, title: 'Other' }, `${dir}/a.md`, keep)).toBe(`${dir}/a.md`);
+    });
+  });
+
+  it('should commit saves in a git repository when asked to', async () => {
+    const options = { ...DEFAULT_DIRECTORY_OPTIONS, autoCommit: true };
+    const [prompt] = (await readPromptsFromDirectory(dir, options)).filter(p => p.id === 'a');
+    git.commits = [];
+
+    git.root = null;
+    await updatePromptInDirectory(dir, { ...prompt, content: 'edited' }, `${dir}/a.md`, options);
+    expect(git.commits).toEqual([]);
+
+    git.root = dir;
+    await updatePromptInDirectory(dir, { ...prompt, title: 'Renamed' }, `${dir}/a.md`, options);
+    expect(git.commits).toEqual([
+      { files: [`${dir}/Renamed.md`, `${dir}/a.md`], message: 'Update "Renamed" (renamed from a)' },
+    ]);
+  });
+
+  describe('Diagnostics', () => {
+    it('should list invalid files, duplicate ids and file name collisions', async () => {
+      fs.write(`${dir}/no-id.md`, '---\ntitle: "No ID"\n---\n\nbody');
+      fs.write(`${dir}/a copy.md`, markdown('a', 'A copy', 'copied'));
+      // The same file as a.md on case-insensitive file systems
+      fs.write(`${dir}/A.md`, markdown('c', 'C', 'third'));
+
+      const issues = await diagnoseDirectory(dir);
+
+      expect(issues).toContainEqual({
+        kind: 'invalid',
+        path: `${dir}/no-id.md`,
+        error: 'Missing required field: id',
+        missingId: true,
+      });
+      expect(issues).toContainEqual({ kind: 'duplicate-id', promptId: 'a', paths: [`${dir}/a copy.md`, `${dir}/a.md`] });
+      expect(issues).toContainEqual({
+        kind: 'filename-collision',
+        fileName: expect.stringMatching(/^a\.md$/i),
+        paths: expect.arrayContaining([`${dir}/a.md`, `${dir}/A.md`]),
+      });
+      expect(issues).toHaveLength(3);
+    });
+
+    it('should fix issues in the files', async () => {
+      fs.write(`${dir}/no-id.md`, '---\ntitle: "No ID"\n---\n\nbody');
+      fs.write(`${dir}/a copy.md`, '---\nid: a\ntitle: "A"\nupdated_at: 2100-01-01T00:00:00.000Z\n---\n\nnewer');
+      await readPromptsFromDirectory(dir);
+
+      await assignPromptId(dir, `${dir}/no-id.md`);
+      const merged = await mergeDuplicatePrompts(dir, 'a');
+
+      expect(fs.files.has(`${dir}/a copy.md`)).toBe(false);
+      expect(fs.files.get(merged!)?.content).toContain('newer');
+      expect(await diagnoseDirectory(dir)).toEqual([]);
+
+      const prompts = await readPromptsFromDirectory(dir);
+      expect(prompts.map(p => p.title).sort()).toEqual(['A', 'B', 'No ID']);
+    });
+
+    it('should rename a file onto a free file name', async () => {
+      fs.write(`${dir}/A.md`, markdown('c', 'A', 'third'));
+      fs.write(`${dir}/A_2.md`, 'not a prompt');
+      await readPromptsFromDirectory(dir);
+
+      const filePath = await renamePromptFile(dir, `${dir}/A.md`);
+
+      expect(filePath).toBe(`${dir}/A_3.md`);
+      expect(fs.files.has(`${dir}/A.md`)).toBe(false);
+      expect(fs.files.get(filePath)?.content).toContain('third');
+      expect((await diagnoseDirectory(dir)).filter(issue => issue.kind === 'filename-collision')).toEqual([]);
+    });
+  });
+
+  describe('Read-only directories', () => {
+    const database = {
+      initialize: async () => {},
+      getConflictRecords: async () => [],
+    } as unknown as TursoLocalBackend;
+
+    it('should not write ids into files of a read-only source', async () => {
+      vi.useFakeTimers();
+      const options = { ...DEFAULT_DIRECTORY_OPTIONS, frontmatter: OBSIDIAN_FRONTMATTER_PROFILE };
+      fs.write(`${dir}/no-id.md`, '---\naliases: "No ID"\n---\n\nbody');
+      vi.mocked(writeTextFile).mockClear();
+
+      const backend = new DirectoryBackend([{ path: dir, label: 'Team', readOnly: true }], database, options);
+      await backend.initialize();
+      const onChange = vi.fn<(changes: PromptChanges) => void>();
+      await backend.watch(onChange);
+
+      fs.write(`${dir}/no-id.md`, '---\naliases: "No ID"\n---\n\nedited');
+      fs.watcher!({ paths: [`${dir}/no-id.md`] });
+      await vi.advanceTimersByTimeAsync(300);
+
+      expect(writeTextFile).not.toHaveBeenCalled();
+      expect(fs.files.get(`${dir}/no-id.md`)!.content).not.toContain('id:');
+
+      // Shown all the same, with an ID that stays put when the file changes
+      expect(onChange).toHaveBeenCalledTimes(1);
+      const [updated] = onChange.mock.calls[0][0].updated;
+      expect(updated.title).toBe('No ID');
+      expect(updated.content).toBe('edited');
+      expect((await backend.getPromptById(updated.id))?.content).toBe('edited');
+      await backend.dispose();
+    });
+  });
+});
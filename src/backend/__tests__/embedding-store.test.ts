@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createClient, type Client } from '@libsql/client';
+import { runMigrations } from '@/backend/api/migrations';
+import { createEmbeddingStore } from '@/backend/api/embedding-store';
+
+describe('Embedding store', () => {
+  let client: Client;
+  let dbFile: string;
+
+  // A file, not :memory:, because libSQL transactions reopen the connection
+  beforeEach(async () => {
+    dbFile = path.join(os.tmpdir(), `pocket-prompt-test-${crypto.randomUUID()}.db`);
+    client = createClient({ url: `file:${dbFile}` });
+    await runMigrations(client);
+  });
+
+  afterEach(() => {
+    client.close();
+    rmSync(dbFile, { force: true });
+  });
+
+  it('should save and load vectors per model', async () => {
+    const store = createEmbeddingStore(client);
+    await store.save('model-a', [
+      { promptId: 'p1', hash: 'h1', vector: Float32Array.of(0.5, -0.25, 1) },
+      { promptId: 'p2', hash: 'h2', vector: Float32Array.of(0, 1, 0) },
+    ]);
+    await store.save('model-b', [{ promptId: 'p1', hash: 'h1', vector: Float32Array.of(1) }]);
+
+    const loaded = await store.load('model-a');
+    expect(loaded.map(e => e.promptId).sort()).toEqual(['p1', 'p2']);
+    expect(loaded.find(e => e.promptId === 'p1')).toEqual({
+      promptId: 'p1',
+      hash: 'h1',
+      vector: Float32Array.of(0.5, -0.25, 1),
+    });
+    expect(await store.load('model-b')).toHaveLength(1);
+  });
+
+  it('should replace a prompt\'s vector when saved again', async () => {
+    const store = createEmbeddingStore(client);
+    await store.save('model', [{ promptId: 'p1', hash: 'old', vector: Float32Array.of(1, 0) }]);
+    await store.save('model', [{ promptId: 'p1', hash: 'new', vector: Float32Array.of(0, 1) }]);
+
+    expect(await store.load('model')).toEqual([{ promptId: 'p1', hash: 'new', vector: Float32Array.of(0, 1) }]);
+  });
+
+  it('should remove and clear vectors', async () => {
+    const store = createEmbeddingStore(client);
+    await store.save('model', [
+      { promptId: 'p1', hash: 'h1', vector: Float32Array.of(1) },
+      { promptId: 'p2', hash: 'h2', vector: Float32Array.of(1) },
+    ]);
+
+    await store.remove('model', ['p1']);
+    expect((await store.load('model')).map(e => e.promptId)).toEqual(['p2']);
+
+    await store.clear();
+    expect(await store.load('model')).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createClient, type Client } from '@libsql/client';
+import {
+  MIGRATIONS,
+  LATEST_SCHEMA_VERSION,
+  MigrationError,
+  getSchemaVersion,
+  runMigrations,
+} from '@/backend/api/migrations';
+import type { Migration } from '@/backend/api/migrations';
+
+async function columnsOf(client: Client, table: string): Promise<string[]> {
+  const result = await client.execute(`PRAGMA table_info(${table})`);
+  return result.rows.map((row) => String(row.name));
+}
+
+describe('Schema migrations', () => {
+  let client: Client;
+  let dbFile: string;
+
+  // A file, not :memory:, because libSQL transactions reopen the connection
+  beforeEach(() => {
+    dbFile = path.join(os.tmpdir(), `pocket-prompt-test-${crypto.randomUUID()}.db`);
+    client = createClient({ url: `file:${dbFile}` });
+  });
+
+  afterEach(() => {
+    client.close();
+    rmSync(dbFile, { force: true });
+  });
+
+  it('should bring a fresh database to the latest version', async () => {
+    const result = await runMigrations(client, { backupPath: `${dbFile}.backup` });
+
+    expect(result.from).toBe(0);
+    expect(result.to).toBe(LATEST_SCHEMA_VERSION);
+    expect(result.applied).toHaveLength(MIGRATIONS.length);
+    expect(result.backupPath).toBeUndefined();
+    expect(await columnsOf(client, 'prompts')).toEqual(
+      expect.arrayContaining(['variables', 'default_provider', 'share_token'])
+    );
+    expect(await columnsOf(client, 'pack_prompts')).toContain('position');
+  });
+
+  it('should be a no-op once up to date', async () => {
+    await runMigrations(client);
+    const result = await runMigrations(client);
+
+    expect(result.applied).toEqual([]);
+    expect(await getSchemaVersion(client)).toBe(LATEST_SCHEMA_VERSION);
+  });
+
+  it('should upgrade databases created before migrations existed', async () => {
+    // Schema from the old setup script, with a column some builds already added
+    await client.executeMultiple(`
+      CREATE TABLE users (id TEXT PRIMARY KEY, device_id TEXT NOT NULL UNIQUE, created_at INTEGER, last_seen_at INTEGER);
+      CREATE TABLE prompts (
+        id TEXT PRIMARY KEY, user_id TEXT NOT NULL, title TEXT NOT NULL, description TEXT DEFAULT '',
+        content TEXT NOT NULL, is_archived INTEGER NOT NULL DEFAULT 0, created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL, current_version INTEGER NOT NULL DEFAULT 1, share_token TEXT
+      );
+      INSERT INTO users VALUES ('u1', 'device', 0, 0);
+      INSERT INTO prompts (id, user_id, title, content, created_at, updated_at) VALUES ('p1', 'u1', 'Kept', 'Body', 0, 0);
+    `);
+
+    const backupPath = `${dbFile}.backup`;
+    const result = await runMigrations(client, { backupPath });
+
+    expect(result.backupPath).toBe(backupPath);
+    expect(existsSync(backupPath)).toBe(true);
+    rmSync(backupPath, { force: true });
+
+    const rows = await client.execute('SELECT title, variables FROM prompts');
+    expect(rows.rows).toEqual([expect.objectContaining({ title: 'Kept', variables: null })]);
+    expect(await getSchemaVersion(client)).toBe(LATEST_SCHEMA_VERSION);
+  });
+
+  it('should roll back a failing migration and report it', async () => {
+    const broken: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: LATEST_SCHEMA_VERSION + 1,
+        name: 'broken',
+        up: async (tx) => {
+          await tx.execute('CREATE TABLE half_done (id TEXT)');
+          await tx.execute('SELECT * FROM missing_table');
+        },
+      },
+    ];
+
+    const error = await runMigrations(client, { migrations: broken }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(MigrationError);
+    expect((error as MigrationError).version).toBe(LATEST_SCHEMA_VERSION + 1);
+    expect(await getSchemaVersion(client)).toBe(LATEST_SCHEMA_VERSION);
+    const tables = await client.execute("SELECT name FROM sqlite_master WHERE name = 'half_done'");
+    expect(tables.rows).toHaveLength(0);
+  });
+});
@@ -0,0 +1,316 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createClient, type Client } from '@libsql/client';
+import { runMigrations } from '@/backend/api/migrations';
+import type { Prompt } from '@/shared/types/prompt';
+
+// Real queries against a throwaway database file (see turso-packs.test.ts)
+const db = vi.hoisted(() => ({ client: null as Client | null }));
+
+vi.mock('@/backend/api/turso', () => ({
+  isTursoConfigured: () => true,
+  executeQuery: async (sql: string, args: (string | number | null)[] = []) =>
+    (await db.client!.execute({ sql, args })).rows,
+  executeMutation: async (sql: string, args: (string | number | null)[] = []) =>
+    (await db.client!.execute({ sql, args })).rowsAffected,
+  executeBatch: (statements: Array<{ sql: string; args?: (string | number | null)[] }>) =>
+    db.client!.batch(statements.map((s) => ({ sql: s.sql, args: s.args || [] })), 'write'),
+}));
+
+// In-memory stand-in for the attached directory, keyed by file path
+const files = vi.hoisted(() => new Map<string, Prompt>());
+// Set to make the next file updates fail
+const writes = vi.hoisted(() => ({ error: null as Error | null }));
+
+vi.mock('@/backend/api/directory-storage', () => {
+  const pathFor = (dir: string, prompt: Prompt) =>
+    `${dir}/${prompt.folder ? `${prompt.folder}/` : ''}${prompt.title}.md`;
+  const inDir = (dir: string) => [...files.entries()].filter(([filePath]) => filePath.startsWith(`${dir}/`));
+  return {
+    readPromptsFromDirectory: async (dir: string) =>
+      inDir(dir).map(([filePath, p]) => ({ ...p, _filePath: filePath })),
+    writePromptToDirectory: async (dir: string, prompt: Prompt) => {
+      files.set(pathFor(dir, prompt), prompt);
+      return pathFor(dir, prompt);
+    },
+    updatePromptInDirectory: async (dir: string, prompt: Prompt, oldFilePath?: string) => {
+      if (writes.error) throw writes.error;
+      if (oldFilePath) files.delete(oldFilePath);
+      files.set(pathFor(dir, prompt), prompt);
+      return pathFor(dir, prompt);
+    },
+    readPromptFile: async (_dir: string, filePath: string) =>
+      files.has(filePath) ? { ...files.get(filePath)!, _filePath: filePath } : null,
+    deletePromptFromDirectory: async (filePath: string) => {
+      files.delete(filePath);
+    },
+    findPromptFilePath: async (dir: string, id: string) =>
+      inDir(dir).find(([, p]) => p.id === id)?.[0] ?? null,
+    watchDirectory: async () => () => {},
+    diagnoseDirectory: async () => [],
+    generatePromptId: () => `prompt_${crypto.randomUUID()}`,
+  };
+});
+
+import { createStorageBackend } from '@/shared/interfaces/StorageBackend';
+import { TursoLocalBackend } from '@/backend/storage/TursoLocalBackend';
+import { DirectoryBackend, ReadOnlySourceError } from '@/backend/storage/DirectoryBackend';
+import { DEFAULT_DIRECTORY_OPTIONS, type DirectoryOptions } from '@/core/directory/folders';
+import { directorySource } from '@/shared/types/sync';
+
+describe('Storage backends', () => {
+  let dbFile: string;
+
+  beforeEach(async () => {
+    files.clear();
+    writes.error = null;
+    dbFile = path.join(os.tmpdir(), `pocket-prompt-test-${crypto.randomUUID()}.db`);
+    db.client = createClient({ url: `file:${dbFile}` });
+    await db.client.execute('PRAGMA foreign_keys = ON');
+    await runMigrations(db.client);
+  });
+
+  afterEach(() => {
+    db.client?.close();
+    rmSync(dbFile, { force: true });
+  });
+
+  describe('createStorageBackend', () => {
+    it('should return a backend for each implemented type', () => {
+      expect(createStorageBackend({ type: 'turso-local' })).toBeInstanceOf(TursoLocalBackend);
+      expect(createStorageBackend({ type: 'directory', directoryPath: '/prompts' })).toBeInstanceOf(DirectoryBackend);
+    });
+
+    it('should throw for unimplemented types and missing config', () => {
+      expect(() => createStorageBackend({ type: 'arweave' })).toThrow();
+      expect(() => createStorageBackend({ type: 'turso-cloud' })).toThrow('tursoUrl');
+      expect(() => createStorageBackend({ type: 'directory' })).toThrow('directoryPath');
+    });
+
+    it('should read the local copy of a cloud database when only reading', () => {
+      const backend = createStorageBackend({ type: 'turso-cloud', tursoUrl: 'https://sync.example', readOnly: true });
+      expect(backend.type).toBe('turso-local');
+      expect(backend.sync).toBeUndefined();
+    });
+  });
+
+  describe('TursoLocalBackend', () => {
+    it('should map users and page prompts', async () => {
+      const backend = new TursoLocalBackend();
+      await backend.initialize();
+      const user = await backend.getOrCreateUser('device-a');
+
+      for (const title of ['A', 'B', 'C']) {
+        await backend.createPrompt(user.id, { title, description: '', content: title, tags: [] });
+      }
+
+      expect(backend.isReady()).toBe(true);
+      expect(user.identifier).toBe('device-a');
+      expect(await backend.getPromptsByUserId(user.id, { limit: 2 })).toHaveLength(2);
+      expect(await backend.getPromptsByUserId(user.id, { offset: 2 })).toHaveLength(1);
+    });
+
+    it('should restore an earlier version as a new one', async () => {
+      const backend = new TursoLocalBackend();
+      const user = await backend.getOrCreateUser('device-a');
+      const prompt = await backend.createPrompt(user.id, { title: 'T', description: '', content: 'v1', tags: [] });
+      await backend.updatePrompt(prompt.id, { content: 'v2' });
+
+      const first = (await backend.getVersionHistory(prompt.id)).find((v) => v.version === 1)!;
+      const restored = await backend.restoreVersion(prompt.id, first.txId);
+
+      expect(restored?.content).toBe('v1');
+      expect(await backend.getVersionHistory(prompt.id)).toHaveLength(3);
+    });
+  });
+
+  describe('DirectoryBackend', () => {
+    async function setup(options?: DirectoryOptions) {
+      const database = new TursoLocalBackend();
+      const backend = new DirectoryBackend([directorySource('/prompts')], database, options);
+      await backend.initialize();
+      const user = await backend.getOrCreateUser('device-a');
+      return { backend, database, user };
+    }
+
+    it('should write prompts to files and mirror them into the database', async () => {
+      const { backend, database, user } = await setup();
+
+      const prompt = await backend.createPrompt(user.id, {
+        title: 'Greeting',
+        description: '',
+        content: 'Hello',
+        tags: ['intro'],
+      });
+
+      expect(files.has('/prompts/Greeting.md')).toBe(true);
+      expect((await database.getPromptById(prompt.id))?.content).toBe('Hello');
+      expect(await backend.getAllUserTags()).toEqual(['intro']);
+    });
+
+    it('should place prompts in nested folders and tag them with the folders', async () => {
+      const { backend, user } = await setup({ ...DEFAULT_DIRECTORY_OPTIONS, foldersAsTags: true });
+
+      const prompt = await backend.createPrompt(user.id, {
+        title: 'Review',
+        description: '',
+        content: 'c',
+        tags: ['python'],
+        folder: 'coding/python',
+      });
+
+      expect(files.has('/prompts/coding/python/Review.md')).toBe(true);
+      expect(prompt.folder).toBe('coding/python');
+      expect(prompt.tags).toEqual(['python', 'coding']);
+
+      const renamed = await backend.updatePrompt(prompt.id, { title: 'Code review' });
+      expect(renamed?.folder).toBe('coding/python');
+      expect(files.has('/prompts/coding/python/Code review.md')).toBe(true);
+    });
+
+    it('should rename files on update and keep history in the database', async () => {
+      const { backend, user } = await setup();
+      const prompt = await backend.createPrompt(user.id, { title: 'Old', description: '', content: 'v1', tags: [] });
+
+      const updated = await backend.updatePrompt(prompt.id, { title: 'New', content: 'v2' }, 'Content updated');
+
+      expect(updated?.title).toBe('New');
+      expect([...files.keys()]).toEqual(['/prompts/New.md']);
+      expect(await backend.getVersionHistory(prompt.id)).toHaveLength(2);
+    });
+
+    it('should record edits made on disk as versions and return their history', async () => {
+      const { backend, user } = await setup();
+      const prompt = await backend.createPrompt(user.id, { title: 'T', description: '', content: 'v1', tags: [] });
+      expect(prompt.versions).toHaveLength(1);
+
+      // Edited in another editor
+      files.set('/prompts/T.md', { ...files.get('/prompts/T.md')!, content: 'v2' });
+      await backend.getPromptsByUserId(user.id);
+
+      await vi.waitFor(async () => expect(await backend.getVersionHistory(prompt.id)).toHaveLength(2));
+      const [reloaded] = await backend.getPromptsByUserId(user.id);
+      expect(reloaded.versions.map((v) => v.version).sort()).toEqual([1, 2]);
+    });
+
+    it('should archive in the file and delete from both stores', async () => {
+      const { backend, database, user } = await setup();
+      const prompt = await backend.createPrompt(user.id, { title: 'T', description: '', content: 'c', tags: [] });
+
+      await backend.archivePrompt(prompt.id);
+      expect(files.get('/prompts/T.md')?.isArchived).toBe(true);
+      expect((await database.getPromptById(prompt.id))?.isArchived).toBe(true);
+      expect(await backend.getPromptsByUserId(user.id)).toHaveLength(0);
+
+      await backend.deletePrompt(prompt.id);
+      expect(files.size).toBe(0);
+      expect(await database.getPromptById(prompt.id)).toBeNull();
+    });
+
+    it('should record an edit that raced a change on disk as a conflict', async () => {
+      const { backend, database, user } = await setup();
+      const prompt = await backend.createPrompt(user.id, { title: 'T', description: '', content: 'base', tags: [] });
+      const onConflict = vi.fn();
+      backend.conflicts.onConflictsChange(onConflict);
+
+      // Changed in another editor while the app was editing 'base'
+      files.set('/prompts/T.md', { ...files.get('/prompts/T.md')!, content: 'from file' });
+      const result = await backend.updatePrompt(prompt.id, { content: 'from app', baseContent: 'base' });
+
+      expect(result?.content).toBe('from file');
+      expect(files.get('/prompts/T.md')?.content).toBe('from file');
+      expect((await database.getPromptById(prompt.id))?.content).toBe('from app');
+      expect(onConflict).toHaveBeenCalled();
+
+      const [conflict] = await backend.getConflicts();
+      expect(conflict).toMatchObject({ source: 'directory', baseVersion: 1, baseContent: 'base' });
+      expect(conflict.localVersion.content).toBe('from app');
+      expect(conflict.remoteVersion.content).toBe('from file');
+
+      await backend.resolveConflict(prompt.id, { strategy: 'merge', mergedContent: 'from app and file' });
+
+      expect(await backend.getConflicts()).toHaveLength(0);
+      expect(files.get('/prompts/T.md')?.content).toBe('from app and file');
+      const [latest] = await database.getVersionHistory(prompt.id);
+      expect(latest.changeNote).toBe('Merged with changes made to the file');
+    });
+
+    it('should keep a conflict when writing its resolution fails', async () => {
+      const { backend, database, user } = await setup();
+      const prompt = await backend.createPrompt(user.id, { title: 'T', description: '', content: 'base', tags: [] });
+      files.set('/prompts/T.md', { ...files.get('/prompts/T.md')!, content: 'from file' });
+      await backend.updatePrompt(prompt.id, { content: 'from app', baseContent: 'base' });
+
+      writes.error = new Error('Disk full');
+      await expect(backend.resolveConflict(prompt.id, { strategy: 'local' })).rejects.toThrow('Disk full');
+
+      const [conflict] = await backend.getConflicts();
+      expect(conflict.localVersion.content).toBe('from app');
+      expect((await database.getPromptById(prompt.id))?.content).toBe('from app');
+      expect(files.get('/prompts/T.md')?.content).toBe('from file');
+
+      writes.error = null;
+      await backend.resolveConflict(prompt.id, { strategy: 'local' });
+      expect(await backend.getConflicts()).toHaveLength(0);
+      expect(files.get('/prompts/T.md')?.content).toBe('from app');
+    });
+
+    it('should save normally when the file is unchanged', async () => {
+      const { backend, user } = await setup();
+      const prompt = await backend.createPrompt(user.id, { title: 'T', description: '', content: 'base', tags: [] });
+
+      await backend.updatePrompt(prompt.id, { content: 'edited', baseContent: 'base' });
+
+      expect(files.get('/prompts/T.md')?.content).toBe('edited');
+      expect(await backend.getConflicts()).toHaveLength(0);
+    });
+
+    it('should leave the database copy alone when only reading', async () => {
+      const { backend, database, user } = await setup();
+      const prompt = await backend.createPrompt(user.id, { title: 'T', description: '', content: 'v1', tags: [] });
+      files.set('/prompts/T.md', { ...files.get('/prompts/T.md')!, content: 'v2' });
+
+      const reader = createStorageBackend({ type: 'directory', directoryPath: '/prompts', readOnly: true });
+      await reader.initialize();
+      const [read] = await reader.getPromptsByUserId(user.id);
+      expect(read.content).toBe('v2');
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(await database.getVersionHistory(prompt.id)).toHaveLength(1);
+    });
+
+    it('should combine several directories, writing only to the default one', async () => {
+      const prompt = (id: string, title: string): Prompt => ({
+        id, title, description: '', content: title, tags: [], currentTxId: '', versions: [],
+        createdAt: 1, updatedAt: 1, isArchived: false, isSynced: true,
+      });
+      files.set('/team/Shared.md', prompt('shared', 'Shared'));
+      files.set('/team/Mine.md', prompt('mine', 'Team copy'));
+      files.set('/mine/Mine.md', prompt('mine', 'Mine'));
+
+      const database = new TursoLocalBackend();
+      const backend = new DirectoryBackend(
+        [{ path: '/team', label: 'Team', readOnly: true }, directorySource('/mine')],
+        database,
+        DEFAULT_DIRECTORY_OPTIONS,
+        '/mine'
+      );
+      await backend.initialize();
+      const user = await backend.getOrCreateUser('device-a');
+
+      const prompts = await backend.getPromptsByUserId(user.id);
+      expect(prompts.map((p) => [p.title, p.source]).sort()).toEqual([['Mine', '/mine'], ['Shared', '/team']]);
+      expect(await backend.getDiagnostics()).toEqual([
+        { kind: 'source-collision', promptId: 'mine', paths: ['/mine/Mine.md', '/team/Mine.md'] },
+      ]);
+
+      await expect(backend.updatePrompt('shared', { content: 'edited' })).rejects.toThrow(ReadOnlySourceError);
+      expect(files.get('/team/Shared.md')?.content).toBe('Shared');
+
+      await backend.createPrompt(user.id, { title: 'New', description: '', content: 'c', tags: [] });
+      expect(files.has('/mine/New.md')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createClient, type Client } from '@libsql/client';
+import { runMigrations } from '@/backend/api/migrations';
+
+// Run the real queries against a throwaway database file with the real schema
+// (a file, not :memory:, because libSQL transactions reopen the connection)
+const db = vi.hoisted(() => ({ client: null as Client | null }));
+
+vi.mock('@/backend/api/turso', () => ({
+  executeQuery: async (sql: string, args: (string | number | null)[] = []) =>
+    (await db.client!.execute({ sql, args })).rows,
+  executeMutation: async (sql: string, args: (string | number | null)[] = []) =>
+    (await db.client!.execute({ sql, args })).rowsAffected,
+  executeBatch: (statements: Array<{ sql: string; args?: (string | number | null)[] }>) =>
+    db.client!.batch(statements.map((s) => ({ sql: s.sql, args: s.args || [] })), 'write'),
+}));
+
+import {
+  getOrCreateUser,
+  createPrompt,
+  getPromptsByUserId,
+  deletePrompt,
+  tursoPackStorage as packs,
+} from '@/backend/api/turso-queries';
+
+async function seedPrompts(userId: string, titles: string[]): Promise<string[]> {
+  const ids: string[] = [];
+  for (const title of titles) {
+    const prompt = await createPrompt(userId, { title, description: '', content: `${title} content`, tags: [] });
+    ids.push(prompt.id);
+  }
+  return ids;
+}
+
+describe('Turso PackStorage', () => {
+  let userId: string;
+  let dbFile: string;
+
+  beforeEach(async () => {
+    dbFile = path.join(os.tmpdir(), `pocket-prompt-test-${crypto.randomUUID()}.db`);
+    db.client = createClient({ url: `file:${dbFile}` });
+    await db.client.execute('PRAGMA foreign_keys = ON');
+    await runMigrations(db.client);
+    userId = (await getOrCreateUser('device-a')).id;
+  });
+
+  afterEach(() => {
+    db.client?.close();
+    rmSync(dbFile, { force: true });
+  });
+
+  it('should create packs with ordered prompts and cover metadata', async () => {
+    const [a, b, c] = await seedPrompts(userId, ['A', 'B', 'C']);
+    const created = await packs.createPack(userId, {
+      name: 'Starter',
+      description: 'Basics',
+      promptIds: [c, a, b, a],
+      tags: ['intro'],
+      coverColor: '#ff8800',
+    });
+
+    const loaded = await packs.getPackById(created.id);
+    expect(loaded?.promptIds).toEqual([c, a, b]);
+    expect(loaded?.tags).toEqual(['intro']);
+    expect(loaded?.coverColor).toBe('#ff8800');
+    expect(loaded?.visibility).toBe('private');
+    expect(await packs.getPacksByUserId(userId)).toHaveLength(1);
+  });
+
+  it('should append, remove and reorder prompts', async () => {
+    const [a, b, c] = await seedPrompts(userId, ['A', 'B', 'C']);
+    const pack = await packs.createPack(userId, { name: 'P', description: '', promptIds: [a] });
+
+    await packs.addPromptsToPack(pack.id, [b, a, c]);
+    expect((await packs.getPackById(pack.id))?.promptIds).toEqual([a, b, c]);
+
+    await packs.reorderPackPrompts(pack.id, [c, a]);
+    expect((await packs.getPackById(pack.id))?.promptIds).toEqual([c, a, b]);
+
+    await packs.removePromptsFromPack(pack.id, [a]);
+    expect((await packs.getPackById(pack.id))?.promptIds).toEqual([c, b]);
+  });
+
+  it('should never delete prompts when a pack is deleted', async () => {
+    const ids = await seedPrompts(userId, ['A', 'B']);
+    const pack = await packs.createPack(userId, { name: 'P', description: '', promptIds: ids });
+
+    await packs.deletePack(pack.id);
+
+    expect(await packs.getPackById(pack.id)).toBeNull();
+    expect((await getPromptsByUserId(userId)).map((p) => p.id).sort()).toEqual([...ids].sort());
+  });
+
+  it('should drop membership when a prompt is deleted', async () => {
+    const [a, b] = await seedPrompts(userId, ['A', 'B']);
+    const pack = await packs.createPack(userId, { name: 'P', description: '', promptIds: [a, b] });
+
+    await deletePrompt(a);
+
+    expect((await packs.getPackById(pack.id))?.promptIds).toEqual([b]);
+  });
+
+  it('should share, import and unshare packs', async () => {
+    const ids = await seedPrompts(userId, ['A', 'B']);
+    const pack = await packs.createPack(userId, { name: 'Shared', description: 'Team pack', promptIds: ids });
+
+    const token = await packs.sharePack(pack.id);
+    expect(await packs.sharePack(pack.id)).toBe(token);
+    expect((await packs.getPackByShareToken(token))?.visibility).toBe('shared');
+
+    const other = await getOrCreateUser('device-b');
+    const imported = await packs.importPack(other.id, token);
+    const copies = await getPromptsByUserId(other.id);
+
+    expect(imported.ownerId).toBe(other.id);
+    expect(imported.name).toBe('Shared');
+    expect(copies.map((p) => p.title).sort()).toEqual(['A', 'B']);
+    expect(imported.promptIds).not.toContain(ids[0]);
+
+    await packs.unsharePack(pack.id);
+    expect(await packs.getPackByShareToken(token)).toBeNull();
+    await expect(packs.importPack(other.id, token)).rejects.toThrow();
+  });
+
+  it('should store NULL for empty variables and ignore malformed ones', async () => {
+    const [a, b] = await seedPrompts(userId, ['A', 'B']);
+    const stored = await db.client!.execute({ sql: 'SELECT variables, default_provider FROM prompts WHERE id = ?', args: [a] });
+    expect(stored.rows[0]).toEqual(expect.objectContaining({ variables: null, default_provider: null }));
+
+    await db.client!.execute({ sql: 'UPDATE prompts SET variables = ? WHERE id = ?', args: ['{not json', a] });
+    await db.client!.execute({ sql: 'UPDATE prompts SET variables = ? WHERE id = ?', args: ['[{"name":"topic","default":3},"tone"]', b] });
+
+    const prompts = await getPromptsByUserId(userId);
+    expect(prompts.find((p) => p.id === a)?.variables).toBeUndefined();
+    expect(prompts.find((p) => p.id === b)?.variables).toEqual([{ name: 'topic', default: '3' }, { name: 'tone' }]);
+  });
+});
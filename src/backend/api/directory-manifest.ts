@@ -0,0 +1,110 @@
+/**
+ * Directory manifest
+ *
+ * What was last read from each file of an attached directory: its mtime,
+ * size and content hash, and the prompt parsed from it. A file whose mtime
+ * and size are unchanged isn't read again; one whose content hashes the
+ * same isn't parsed again. The manifest also maps prompt IDs to files.
+ */
+
+import type { Prompt } from '@/shared/types/prompt';
+
+export type PromptFile = Prompt & { _filePath: string };
+
+export interface ManifestEntry {
+  /** Absolute file path */
+  path: string;
+  /** Modification time in ms (null where the platform doesn't report it) */
+  mtime: number | null;
+  size: number;
+  hash: string;
+  /** Null for files that aren't valid prompts */
+  prompt: PromptFile | null;
+  /** Why the file isn't a valid prompt */
+  error?: string;
+  /** Whether the file only needs an id to be valid */
+  missingId?: boolean;
+}
+
+/**
+ * FNV-1a hash of a file's text; only used to tell contents apart, so it
+ * doesn't need to be cryptographic
+ */
+export function hashContent(content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16).padStart(8, '0')}:${content.length}`;
+}
+
+export class DirectoryManifest {
+  /** Options the entries were read with; entries are dropped when they change */
+  readonly optionsKey: string;
+  /** Whether the whole directory has been scanned at least once */
+  scanned = false;
+  /** Bumped on every change to the entries */
+  revision = 0;
+
+  private entries = new Map<string, ManifestEntry>();
+  private paths = new Map<string, string>();
+
+  constructor(optionsKey: string) {
+    this.optionsKey = optionsKey;
+  }
+
+  get(path: string): ManifestEntry | undefined {
+    return this.entries.get(path);
+  }
+
+  /** File a prompt is stored in */
+  pathOf(promptId: string): string | null {
+    return this.paths.get(promptId) ?? null;
+  }
+
+  /** Whether a file still matches its entry, judging by mtime and size */
+  isCurrent(path: string, mtime: number | null, size: number): boolean {
+    const entry = this.entries.get(path);
+    return !!entry && entry.mtime !== null && entry.mtime === mtime && entry.size === size;
+  }
+
+  set(entry: ManifestEntry): void {
+    this.delete(entry.path);
+    this.entries.set(entry.path, entry);
+    this.revision++;
+    if (entry.prompt) {
+      this.paths.set(entry.prompt.id, entry.path);
+    }
+  }
+
+  /** Forget a file; returns its entry */
+  delete(path: string): ManifestEntry | undefined {
+    const entry = this.entries.get(path);
+    if (!entry) return undefined;
+
+    this.entries.delete(path);
+    this.revision++;
+    const id = entry.prompt?.id;
+    if (id && this.paths.get(id) === path) {
+      this.paths.delete(id);
+      // Another file with the same ID (a copy) takes over
+      const other = [...this.entries.values()].find((e) => e.prompt?.id === id);
+      if (other) this.paths.set(id, other.path);
+    }
+    return entry;
+  }
+
+  files(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  all(): ManifestEntry[] {
+    return [...this.entries.values()];
+  }
+
+  /** Every prompt, one per ID */
+  prompts(): PromptFile[] {
+    return [...this.paths.values()].map((path) => this.entries.get(path)!.prompt!);
+  }
+}
@@ -3,78 +3,201 @@
  *
  * Provides real-time 1-to-1 mapping between the app and a local directory.
  * When attached, the filesystem IS the source of truth for prompts.
- * - Reads all valid .md files from the directory
- * - Creates new .md files when prompts are added
- * - Updates .md files when prompts are edited
+ * - Reads all valid .md files from the directory and its subfolders
+ *   (filtered by the include/exclude globs in DirectoryOptions)
+ * - Creates new .md files when prompts are added, in the folder matching
+ *   their first tag
+ * - Updates .md files in place when prompts are edited
  * - Deletes .md files when prompts are deleted
  * - Watches for filesystem changes and syncs to UI
+ *
+ * A manifest per directory (see directory-manifest.ts) remembers what each
+ * file held, so rescans only read files whose mtime or size changed and
+ * watchers report just the prompts that changed. It also keeps files that
+ * aren't valid prompts, which diagnoseDirectory lists with other problems.
+ *
+ * With autoCommit on, saves in a git repository are committed (see
+ * git-history.ts).
  */
 
-import { readDir, readTextFile, writeTextFile, remove, exists, watch } from '@tauri-apps/plugin-fs';
+import { readDir, readTextFile, writeTextFile, remove, exists, stat, watch } from '@tauri-apps/plugin-fs';
 import { open } from '@tauri-apps/plugin-dialog';
+import matter from 'gray-matter';
 import { parseMarkdownPrompt, type ImportedPrompt } from '@/shared/utils/import';
 import type { Prompt } from '@/shared/types/prompt';
+import type { DirectoryIssue, PromptChanges } from '@/shared/interfaces/StorageBackend';
+import {
+  DEFAULT_DIRECTORY_OPTIONS,
+  folderForTags,
+  folderOf,
+  folderTags,
+  isExcludedPath,
+  isIncludedFile,
+  relativePath,
+  withFolderTags,
+  type DirectoryOptions,
+} from '@/core/directory/folders';
+import {
+  frontmatterLines,
+  needsId,
+  withAssignedId,
+  type FrontmatterProfile,
+} from '@/core/directory/frontmatter';
+import { DirectoryManifest, hashContent, type ManifestEntry, type PromptFile } from './directory-manifest';
+import { commitFiles, findRepoRoot } from './git-history';
+
+// One watcher per attached directory, by path
+const watchers = new Map<string, () => void>();
+
+// One manifest per attached directory
+const manifests = new Map<string, DirectoryManifest>();
+
+// Listeners for rescans that changed what's known about a directory's files
+type DirectoryRefreshListener = (directoryPath: string) => void;
+const refreshListeners: Set<DirectoryRefreshListener> = new Set();
 
-// Event listeners for directory changes
-type DirectoryChangeListener = (prompts: Prompt[]) => void;
-const changeListeners: Set<DirectoryChangeListener> = new Set();
-let currentWatchUnsubscribe: (() => void) | null = null;
+/**
+ * Prompt to markdown conversion (matches UploadDialog export format with
+ * the default profile). `previous` is the frontmatter of the file being
+ * replaced, whose unmapped keys are kept.
+ */
+function promptToMarkdown(prompt: Prompt, profile: FrontmatterProfile, previous?: Record<string, unknown>): string {
+  return ['---', ...frontmatterLines(prompt, profile, previous), '---', '', prompt.content].join('\n');
+}
 
 /**
- * Prompt to markdown conversion (matches UploadDialog export format)
+ * Sanitize filename for filesystem
  */
-function promptToMarkdown(prompt: Prompt): string {
-  const frontmatter = [
-    '---',
-    `id: ${prompt.id}`,
-    `title: "${prompt.title.replace(/"/g, '\\"')}"`,
-  ];
+function sanitizeFilename(name: string): string {
+  return name
+    .replace(/[<>:"/\\|?*]/g, '_')
+    .replace(/\s+/g, '_')
+    .slice(0, 100);
+}
 
-  if (prompt.description) {
-    frontmatter.push(`description: "${prompt.description.replace(/"/g, '\\"')}"`);
-  }
+/**
+ * Name (without extension) the naming strategy gives a prompt's file
+ */
+function baseNameFor(prompt: Prompt, options: DirectoryOptions): string {
+  return sanitizeFilename(options.fileNames === 'id' ? prompt.id : prompt.title);
+}
 
-  if (prompt.tags.length > 0) {
-    frontmatter.push(`tags:`);
-    prompt.tags.forEach(tag => {
-      frontmatter.push(`  - ${tag}`);
-    });
-  }
+/**
+ * Whether a file is named `base.md` or one of its numbered variants
+ * (`base_2.md`, ...)
+ */
+function isNamedAfter(filePath: string, base: string): boolean {
+  const name = filePath.slice(filePath.lastIndexOf('/') + 1);
+  if (!name.startsWith(base)) return false;
+  return /^(_\d+)?\.md$/.test(name.slice(base.length));
+}
 
-  frontmatter.push(`created_at: ${new Date(prompt.createdAt).toISOString()}`);
-  frontmatter.push(`updated_at: ${new Date(prompt.updatedAt).toISOString()}`);
+/**
+ * Absolute path of a file in a folder of the attached directory
+ */
+function joinPath(directoryPath: string, folder: string, filename: string): string {
+  return folder ? `${directoryPath}/${folder}/${filename}` : `${directoryPath}/${filename}`;
+}
 
-  if (prompt.isArchived) {
-    frontmatter.push(`archived: true`);
-  }
+/**
+ * Folder of a file, relative to the attached directory
+ */
+function folderOfFile(directoryPath: string, filePath: string): string {
+  return folderOf(relativePath(directoryPath, filePath) ?? '');
+}
 
-  frontmatter.push('---');
-  frontmatter.push('');
-  frontmatter.push(prompt.content);
+/**
+ * Markdown for a prompt about to be written into a folder. Tags implied by
+ * the folder aren't repeated in the frontmatter.
+ */
+function promptToFile(
+  prompt: Prompt,
+  folder: string,
+  options: DirectoryOptions,
+  previous?: Record<string, unknown>
+): string {
+  if (!options.foldersAsTags) return promptToMarkdown(prompt, options.frontmatter, previous);
+
+  const implied = new Set(folderTags(folder).map(t => t.toLowerCase()));
+  const tags = prompt.tags.filter(t => !implied.has(t.toLowerCase()));
+  return promptToMarkdown({ ...prompt, tags }, options.frontmatter, previous);
+}
 
-  return frontmatter.join('\n');
+/**
+ * Frontmatter of an existing file ({} if it can't be read)
+ */
+async function readFrontmatterOf(filePath: string): Promise<Record<string, unknown>> {
+  try {
+    return { ...matter(await readTextFile(filePath)).data };
+  } catch {
+    return {};
+  }
 }
 
 /**
- * Sanitize filename for filesystem
+ * File name without folder and extension, the title of notes without one
  */
-function sanitizeFilename(name: string): string {
-  return name
-    .replace(/[<>:"/\\|?*]/g, '_')
-    .replace(/\s+/g, '_')
-    .slice(0, 100);
+function fileTitle(filePath: string): string {
+  return filePath.slice(filePath.lastIndexOf('/') + 1).replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Recursively list prompt files (relative paths) and folders, skipping
+ * excluded folders. Unreadable subfolders are skipped; an unreadable
+ * directory root throws.
+ */
+async function walkDirectory(
+  directoryPath: string,
+  options: DirectoryOptions
+): Promise<{ files: string[]; folders: string[] }> {
+  const files: string[] = [];
+  const folders: string[] = [];
+
+  const visit = async (folder: string) => {
+    const entries = await readDir(folder ? `${directoryPath}/${folder}` : directoryPath);
+
+    for (const entry of entries) {
+      if (!entry.name) continue;
+      const path = folder ? `${folder}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory) {
+        // Symlinked folders can loop back on themselves
+        if (entry.isSymlink || isExcludedPath(path, options)) continue;
+        folders.push(path);
+        try {
+          await visit(path);
+        } catch (error) {
+          console.warn(`Failed to read folder ${path}:`, error);
+        }
+      } else if (isIncludedFile(path, options)) {
+        files.push(path);
+      }
+    }
+  };
+
+  await visit('');
+  return { files, folders };
 }
 
 /**
  * Convert ImportedPrompt to full Prompt type
  */
-function importedToPrompt(imported: ImportedPrompt, filePath: string): Prompt & { _filePath: string } {
+function importedToPrompt(
+  imported: ImportedPrompt,
+  filePath: string,
+  directoryPath: string,
+  options: DirectoryOptions
+): PromptFile {
+  const folder = folderOfFile(directoryPath, filePath);
   return {
     id: imported.id,
     title: imported.title,
     description: imported.description,
     content: imported.content,
-    tags: imported.tags,
+    tags: options.foldersAsTags ? withFolderTags(imported.tags, folder) : imported.tags,
+    folder,
+    variables: imported.variables,
+    defaultProvider: imported.defaultProvider,
     currentTxId: '', // Not used in directory mode
     versions: [],
     createdAt: imported.createdAt || Date.now(),
@@ -86,6 +209,262 @@ function importedToPrompt(imported: ImportedPrompt, filePath: string): Prompt &
   };
 }
 
+/**
+ * Manifest of a directory, started afresh when the scan options change
+ */
+function manifestFor(directoryPath: string, options: DirectoryOptions): DirectoryManifest {
+  const key = JSON.stringify(options);
+  let manifest = manifests.get(directoryPath);
+  if (!manifest || manifest.optionsKey !== key) {
+    manifest = new DirectoryManifest(key);
+    manifests.set(directoryPath, manifest);
+  }
+  return manifest;
+}
+
+/**
+ * Turns the prompt IDs touched during a refresh into added/updated/removed.
+ * Call touch() with an ID before its manifest entry changes.
+ */
+function trackChanges(manifest: DirectoryManifest) {
+  const existedBefore = new Map<string, boolean>();
+
+  return {
+    touch: (promptId: string | undefined) => {
+      if (promptId && !existedBefore.has(promptId)) {
+        existedBefore.set(promptId, manifest.pathOf(promptId) !== null);
+      }
+    },
+    result: (): PromptChanges => {
+      const changes: PromptChanges = { added: [], updated: [], removed: [] };
+      for (const [id, existed] of existedBefore) {
+        const path = manifest.pathOf(id);
+        const prompt = path ? manifest.get(path)?.prompt : null;
+        if (prompt) {
+          (existed ? changes.updated : changes.added).push(prompt);
+        } else if (existed) {
+          changes.removed.push(id);
+        }
+      }
+      return changes;
+    },
+  };
+}
+
+type Touch = (promptId: string | undefined) => void;
+
+/**
+ * Parse a file's content into a manifest entry
+ */
+function toEntry(
+  directoryPath: string,
+  filePath: string,
+  content: string,
+  info: { mtime: Date | null; size: number },
+  options: DirectoryOptions
+): ManifestEntry {
+  const result = parseMarkdownPrompt(content, options.frontmatter, fileTitle(filePath));
+  const entry = {
+    path: filePath,
+    mtime: info.mtime?.getTime() ?? null,
+    size: info.size,
+    hash: hashContent(content),
+  };
+
+  if (!result.success || !result.prompt) {
+    // Left out of the prompts; listed by diagnoseDirectory
+    return {
+      ...entry,
+      prompt: null,
+      error: result.error ?? 'Not a valid prompt',
+      missingId: needsId(content, { ...options.frontmatter, assignIds: true }),
+    };
+  }
+  return { ...entry, prompt: importedToPrompt(result.prompt, filePath, directoryPath, options) };
+}
+
+/**
+ * Bring one file's manifest entry up to date: unchanged mtime and size
+ * skip the read, unchanged content skips the parse. A missing file is
+ * dropped. Returns the file's prompt, if any.
+ */
+async function refreshFile(
+  manifest: DirectoryManifest,
+  directoryPath: string,
+  filePath: string,
+  options: DirectoryOptions,
+  touch: Touch
+): Promise<PromptFile | null> {
+  let info;
+  try {
+    info = await stat(filePath);
+  } catch {
+    touch(manifest.get(filePath)?.prompt?.id);
+    manifest.delete(filePath);
+    return null;
+  }
+
+  const previous = manifest.get(filePath);
+  if (manifest.isCurrent(filePath, info.mtime?.getTime() ?? null, info.size)) {
+    return previous?.prompt ?? null;
+  }
+
+  try {
+    let content = await readTextFile(filePath);
+    if (needsId(content, options.frontmatter)) {
+      if (options.readOnly) {
+        // Can't write one in: the prompt gets an ID from its path, in memory only
+        content = withAssignedId(content, options.frontmatter, pathPromptId(filePath));
+      } else {
+        content = withAssignedId(content, options.frontmatter, generatePromptId());
+        await writeTextFile(filePath, content);
+        info = await stat(filePath);
+      }
+    }
+    if (previous && previous.hash === hashContent(content)) {
+      manifest.set({ ...previous, mtime: info.mtime?.getTime() ?? null, size: info.size });
+      return previous.prompt;
+    }
+
+    const entry = toEntry(directoryPath, filePath, content, info, options);
+    touch(previous?.prompt?.id);
+    touch(entry.prompt?.id);
+    manifest.set(entry);
+    return entry.prompt;
+  } catch (error) {
+    console.warn(`Failed to read ${filePath}:`, error);
+    // Keep what was last read
+    return previous?.prompt ?? null;
+  }
+}
+
+/**
+ * Rescan the whole directory, reading only files that changed since the
+ * last scan
+ */
+async function scanDirectory(directoryPath: string, options: DirectoryOptions): Promise<PromptChanges> {
+  const manifest = manifestFor(directoryPath, options);
+  const revision = manifest.revision;
+  const tracker = trackChanges(manifest);
+  const { files } = await walkDirectory(directoryPath, options);
+
+  const seen = new Set<string>();
+  for (const file of files) {
+    const filePath = `${directoryPath}/${file}`;
+    seen.add(filePath);
+    await refreshFile(manifest, directoryPath, filePath, options, tracker.touch);
+  }
+
+  for (const filePath of manifest.files()) {
+    if (!seen.has(filePath)) {
+      tracker.touch(manifest.get(filePath)?.prompt?.id);
+      manifest.delete(filePath);
+    }
+  }
+
+  manifest.scanned = true;
+  notifyIfRefreshed(directoryPath, manifest, revision);
+  return tracker.result();
+}
+
+/**
+ * Refresh just the given files (from watch events)
+ */
+async function refreshFiles(directoryPath: string, filePaths: string[], options: DirectoryOptions): Promise<PromptChanges> {
+  const manifest = manifestFor(directoryPath, options);
+  const revision = manifest.revision;
+  const tracker = trackChanges(manifest);
+  for (const filePath of filePaths) {
+    await refreshFile(manifest, directoryPath, filePath, options, tracker.touch);
+  }
+  notifyIfRefreshed(directoryPath, manifest, revision);
+  return tracker.result();
+}
+
+function notifyIfRefreshed(directoryPath: string, manifest: DirectoryManifest, revision: number): void {
+  if (manifest.revision !== revision) {
+    refreshListeners.forEach(listener => listener(directoryPath));
+  }
+}
+
+/**
+ * Record a file the app just wrote, so the watcher doesn't report it back
+ */
+async function recordWrite(directoryPath: string, filePath: string, content: string, options: DirectoryOptions): Promise<void> {
+  try {
+    const entry = toEntry(directoryPath, filePath, content, await stat(filePath), options);
+    manifestFor(directoryPath, options).set(entry);
+  } catch {
+    // The next scan picks it up
+  }
+}
+
+/**
+ * A path in a folder that no file has: `base.md`, else `base_2.md`,
+ * `base_3.md`, ... Names are compared case-insensitively, for file systems
+ * that do. `current` (the file being saved) counts as free.
+ */
+async function freePath(
+  manifest: DirectoryManifest,
+  directoryPath: string,
+  folder: string,
+  base: string,
+  current?: string
+): Promise<string> {
+  const taken = new Set(manifest.files().filter(p => p !== current).map(p => p.toLowerCase()));
+  for (let n = 1; ; n++) {
+    const candidate = joinPath(directoryPath, folder, n === 1 ? `${base}.md` : `${base}_${n}.md`);
+    if (current && candidate.toLowerCase() === current.toLowerCase()) return current;
+    if (!taken.has(candidate.toLowerCase()) && !(await exists(candidate))) return candidate;
+  }
+}
+
+/**
+ * Where a prompt is saved. New files get a free name; existing ones keep
+ * theirs unless the strategy names them after something that changed.
+ */
+async function targetPath(
+  directoryPath: string,
+  folder: string,
+  prompt: Prompt,
+  options: DirectoryOptions,
+  currentPath?: string
+): Promise<string> {
+  if (currentPath && options.fileNames === 'keep') return currentPath;
+
+  const base = baseNameFor(prompt, options);
+  if (currentPath && isNamedAfter(currentPath, base)) return currentPath;
+  return freePath(manifestFor(directoryPath, options), directoryPath, folder, base, currentPath);
+}
+
+/**
+ * Commit a save if autoCommit is on and the directory is in a git
+ * repository. A failed commit doesn't fail the save.
+ */
+async function commitSave(
+  directoryPath: string,
+  filePaths: string[],
+  message: string,
+  options: DirectoryOptions
+): Promise<void> {
+  if (!options.autoCommit) return;
+  try {
+    if (await findRepoRoot(directoryPath)) {
+      await commitFiles(directoryPath, filePaths, message);
+    }
+  } catch (error) {
+    console.warn('Failed to commit save:', error);
+  }
+}
+
+function forgetFile(filePath: string): void {
+  manifests.forEach(manifest => manifest.delete(filePath));
+}
+
+function isEmpty(changes: PromptChanges): boolean {
+  return changes.added.length === 0 && changes.updated.length === 0 && changes.removed.length === 0;
+}
+
 /**
  * Open a directory picker dialog
  */
@@ -100,76 +479,79 @@ export async function selectDirectory(): Promise<string | null> {
 }
 
 /**
- * Read all valid prompts from a directory
+ * Read all valid prompts from a directory and its subfolders
+ * (only files changed since the last read are read again)
  */
-export async function readPromptsFromDirectory(directoryPath: string): Promise<Prompt[]> {
-  const prompts: Prompt[] = [];
-
+export async function readPromptsFromDirectory(
+  directoryPath: string,
+  options: DirectoryOptions = DEFAULT_DIRECTORY_OPTIONS
+): Promise<Prompt[]> {
   try {
-    const entries = await readDir(directoryPath);
-
-    for (const entry of entries) {
-      // Only process .md files
-      if (!entry.name?.endsWith('.md')) continue;
-
-      const filePath = `${directoryPath}/${entry.name}`;
-
-      try {
-        const content = await readTextFile(filePath);
-        const result = parseMarkdownPrompt(content);
-
-        if (result.success && result.prompt) {
-          prompts.push(importedToPrompt(result.prompt, filePath));
-        }
-        // Invalid files are silently ignored per requirements
-      } catch (error) {
-        console.warn(`Failed to read ${filePath}:`, error);
-        // Continue processing other files
-      }
-    }
+    await scanDirectory(directoryPath, options);
   } catch (error) {
     console.error('Failed to read directory:', error);
     throw error;
   }
 
   // Sort by updated time, newest first
+  const prompts = manifestFor(directoryPath, options).prompts();
   return prompts.sort((a, b) => b.updatedAt - a.updatedAt);
 }
 
 /**
- * Write a prompt to the directory as a markdown file
+ * Read a single prompt file as it is now; null if it's gone or not a valid prompt
+ */
+export async function readPromptFile(
+  directoryPath: string,
+  filePath: string,
+  options: DirectoryOptions = DEFAULT_DIRECTORY_OPTIONS
+): Promise<Prompt | null> {
+  return refreshFile(manifestFor(directoryPath, options), directoryPath, filePath, options, () => {});
+}
+
+/**
+ * Write a new prompt to the directory as a markdown file, in its folder if
+ * set, otherwise in the folder matching its first tag (see folderForTags).
+ * Existing files are never overwritten; the name gets a number instead.
  */
 export async function writePromptToDirectory(
   directoryPath: string,
-  prompt: Prompt
+  prompt: Prompt,
+  options: DirectoryOptions = DEFAULT_DIRECTORY_OPTIONS
 ): Promise<string> {
-  const filename = `${sanitizeFilename(prompt.title)}.md`;
-  const filePath = `${directoryPath}/${filename}`;
+  const folder = prompt.folder ?? folderForTags(prompt.tags, (await walkDirectory(directoryPath, options)).folders);
+  const filePath = await targetPath(directoryPath, folder, prompt, options);
+  const content = promptToFile(prompt, folder, options);
 
-  const markdown = promptToMarkdown(prompt);
-  await writeTextFile(filePath, markdown);
+  await writeTextFile(filePath, content);
+  await recordWrite(directoryPath, filePath, content, options);
+  await commitSave(directoryPath, [filePath], `Add "${prompt.title}"`, options);
 
   return filePath;
 }
 
 /**
- * Update an existing prompt file
- * If the title changed, creates a new file and deletes the old one
+ * Update an existing prompt file, keeping it in its folder
+ * If the file name no longer fits (a new title under the slug strategy),
+ * writes a new file and deletes the old one
  */
 export async function updatePromptInDirectory(
   directoryPath: string,
   prompt: Prompt,
-  oldFilePath?: string
+  oldFilePath?: string,
+  options: DirectoryOptions = DEFAULT_DIRECTORY_OPTIONS
 ): Promise<string> {
-  const newFilename = `${sanitizeFilename(prompt.title)}.md`;
-  const newFilePath = `${directoryPath}/${newFilename}`;
+  const folder = oldFilePath ? folderOfFile(directoryPath, oldFilePath) : prompt.folder ?? '';
+  const newFilePath = await targetPath(directoryPath, folder, prompt, options, oldFilePath);
 
-  // Write the new/updated content
-  const markdown = promptToMarkdown(prompt);
-  await writeTextFile(newFilePath, markdown);
+  // Write the new/updated content, keeping frontmatter the app doesn't manage
+  const previous = oldFilePath ? await readFrontmatterOf(oldFilePath) : {};
+  const content = promptToFile(prompt, folder, options, previous);
+  await writeTextFile(newFilePath, content);
 
-  // If the path changed (title was renamed), delete the old file
+  // If the path changed (the file was renamed), delete the old file
   if (oldFilePath && oldFilePath !== newFilePath) {
+    forgetFile(oldFilePath);
     try {
       const oldExists = await exists(oldFilePath);
       if (oldExists) {
@@ -179,6 +561,13 @@ export async function updatePromptInDirectory(
       console.warn('Failed to remove old file after rename:', error);
     }
   }
+  await recordWrite(directoryPath, newFilePath, content, options);
+
+  const renamed = oldFilePath && oldFilePath !== newFilePath;
+  const message = renamed
+    ? `Update "${prompt.title}" (renamed from ${fileTitle(oldFilePath)})`
+    : `Update "${prompt.title}"`;
+  await commitSave(directoryPath, renamed ? [newFilePath, oldFilePath] : [newFilePath], message, options);
 
   return newFilePath;
 }
@@ -187,6 +576,7 @@ export async function updatePromptInDirectory(
  * Delete a prompt file from the directory
  */
 export async function deletePromptFromDirectory(filePath: string): Promise<void> {
+  forgetFile(filePath);
   try {
     const fileExists = await exists(filePath);
     if (fileExists) {
@@ -199,75 +589,223 @@ export async function deletePromptFromDirectory(filePath: string): Promise<void>
 }
 
 /**
- * Find the file path for a prompt by its ID
+ * Find the file path for a prompt by its ID (a manifest lookup once the
+ * directory has been scanned)
  */
 export async function findPromptFilePath(
   directoryPath: string,
-  promptId: string
+  promptId: string,
+  options: DirectoryOptions = DEFAULT_DIRECTORY_OPTIONS
 ): Promise<string | null> {
-  try {
-    const entries = await readDir(directoryPath);
+  const manifest = manifestFor(directoryPath, options);
+  if (!manifest.scanned) {
+    try {
+      await scanDirectory(directoryPath, options);
+    } catch (error) {
+      console.error('Failed to search directory:', error);
+    }
+  }
 
-    for (const entry of entries) {
-      if (!entry.name?.endsWith('.md')) continue;
+  return manifest.pathOf(promptId);
+}
 
-      const filePath = `${directoryPath}/${entry.name}`;
+/**
+ * Subscribe to rescans that changed what's known about a directory's files
+ * (from watch events, polling or reads), e.g. to refresh its diagnostics
+ */
+export function onDirectoryRefresh(listener: DirectoryRefreshListener): () => void {
+  refreshListeners.add(listener);
+  return () => refreshListeners.delete(listener);
+}
+
+/**
+ * Problems with the directory's files as last scanned: files that aren't
+ * valid prompts, ids used by more than one file, and file names that only
+ * differ in case (one file on case-insensitive file systems)
+ */
+export async function diagnoseDirectory(
+  directoryPath: string,
+  options: DirectoryOptions = DEFAULT_DIRECTORY_OPTIONS
+): Promise<DirectoryIssue[]> {
+  const manifest = manifestFor(directoryPath, options);
+  if (!manifest.scanned) {
+    await scanDirectory(directoryPath, options);
+  }
 
-      try {
-        const content = await readTextFile(filePath);
-        const result = parseMarkdownPrompt(content);
+  const issues: DirectoryIssue[] = [];
+  const pathsById = new Map<string, string[]>();
+  // Files by lowercased relative path
+  const pathsByName = new Map<string, { fileName: string; paths: string[] }>();
+
+  const entries = manifest.all().sort((a, b) => a.path.localeCompare(b.path));
+  for (const entry of entries) {
+    const relative = relativePath(directoryPath, entry.path) ?? entry.path;
+    const named = pathsByName.get(relative.toLowerCase()) ?? { fileName: relative, paths: [] };
+    named.paths.push(entry.path);
+    pathsByName.set(relative.toLowerCase(), named);
+
+    if (!entry.prompt) {
+      issues.push({
+        kind: 'invalid',
+        path: entry.path,
+        error: entry.error ?? 'Not a valid prompt',
+        missingId: entry.missingId ?? false,
+      });
+      continue;
+    }
+    const { id } = entry.prompt;
+    pathsById.set(id, [...(pathsById.get(id) ?? []), entry.path]);
+  }
 
-        if (result.success && result.prompt && result.prompt.id === promptId) {
-          return filePath;
-        }
-      } catch {
-        // Continue searching
-      }
+  for (const [promptId, paths] of pathsById) {
+    if (paths.length > 1) {
+      issues.push({ kind: 'duplicate-id', promptId, paths });
+    }
+  }
+  for (const { fileName, paths } of pathsByName.values()) {
+    if (paths.length > 1) {
+      issues.push({ kind: 'filename-collision', fileName, paths });
     }
-  } catch (error) {
-    console.error('Failed to search directory:', error);
   }
 
-  return null;
+  return issues;
 }
 
 /**
- * Start watching a directory for changes
- * Falls back to polling if native watch isn't available
+ * Give a file a new prompt ID, replacing the one it has (if any)
  */
-export async function watchDirectory(
+export async function assignPromptId(
   directoryPath: string,
-  onChange: (prompts: Prompt[]) => void
-): Promise<() => void> {
-  // Stop any existing watcher
-  if (currentWatchUnsubscribe) {
-    currentWatchUnsubscribe();
-    currentWatchUnsubscribe = null;
+  filePath: string,
+  options: DirectoryOptions = DEFAULT_DIRECTORY_OPTIONS
+): Promise<string> {
+  const id = generatePromptId();
+  const content = withAssignedId(await readTextFile(filePath), options.frontmatter, id);
+  await writeTextFile(filePath, content);
+  await recordWrite(directoryPath, filePath, content, options);
+  return id;
+}
+
+/**
+ * Move a file to a name no other file has, even ignoring case: the name
+ * the naming strategy gives its prompt (the file's own name for other
+ * files), numbered. Returns the new file path.
+ */
+export async function renamePromptFile(
+  directoryPath: string,
+  filePath: string,
+  options: DirectoryOptions = DEFAULT_DIRECTORY_OPTIONS
+): Promise<string> {
+  const manifest = manifestFor(directoryPath, options);
+  const prompt = await refreshFile(manifest, directoryPath, filePath, options, () => {});
+  const base = prompt && options.fileNames !== 'keep' ? baseNameFor(prompt, options) : fileTitle(filePath);
+  const newFilePath = await freePath(manifest, directoryPath, folderOfFile(directoryPath, filePath), base);
+
+  const content = await readTextFile(filePath);
+  await writeTextFile(newFilePath, content);
+  await deletePromptFromDirectory(filePath);
+  await recordWrite(directoryPath, newFilePath, content, options);
+  return newFilePath;
+}
+
+/**
+ * Collapse the files sharing a prompt ID into one: the most recently
+ * updated copy is kept, with the tags of every copy, and the others are
+ * deleted. Returns the kept file's path.
+ */
+export async function mergeDuplicatePrompts(
+  directoryPath: string,
+  promptId: string,
+  options: DirectoryOptions = DEFAULT_DIRECTORY_OPTIONS
+): Promise<string | null> {
+  const manifest = manifestFor(directoryPath, options);
+  const copies = manifest.all().flatMap(entry => entry.prompt?.id === promptId ? [entry.prompt] : []);
+  if (copies.length < 2) return manifest.pathOf(promptId);
+
+  const [newest, ...others] = copies.sort((a, b) => b.updatedAt - a.updatedAt);
+  const tags = [...new Set(copies.flatMap(copy => copy.tags))];
+  const filePath = await updatePromptInDirectory(directoryPath, { ...newest, tags }, newest._filePath, options);
+
+  for (const other of others) {
+    await deletePromptFromDirectory(other._filePath);
   }
+  return filePath;
+}
 
-  // Add listener
-  changeListeners.add(onChange);
+/**
+ * Start watching a directory for changes, reporting the prompts that
+ * changed. Falls back to polling if native watch isn't available. Each
+ * directory has one watcher; watching it again replaces the last one.
+ */
+export async function watchDirectory(
+  directoryPath: string,
+  onChange: (changes: PromptChanges) => void,
+  options: DirectoryOptions = DEFAULT_DIRECTORY_OPTIONS
+): Promise<() => void> {
+  // Stop this directory's existing watcher
+  stopWatching(directoryPath);
 
-  // Debounce reloads to avoid rapid re-reads
+  // Debounce refreshes to avoid rapid re-reads
   let debounceTimer: ReturnType<typeof setTimeout> | null = null;
   let pollInterval: ReturnType<typeof setInterval> | null = null;
+  // Files named by watch events since the last refresh, or a full rescan
+  const pendingFiles = new Set<string>();
+  let pendingRescan = false;
+  // Refreshes run one after another
+  let running: Promise<void> = Promise.resolve();
+  // Prompts whose files went away in the last refresh, held back a round:
+  // a rename can arrive as a removal event and, later, a creation event
+  let heldRemovals: string[] = [];
+
+  const refresh = async () => {
+    const rescan = pendingRescan;
+    const filePaths = [...pendingFiles];
+    pendingRescan = false;
+    pendingFiles.clear();
 
-  const reloadPrompts = async () => {
     try {
-      console.log('[DirectoryStorage] Reloading prompts from directory');
-      const prompts = await readPromptsFromDirectory(directoryPath);
-      console.log(`[DirectoryStorage] Reloaded ${prompts.length} prompts`);
-      changeListeners.forEach(listener => listener(prompts));
+      const changes = rescan
+        ? await scanDirectory(directoryPath, options)
+        : await refreshFiles(directoryPath, filePaths, options);
+
+      // A held prompt that turned up again was renamed: same prompt, new file
+      const held = heldRemovals;
+      heldRemovals = [];
+      let renamed = 0;
+      for (const id of held) {
+        const index = changes.added.findIndex(prompt => prompt.id === id);
+        if (index >= 0) {
+          changes.updated.push(...changes.added.splice(index, 1));
+          renamed++;
+        }
+      }
+      if (!rescan && changes.added.length === 0 && changes.updated.length === 0 && changes.removed.length > 0) {
+        heldRemovals = changes.removed;
+        changes.removed = [];
+        debouncedRefresh();
+      }
+      const manifest = manifestFor(directoryPath, options);
+      changes.removed.push(...held.filter(id => manifest.pathOf(id) === null && !changes.removed.includes(id)));
+
+      if (isEmpty(changes)) return;
+
+      console.log(
+        `[DirectoryStorage] ${changes.added.length} added, ${changes.updated.length} updated, ${changes.removed.length} removed` +
+          (renamed ? ` (${renamed} renamed)` : '')
+      );
+      onChange(changes);
     } catch (error) {
-      console.error('Failed to reload prompts after change:', error);
+      console.error('Failed to refresh prompts after change:', error);
     }
   };
 
-  const debouncedReload = () => {
+  const debouncedRefresh = () => {
     if (debounceTimer) {
       clearTimeout(debounceTimer);
     }
-    debounceTimer = setTimeout(reloadPrompts, 300);
+    debounceTimer = setTimeout(() => {
+      running = running.then(refresh);
+    }, 300);
   };
 
   let unsubscribeWatch: (() => void) | null = null;
@@ -277,10 +815,29 @@ export async function watchDirectory(
     const watchResult = await watch(
       directoryPath,
       (event) => {
-        console.log('[DirectoryStorage] File change detected:', event);
-        debouncedReload();
+        let relevant = false;
+        for (const path of event.paths) {
+          const relative = relativePath(directoryPath, path);
+          if (relative !== null && relative !== '' && isExcludedPath(relative, options)) {
+            // Churn in excluded folders (.git, .obsidian, ...)
+            continue;
+          }
+          relevant = true;
+          if (relative !== null && isIncludedFile(relative, options)) {
+            pendingFiles.add(path);
+          } else {
+            // A folder (or something unknown) changed: rescan to find out what
+            pendingRescan = true;
+          }
+        }
+        if (event.paths.length === 0) {
+          relevant = pendingRescan = true;
+        }
+        if (!relevant) return;
+
+        debouncedRefresh();
       },
-      { recursive: false }
+      { recursive: true }
     );
     unsubscribeWatch = watchResult;
     console.log('[DirectoryStorage] Native file watching enabled');
@@ -288,48 +845,47 @@ export async function watchDirectory(
     // Fall back to polling if watch isn't available
     console.warn('[DirectoryStorage] Native watch not available, using polling:', error);
 
-    // Poll every 2 seconds for changes
-    pollInterval = setInterval(async () => {
-      try {
-        const entries = await readDir(directoryPath);
-        // Simple check: if any file was modified, reload
-        // In a real implementation, you'd track mtimes properly
-        const hasChanges = entries.some(e => e.name?.endsWith('.md'));
-        if (hasChanges) {
-          console.log('[DirectoryStorage] Polling detected potential changes');
-          debouncedReload();
-        }
-      } catch {
-        // Ignore polling errors
-      }
+    // Rescan every 2 seconds; unchanged files are only stat'ed
+    pollInterval = setInterval(() => {
+      // Still waiting on the previous tick's rescan
+      if (pendingRescan) return;
+      pendingRescan = true;
+      running = running.then(refresh);
     }, 2000);
   }
 
-  currentWatchUnsubscribe = () => {
+  const unsubscribe = () => {
     if (unsubscribeWatch) {
       unsubscribeWatch();
     }
     if (pollInterval) {
       clearInterval(pollInterval);
     }
-    changeListeners.delete(onChange);
     if (debounceTimer) {
       clearTimeout(debounceTimer);
     }
+    if (watchers.get(directoryPath) === unsubscribe) {
+      watchers.delete(directoryPath);
+    }
   };
+  watchers.set(directoryPath, unsubscribe);
 
-  return currentWatchUnsubscribe;
+  return unsubscribe;
 }
 
 /**
- * Stop watching the directory
+ * Stop watching a directory, or every watched directory
  */
-export function stopWatching(): void {
-  if (currentWatchUnsubscribe) {
-    currentWatchUnsubscribe();
-    currentWatchUnsubscribe = null;
-  }
-  changeListeners.clear();
+export function stopWatching(directoryPath?: string): void {
+  const paths = directoryPath === undefined ? [...watchers.keys()] : [directoryPath];
+  paths.forEach(path => watchers.get(path)?.());
+}
+
+/**
+ * ID for a file in a read-only directory that has none, the same on every read
+ */
+export function pathPromptId(filePath: string): string {
+  return `prompt_file_${hashContent(filePath).replace(':', '_')}`;
 }
 
 /**
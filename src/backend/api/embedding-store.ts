@@ -0,0 +1,80 @@
+/**
+ * Embedding store
+ *
+ * Keeps prompt embeddings (see core/search/semantic.ts) in the libSQL
+ * database next to the prompts, one row per prompt and model, the vector
+ * as a Float32 blob. Without a database they only last the session.
+ */
+
+import type { Client } from '@libsql/client';
+import { getTursoClient, isTursoConfigured } from './turso';
+import type { EmbeddingStore, StoredEmbedding } from '@/core/search/semantic';
+
+function toBlob(vector: Float32Array): Uint8Array {
+  return new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+function fromBlob(value: unknown): Float32Array {
+  const bytes = ArrayBuffer.isView(value)
+    ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    : new Uint8Array(value as ArrayBuffer);
+  // Copied, since the blob's bytes needn't be aligned for floats
+  return new Float32Array(bytes.slice().buffer);
+}
+
+/**
+ * A store backed by client's prompt_embeddings table
+ */
+export function createEmbeddingStore(client: Client): EmbeddingStore {
+  return {
+    async load(model) {
+      const result = await client.execute({
+        sql: 'SELECT prompt_id, content_hash, vector FROM prompt_embeddings WHERE model = ?',
+        args: [model],
+      });
+      return result.rows.map((row): StoredEmbedding => ({
+        promptId: String(row.prompt_id),
+        hash: String(row.content_hash),
+        vector: fromBlob(row.vector),
+      }));
+    },
+
+    async save(model, embeddings) {
+      if (embeddings.length === 0) return;
+      const now = Date.now();
+      await client.batch(
+        embeddings.map(embedding => ({
+          sql: `INSERT INTO prompt_embeddings (prompt_id, model, content_hash, vector, updated_at)
+                VALUES (?, ?, ?, ?, ?)
+                ON CONFLICT (model, prompt_id) DO UPDATE SET
+                  content_hash = excluded.content_hash, vector = excluded.vector, updated_at = excluded.updated_at`,
+          args: [embedding.promptId, model, embedding.hash, toBlob(embedding.vector), now],
+        })),
+        'write'
+      );
+    },
+
+    async remove(model, promptIds) {
+      if (promptIds.length === 0) return;
+      await client.execute({
+        sql: `DELETE FROM prompt_embeddings WHERE model = ? AND prompt_id IN (${promptIds.map(() => '?').join(', ')})`,
+        args: [model, ...promptIds],
+      });
+    },
+
+    async clear() {
+      await client.execute('DELETE FROM prompt_embeddings');
+    },
+  };
+}
+
+let appStore: EmbeddingStore | null = null;
+
+/**
+ * The store for the app's database, or null when there is none
+ */
+export function getEmbeddingStore(): EmbeddingStore | null {
+  if (!isTursoConfigured()) return null;
+  appStore ??= createEmbeddingStore(getTursoClient());
+  return appStore;
+}
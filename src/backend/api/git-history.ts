@@ -0,0 +1,50 @@
+/**
+ * Git history for attached directories
+ *
+ * Wrappers around the app's git commands (src-tauri/src/git.rs), which run
+ * the git binary: the commits touching a file, a file as it was at a
+ * commit, and committing saved files. Directories outside a repository
+ * have no history.
+ */
+
+import { invoke } from '@tauri-apps/api/core';
+import type { FileRevision } from '@/shared/interfaces/StorageBackend';
+
+// Repository root of each directory (null outside a repository), looked up once
+const repoRoots = new Map<string, Promise<string | null>>();
+
+/**
+ * Root of the git repository a directory is in, or null
+ */
+export function findRepoRoot(directoryPath: string): Promise<string | null> {
+  let root = repoRoots.get(directoryPath);
+  if (!root) {
+    root = invoke<string | null>('git_repo_root', { dir: directoryPath }).catch((error) => {
+      console.warn('[Git] Failed to check for a repository:', error);
+      return null;
+    });
+    repoRoots.set(directoryPath, root);
+  }
+  return root;
+}
+
+/**
+ * Commits touching a file, newest first, following renames
+ */
+export function getFileLog(directoryPath: string, filePath: string, limit = 100): Promise<FileRevision[]> {
+  return invoke<FileRevision[]>('git_file_log', { dir: directoryPath, file: filePath, limit });
+}
+
+/**
+ * A file as it was at a revision
+ */
+export function getFileAtRevision(directoryPath: string, revision: FileRevision): Promise<string> {
+  return invoke<string>('git_show_file', { dir: directoryPath, hash: revision.hash, path: revision.path });
+}
+
+/**
+ * Commit the given files (written, renamed or deleted) and nothing else
+ */
+export function commitFiles(directoryPath: string, filePaths: string[], message: string): Promise<void> {
+  return invoke<void>('git_commit_files', { dir: directoryPath, files: filePaths, message });
+}
@@ -0,0 +1,355 @@
+/**
+ * Schema migrations for the libSQL database
+ *
+ * Migrations are numbered and applied in order, each in its own write
+ * transaction together with its `schema_migrations` row, so a failure leaves
+ * the database at the last good version. Databases created before this runner
+ * existed (by scripts/setup-turso.ts or older app builds) already have some of
+ * these tables and columns, so every step is written to be idempotent.
+ */
+import type { Client, Transaction } from '@libsql/client';
+
+/** Statement executor shared by clients and transactions */
+type Executor = Pick<Client | Transaction, 'execute'>;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (tx: Executor) => Promise<void>;
+}
+
+export interface MigrationResult {
+  /** Schema version before and after the run */
+  from: number;
+  to: number;
+  applied: Migration[];
+  /** Backup taken before the first pending migration, if any */
+  backupPath?: string;
+}
+
+/**
+ * Custom error for a migration that failed and was rolled back
+ */
+export class MigrationError extends Error {
+  version: number;
+  migrationName: string;
+  backupPath?: string;
+  cause?: unknown;
+
+  constructor(migration: Migration, cause: unknown, backupPath?: string) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Migration ${migration.version} (${migration.name}) failed: ${reason}`);
+    this.name = 'MigrationError';
+    this.version = migration.version;
+    this.migrationName = migration.name;
+    this.backupPath = backupPath;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Add a column unless it already exists (SQLite has no ADD COLUMN IF NOT EXISTS)
+ */
+async function addColumnIfMissing(
+  tx: Executor,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  const info = await tx.execute(`PRAGMA table_info(${table})`);
+  if (info.rows.some((row) => row.name === column)) return;
+  await tx.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+async function executeAll(tx: Executor, statements: string[]): Promise<void> {
+  for (const sql of statements) {
+    await tx.execute(sql);
+  }
+}
+
+/**
+ * Trigger that records a change in sync_changes, unless the change is being
+ * applied by the sync engine itself (marked by an `applying_remote` row).
+ * Uses an upsert because an outer upsert would override INSERT OR REPLACE.
+ */
+function changeTrigger(
+  name: string,
+  event: string,
+  entity: string,
+  entityId: string,
+  deleted: boolean,
+  condition = ''
+): string {
+  return `CREATE TRIGGER IF NOT EXISTS ${name} ${event}
+    WHEN NOT EXISTS (SELECT 1 FROM sync_meta WHERE key = 'applying_remote')${condition}
+    BEGIN
+      INSERT INTO sync_changes (entity, entity_id, deleted, seq, changed_at)
+      VALUES ('${entity}', ${entityId}, ${deleted ? 1 : 0},
+        (SELECT COALESCE(MAX(seq), 0) + 1 FROM sync_changes), unixepoch() * 1000)
+      ON CONFLICT (entity, entity_id) DO UPDATE SET
+        deleted = excluded.deleted, seq = excluded.seq, changed_at = excluded.changed_at;
+    END`;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    up: (tx) => executeAll(tx, [
+      `CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        device_id TEXT NOT NULL UNIQUE,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch() * 1000),
+        last_seen_at INTEGER NOT NULL DEFAULT (unixepoch() * 1000)
+      )`,
+      `CREATE TABLE IF NOT EXISTS prompts (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        description TEXT DEFAULT '',
+        content TEXT NOT NULL,
+        is_archived INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        current_version INTEGER NOT NULL DEFAULT 1
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_prompts_user_id ON prompts(user_id)',
+      'CREATE INDEX IF NOT EXISTS idx_prompts_updated_at ON prompts(updated_at DESC)',
+      `CREATE TABLE IF NOT EXISTS prompt_versions (
+        id TEXT PRIMARY KEY,
+        prompt_id TEXT NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        change_note TEXT,
+        created_at INTEGER NOT NULL,
+        UNIQUE(prompt_id, version)
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_versions_prompt ON prompt_versions(prompt_id)',
+      `CREATE TABLE IF NOT EXISTS tags (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_tags_name ON tags(name)',
+      `CREATE TABLE IF NOT EXISTS prompt_tags (
+        prompt_id TEXT NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+        tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+        PRIMARY KEY (prompt_id, tag_id)
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_prompt_tags_tag ON prompt_tags(tag_id)',
+      `CREATE TABLE IF NOT EXISTS saved_searches (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        description TEXT,
+        expression TEXT NOT NULL,
+        text_query TEXT,
+        updated_at INTEGER NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id)',
+    ]),
+  },
+  {
+    version: 2,
+    name: 'prompt share tokens',
+    up: async (tx) => {
+      await addColumnIfMissing(tx, 'prompts', 'share_token', 'TEXT');
+      await tx.execute(
+        'CREATE UNIQUE INDEX IF NOT EXISTS idx_prompts_share_token ON prompts(share_token) WHERE share_token IS NOT NULL'
+      );
+    },
+  },
+  {
+    version: 3,
+    name: 'template variables',
+    up: (tx) => addColumnIfMissing(tx, 'prompts', 'variables', 'TEXT'),
+  },
+  {
+    version: 4,
+    name: 'default LLM provider',
+    up: (tx) => addColumnIfMissing(tx, 'prompts', 'default_provider', 'TEXT'),
+  },
+  {
+    version: 5,
+    name: 'packs',
+    up: (tx) => executeAll(tx, [
+      `CREATE TABLE IF NOT EXISTS packs (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        description TEXT DEFAULT '',
+        visibility TEXT NOT NULL DEFAULT 'private',
+        share_token TEXT,
+        tags TEXT,
+        cover_image TEXT,
+        cover_color TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_packs_user_id ON packs(user_id)',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_packs_share_token ON packs(share_token) WHERE share_token IS NOT NULL',
+      `CREATE TABLE IF NOT EXISTS pack_prompts (
+        pack_id TEXT NOT NULL REFERENCES packs(id) ON DELETE CASCADE,
+        prompt_id TEXT NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        added_at INTEGER NOT NULL,
+        PRIMARY KEY (pack_id, prompt_id)
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_pack_prompts_prompt ON pack_prompts(prompt_id)',
+    ]),
+  },
+  {
+    version: 6,
+    name: 'cloud sync change log',
+    up: (tx) => executeAll(tx, [
+      // One row per changed entity; seq orders changes within this database
+      `CREATE TABLE IF NOT EXISTS sync_changes (
+        entity TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        deleted INTEGER NOT NULL DEFAULT 0,
+        seq INTEGER NOT NULL,
+        changed_at INTEGER NOT NULL,
+        PRIMARY KEY (entity, entity_id)
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_sync_changes_seq ON sync_changes(seq)',
+      `CREATE TABLE IF NOT EXISTS sync_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT
+      )`,
+      // Last synced copy of each entity, the common ancestor for conflicts
+      `CREATE TABLE IF NOT EXISTS sync_base (
+        entity TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        PRIMARY KEY (entity, entity_id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS sync_conflicts (
+        prompt_id TEXT PRIMARY KEY,
+        detected_at INTEGER NOT NULL
+      )`,
+      changeTrigger('sync_prompts_insert', 'AFTER INSERT ON prompts', 'prompt', 'NEW.id', false),
+      changeTrigger('sync_prompts_update', 'AFTER UPDATE ON prompts', 'prompt', 'NEW.id', false),
+      changeTrigger('sync_prompts_delete', 'AFTER DELETE ON prompts', 'prompt', 'OLD.id', true),
+      // Tag links belong to their prompt; ignore them once the prompt is gone
+      changeTrigger('sync_prompt_tags_insert', 'AFTER INSERT ON prompt_tags', 'prompt', 'NEW.prompt_id', false,
+        ' AND EXISTS (SELECT 1 FROM prompts WHERE id = NEW.prompt_id)'),
+      changeTrigger('sync_prompt_tags_delete', 'AFTER DELETE ON prompt_tags', 'prompt', 'OLD.prompt_id', false,
+        ' AND EXISTS (SELECT 1 FROM prompts WHERE id = OLD.prompt_id)'),
+      changeTrigger('sync_saved_searches_insert', 'AFTER INSERT ON saved_searches', 'saved_search', 'NEW.id', false),
+      changeTrigger('sync_saved_searches_update', 'AFTER UPDATE ON saved_searches', 'saved_search', 'NEW.id', false),
+      changeTrigger('sync_saved_searches_delete', 'AFTER DELETE ON saved_searches', 'saved_search', 'OLD.id', true),
+    ]),
+  },
+  {
+    version: 7,
+    name: 'conflict sources and ancestors',
+    up: async (tx) => {
+      // 'cloud' (another device) or 'directory' (the attached file)
+      await addColumnIfMissing(tx, 'sync_conflicts', 'source', "TEXT NOT NULL DEFAULT 'cloud'");
+      // prompt_versions.version both copies descend from
+      await addColumnIfMissing(tx, 'sync_conflicts', 'base_version', 'INTEGER');
+    },
+  },
+  {
+    version: 8,
+    name: 'prompt embeddings',
+    // Derived from the prompts, so not synced; no foreign key because
+    // attached directory prompts aren't all in the prompts table
+    up: (tx) => executeAll(tx, [
+      `CREATE TABLE IF NOT EXISTS prompt_embeddings (
+        prompt_id TEXT NOT NULL,
+        model TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (model, prompt_id)
+      )`,
+    ]),
+  },
+];
+
+/** Latest schema version known to this build */
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Current schema version (0 for a database the runner has never touched)
+ */
+export async function getSchemaVersion(client: Executor): Promise<number> {
+  await client.execute(`CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at INTEGER NOT NULL
+  )`);
+  const result = await client.execute('SELECT MAX(version) AS version FROM schema_migrations');
+  return Number(result.rows[0]?.version ?? 0);
+}
+
+/**
+ * Apply pending migrations in order.
+ *
+ * When `backupPath` is given and the database already holds tables, a copy
+ * is written there (VACUUM INTO) before the first pending migration runs.
+ * Throws MigrationError after rolling back the failing migration.
+ */
+export async function runMigrations(
+  client: Client,
+  options: { migrations?: Migration[]; backupPath?: string } = {}
+): Promise<MigrationResult> {
+  const { migrations = MIGRATIONS } = options;
+
+  const from = await getSchemaVersion(client);
+  const pending = migrations
+    .filter((m) => m.version > from)
+    .sort((a, b) => a.version - b.version);
+
+  if (pending.length === 0) {
+    return { from, to: from, applied: [] };
+  }
+
+  let backupPath: string | undefined;
+  if (options.backupPath && await hasUserTables(client)) {
+    await client.execute({ sql: 'VACUUM INTO ?', args: [options.backupPath] });
+    backupPath = options.backupPath;
+    console.log(`[Migrations] Backed up database to ${backupPath}`);
+  }
+
+  const applied: Migration[] = [];
+  for (const migration of pending) {
+    const tx = await client.transaction('write');
+    try {
+      // Another window may have applied it since we read the version
+      const done = await tx.execute({
+        sql: 'SELECT 1 FROM schema_migrations WHERE version = ?',
+        args: [migration.version],
+      });
+      if (done.rows.length > 0) {
+        await tx.commit();
+        continue;
+      }
+
+      await migration.up(tx);
+      await tx.execute({
+        sql: 'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+        args: [migration.version, migration.name, Date.now()],
+      });
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw new MigrationError(migration, error, backupPath);
+    } finally {
+      tx.close();
+    }
+
+    applied.push(migration);
+    console.log(`[Migrations] Applied ${migration.version}: ${migration.name}`);
+  }
+
+  return { from, to: pending[pending.length - 1].version, applied, backupPath };
+}
+
+async function hasUserTables(client: Executor): Promise<boolean> {
+  const result = await client.execute(
+    `SELECT COUNT(*) AS count FROM sqlite_master
+     WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'schema_migrations'`
+  );
+  return Number(result.rows[0]?.count ?? 0) > 0;
+}
@@ -0,0 +1,93 @@
+/**
+ * Search index store
+ *
+ * Where the saved search index lives between sessions (see
+ * core/search/persistent-index.ts): a JSON file in the app data folder on
+ * desktop, IndexedDB on the web. One snapshot is kept, replaced on save.
+ */
+
+import { BaseDirectory, exists, mkdir, readTextFile, remove, writeTextFile } from '@tauri-apps/plugin-fs';
+import { appDataDir } from '@tauri-apps/api/path';
+import type { IndexStore } from '@/core/search/persistent-index';
+import type { IndexSnapshot } from '@/core/search';
+
+const isTauri = typeof window !== 'undefined' && '__TAURI__' in window;
+
+const INDEX_FILE = 'search-index.json';
+
+const DB_NAME = 'pocket-prompt-search';
+const STORE_NAME = 'index';
+const DB_VERSION = 1;
+const SNAPSHOT_KEY = 'snapshot';
+
+const fileStore: IndexStore = {
+  async load() {
+    if (!(await exists(INDEX_FILE, { baseDir: BaseDirectory.AppData }))) return null;
+    return JSON.parse(await readTextFile(INDEX_FILE, { baseDir: BaseDirectory.AppData })) as IndexSnapshot;
+  },
+
+  async save(snapshot) {
+    await mkdir(await appDataDir(), { recursive: true });
+    await writeTextFile(INDEX_FILE, JSON.stringify(snapshot), { baseDir: BaseDirectory.AppData });
+  },
+
+  async clear() {
+    if (await exists(INDEX_FILE, { baseDir: BaseDirectory.AppData })) {
+      await remove(INDEX_FILE, { baseDir: BaseDirectory.AppData });
+    }
+  },
+};
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onerror = () => reject(new Error('Failed to open IndexedDB'));
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+  });
+}
+
+/**
+ * Run one request against the snapshot store
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDB();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction([STORE_NAME], mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const indexedDBStore: IndexStore = {
+  async load() {
+    const snapshot = await withStore('readonly', store => store.get(SNAPSHOT_KEY));
+    return (snapshot as IndexSnapshot | undefined) ?? null;
+  },
+
+  async save(snapshot) {
+    await withStore('readwrite', store => store.put(snapshot, SNAPSHOT_KEY));
+  },
+
+  async clear() {
+    await withStore('readwrite', store => store.delete(SNAPSHOT_KEY));
+  },
+};
+
+/**
+ * The store for this platform
+ */
+export function getSearchIndexStore(): IndexStore {
+  return isTauri ? fileStore : indexedDBStore;
+}
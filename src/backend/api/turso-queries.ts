@@ -1,8 +1,10 @@
 /**
- * Turso database queries for prompts, users, tags, and saved searches
+ * Turso database queries for prompts, users, tags, saved searches, and packs
  */
-import { executeQuery, executeMutation } from './turso';
-import type { Prompt, PromptVersion, SavedSearch, BooleanExpression } from '@/shared/types/prompt';
+import { executeQuery, executeMutation, executeBatch } from './turso';
+import type { Prompt, PromptVersion, PromptVariable, SavedSearch, BooleanExpression } from '@/shared/types/prompt';
+import type { Pack, CreatePackData, PackStorage, PromptConflict } from '@/shared/interfaces/StorageBackend';
+import { parseVariableDeclarations } from '@/core/template/variables';
 
 // =============================================================================
 // Types
@@ -21,6 +23,8 @@ interface TursoPromptRow {
   title: string;
   description: string;
   content: string;
+  variables?: string | null; // JSON-encoded PromptVariable[]
+  default_provider?: string | null;
   is_archived: number;
   created_at: number;
   updated_at: number;
@@ -51,6 +55,20 @@ interface TursoSavedSearchRow {
   updated_at: number;
 }
 
+interface TursoPackRow {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  visibility: Pack['visibility'];
+  share_token: string | null;
+  tags: string | null; // JSON-encoded string[]
+  cover_image: string | null;
+  cover_color: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
 // =============================================================================
 // User Operations
 // =============================================================================
@@ -156,6 +174,8 @@ export async function createPrompt(
     description: string;
     content: string;
     tags: string[];
+    variables?: PromptVariable[];
+    defaultProvider?: string;
     createdAt?: number;
     updatedAt?: number;
   }
@@ -165,11 +185,21 @@ export async function createPrompt(
   const createdAt = data.createdAt || now;
   const updatedAt = data.updatedAt || now;
 
-  // Insert prompt
+  // Insert prompt (optional columns are NULL when there is nothing to store, as in updatePrompt)
   await executeMutation(
-    `INSERT INTO prompts (id, user_id, title, description, content, is_archived, created_at, updated_at, current_version)
-     VALUES (?, ?, ?, ?, ?, 0, ?, ?, 1)`,
-    [id, userId, data.title, data.description, data.content, createdAt, updatedAt]
+    `INSERT INTO prompts (id, user_id, title, description, content, variables, default_provider, created_at, updated_at, is_archived, current_version)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 0, 1)`,
+    [
+      id,
+      userId,
+      data.title,
+      data.description,
+      data.content,
+      data.variables && data.variables.length > 0 ? JSON.stringify(data.variables) : null,
+      data.defaultProvider || null,
+      createdAt,
+      updatedAt,
+    ]
   );
 
   // Create initial version
@@ -184,6 +214,8 @@ export async function createPrompt(
     description: data.description,
     content: data.content,
     tags: data.tags,
+    variables: data.variables,
+    defaultProvider: data.defaultProvider,
     currentTxId: id, // Use ID as txId for compatibility
     versions: [
       {
@@ -210,6 +242,8 @@ export async function updatePrompt(
     description: string;
     content: string;
     tags: string[];
+    variables: PromptVariable[];
+    defaultProvider: string; // Empty string clears it
   }>,
   changeNote?: string
 ): Promise<Prompt | null> {
@@ -221,7 +255,7 @@ export async function updatePrompt(
 
   // Build update query dynamically
   const setClauses: string[] = ['updated_at = ?'];
-  const values: (string | number)[] = [now];
+  const values: (string | number | null)[] = [now];
 
   if (updates.title !== undefined) {
     setClauses.push('title = ?');
@@ -235,6 +269,17 @@ export async function updatePrompt(
     setClauses.push('content = ?');
     values.push(updates.content);
   }
+  // Only touch the variables column when declarations actually changed
+  const variablesChanged = updates.variables !== undefined &&
+    JSON.stringify(updates.variables) !== JSON.stringify(existing.variables ?? []);
+  if (variablesChanged && updates.variables) {
+    setClauses.push('variables = ?');
+    values.push(updates.variables.length > 0 ? JSON.stringify(updates.variables) : null);
+  }
+  if (updates.defaultProvider !== undefined && (updates.defaultProvider || undefined) !== existing.defaultProvider) {
+    setClauses.push('default_provider = ?');
+    values.push(updates.defaultProvider || null);
+  }
 
   // Increment version if content changed
   if (contentChanged) {
@@ -286,7 +331,7 @@ export async function restorePrompt(promptId: string): Promise<void> {
  * Permanently delete a prompt
  */
 export async function deletePrompt(promptId: string): Promise<void> {
-  // Tags and versions will be deleted via CASCADE
+  // Tags, versions and pack memberships will be deleted via CASCADE
   await executeMutation('DELETE FROM prompts WHERE id = ?', [promptId]);
 }
 
@@ -580,6 +625,69 @@ export async function deleteSavedSearch(searchId: string): Promise<void> {
   await executeMutation('DELETE FROM saved_searches WHERE id = ?', [searchId]);
 }
 
+// =============================================================================
+// Conflict Operations
+// =============================================================================
+
+export interface ConflictRecord {
+  promptId: string;
+  source: PromptConflict['source'];
+  /** prompt_versions.version both copies descend from */
+  baseVersion: number | null;
+  detectedAt: number;
+}
+
+/**
+ * Record that a prompt was edited in two places (replaces an open record)
+ */
+export async function recordConflict(
+  promptId: string,
+  source: PromptConflict['source'],
+  baseVersion: number | null
+): Promise<void> {
+  await executeMutation(
+    `INSERT OR REPLACE INTO sync_conflicts (prompt_id, detected_at, source, base_version)
+     VALUES (?, ?, ?, ?)`,
+    [promptId, Date.now(), source, baseVersion]
+  );
+}
+
+/**
+ * Get open conflicts from one source, oldest first
+ */
+export async function getConflictRecords(source: PromptConflict['source']): Promise<ConflictRecord[]> {
+  const rows = await executeQuery<{ prompt_id: string; source: string; base_version: number | null; detected_at: number }>(
+    'SELECT * FROM sync_conflicts WHERE source = ? ORDER BY detected_at',
+    [source]
+  );
+
+  return rows.map((row) => ({
+    promptId: row.prompt_id,
+    source: row.source as PromptConflict['source'],
+    baseVersion: row.base_version,
+    detectedAt: row.detected_at,
+  }));
+}
+
+/**
+ * Remove a prompt's conflict record
+ */
+export async function clearConflict(promptId: string): Promise<void> {
+  await executeMutation('DELETE FROM sync_conflicts WHERE prompt_id = ?', [promptId]);
+}
+
+/**
+ * Latest version of a prompt with exactly this content
+ */
+export async function findVersionByContent(promptId: string, content: string): Promise<number | null> {
+  const rows = await executeQuery<{ version: number }>(
+    'SELECT version FROM prompt_versions WHERE prompt_id = ? AND content = ? ORDER BY version DESC LIMIT 1',
+    [promptId, content]
+  );
+
+  return rows.length > 0 ? rows[0].version : null;
+}
+
 /**
  * Clear all user data from Turso (prompts, versions, tags, saved searches)
  */
@@ -605,6 +713,15 @@ export async function clearAllUserData(userId: string): Promise<void> {
 
   // Delete saved searches
   await executeMutation('DELETE FROM saved_searches WHERE user_id = ?', [userId]);
+
+  // Delete packs and their memberships
+  await executeMutation(`
+    DELETE FROM pack_prompts
+    WHERE pack_id IN (
+      SELECT id FROM packs WHERE user_id = ?
+    )
+  `, [userId]);
+  await executeMutation('DELETE FROM packs WHERE user_id = ?', [userId]);
 }
 
 // =============================================================================
@@ -625,13 +742,7 @@ export async function generateShareToken(promptId: string): Promise<string> {
     return existing[0].share_token;
   }
 
-  // Generate a new share token (URL-safe base64)
-  const randomBytes = new Uint8Array(16);
-  crypto.getRandomValues(randomBytes);
-  const shareToken = btoa(String.fromCharCode(...randomBytes))
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=/g, '');
+  const shareToken = createShareToken();
 
   // Save the share token
   await executeMutation(
@@ -683,10 +794,400 @@ export async function getShareToken(promptId: string): Promise<string | null> {
   return rows[0].share_token;
 }
 
+// =============================================================================
+// Pack Operations
+// =============================================================================
+
+/**
+ * Get all packs for a user
+ */
+export async function getPacksByUserId(userId: string): Promise<Pack[]> {
+  const rows = await executeQuery<TursoPackRow>(
+    'SELECT * FROM packs WHERE user_id = ? ORDER BY updated_at DESC',
+    [userId]
+  );
+
+  const promptIdsMap = await getPromptIdsForPacks(rows.map((r) => r.id));
+
+  return rows.map((row) => rowToPack(row, promptIdsMap[row.id] || []));
+}
+
+/**
+ * Get a single pack by ID
+ */
+export async function getPackById(packId: string): Promise<Pack | null> {
+  const rows = await executeQuery<TursoPackRow>(
+    'SELECT * FROM packs WHERE id = ?',
+    [packId]
+  );
+
+  if (rows.length === 0) return null;
+
+  const promptIdsMap = await getPromptIdsForPacks([packId]);
+  return rowToPack(rows[0], promptIdsMap[packId] || []);
+}
+
+/**
+ * Create a new pack (prompts keep the order given)
+ */
+export async function createPack(userId: string, data: CreatePackData): Promise<Pack> {
+  const id = crypto.randomUUID();
+  const now = Date.now();
+  const tags = data.tags ?? [];
+
+  await executeMutation(
+    `INSERT INTO packs (id, user_id, name, description, visibility, tags, cover_image, cover_color, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      userId,
+      data.name,
+      data.description,
+      data.visibility ?? 'private',
+      tags.length > 0 ? JSON.stringify(tags) : null,
+      data.coverImage || null,
+      data.coverColor || null,
+      now,
+      now,
+    ]
+  );
+
+  await setPackPrompts(id, data.promptIds);
+
+  return {
+    id,
+    name: data.name,
+    description: data.description,
+    ownerId: userId,
+    promptIds: uniqueIds(data.promptIds),
+    visibility: data.visibility ?? 'private',
+    tags,
+    coverImage: data.coverImage || undefined,
+    coverColor: data.coverColor || undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Update a pack's metadata and, if promptIds is given, its membership
+ */
+export async function updatePack(
+  packId: string,
+  updates: Partial<CreatePackData>
+): Promise<Pack | null> {
+  const setClauses: string[] = ['updated_at = ?'];
+  const values: (string | number | null)[] = [Date.now()];
+
+  if (updates.name !== undefined) {
+    setClauses.push('name = ?');
+    values.push(updates.name);
+  }
+  if (updates.description !== undefined) {
+    setClauses.push('description = ?');
+    values.push(updates.description);
+  }
+  if (updates.visibility !== undefined) {
+    setClauses.push('visibility = ?');
+    values.push(updates.visibility);
+  }
+  if (updates.tags !== undefined) {
+    setClauses.push('tags = ?');
+    values.push(updates.tags.length > 0 ? JSON.stringify(updates.tags) : null);
+  }
+  if (updates.coverImage !== undefined) {
+    setClauses.push('cover_image = ?');
+    values.push(updates.coverImage || null);
+  }
+  if (updates.coverColor !== undefined) {
+    setClauses.push('cover_color = ?');
+    values.push(updates.coverColor || null);
+  }
+
+  values.push(packId);
+
+  const affected = await executeMutation(
+    `UPDATE packs SET ${setClauses.join(', ')} WHERE id = ?`,
+    values
+  );
+  if (affected === 0) return null;
+
+  if (updates.promptIds !== undefined) {
+    await setPackPrompts(packId, updates.promptIds);
+  }
+
+  return getPackById(packId);
+}
+
+/**
+ * Delete a pack. Only the pack and its membership rows are removed;
+ * the prompts themselves are never touched.
+ */
+export async function deletePack(packId: string): Promise<void> {
+  await executeBatch([
+    { sql: 'DELETE FROM pack_prompts WHERE pack_id = ?', args: [packId] },
+    { sql: 'DELETE FROM packs WHERE id = ?', args: [packId] },
+  ]);
+}
+
+/**
+ * Append prompts to the end of a pack (prompts already in it are left in place)
+ */
+export async function addPromptsToPack(packId: string, promptIds: string[]): Promise<void> {
+  const rows = await executeQuery<{ max_position: number | null }>(
+    'SELECT MAX(position) AS max_position FROM pack_prompts WHERE pack_id = ?',
+    [packId]
+  );
+  let position = (rows[0]?.max_position ?? -1) + 1;
+  const now = Date.now();
+
+  await executeBatch([
+    ...uniqueIds(promptIds).map((promptId) => ({
+      sql: `INSERT OR IGNORE INTO pack_prompts (pack_id, prompt_id, position, added_at)
+            VALUES (?, ?, ?, ?)`,
+      args: [packId, promptId, position++, now],
+    })),
+    { sql: 'UPDATE packs SET updated_at = ? WHERE id = ?', args: [now, packId] },
+  ]);
+}
+
+/**
+ * Remove prompts from a pack (the prompts stay in the library)
+ */
+export async function removePromptsFromPack(packId: string, promptIds: string[]): Promise<void> {
+  if (promptIds.length === 0) return;
+
+  const placeholders = promptIds.map(() => '?').join(',');
+  await executeBatch([
+    {
+      sql: `DELETE FROM pack_prompts WHERE pack_id = ? AND prompt_id IN (${placeholders})`,
+      args: [packId, ...promptIds],
+    },
+    { sql: 'UPDATE packs SET updated_at = ? WHERE id = ?', args: [Date.now(), packId] },
+  ]);
+}
+
+/**
+ * Reorder a pack's prompts. Members missing from promptIds keep their
+ * relative order after the ones given.
+ */
+export async function reorderPackPrompts(packId: string, promptIds: string[]): Promise<void> {
+  const current = (await getPromptIdsForPacks([packId]))[packId] || [];
+  const members = new Set(current);
+  const ordered = uniqueIds(promptIds).filter((id) => members.has(id));
+  const placed = new Set(ordered);
+  const order = [...ordered, ...current.filter((id) => !placed.has(id))];
+
+  await executeBatch([
+    ...order.map((promptId, position) => ({
+      sql: 'UPDATE pack_prompts SET position = ? WHERE pack_id = ? AND prompt_id = ?',
+      args: [position, packId, promptId],
+    })),
+    { sql: 'UPDATE packs SET updated_at = ? WHERE id = ?', args: [Date.now(), packId] },
+  ]);
+}
+
+/**
+ * Generate a share token for a pack (reuses an existing one)
+ */
+export async function sharePack(packId: string): Promise<string> {
+  const existing = await executeQuery<{ share_token: string | null }>(
+    'SELECT share_token FROM packs WHERE id = ?',
+    [packId]
+  );
+
+  if (existing.length === 0) {
+    throw new Error(`Pack not found: ${packId}`);
+  }
+  if (existing[0].share_token) {
+    return existing[0].share_token;
+  }
+
+  const shareToken = createShareToken();
+  await executeMutation(
+    `UPDATE packs SET share_token = ?, visibility = 'shared', updated_at = ? WHERE id = ?`,
+    [shareToken, Date.now(), packId]
+  );
+
+  return shareToken;
+}
+
+/**
+ * Get a pack by its share token
+ */
+export async function getPackByShareToken(shareToken: string): Promise<Pack | null> {
+  const rows = await executeQuery<TursoPackRow>(
+    'SELECT * FROM packs WHERE share_token = ?',
+    [shareToken]
+  );
+
+  if (rows.length === 0) return null;
+
+  const promptIdsMap = await getPromptIdsForPacks([rows[0].id]);
+  return rowToPack(rows[0], promptIdsMap[rows[0].id] || []);
+}
+
+/**
+ * Import a shared pack: copies its prompts into the user's library and
+ * creates a private pack holding the copies. Importing your own pack
+ * returns it unchanged.
+ */
+export async function importPack(userId: string, shareToken: string): Promise<Pack> {
+  const shared = await getPackByShareToken(shareToken);
+  if (!shared) {
+    throw new Error('Shared pack not found or no longer shared');
+  }
+  if (shared.ownerId === userId) {
+    return shared;
+  }
+
+  const copiedIds: string[] = [];
+  for (const promptId of shared.promptIds) {
+    const source = await getPromptById(promptId);
+    if (!source || source.isArchived) continue;
+
+    const copy = await createPrompt(userId, {
+      title: source.title,
+      description: source.description,
+      content: source.content,
+      tags: source.tags,
+      variables: source.variables,
+      defaultProvider: source.defaultProvider,
+    });
+    copiedIds.push(copy.id);
+  }
+
+  return createPack(userId, {
+    name: shared.name,
+    description: shared.description,
+    promptIds: copiedIds,
+    tags: shared.tags,
+    coverImage: shared.coverImage,
+    coverColor: shared.coverColor,
+  });
+}
+
+/**
+ * Remove a pack's share token (make it private again)
+ */
+export async function unsharePack(packId: string): Promise<void> {
+  await executeMutation(
+    `UPDATE packs SET share_token = NULL, visibility = 'private', updated_at = ? WHERE id = ?`,
+    [Date.now(), packId]
+  );
+}
+
+/**
+ * PackStorage implementation backed by the Turso tables above
+ */
+export const tursoPackStorage: PackStorage = {
+  getPacksByUserId,
+  getPackById,
+  createPack,
+  updatePack,
+  deletePack,
+  addPromptsToPack,
+  removePromptsFromPack,
+  reorderPackPrompts,
+  sharePack,
+  getPackByShareToken,
+  importPack,
+  unsharePack,
+};
+
+/**
+ * Replace a pack's membership with promptIds, in that order
+ */
+async function setPackPrompts(packId: string, promptIds: string[]): Promise<void> {
+  const now = Date.now();
+  await executeBatch([
+    { sql: 'DELETE FROM pack_prompts WHERE pack_id = ?', args: [packId] },
+    ...uniqueIds(promptIds).map((promptId, position) => ({
+      sql: 'INSERT INTO pack_prompts (pack_id, prompt_id, position, added_at) VALUES (?, ?, ?, ?)',
+      args: [packId, promptId, position, now],
+    })),
+  ]);
+}
+
+/**
+ * Get ordered prompt IDs for multiple packs in batch
+ */
+async function getPromptIdsForPacks(packIds: string[]): Promise<Record<string, string[]>> {
+  if (packIds.length === 0) return {};
+
+  const placeholders = packIds.map(() => '?').join(',');
+  const rows = await executeQuery<{ pack_id: string; prompt_id: string }>(
+    `SELECT pack_id, prompt_id FROM pack_prompts
+     WHERE pack_id IN (${placeholders})
+     ORDER BY pack_id, position`,
+    packIds
+  );
+
+  const map: Record<string, string[]> = {};
+  for (const row of rows) {
+    if (!map[row.pack_id]) map[row.pack_id] = [];
+    map[row.pack_id].push(row.prompt_id);
+  }
+
+  return map;
+}
+
 // =============================================================================
 // Helpers
 // =============================================================================
 
+/**
+ * Generate a URL-safe random share token
+ */
+function createShareToken(): string {
+  const randomBytes = new Uint8Array(16);
+  crypto.getRandomValues(randomBytes);
+  return btoa(String.fromCharCode(...randomBytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=/g, '');
+}
+
+/**
+ * Remove duplicate IDs, keeping the first occurrence
+ */
+function uniqueIds(ids: string[]): string[] {
+  return [...new Set(ids)];
+}
+
+/**
+ * Convert database row to Pack type
+ */
+function rowToPack(row: TursoPackRow, promptIds: string[]): Pack {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || '',
+    ownerId: row.user_id,
+    promptIds,
+    visibility: row.visibility,
+    shareToken: row.share_token || undefined,
+    tags: row.tags ? JSON.parse(row.tags) as string[] : [],
+    coverImage: row.cover_image || undefined,
+    coverColor: row.cover_color || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Parse the stored variables column, ignoring malformed JSON
+ */
+function parseStoredVariables(raw?: string | null): PromptVariable[] | undefined {
+  if (!raw) return undefined;
+  try {
+    const declarations = parseVariableDeclarations(JSON.parse(raw));
+    return declarations.length > 0 ? declarations : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Convert database row to Prompt type
  */
@@ -697,6 +1198,8 @@ function rowToPrompt(row: TursoPromptRow, tags: string[], versions: PromptVersio
     description: row.description,
     content: row.content,
     tags,
+    variables: parseStoredVariables(row.variables),
+    defaultProvider: row.default_provider || undefined,
     currentTxId: row.id, // Use ID for compatibility
     versions: versions.length > 0 ? versions : [
       {
@@ -3,8 +3,10 @@
  * Supports both local-first (file:) and cloud sync modes
  */
 import { createClient, type Client, type ResultSet } from '@libsql/client';
+import { runMigrations, type MigrationResult } from './migrations';
 
 let client: Client | null = null;
+let clientIsLocalFile = false;
 
 // Check if running in Tauri
 const isTauri = typeof window !== 'undefined' && '__TAURI__' in window;
@@ -32,6 +34,7 @@ export function getTursoClient(): Client {
 
     // For local file mode, no auth token needed
     const isLocalFile = url.startsWith('file:');
+    clientIsLocalFile = isLocalFile;
 
     client = createClient({
       url,
@@ -81,6 +84,38 @@ export async function executeBatch(
   );
 }
 
+/**
+ * Bring the database schema up to date (see ./migrations).
+ * Local databases are backed up next to prompts.db before any migration runs.
+ */
+export async function migrateDatabase(): Promise<MigrationResult> {
+  const turso = getTursoClient();
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return runMigrations(turso, {
+    backupPath: clientIsLocalFile ? `prompts.backup-${stamp}.db` : undefined,
+  });
+}
+
+/**
+ * Client for a cloud sync server (Turso, or a self-hosted sqld such as
+ * http://127.0.0.1:8080). Separate from the app's own database client.
+ */
+export function createSyncServerClient(url: string, authToken?: string): Client {
+  return createClient({ url, authToken: authToken || undefined });
+}
+
+/**
+ * Check that a sync server is reachable and bring its schema up to date
+ */
+export async function verifySyncServer(url: string, authToken?: string): Promise<void> {
+  const server = createSyncServerClient(url, authToken);
+  try {
+    await runMigrations(server);
+  } finally {
+    server.close();
+  }
+}
+
 /**
  * Check if Turso is configured (cloud or local)
  */
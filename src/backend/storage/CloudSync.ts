@@ -0,0 +1,715 @@
+/**
+ * Cloud sync engine
+ *
+ * Syncs the local libSQL database with a libSQL server (Turso or a
+ * self-hosted `sqld`). The local database stays authoritative: the app only
+ * ever reads and writes it, and sync runs in the background when online.
+ *
+ * Change tracking lives in the schema (migration 6): triggers record every
+ * changed prompt and saved search in `sync_changes`. Locally that table is
+ * the outbox of pending changes; on the server it is the change feed other
+ * devices pull from, ordered by `seq`. `sync_base` keeps the last synced
+ * copy of each prompt so concurrent edits can be told apart from echoes.
+ *
+ * The server holds a single library. Rows are owned by a placeholder user
+ * there and re-owned by the local user when pulled.
+ */
+
+import type { Client, InStatement } from '@libsql/client';
+import { runMigrations } from '@/backend/api/migrations';
+import type { Prompt, PromptVariable } from '@/shared/types/prompt';
+import type {
+  SyncStorage,
+  SyncStatus,
+  ConflictResolution,
+  PromptConflict,
+} from '@/shared/interfaces/StorageBackend';
+
+/** Device identifier owning the library on the server */
+const LIBRARY_OWNER = 'cloud-sync-library';
+
+/** Background sync interval and debounce after local edits */
+const AUTO_SYNC_INTERVAL = 60_000;
+const SCHEDULE_DELAY = 2_000;
+
+/** Change notes for the version a resolved conflict is saved as */
+const RESOLUTION_NOTES: Record<ConflictResolution['strategy'], string> = {
+  local: 'Resolved conflict: kept this device\'s copy',
+  remote: 'Resolved conflict: kept the copy from another device',
+  merge: 'Merged with changes from another device',
+};
+
+type Entity = 'prompt' | 'saved_search';
+
+interface Change {
+  entity: Entity;
+  entityId: string;
+  seq: number;
+}
+
+export interface VersionSnapshot {
+  id: string;
+  version: number;
+  content: string;
+  changeNote: string | null;
+  createdAt: number;
+}
+
+/** A prompt row with its tags and versions, as stored in either database */
+export interface PromptSnapshot {
+  id: string;
+  title: string;
+  description: string;
+  content: string;
+  variables: string | null; // JSON-encoded PromptVariable[]
+  defaultProvider: string | null;
+  isArchived: boolean;
+  createdAt: number;
+  updatedAt: number;
+  currentVersion: number;
+  tags: string[];
+  versions: VersionSnapshot[];
+}
+
+interface SavedSearchSnapshot {
+  id: string;
+  name: string;
+  description: string | null;
+  expression: string;
+  textQuery: string | null;
+  updatedAt: number;
+}
+
+// =============================================================================
+// Snapshots
+// =============================================================================
+
+const text = (value: unknown): string | null => (value == null ? null : String(value));
+
+export async function readPrompt(db: Client, promptId: string): Promise<PromptSnapshot | null> {
+  const rows = (await db.execute({
+    sql: `SELECT id, title, description, content, variables, default_provider, is_archived,
+            created_at, updated_at, current_version
+          FROM prompts WHERE id = ?`,
+    args: [promptId],
+  })).rows;
+  if (rows.length === 0) return null;
+
+  const tags = (await db.execute({
+    sql: `SELECT t.name FROM tags t JOIN prompt_tags pt ON pt.tag_id = t.id
+          WHERE pt.prompt_id = ? ORDER BY t.name`,
+    args: [promptId],
+  })).rows.map((r) => String(r.name));
+
+  const versions = (await db.execute({
+    sql: 'SELECT * FROM prompt_versions WHERE prompt_id = ? ORDER BY version',
+    args: [promptId],
+  })).rows.map((r) => ({
+    id: String(r.id),
+    version: Number(r.version),
+    content: String(r.content),
+    changeNote: text(r.change_note),
+    createdAt: Number(r.created_at),
+  }));
+
+  const row = rows[0];
+  return {
+    id: String(row.id),
+    title: String(row.title),
+    description: text(row.description) ?? '',
+    content: String(row.content),
+    variables: text(row.variables),
+    defaultProvider: text(row.default_provider),
+    isArchived: Number(row.is_archived) === 1,
+    createdAt: Number(row.created_at),
+    updatedAt: Number(row.updated_at),
+    currentVersion: Number(row.current_version),
+    tags,
+    versions,
+  };
+}
+
+async function readSavedSearch(db: Client, searchId: string): Promise<SavedSearchSnapshot | null> {
+  const rows = (await db.execute({ sql: 'SELECT * FROM saved_searches WHERE id = ?', args: [searchId] })).rows;
+  if (rows.length === 0) return null;
+
+  const row = rows[0];
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    description: text(row.description),
+    expression: String(row.expression),
+    textQuery: text(row.text_query),
+    updatedAt: Number(row.updated_at),
+  };
+}
+
+/** Whether two copies of a prompt have the same user-visible content */
+export function samePrompt(a: PromptSnapshot, b: PromptSnapshot): boolean {
+  return a.title === b.title &&
+    a.description === b.description &&
+    a.content === b.content &&
+    (a.variables ?? '') === (b.variables ?? '') &&
+    (a.defaultProvider ?? '') === (b.defaultProvider ?? '') &&
+    a.isArchived === b.isArchived &&
+    JSON.stringify([...a.tags].sort()) === JSON.stringify([...b.tags].sort());
+}
+
+/** Whether two copies have the same versions, numbered the same */
+function sameHistory(a: PromptSnapshot, b: PromptSnapshot): boolean {
+  const key = (s: PromptSnapshot) => s.versions.map((v) => `${v.version}:${v.id}`).join(',');
+  return key(a) === key(b);
+}
+
+/** Latest version both copies have (versions keep their IDs across databases) */
+export function commonVersion(a: PromptSnapshot, b: PromptSnapshot): VersionSnapshot | null {
+  const ids = new Set(b.versions.map((v) => v.id));
+  return [...a.versions].reverse().find((v) => ids.has(v.id)) ?? null;
+}
+
+/**
+ * Both histories as one: shared versions first, then each copy's own
+ * versions by time, renumbered so they fit together
+ */
+function combineHistories(a: VersionSnapshot[], b: VersionSnapshot[]): VersionSnapshot[] {
+  const ids = new Set(b.map((v) => v.id));
+  const shared = a.filter((v) => ids.has(v.id));
+  const sharedIds = new Set(shared.map((v) => v.id));
+  const diverged = [...a, ...b]
+    .filter((v) => !sharedIds.has(v.id))
+    .sort((x, y) => x.createdAt - y.createdAt);
+  return [...shared, ...diverged].map((v, i) => ({ ...v, version: i + 1 }));
+}
+
+export function snapshotToPrompt(snapshot: PromptSnapshot): Prompt {
+  return {
+    id: snapshot.id,
+    title: snapshot.title,
+    description: snapshot.description,
+    content: snapshot.content,
+    tags: snapshot.tags,
+    variables: snapshot.variables ? JSON.parse(snapshot.variables) as PromptVariable[] : undefined,
+    defaultProvider: snapshot.defaultProvider || undefined,
+    currentTxId: snapshot.id,
+    versions: [...snapshot.versions].reverse().map((v) => ({
+      txId: v.id,
+      version: v.version,
+      timestamp: v.createdAt,
+      changeNote: v.changeNote || undefined,
+    })),
+    createdAt: snapshot.createdAt,
+    updatedAt: snapshot.updatedAt,
+    isArchived: snapshot.isArchived,
+    isSynced: true,
+  };
+}
+
+// =============================================================================
+// Statements
+// =============================================================================
+
+/**
+ * Upsert a prompt with its tags and versions; new rows are owned by userId.
+ * Versions are replaced, since resolving a conflict renumbers them.
+ */
+function writePromptStatements(snapshot: PromptSnapshot, userId: string): InStatement[] {
+  const { id } = snapshot;
+  return [
+    {
+      sql: `INSERT INTO prompts (id, user_id, title, description, content, variables, default_provider,
+              is_archived, created_at, updated_at, current_version)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(id) DO UPDATE SET
+              title = excluded.title, description = excluded.description, content = excluded.content,
+              variables = excluded.variables, default_provider = excluded.default_provider,
+              is_archived = excluded.is_archived, updated_at = excluded.updated_at,
+              current_version = excluded.current_version`,
+      args: [
+        id, userId, snapshot.title, snapshot.description, snapshot.content, snapshot.variables,
+        snapshot.defaultProvider, snapshot.isArchived ? 1 : 0, snapshot.createdAt, snapshot.updatedAt,
+        snapshot.currentVersion,
+      ],
+    },
+    { sql: 'DELETE FROM prompt_tags WHERE prompt_id = ?', args: [id] },
+    // Tag IDs differ between databases, so link by name
+    ...snapshot.tags.flatMap((tag) => [
+      { sql: 'INSERT OR IGNORE INTO tags (id, name) VALUES (?, ?)', args: [crypto.randomUUID(), tag] },
+      {
+        sql: 'INSERT OR IGNORE INTO prompt_tags (prompt_id, tag_id) SELECT ?, id FROM tags WHERE name = ? COLLATE NOCASE',
+        args: [id, tag],
+      },
+    ]),
+    { sql: 'DELETE FROM prompt_versions WHERE prompt_id = ?', args: [id] },
+    ...snapshot.versions.map((v) => ({
+      sql: `INSERT INTO prompt_versions (id, prompt_id, version, content, change_note, created_at)
+            VALUES (?, ?, ?, ?, ?, ?)`,
+      args: [v.id, id, v.version, v.content, v.changeNote, v.createdAt],
+    })),
+  ];
+}
+
+/** Delete a prompt explicitly (the server may not enforce foreign keys) */
+function deletePromptStatements(promptId: string): InStatement[] {
+  return ['prompt_tags', 'prompt_versions', 'pack_prompts'].map((table) => ({
+    sql: `DELETE FROM ${table} WHERE prompt_id = ?`,
+    args: [promptId],
+  })).concat({ sql: 'DELETE FROM prompts WHERE id = ?', args: [promptId] });
+}
+
+function writeSavedSearchStatement(search: SavedSearchSnapshot, userId: string): InStatement {
+  return {
+    sql: `INSERT INTO saved_searches (id, user_id, name, description, expression, text_query, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(id) DO UPDATE SET
+            name = excluded.name, description = excluded.description, expression = excluded.expression,
+            text_query = excluded.text_query, updated_at = excluded.updated_at`,
+    args: [search.id, userId, search.name, search.description, search.expression, search.textQuery, search.updatedAt],
+  };
+}
+
+async function ensureUser(db: Client, deviceId: string): Promise<string> {
+  const now = Date.now();
+  await db.execute({
+    sql: 'INSERT OR IGNORE INTO users (id, device_id, created_at, last_seen_at) VALUES (?, ?, ?, ?)',
+    args: [crypto.randomUUID(), deviceId, now, now],
+  });
+  const rows = (await db.execute({ sql: 'SELECT id FROM users WHERE device_id = ?', args: [deviceId] })).rows;
+  return String(rows[0].id);
+}
+
+// =============================================================================
+// Engine
+// =============================================================================
+
+export class CloudSync implements SyncStorage {
+  private local: Client;
+  private remote: Client;
+  private deviceId: string;
+
+  private status: SyncStatus = { syncing: false, lastSyncAt: null, pendingChanges: 0, error: null };
+  private statusListeners = new Set<(status: SyncStatus) => void>();
+  private remoteListeners = new Set<() => void>();
+  private conflictListeners = new Set<() => void>();
+
+  private prepared: { localUserId: string; remoteOwnerId: string } | null = null;
+  private running: Promise<void> | null = null;
+  private autoSync = false;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private scheduled: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(local: Client, remote: Client, deviceId: string) {
+    this.local = local;
+    this.remote = remote;
+    this.deviceId = deviceId;
+  }
+
+  getSyncStatus(): SyncStatus {
+    return { ...this.status };
+  }
+
+  onSyncStatusChange(callback: (status: SyncStatus) => void): () => void {
+    this.statusListeners.add(callback);
+    return () => this.statusListeners.delete(callback);
+  }
+
+  /** Called after a sync brought in changes from other devices */
+  onRemoteChanges(callback: () => void): () => void {
+    this.remoteListeners.add(callback);
+    return () => this.remoteListeners.delete(callback);
+  }
+
+  onConflictsChange(callback: () => void): () => void {
+    this.conflictListeners.add(callback);
+    return () => this.conflictListeners.delete(callback);
+  }
+
+  /** Load last sync time and pending change count from the local database */
+  async refreshStatus(): Promise<void> {
+    const lastSyncAt = await this.getMeta('last_sync_at');
+    this.update({
+      lastSyncAt: lastSyncAt ? Number(lastSyncAt) : null,
+      pendingChanges: await this.countPending(),
+    });
+  }
+
+  setAutoSync(enabled: boolean): void {
+    this.autoSync = enabled;
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    if (enabled) {
+      this.interval = setInterval(() => void this.sync(), AUTO_SYNC_INTERVAL);
+      void this.sync();
+    }
+  }
+
+  /** Sync shortly after a local edit (when auto-sync is on) */
+  scheduleSync(): void {
+    void this.refreshStatus().catch(() => {});
+    if (!this.autoSync) return;
+    if (this.scheduled) clearTimeout(this.scheduled);
+    this.scheduled = setTimeout(() => {
+      this.scheduled = null;
+      void this.sync();
+    }, SCHEDULE_DELAY);
+  }
+
+  /** Push local changes, then pull remote ones. Errors end up in the status. */
+  sync(): Promise<void> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  async getConflicts(): Promise<PromptConflict[]> {
+    const rows = (await this.local.execute(
+      "SELECT prompt_id, detected_at, base_version FROM sync_conflicts WHERE source = 'cloud' ORDER BY detected_at"
+    )).rows;
+    const conflicts: PromptConflict[] = [];
+
+    for (const row of rows) {
+      const promptId = String(row.prompt_id);
+      const [local, remote] = await Promise.all([readPrompt(this.local, promptId), readPrompt(this.remote, promptId)]);
+
+      if (local && remote) {
+        const base = row.base_version == null
+          ? commonVersion(local, remote)
+          : local.versions.find((v) => v.version === Number(row.base_version)) ?? null;
+        conflicts.push({
+          promptId,
+          source: 'cloud',
+          localVersion: snapshotToPrompt(local),
+          remoteVersion: snapshotToPrompt(remote),
+          baseVersion: base?.version ?? null,
+          baseContent: base?.content ?? null,
+          detectedAt: Number(row.detected_at),
+        });
+        continue;
+      }
+
+      // One side was deleted since; nothing left to choose between
+      await this.local.execute({ sql: 'DELETE FROM sync_conflicts WHERE prompt_id = ?', args: [promptId] });
+      if (local) await this.requeue(promptId);
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Settle a conflict on both sides. Both histories are kept and the chosen
+   * (or merged) content is added on top as a new version.
+   */
+  async resolveConflict(promptId: string, resolution: ConflictResolution): Promise<void> {
+    const { localUserId, remoteOwnerId } = await this.prepare();
+    const [local, remote] = await Promise.all([readPrompt(this.local, promptId), readPrompt(this.remote, promptId)]);
+    const kept = resolution.strategy === 'remote' ? remote : local;
+
+    if (resolution.strategy === 'merge' && resolution.mergedContent === undefined) {
+      throw new Error('A merge needs the merged content');
+    }
+
+    if (!kept) {
+      // The kept copy was deleted in the meantime: delete it everywhere
+      await this.applyLocally(deletePromptStatements(promptId));
+      await this.remote.batch(deletePromptStatements(promptId), 'write');
+      await this.clearBase('prompt', promptId);
+    } else {
+      const history = combineHistories(local?.versions ?? [], remote?.versions ?? []);
+      const version = history.length + 1;
+      const content = resolution.mergedContent ?? kept.content;
+      const now = Date.now();
+      const resolved: PromptSnapshot = {
+        ...kept,
+        content,
+        updatedAt: now,
+        currentVersion: version,
+        versions: [...history, {
+          id: crypto.randomUUID(),
+          version,
+          content,
+          changeNote: resolution.changeNote || RESOLUTION_NOTES[resolution.strategy],
+          createdAt: now,
+        }],
+      };
+      await this.applyLocally(writePromptStatements(resolved, localUserId));
+      await this.remote.batch(writePromptStatements(resolved, remoteOwnerId), 'write');
+      await this.setBase(resolved);
+    }
+
+    await this.local.batch([
+      { sql: 'DELETE FROM sync_conflicts WHERE prompt_id = ?', args: [promptId] },
+      { sql: "DELETE FROM sync_changes WHERE entity = 'prompt' AND entity_id = ?", args: [promptId] },
+    ], 'write');
+    this.update({ pendingChanges: await this.countPending() });
+    this.conflictListeners.forEach((listener) => listener());
+    this.remoteListeners.forEach((listener) => listener());
+  }
+
+  dispose(): void {
+    this.setAutoSync(false);
+    if (this.scheduled) clearTimeout(this.scheduled);
+    this.statusListeners.clear();
+    this.remoteListeners.clear();
+    this.conflictListeners.clear();
+    this.remote.close();
+  }
+
+  // ---------------------------------------------------------------------------
+
+  private async run(): Promise<void> {
+    this.update({ syncing: true, error: null });
+
+    try {
+      await this.prepare();
+      await this.push();
+      const pulled = await this.pull();
+
+      const lastSyncAt = Date.now();
+      await this.setMeta('last_sync_at', String(lastSyncAt));
+      this.update({ syncing: false, lastSyncAt, pendingChanges: await this.countPending() });
+
+      if (pulled > 0) {
+        this.remoteListeners.forEach((listener) => listener());
+      }
+    } catch (error) {
+      console.warn('[CloudSync] Sync failed, changes stay queued:', error);
+      this.update({
+        syncing: false,
+        error: error instanceof Error ? error.message : 'Sync failed',
+        pendingChanges: await this.countPending().catch(() => this.status.pendingChanges),
+      });
+    }
+  }
+
+  /** First-run setup: server schema, owning users, and queueing existing data */
+  private async prepare(): Promise<{ localUserId: string; remoteOwnerId: string }> {
+    if (this.prepared) return this.prepared;
+
+    await runMigrations(this.remote);
+    const localUserId = await ensureUser(this.local, this.deviceId);
+    const remoteOwnerId = await ensureUser(this.remote, LIBRARY_OWNER);
+
+    // Data written before the change log existed has never been queued
+    if (!await this.getMeta('seeded')) {
+      const now = Date.now();
+      await this.local.batch([
+        {
+          sql: `INSERT OR IGNORE INTO sync_changes (entity, entity_id, deleted, seq, changed_at)
+                SELECT 'prompt', id, 0, 0, ? FROM prompts`,
+          args: [now],
+        },
+        {
+          sql: `INSERT OR IGNORE INTO sync_changes (entity, entity_id, deleted, seq, changed_at)
+                SELECT 'saved_search', id, 0, 0, ? FROM saved_searches`,
+          args: [now],
+        },
+        { sql: "INSERT OR REPLACE INTO sync_meta (key, value) VALUES ('seeded', '1')", args: [] },
+      ], 'write');
+    }
+
+    this.prepared = { localUserId, remoteOwnerId };
+    return this.prepared;
+  }
+
+  private async push(): Promise<void> {
+    const { remoteOwnerId } = await this.prepare();
+    const changes = await readChanges(this.local, 'SELECT * FROM sync_changes ORDER BY seq');
+
+    for (const change of changes) {
+      if (change.entity === 'prompt') {
+        await this.pushPrompt(change.entityId, remoteOwnerId);
+      } else {
+        await this.pushSavedSearch(change.entityId, remoteOwnerId);
+      }
+
+      // A newer edit made during the push keeps its row (higher seq)
+      await this.local.execute({
+        sql: 'DELETE FROM sync_changes WHERE entity = ? AND entity_id = ? AND seq = ?',
+        args: [change.entity, change.entityId, change.seq],
+      });
+    }
+  }
+
+  private async pushPrompt(promptId: string, remoteOwnerId: string): Promise<void> {
+    if (await this.hasConflict(promptId)) return;
+
+    const [local, remote, base] = await Promise.all([
+      readPrompt(this.local, promptId),
+      readPrompt(this.remote, promptId),
+      this.getBase(promptId),
+    ]);
+    const remoteChanged = remote !== null && (base === null || !samePrompt(remote, base));
+
+    if (!local) {
+      if (remote && remoteChanged) {
+        // Edited elsewhere since we last synced: the edit wins over our delete
+        const { localUserId } = await this.prepare();
+        await this.applyLocally(writePromptStatements(remote, localUserId));
+        await this.setBase(remote);
+        return;
+      }
+      if (remote) {
+        await this.remote.batch(deletePromptStatements(promptId), 'write');
+      }
+      await this.clearBase('prompt', promptId);
+      return;
+    }
+
+    if (remote && remoteChanged && !samePrompt(local, remote)) {
+      await this.local.execute({
+        sql: `INSERT OR REPLACE INTO sync_conflicts (prompt_id, detected_at, source, base_version)
+              VALUES (?, ?, 'cloud', ?)`,
+        args: [promptId, Date.now(), commonVersion(local, remote)?.version ?? null],
+      });
+      this.conflictListeners.forEach((listener) => listener());
+      return;
+    }
+
+    await this.remote.batch(writePromptStatements(local, remoteOwnerId), 'write');
+    await this.setBase(local);
+  }
+
+  /** Saved searches are small and rarely edited concurrently: last writer wins */
+  private async pushSavedSearch(searchId: string, remoteOwnerId: string): Promise<void> {
+    const [local, remote] = await Promise.all([
+      readSavedSearch(this.local, searchId),
+      readSavedSearch(this.remote, searchId),
+    ]);
+
+    if (!local) {
+      await this.remote.execute({ sql: 'DELETE FROM saved_searches WHERE id = ?', args: [searchId] });
+    } else if (!remote || remote.updatedAt <= local.updatedAt) {
+      await this.remote.execute(writeSavedSearchStatement(local, remoteOwnerId));
+    }
+  }
+
+  /** Apply server changes since the last pull; returns how many were applied */
+  private async pull(): Promise<number> {
+    const { localUserId } = await this.prepare();
+    const cursor = Number(await this.getMeta('last_pulled_seq') ?? 0);
+    const changes = await readChanges(this.remote, {
+      sql: 'SELECT * FROM sync_changes WHERE seq > ? ORDER BY seq',
+      args: [cursor],
+    });
+
+    let applied = 0;
+    for (const change of changes) {
+      // Pending local edits and open conflicts are settled by the next push
+      const pending = await this.local.execute({
+        sql: 'SELECT 1 FROM sync_changes WHERE entity = ? AND entity_id = ?',
+        args: [change.entity, change.entityId],
+      });
+      if (pending.rows.length > 0 || await this.hasConflict(change.entityId)) continue;
+
+      if (change.entity === 'prompt') {
+        const [remote, local] = await Promise.all([
+          readPrompt(this.remote, change.entityId),
+          readPrompt(this.local, change.entityId),
+        ]);
+
+        if (!remote) {
+          if (local) {
+            await this.applyLocally(deletePromptStatements(change.entityId));
+            applied++;
+          }
+          await this.clearBase('prompt', change.entityId);
+        } else if (local && samePrompt(local, remote) && sameHistory(local, remote)) {
+          await this.setBase(remote);
+        } else {
+          await this.applyLocally(writePromptStatements(remote, localUserId));
+          await this.setBase(remote);
+          applied++;
+        }
+      } else {
+        const [remote, local] = await Promise.all([
+          readSavedSearch(this.remote, change.entityId),
+          readSavedSearch(this.local, change.entityId),
+        ]);
+        if (JSON.stringify(remote) === JSON.stringify(local)) continue;
+
+        await this.applyLocally(remote
+          ? [writeSavedSearchStatement(remote, localUserId)]
+          : [{ sql: 'DELETE FROM saved_searches WHERE id = ?', args: [change.entityId] }]);
+        applied++;
+      }
+    }
+
+    if (changes.length > 0) {
+      await this.setMeta('last_pulled_seq', String(changes[changes.length - 1].seq));
+    }
+    return applied;
+  }
+
+  /** Write server data locally without queueing it as a local change */
+  private async applyLocally(statements: InStatement[]): Promise<void> {
+    await this.local.batch([
+      { sql: "INSERT OR REPLACE INTO sync_meta (key, value) VALUES ('applying_remote', '1')", args: [] },
+      ...statements,
+      { sql: "DELETE FROM sync_meta WHERE key = 'applying_remote'", args: [] },
+    ], 'write');
+  }
+
+  private async requeue(promptId: string): Promise<void> {
+    await this.local.execute({
+      sql: `INSERT OR REPLACE INTO sync_changes (entity, entity_id, deleted, seq, changed_at)
+            VALUES ('prompt', ?, 0, (SELECT COALESCE(MAX(seq), 0) + 1 FROM sync_changes), ?)`,
+      args: [promptId, Date.now()],
+    });
+  }
+
+  private async hasConflict(promptId: string): Promise<boolean> {
+    const rows = await this.local.execute({ sql: 'SELECT 1 FROM sync_conflicts WHERE prompt_id = ?', args: [promptId] });
+    return rows.rows.length > 0;
+  }
+
+  private async countPending(): Promise<number> {
+    const rows = await this.local.execute('SELECT COUNT(*) AS count FROM sync_changes');
+    return Number(rows.rows[0]?.count ?? 0);
+  }
+
+  private async getBase(promptId: string): Promise<PromptSnapshot | null> {
+    const rows = await this.local.execute({
+      sql: "SELECT snapshot FROM sync_base WHERE entity = 'prompt' AND entity_id = ?",
+      args: [promptId],
+    });
+    return rows.rows.length > 0 ? JSON.parse(String(rows.rows[0].snapshot)) as PromptSnapshot : null;
+  }
+
+  private async setBase(snapshot: PromptSnapshot): Promise<void> {
+    await this.local.execute({
+      sql: "INSERT OR REPLACE INTO sync_base (entity, entity_id, snapshot) VALUES ('prompt', ?, ?)",
+      args: [snapshot.id, JSON.stringify({ ...snapshot, versions: [] })],
+    });
+  }
+
+  private async clearBase(entity: Entity, entityId: string): Promise<void> {
+    await this.local.execute({ sql: 'DELETE FROM sync_base WHERE entity = ? AND entity_id = ?', args: [entity, entityId] });
+  }
+
+  private async getMeta(key: string): Promise<string | null> {
+    const rows = await this.local.execute({ sql: 'SELECT value FROM sync_meta WHERE key = ?', args: [key] });
+    return rows.rows.length > 0 ? text(rows.rows[0].value) : null;
+  }
+
+  private async setMeta(key: string, value: string): Promise<void> {
+    await this.local.execute({ sql: 'INSERT OR REPLACE INTO sync_meta (key, value) VALUES (?, ?)', args: [key, value] });
+  }
+
+  private update(partial: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...partial };
+    this.statusListeners.forEach((listener) => listener(this.getSyncStatus()));
+  }
+}
+
+async function readChanges(db: Client, statement: InStatement): Promise<Change[]> {
+  const rows = (await db.execute(statement)).rows;
+  return rows.map((r) => ({
+    entity: String(r.entity) as Entity,
+    entityId: String(r.entity_id),
+    seq: Number(r.seq),
+  }));
+}
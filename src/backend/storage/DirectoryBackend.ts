@@ -0,0 +1,649 @@
+/**
+ * Attached directory backend
+ *
+ * The directory's markdown files are the source of truth for prompts. Every
+ * change is also mirrored into a database backend (see DirectoryReconciler);
+ * the database also provides the user record, version history, share links
+ * and saved searches, which have no place in the files. Prompts are returned
+ * with their history from the database. Mirror failures are logged, never
+ * surfaced.
+ *
+ * An app edit to a file that changed on disk since the edit began is not
+ * written to the file. It's kept in the database instead and recorded as a
+ * conflict (database copy vs. file) until the user resolves it.
+ *
+ * Files that can't be read as prompts, or that clash with each other, are
+ * reported as diagnostics with one-click fixes.
+ *
+ * When a directory is in a git repository, the commits touching each
+ * prompt's file are its file history, alongside the database versions.
+ *
+ * Several directories can be attached at once, each with its own watcher.
+ * New prompts go to the default one; read-only ones are never written. A
+ * prompt ID found in more than one directory is shown from the default
+ * directory, or else the first one listed, and reported as a collision.
+ */
+
+import * as directoryStorage from '@/backend/api/directory-storage';
+import * as gitHistory from '@/backend/api/git-history';
+import {
+  DEFAULT_DIRECTORY_OPTIONS,
+  folderOf,
+  relativePath,
+  withFolderTags,
+  type DirectoryOptions,
+} from '@/core/directory/folders';
+import type { Prompt, PromptVersion, SavedSearch } from '@/shared/types/prompt';
+import type { DirectorySource } from '@/shared/types/sync';
+import { parseMarkdownPrompt } from '@/shared/utils/import';
+import type {
+  StorageBackend,
+  ConflictStorage,
+  ConflictResolution,
+  DiagnosticsStorage,
+  DirectoryFix,
+  DirectoryIssue,
+  FileHistoryStorage,
+  FileRevision,
+  PromptConflict,
+  PromptChanges,
+  User,
+  CreatePromptData,
+  UpdatePromptData,
+} from '@/shared/interfaces/StorageBackend';
+import type { TursoLocalBackend } from './TursoLocalBackend';
+import { DirectoryReconciler } from './DirectoryReconciler';
+
+type PromptFile = Prompt & { _filePath?: string };
+
+/** Change notes for the version a resolved conflict is saved as */
+const RESOLUTION_NOTES: Record<ConflictResolution['strategy'], string> = {
+  local: 'Resolved conflict: kept the app\'s copy',
+  remote: 'Resolved conflict: kept the file\'s copy',
+  merge: 'Merged with changes made to the file',
+};
+
+/**
+ * Custom error for changes to prompts in a read-only directory
+ */
+export class ReadOnlySourceError extends Error {
+  constructor(label: string) {
+    super(`"${label}" is read-only`);
+    this.name = 'ReadOnlySourceError';
+  }
+}
+
+export class DirectoryBackend implements StorageBackend, ConflictStorage, DiagnosticsStorage, FileHistoryStorage {
+  readonly type = 'directory';
+  /** Attached directories, the default one first */
+  readonly sources: DirectorySource[];
+  /** Default directory, which new prompts are written to */
+  readonly directoryPath: string;
+  readonly options: DirectoryOptions;
+  readonly conflicts: ConflictStorage = this;
+  readonly diagnostics: DiagnosticsStorage = this;
+  readonly history: FileHistoryStorage = this;
+
+  private database: TursoLocalBackend;
+  private reconciler: DirectoryReconciler;
+  private ready = false;
+  /** Last read state of each directory, by path and prompt ID */
+  private bySource = new Map<string, Map<string, PromptFile>>();
+  /** Prompts shown, by ID (see merge) */
+  private files = new Map<string, PromptFile>();
+  /** IDs found in more than one directory, with their files */
+  private collisions = new Map<string, string[]>();
+  private unwatch: (() => void) | null = null;
+  /** Prompts with an open conflict; their database copy isn't overwritten */
+  private conflicted = new Set<string>();
+  private conflictListeners = new Set<() => void>();
+
+  constructor(
+    sources: DirectorySource[],
+    database: TursoLocalBackend,
+    options: DirectoryOptions = DEFAULT_DIRECTORY_OPTIONS,
+    defaultSource: string = sources[0]?.path
+  ) {
+    const first = sources.find((source) => source.path === defaultSource) ?? sources[0];
+    if (!first) {
+      throw new Error('Directory backend requires a directory');
+    }
+    this.sources = [first, ...sources.filter((source) => source !== first)];
+    this.directoryPath = first.path;
+    this.database = database;
+    this.options = options;
+    this.reconciler = new DirectoryReconciler(database, (promptId) => this.conflicted.has(promptId));
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.readAll();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Directory is not accessible: ${reason}. Directory must be accessible as the source of truth.`);
+    }
+
+    try {
+      await this.database.initialize();
+      const records = await this.database.getConflictRecords('directory');
+      this.conflicted = new Set(records.map((r) => r.promptId));
+    } catch (error) {
+      console.warn('[Directory] Database unavailable, continuing with directory only:', error);
+    }
+
+    this.ready = true;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  async getOrCreateUser(identifier: string): Promise<User> {
+    const user = await this.database.getOrCreateUser(identifier);
+    this.reconciler.setUser(user.id);
+    return user;
+  }
+
+  updateLastSeen(userId: string): Promise<void> {
+    return this.database.updateLastSeen(userId);
+  }
+
+  async dispose(): Promise<void> {
+    this.unwatch?.();
+    this.unwatch = null;
+    this.ready = false;
+  }
+
+  /**
+   * Watch the directories for edits made outside the app. Changed prompts
+   * are also mirrored into the database (removed ones stay there as a
+   * backup), and reported again once their new version is recorded.
+   */
+  async watch(onChange: (changes: PromptChanges) => void): Promise<() => void> {
+    this.unwatch?.();
+    const stops = await Promise.all(this.sources.map((source) =>
+      directoryStorage.watchDirectory(source.path, (changes) => {
+        const shown = this.applyChanges(source, changes);
+        if (shown.added.length + shown.updated.length + shown.removed.length === 0) return;
+
+        onChange({
+          added: shown.added.map((p) => this.reconciler.withHistory(p)),
+          updated: shown.updated.map((p) => this.reconciler.withHistory(p)),
+          removed: shown.removed,
+        });
+        this.reconciler.enqueue([...shown.added, ...shown.updated]);
+      }, this.optionsFor(source))
+    ));
+
+    const stopHistory = this.reconciler.onHistoryChange((promptIds) => {
+      const updated = promptIds.flatMap((id) => {
+        const prompt = this.files.get(id);
+        return prompt ? [this.reconciler.withHistory(prompt)] : [];
+      });
+      if (updated.length > 0) onChange({ added: [], updated, removed: [] });
+    });
+
+    this.unwatch = () => {
+      stops.forEach((stop) => stop());
+      stopHistory();
+    };
+    return this.unwatch;
+  }
+
+  // Prompts
+
+  async getPromptsByUserId(
+    userId: string,
+    options: { includeArchived?: boolean; limit?: number; offset?: number } = {}
+  ): Promise<Prompt[]> {
+    const { includeArchived = false, limit, offset = 0 } = options;
+    this.reconciler.setUser(userId);
+
+    const all = await this.readAll();
+    await this.reconciler.loadHistories();
+    // Record changes made while the app was closed in the background; the
+    // files stay authoritative. Not when only reading them
+    if (!this.options.readOnly) {
+      this.reconciler.enqueue(all);
+    }
+
+    const prompts = all
+      .filter((p) => includeArchived || !p.isArchived)
+      .map((p) => this.reconciler.withHistory(p));
+    return limit === undefined ? prompts.slice(offset) : prompts.slice(offset, offset + limit);
+  }
+
+  async getPromptById(promptId: string): Promise<Prompt | null> {
+    if (!this.files.has(promptId)) {
+      await this.readAll();
+    }
+    const prompt = this.files.get(promptId);
+    return prompt ? this.reconciler.withHistory(prompt) : null;
+  }
+
+  async createPrompt(userId: string, data: CreatePromptData): Promise<Prompt> {
+    this.assertWritable(this.sources[0]);
+    this.reconciler.setUser(userId);
+    const now = Date.now();
+    const prompt: Prompt = {
+      id: data.id || directoryStorage.generatePromptId(),
+      title: data.title,
+      description: data.description,
+      content: data.content,
+      tags: data.tags,
+      variables: data.variables,
+      defaultProvider: data.defaultProvider,
+      folder: data.folder,
+      currentTxId: '',
+      versions: [],
+      createdAt: data.createdAt || now,
+      updatedAt: data.updatedAt || now,
+      isArchived: false,
+      isSynced: true,
+    };
+
+    const filePath = await directoryStorage.writePromptToDirectory(this.directoryPath, prompt, this.optionsFor(this.sources[0]));
+    const created = this.located(prompt, filePath);
+    this.remember(created);
+
+    await this.reconciler.mirror(created);
+    return this.reconciler.withHistory(created);
+  }
+
+  async updatePrompt(promptId: string, updates: UpdatePromptData, changeNote?: string): Promise<Prompt | null> {
+    const { defaultProvider, baseContent, ...rest } = updates;
+
+    // Compare against the file as it is now, not as last read
+    const filePath = await this.findFilePath(promptId);
+    const fileSource = filePath ? this.sourceFor(filePath) : null;
+    const onDisk = filePath && fileSource
+      ? await directoryStorage.readPromptFile(fileSource.path, filePath, this.optionsFor(fileSource))
+      : null;
+    const existing = onDisk ? this.located(onDisk, filePath!) : await this.getPromptById(promptId);
+    if (!existing) return null;
+    this.assertWritable(filePath ? this.sourceFor(filePath) : this.sources[0]);
+
+    const updated: Prompt = {
+      ...existing,
+      ...rest,
+      ...(defaultProvider !== undefined && { defaultProvider: defaultProvider || undefined }),
+      updatedAt: Date.now(),
+    };
+
+    const changedOnDisk = baseContent !== undefined && rest.content !== undefined &&
+      existing.content !== baseContent && existing.content !== rest.content;
+    if (changedOnDisk) {
+      await this.recordConflict(existing, updated, baseContent, changeNote);
+      return this.reconciler.withHistory(existing);
+    }
+
+    return this.write(updated, changeNote);
+  }
+
+  async archivePrompt(promptId: string): Promise<void> {
+    await this.setArchived(promptId, true);
+  }
+
+  async restorePrompt(promptId: string): Promise<void> {
+    await this.setArchived(promptId, false);
+  }
+
+  async deletePrompt(promptId: string): Promise<void> {
+    const filePath = await this.findFilePath(promptId);
+    if (filePath) {
+      const source = this.sourceFor(filePath);
+      this.assertWritable(source);
+      await directoryStorage.deletePromptFromDirectory(filePath);
+      this.bySource.get(source.path)?.delete(promptId);
+      this.merge();
+    }
+    this.reconciler.forget(promptId);
+
+    try {
+      if (this.conflicted.delete(promptId)) {
+        await this.database.clearConflict(promptId);
+        this.notifyConflicts();
+      }
+      await this.database.deletePrompt(promptId);
+    } catch (error) {
+      console.warn('[Directory] Failed to delete prompt from database (continuing anyway):', error);
+    }
+  }
+
+  // Versions (kept by the database mirror)
+
+  getVersionHistory(promptId: string): Promise<PromptVersion[]> {
+    return this.database.getVersionHistory(promptId);
+  }
+
+  getVersionContent(versionId: string): Promise<string | null> {
+    return this.database.getVersionContent(versionId);
+  }
+
+  async restoreVersion(promptId: string, versionId: string): Promise<Prompt | null> {
+    const versions = await this.database.getVersionHistory(promptId);
+    const version = versions.find((v) => v.txId === versionId);
+    const content = version && await this.database.getVersionContent(versionId);
+    if (!version || content == null) return null;
+
+    return this.updatePrompt(promptId, { content }, `Restored version ${version.version}`);
+  }
+
+  // Tags (stored in each file's frontmatter)
+
+  async getTagsByPromptId(promptId: string): Promise<string[]> {
+    return (await this.getPromptById(promptId))?.tags ?? [];
+  }
+
+  async setPromptTags(promptId: string, tags: string[]): Promise<void> {
+    await this.updatePrompt(promptId, { tags });
+  }
+
+  async getAllUserTags(): Promise<string[]> {
+    const prompts = this.files.size > 0 ? [...this.files.values()] : await this.readAll();
+    return [...new Set(prompts.flatMap((p) => p.tags))].sort();
+  }
+
+  // Saved searches (stored in the database)
+
+  getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return this.database.getSavedSearches(userId);
+  }
+
+  saveSavedSearch(userId: string, search: SavedSearch): Promise<void> {
+    return this.database.saveSavedSearch(userId, search);
+  }
+
+  deleteSavedSearch(searchId: string): Promise<void> {
+    return this.database.deleteSavedSearch(searchId);
+  }
+
+  // Conflicts (app edit kept in the database vs. the file)
+
+  async getConflicts(): Promise<PromptConflict[]> {
+    const conflicts: PromptConflict[] = [];
+
+    for (const record of await this.database.getConflictRecords('directory')) {
+      const [local, remote] = await Promise.all([
+        this.database.getPromptById(record.promptId),
+        this.getPromptById(record.promptId),
+      ]);
+
+      if (!local || !remote || local.content === remote.content) {
+        // Deleted or brought back in line since: nothing left to choose between
+        await this.clearConflict(record.promptId);
+        continue;
+      }
+
+      conflicts.push({
+        promptId: record.promptId,
+        source: 'directory',
+        localVersion: local,
+        remoteVersion: remote,
+        baseVersion: record.baseVersion,
+        baseContent: record.baseVersion === null
+          ? null
+          : await this.database.getVersionContentByNumber(record.promptId, record.baseVersion),
+        detectedAt: record.detectedAt,
+      });
+    }
+
+    return conflicts;
+  }
+
+  /** Write the chosen content to the file; the mirror adds it as a new version */
+  async resolveConflict(promptId: string, resolution: ConflictResolution): Promise<void> {
+    const [local, remote] = await Promise.all([
+      this.database.getPromptById(promptId),
+      this.getPromptById(promptId),
+    ]);
+    const kept = resolution.strategy === 'remote' ? remote : local;
+
+    if (resolution.strategy === 'merge' && resolution.mergedContent === undefined) {
+      throw new Error('A merge needs the merged content');
+    }
+
+    if (!kept || !remote) {
+      await this.clearConflict(promptId);
+      return;
+    }
+
+    // The conflict stays recorded until the file is written; the mirror
+    // skips conflicted prompts, so it runs once the conflict is cleared
+    const written = await this.writeFile(
+      { ...remote, ...kept, content: resolution.mergedContent ?? kept.content, updatedAt: Date.now() }
+    );
+    await this.clearConflict(promptId);
+    await this.reconciler.mirror(written, resolution.changeNote || RESOLUTION_NOTES[resolution.strategy]);
+  }
+
+  onConflictsChange(callback: () => void): () => void {
+    this.conflictListeners.add(callback);
+    return () => this.conflictListeners.delete(callback);
+  }
+
+  // Diagnostics (files left out of the prompts, or clashing with each other)
+
+  async getDiagnostics(): Promise<DirectoryIssue[]> {
+    const issues = (await Promise.all(
+      this.sources.map((source) => directoryStorage.diagnoseDirectory(source.path, this.optionsFor(source)))
+    )).flat();
+
+    for (const [promptId, paths] of this.collisions) {
+      issues.push({ kind: 'source-collision', promptId, paths });
+    }
+    return issues;
+  }
+
+  /** Apply a fix to the files; the prompts are re-read afterwards */
+  async fixIssue(fix: DirectoryFix): Promise<void> {
+    switch (fix.kind) {
+      case 'add-id': {
+        const source = this.assertWritable(this.sourceFor(fix.path));
+        await directoryStorage.assignPromptId(source.path, fix.path, this.optionsFor(source));
+        break;
+      }
+      case 'rename': {
+        const source = this.assertWritable(this.sourceFor(fix.path));
+        await directoryStorage.renamePromptFile(source.path, fix.path, this.optionsFor(source));
+        break;
+      }
+      case 'merge':
+        // Copies are only merged within a directory
+        for (const source of this.sources.filter((s) => !s.readOnly)) {
+          await directoryStorage.mergeDuplicatePrompts(source.path, fix.promptId, this.optionsFor(source));
+        }
+        break;
+    }
+    await this.readAll();
+  }
+
+  onDiagnosticsChange(callback: () => void): () => void {
+    return directoryStorage.onDirectoryRefresh((directoryPath) => {
+      if (this.sources.some((source) => source.path === directoryPath)) callback();
+    });
+  }
+
+  // File history (git commits touching each prompt's file)
+
+  async getFileHistory(promptId: string): Promise<FileRevision[]> {
+    const filePath = await this.findFilePath(promptId);
+    if (!filePath) return [];
+
+    const source = this.sourceFor(filePath);
+    if (!(await gitHistory.findRepoRoot(source.path))) return [];
+    return gitHistory.getFileLog(source.path, filePath);
+  }
+
+  async getRevisionContent(promptId: string, revision: FileRevision): Promise<string> {
+    const filePath = await this.findFilePath(promptId);
+    const source = filePath ? this.sourceFor(filePath) : this.sources[0];
+    const file = await gitHistory.getFileAtRevision(source.path, revision);
+    return parseMarkdownPrompt(file, this.options.frontmatter).prompt?.content ?? file;
+  }
+
+  // Helpers
+
+  /**
+   * Read every directory, newest prompts first. Only the default directory
+   * has to be readable; the others are skipped (with a warning) if not.
+   */
+  private async readAll(): Promise<PromptFile[]> {
+    for (const source of this.sources) {
+      try {
+        const prompts = await directoryStorage.readPromptsFromDirectory(source.path, this.optionsFor(source));
+        this.bySource.set(source.path, new Map(prompts.map((p) => [p.id, { ...p, source: source.path }])));
+      } catch (error) {
+        if (source.path === this.directoryPath) throw error;
+        console.warn(`[Directory] Failed to read ${source.path}, skipping it:`, error);
+      }
+    }
+
+    this.merge();
+    return [...this.files.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Rebuild the prompts shown from each directory's: an ID in several
+   * directories is taken from the first of them, and noted as a collision
+   */
+  private merge(): void {
+    const files = new Map<string, PromptFile>();
+    const collisions = new Map<string, string[]>();
+
+    for (const source of this.sources) {
+      for (const prompt of this.bySource.get(source.path)?.values() ?? []) {
+        const shown = files.get(prompt.id);
+        if (!shown) {
+          files.set(prompt.id, prompt);
+          continue;
+        }
+        const paths = collisions.get(prompt.id) ?? [shown._filePath ?? ''];
+        collisions.set(prompt.id, [...paths, prompt._filePath ?? '']);
+      }
+    }
+
+    this.files = files;
+    this.collisions = collisions;
+  }
+
+  /** Record a prompt as now stored in its directory */
+  private remember(prompt: PromptFile): void {
+    const source = prompt.source ?? this.directoryPath;
+    const prompts = this.bySource.get(source) ?? new Map<string, PromptFile>();
+    prompts.set(prompt.id, prompt);
+    this.bySource.set(source, prompts);
+    this.merge();
+  }
+
+  /** Apply one directory's changes; returns how the prompts shown changed */
+  private applyChanges(source: DirectorySource, changes: PromptChanges): PromptChanges {
+    const before = this.files;
+    const prompts = this.bySource.get(source.path) ?? new Map<string, PromptFile>();
+    [...changes.added, ...changes.updated].forEach((p) => prompts.set(p.id, { ...p, source: source.path }));
+    changes.removed.forEach((id) => prompts.delete(id));
+    this.bySource.set(source.path, prompts);
+    this.merge();
+
+    const shown: PromptChanges = { added: [], updated: [], removed: [] };
+    const ids = new Set([...changes.added, ...changes.updated].map((p) => p.id).concat(changes.removed));
+    for (const id of ids) {
+      const previous = before.get(id);
+      const current = this.files.get(id);
+      if (current && current !== previous) {
+        (previous ? shown.updated : shown.added).push(current);
+      } else if (!current && previous) {
+        shown.removed.push(id);
+      }
+    }
+    return shown;
+  }
+
+  /** Directory a file is in (the default one if none matches) */
+  private sourceFor(filePath: string): DirectorySource {
+    return this.sources.find((source) => relativePath(source.path, filePath) !== null) ?? this.sources[0];
+  }
+
+  /**
+   * Scan options for a directory: read-only ones are never written to, so
+   * their files without an id aren't given one
+   */
+  private optionsFor(source: DirectorySource): DirectoryOptions {
+    return source.readOnly ? { ...this.options, readOnly: true } : this.options;
+  }
+
+  private assertWritable(source: DirectorySource): DirectorySource {
+    if (source.readOnly) {
+      throw new ReadOnlySourceError(source.label);
+    }
+    return source;
+  }
+
+  /** A prompt as stored at filePath */
+  private located(prompt: Prompt, filePath: string): PromptFile {
+    const source = this.sourceFor(filePath);
+    const folder = folderOf(relativePath(source.path, filePath) ?? '');
+    const tags = this.options.foldersAsTags ? withFolderTags(prompt.tags, folder) : prompt.tags;
+    return { ...prompt, tags, folder, source: source.path, _filePath: filePath };
+  }
+
+  private async findFilePath(promptId: string): Promise<string | undefined> {
+    const known = this.files.get(promptId)?._filePath;
+    if (known) return known;
+
+    for (const source of this.sources) {
+      const filePath = await directoryStorage.findPromptFilePath(source.path, promptId, this.optionsFor(source));
+      if (filePath) return filePath;
+    }
+    return undefined;
+  }
+
+  private async setArchived(promptId: string, isArchived: boolean): Promise<void> {
+    const existing = await this.getPromptById(promptId);
+    if (!existing) return;
+    await this.write({ ...existing, isArchived, updatedAt: Date.now() });
+  }
+
+  /** Rewrite a prompt's file (renaming it if the title changed) and mirror it */
+  private async write(prompt: PromptFile, changeNote?: string): Promise<Prompt> {
+    const written = await this.writeFile(prompt);
+    await this.reconciler.mirror(written, changeNote);
+    return this.reconciler.withHistory(written);
+  }
+
+  /** Rewrite a prompt's file (renaming it if the title changed) */
+  private async writeFile(prompt: PromptFile): Promise<PromptFile> {
+    const oldFilePath = await this.findFilePath(prompt.id);
+    const source = this.assertWritable(oldFilePath ? this.sourceFor(oldFilePath) : this.sources[0]);
+    const filePath = await directoryStorage.updatePromptInDirectory(source.path, prompt, oldFilePath, this.optionsFor(source));
+    const written = this.located(prompt, filePath);
+    this.remember(written);
+    return written;
+  }
+
+  /**
+   * Keep an edit that raced a change on disk: the file stays as it is, the
+   * edit goes into the database, and both are recorded as a conflict
+   */
+  private async recordConflict(onDisk: PromptFile, edit: Prompt, baseContent: string, changeNote?: string): Promise<void> {
+    this.remember(onDisk);
+    await this.reconciler.mirror(onDisk);
+
+    const baseVersion = await this.database.findVersionByContent(onDisk.id, baseContent);
+    await this.database.updatePrompt(edit.id, { ...edit, defaultProvider: edit.defaultProvider ?? '' }, changeNote);
+    await this.database.recordConflict(edit.id, 'directory', baseVersion);
+
+    this.conflicted.add(edit.id);
+    this.notifyConflicts();
+  }
+
+  private async clearConflict(promptId: string): Promise<void> {
+    await this.database.clearConflict(promptId);
+    this.conflicted.delete(promptId);
+    this.notifyConflicts();
+  }
+
+  private notifyConflicts(): void {
+    this.conflictListeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Attached directory reconciler
+ *
+ * Mirrors prompts read from the directory's files into the database, keyed
+ * by their frontmatter id. Content that changed on disk becomes a new
+ * version there, which is where version history and share links for
+ * directory prompts live. Mirrors run one at a time in the background; a
+ * prompt queued again before its turn is mirrored once, in its latest state.
+ */
+
+import type { Prompt, PromptVersion } from '@/shared/types/prompt';
+import type { TursoLocalBackend } from './TursoLocalBackend';
+
+interface PendingMirror {
+  prompt: Prompt;
+  changeNote?: string;
+  done: Array<() => void>;
+}
+
+/** Whether two copies of a prompt differ in anything the files store */
+function isSamePrompt(a: Prompt, b: Prompt): boolean {
+  return a.title === b.title &&
+    a.description === b.description &&
+    a.content === b.content &&
+    a.isArchived === b.isArchived &&
+    (a.defaultProvider ?? '') === (b.defaultProvider ?? '') &&
+    JSON.stringify([...a.tags].sort()) === JSON.stringify([...b.tags].sort()) &&
+    JSON.stringify(a.variables ?? []) === JSON.stringify(b.variables ?? []);
+}
+
+function sameHistory(a: PromptVersion[] | undefined, b: PromptVersion[]): boolean {
+  return !!a && a.length === b.length && a.every((version, i) => version.txId === b[i].txId);
+}
+
+export class DirectoryReconciler {
+  private database: TursoLocalBackend;
+  /** Prompts the database copy must not be touched for (open conflicts) */
+  private skip: (promptId: string) => boolean;
+  /** Database user that mirrored prompts belong to */
+  private userId: string | null = null;
+  private pending = new Map<string, PendingMirror>();
+  private running: Promise<void> | null = null;
+  /** Version history of each mirrored prompt */
+  private histories = new Map<string, PromptVersion[]>();
+  private listeners = new Set<(promptIds: string[]) => void>();
+
+  constructor(database: TursoLocalBackend, skip: (promptId: string) => boolean = () => false) {
+    this.database = database;
+    this.skip = skip;
+  }
+
+  setUser(userId: string): void {
+    this.userId = userId;
+  }
+
+  /** A prompt with its version history from the database, once known */
+  withHistory<T extends Prompt>(prompt: T): T {
+    const versions = this.histories.get(prompt.id);
+    return versions ? { ...prompt, versions } : prompt;
+  }
+
+  /** Load the history of every mirrored prompt in one go */
+  async loadHistories(): Promise<void> {
+    if (!this.userId) return;
+
+    try {
+      const stored = await this.database.getPromptsByUserId(this.userId, { includeArchived: true });
+      stored.forEach((prompt) => this.histories.set(prompt.id, prompt.versions));
+    } catch (error) {
+      console.warn('[Directory] Failed to load version history from database:', error);
+    }
+  }
+
+  /** Mirror prompts in the background */
+  enqueue(prompts: Prompt[]): void {
+    prompts.forEach((prompt) => this.add(prompt));
+    void this.schedule();
+  }
+
+  /** Mirror a prompt, resolving once it's in the database */
+  mirror(prompt: Prompt, changeNote?: string): Promise<void> {
+    return new Promise((resolve) => {
+      this.add(prompt, changeNote, resolve);
+      void this.schedule();
+    });
+  }
+
+  /** Drop a deleted prompt */
+  forget(promptId: string): void {
+    this.pending.delete(promptId);
+    this.histories.delete(promptId);
+  }
+
+  /** Called with the IDs of prompts whose history changed */
+  onHistoryChange(callback: (promptIds: string[]) => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  private add(prompt: Prompt, changeNote?: string, done?: () => void): void {
+    const queued = this.pending.get(prompt.id);
+    this.pending.set(prompt.id, {
+      prompt,
+      changeNote: changeNote ?? queued?.changeNote,
+      done: [...(queued?.done ?? []), ...(done ? [done] : [])],
+    });
+  }
+
+  private schedule(): Promise<void> {
+    this.running ??= this.drain().finally(() => {
+      this.running = null;
+      // Queued while the last run was finishing up
+      if (this.pending.size > 0) void this.schedule();
+    });
+    return this.running;
+  }
+
+  private async drain(): Promise<void> {
+    const changed: string[] = [];
+
+    for (const [promptId, item] of this.pending) {
+      this.pending.delete(promptId);
+      if (await this.reconcile(item.prompt, item.changeNote)) {
+        changed.push(promptId);
+      }
+      item.done.forEach((done) => done());
+    }
+
+    if (changed.length > 0) {
+      this.listeners.forEach((listener) => listener(changed));
+    }
+  }
+
+  /** Create or update the database copy; returns whether the history changed */
+  private async reconcile(prompt: Prompt, changeNote?: string): Promise<boolean> {
+    if (!this.userId || this.skip(prompt.id)) return false;
+
+    try {
+      const existing = await this.database.getPromptById(prompt.id);
+      let stored = existing;
+
+      if (!existing) {
+        stored = await this.database.createPrompt(this.userId, prompt);
+      } else if (!isSamePrompt(existing, prompt)) {
+        stored = await this.database.updatePrompt(prompt.id, { ...prompt, defaultProvider: prompt.defaultProvider ?? '' }, changeNote);
+      }
+
+      if ((existing?.isArchived ?? false) !== prompt.isArchived) {
+        await (prompt.isArchived
+          ? this.database.archivePrompt(prompt.id)
+          : this.database.restorePrompt(prompt.id));
+      }
+
+      if (!stored || sameHistory(this.histories.get(prompt.id), stored.versions)) return false;
+      this.histories.set(prompt.id, stored.versions);
+      return true;
+    } catch (error) {
+      console.warn(`[Directory] Failed to mirror prompt ${prompt.id} to database:`, error);
+      return false;
+    }
+  }
+}
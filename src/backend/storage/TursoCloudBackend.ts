@@ -0,0 +1,126 @@
+/**
+ * Cloud-synced Turso backend
+ *
+ * Reads and writes the local database exactly like TursoLocalBackend, so the
+ * app keeps working offline. CloudSync pushes and pulls changes in the
+ * background; local edits trigger a sync shortly after they happen.
+ */
+
+import { getTursoClient, createSyncServerClient } from '@/backend/api/turso';
+import { getDeviceId } from '@/core/identity/device';
+import type { Prompt, SavedSearch } from '@/shared/types/prompt';
+import type {
+  BackendType,
+  ConflictStorage,
+  CreatePromptData,
+  PromptChanges,
+  UpdatePromptData,
+  User,
+} from '@/shared/interfaces/StorageBackend';
+import { TursoLocalBackend } from './TursoLocalBackend';
+import { CloudSync } from './CloudSync';
+
+/** What changed between two reads of the prompt list */
+function diffPrompts(before: Prompt[], after: Prompt[]): PromptChanges {
+  const previous = new Map(before.map((p) => [p.id, p]));
+  const current = new Set(after.map((p) => p.id));
+
+  return {
+    added: after.filter((p) => !previous.has(p.id)),
+    updated: after.filter((p) => previous.has(p.id) && JSON.stringify(previous.get(p.id)) !== JSON.stringify(p)),
+    removed: before.filter((p) => !current.has(p.id)).map((p) => p.id),
+  };
+}
+
+export class TursoCloudBackend extends TursoLocalBackend {
+  readonly type: BackendType = 'turso-cloud';
+  readonly sync: CloudSync;
+  readonly conflicts: ConflictStorage;
+
+  private autoSync: boolean;
+  private userId: string | null = null;
+  private unwatch: (() => void) | null = null;
+
+  constructor(serverUrl: string, authToken?: string, autoSync = true) {
+    super();
+    this.sync = new CloudSync(getTursoClient(), createSyncServerClient(serverUrl, authToken), getDeviceId());
+    this.conflicts = this.sync;
+    this.autoSync = autoSync;
+  }
+
+  async initialize(): Promise<void> {
+    await super.initialize();
+    await this.sync.refreshStatus();
+    this.sync.setAutoSync(this.autoSync);
+  }
+
+  async getOrCreateUser(identifier: string): Promise<User> {
+    const user = await super.getOrCreateUser(identifier);
+    this.userId = user.id;
+    return user;
+  }
+
+  /** Report the prompts a sync brought in from other devices */
+  async watch(onChange: (changes: PromptChanges) => void): Promise<() => void> {
+    let known = this.userId ? await this.getPromptsByUserId(this.userId, { includeArchived: true }) : [];
+
+    // Watching again replaces the last listener
+    this.unwatch?.();
+    const stop = this.sync.onRemoteChanges(async () => {
+      if (!this.userId) return;
+      const prompts = await this.getPromptsByUserId(this.userId, { includeArchived: true });
+      const changes = diffPrompts(known, prompts);
+      known = prompts;
+      onChange(changes);
+    });
+    this.unwatch = () => {
+      stop();
+    };
+    return this.unwatch;
+  }
+
+  async dispose(): Promise<void> {
+    this.unwatch?.();
+    this.unwatch = null;
+    this.sync.dispose();
+  }
+
+  // Local writes, each followed by a scheduled sync
+
+  async createPrompt(userId: string, data: CreatePromptData): Promise<Prompt> {
+    const prompt = await super.createPrompt(userId, data);
+    this.sync.scheduleSync();
+    return prompt;
+  }
+
+  async updatePrompt(promptId: string, updates: UpdatePromptData, changeNote?: string): Promise<Prompt | null> {
+    const prompt = await super.updatePrompt(promptId, updates, changeNote);
+    this.sync.scheduleSync();
+    return prompt;
+  }
+
+  async archivePrompt(promptId: string): Promise<void> {
+    await super.archivePrompt(promptId);
+    this.sync.scheduleSync();
+  }
+
+  async restorePrompt(promptId: string): Promise<void> {
+    await super.restorePrompt(promptId);
+    this.sync.scheduleSync();
+  }
+
+  async deletePrompt(promptId: string): Promise<void> {
+    await super.deletePrompt(promptId);
+    this.sync.scheduleSync();
+  }
+
+  async saveSavedSearch(userId: string, search: SavedSearch): Promise<void> {
+    await super.saveSavedSearch(userId, search);
+    this.sync.scheduleSync();
+  }
+
+  async deleteSavedSearch(searchId: string): Promise<void> {
+    await super.deleteSavedSearch(searchId);
+    this.sync.scheduleSync();
+  }
+}
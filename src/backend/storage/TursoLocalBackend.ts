@@ -0,0 +1,171 @@
+/**
+ * Local-first Turso backend
+ *
+ * Adapts the query functions in turso-queries to the StorageBackend
+ * interface. Schema migrations run separately on startup (useDatabase).
+ */
+
+import * as tursoQueries from '@/backend/api/turso-queries';
+import { isTursoConfigured } from '@/backend/api/turso';
+import type { Prompt, PromptVersion, SavedSearch } from '@/shared/types/prompt';
+import type {
+  StorageBackend,
+  BackendType,
+  SharingStorage,
+  PackStorage,
+  PromptConflict,
+  User,
+  CreatePromptData,
+  UpdatePromptData,
+} from '@/shared/interfaces/StorageBackend';
+
+const sharing: SharingStorage = {
+  generateShareToken: (promptId) => tursoQueries.generateShareToken(promptId),
+  getPromptByShareToken: (shareToken) => tursoQueries.getPromptByShareToken(shareToken),
+  removeShareToken: (promptId) => tursoQueries.removeShareToken(promptId),
+
+  async getShareToken(promptId) {
+    const token = await tursoQueries.getShareToken(promptId);
+    if (!token) return null;
+
+    // Only the token itself is stored; links are live and never expire
+    return { token, promptId, createdAt: 0, accessCount: 0, isSnapshot: false };
+  },
+};
+
+export class TursoLocalBackend implements StorageBackend {
+  readonly type: BackendType = 'turso-local';
+  readonly sharing: SharingStorage = sharing;
+  readonly packs: PackStorage = tursoQueries.tursoPackStorage;
+
+  private ready = false;
+
+  async initialize(): Promise<void> {
+    if (!isTursoConfigured()) {
+      throw new Error('Turso is not configured');
+    }
+    this.ready = true;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  async getOrCreateUser(identifier: string): Promise<User> {
+    const user = await tursoQueries.getOrCreateUser(identifier);
+    return {
+      id: user.id,
+      identifier: user.device_id,
+      createdAt: user.created_at,
+      lastSeenAt: user.last_seen_at,
+    };
+  }
+
+  updateLastSeen(userId: string): Promise<void> {
+    return tursoQueries.updateLastSeen(userId);
+  }
+
+  // Prompts
+
+  async getPromptsByUserId(
+    userId: string,
+    options: { includeArchived?: boolean; limit?: number; offset?: number } = {}
+  ): Promise<Prompt[]> {
+    const { limit, offset = 0 } = options;
+    const prompts = await tursoQueries.getPromptsByUserId(userId, { includeArchived: options.includeArchived });
+    return limit === undefined ? prompts.slice(offset) : prompts.slice(offset, offset + limit);
+  }
+
+  getPromptById(promptId: string): Promise<Prompt | null> {
+    return tursoQueries.getPromptById(promptId);
+  }
+
+  createPrompt(userId: string, data: CreatePromptData): Promise<Prompt> {
+    return tursoQueries.createPrompt(userId, data);
+  }
+
+  updatePrompt(promptId: string, updates: UpdatePromptData, changeNote?: string): Promise<Prompt | null> {
+    return tursoQueries.updatePrompt(promptId, updates, changeNote);
+  }
+
+  archivePrompt(promptId: string): Promise<void> {
+    return tursoQueries.archivePrompt(promptId);
+  }
+
+  restorePrompt(promptId: string): Promise<void> {
+    return tursoQueries.restorePrompt(promptId);
+  }
+
+  deletePrompt(promptId: string): Promise<void> {
+    return tursoQueries.deletePrompt(promptId);
+  }
+
+  // Versions
+
+  getVersionHistory(promptId: string): Promise<PromptVersion[]> {
+    return tursoQueries.getVersionHistory(promptId);
+  }
+
+  getVersionContent(versionId: string): Promise<string | null> {
+    return tursoQueries.getVersionContent(versionId);
+  }
+
+  async restoreVersion(promptId: string, versionId: string): Promise<Prompt | null> {
+    const versions = await tursoQueries.getVersionHistory(promptId);
+    const version = versions.find((v) => v.txId === versionId);
+    const content = version && await tursoQueries.getVersionContent(versionId);
+    if (!version || content == null) return null;
+
+    return this.updatePrompt(promptId, { content }, `Restored version ${version.version}`);
+  }
+
+  // Tags
+
+  getTagsByPromptId(promptId: string): Promise<string[]> {
+    return tursoQueries.getTagsByPromptId(promptId);
+  }
+
+  setPromptTags(promptId: string, tags: string[]): Promise<void> {
+    return tursoQueries.setPromptTags(promptId, tags);
+  }
+
+  getAllUserTags(userId: string): Promise<string[]> {
+    return tursoQueries.getAllUserTags(userId);
+  }
+
+  // Saved searches
+
+  getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return tursoQueries.getSavedSearches(userId);
+  }
+
+  saveSavedSearch(userId: string, search: SavedSearch): Promise<void> {
+    return tursoQueries.saveSavedSearch(userId, search);
+  }
+
+  deleteSavedSearch(searchId: string): Promise<void> {
+    return tursoQueries.deleteSavedSearch(searchId);
+  }
+
+  // Conflict records, for backends that keep their copy in this database
+
+  recordConflict(promptId: string, source: PromptConflict['source'], baseVersion: number | null): Promise<void> {
+    return tursoQueries.recordConflict(promptId, source, baseVersion);
+  }
+
+  getConflictRecords(source: PromptConflict['source']): Promise<tursoQueries.ConflictRecord[]> {
+    return tursoQueries.getConflictRecords(source);
+  }
+
+  clearConflict(promptId: string): Promise<void> {
+    return tursoQueries.clearConflict(promptId);
+  }
+
+  findVersionByContent(promptId: string, content: string): Promise<number | null> {
+    return tursoQueries.findVersionByContent(promptId, content);
+  }
+
+  async getVersionContentByNumber(promptId: string, version: number): Promise<string | null> {
+    return (await tursoQueries.getVersionWithContent(promptId, version))?.content ?? null;
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DIRECTORY_OPTIONS,
+  matchesGlob,
+  isExcludedFolder,
+  isIncludedFile,
+  relativePath,
+  folderTags,
+  folderForTags,
+} from './folders';
+
+describe('Directory folders', () => {
+  describe('matchesGlob', () => {
+    it('should match ** across folders and * within a name', () => {
+      expect(matchesGlob('a.md', '**/*.md')).toBe(true);
+      expect(matchesGlob('Prompts/Coding/a.md', '**/*.md')).toBe(true);
+      expect(matchesGlob('Prompts/a.md', 'Prompts/*.md')).toBe(true);
+      expect(matchesGlob('Prompts/Coding/a.md', 'Prompts/*.md')).toBe(false);
+      expect(matchesGlob('a.txt', '**/*.md')).toBe(false);
+    });
+
+    it('should match patterns without a slash at any depth', () => {
+      expect(matchesGlob('.obsidian', '.obsidian')).toBe(true);
+      expect(matchesGlob('vault/.obsidian', '.obsidian')).toBe(true);
+      expect(matchesGlob('draft.md', 'draft?.md')).toBe(false);
+    });
+  });
+
+  describe('include and exclude', () => {
+    it('should skip the default excluded folders', () => {
+      expect(isExcludedFolder('.obsidian', DEFAULT_DIRECTORY_OPTIONS)).toBe(true);
+      expect(isExcludedFolder('Notes/.git', DEFAULT_DIRECTORY_OPTIONS)).toBe(true);
+      expect(isExcludedFolder('Templates', DEFAULT_DIRECTORY_OPTIONS)).toBe(true);
+      expect(isExcludedFolder('Prompts/Coding', DEFAULT_DIRECTORY_OPTIONS)).toBe(false);
+    });
+
+    it('should include markdown files outside excluded folders', () => {
+      expect(isIncludedFile('Prompts/Coding/review.md', DEFAULT_DIRECTORY_OPTIONS)).toBe(true);
+      expect(isIncludedFile('.obsidian/workspace.md', DEFAULT_DIRECTORY_OPTIONS)).toBe(false);
+      expect(isIncludedFile('Templates/daily.md', DEFAULT_DIRECTORY_OPTIONS)).toBe(false);
+      expect(isIncludedFile('Prompts/notes.txt', DEFAULT_DIRECTORY_OPTIONS)).toBe(false);
+    });
+
+    it('should apply custom globs', () => {
+      const options = { ...DEFAULT_DIRECTORY_OPTIONS, include: ['Prompts/**/*.md'], exclude: ['**/*.draft.md'] };
+      expect(isIncludedFile('Prompts/Coding/a.md', options)).toBe(true);
+      expect(isIncludedFile('Journal/a.md', options)).toBe(false);
+      expect(isIncludedFile('Prompts/a.draft.md', options)).toBe(false);
+    });
+  });
+
+  describe('paths and tags', () => {
+    it('should make paths relative to the directory', () => {
+      expect(relativePath('/vault', '/vault/Prompts/a.md')).toBe('Prompts/a.md');
+      expect(relativePath('/vault/', '/vault/a.md')).toBe('a.md');
+      expect(relativePath('C:\\vault', 'C:\\vault\\Prompts\\a.md')).toBe('Prompts/a.md');
+      expect(relativePath('/vault', '/other/a.md')).toBeNull();
+    });
+
+    it('should map folders to tags and tags to folders', () => {
+      const folders = ['Prompts', 'Prompts/Coding', 'Archive/Coding', 'Prompts/Coding/Python'];
+
+      expect(folderTags('Prompts/Coding')).toEqual(['Prompts', 'Coding']);
+      expect(folderTags('')).toEqual([]);
+      expect(folderForTags(['coding'], folders)).toBe('Prompts/Coding');
+      expect(folderForTags(['prompts/coding/python'], folders)).toBe('Prompts/Coding/Python');
+      expect(folderForTags(['misc', 'python'], folders)).toBe('Prompts/Coding/Python');
+      expect(folderForTags(['misc'], folders)).toBe('');
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Attached directory layout
+ *
+ * Glob matching for include/exclude rules, and the mapping between a
+ * prompt's folder (relative to the attached directory) and its tags.
+ * Paths are relative and '/'-separated; '' is the directory itself.
+ */
+
+import { DEFAULT_FRONTMATTER_PROFILE, type FrontmatterProfile } from './frontmatter';
+
+/**
+ * How prompt files are named: after the title (renamed along with it), after
+ * the prompt ID, or after the title once and then left alone
+ */
+export type FileNaming = 'slug' | 'id' | 'keep';
+
+/** How an attached directory is scanned */
+export interface DirectoryOptions {
+  /** Globs of files to read */
+  include: string[];
+  /** Globs of files and folders to skip */
+  exclude: string[];
+  /** Tag each prompt with the folders it's in */
+  foldersAsTags: boolean;
+  /** Frontmatter keys for each prompt field */
+  frontmatter: FrontmatterProfile;
+  /** How prompt files are named */
+  fileNames: FileNaming;
+  /** Commit each save, when the directory is in a git repository */
+  autoCommit: boolean;
+  /**
+   * Never write to the files, not even to assign ids (set per directory for
+   * read-only sources, or for all of them by a read-only backend)
+   */
+  readOnly?: boolean;
+}
+
+export const DEFAULT_DIRECTORY_OPTIONS: DirectoryOptions = {
+  include: ['**/*.md'],
+  exclude: ['.obsidian', '.git', '.trash', 'node_modules', '**/templates/**'],
+  foldersAsTags: false,
+  frontmatter: DEFAULT_FRONTMATTER_PROFILE,
+  fileNames: 'slug',
+  autoCommit: false,
+};
+
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * Compile a glob: `**` spans folders, `*` and `?` stay within one name.
+ * A pattern without a '/' matches a name at any depth, like .gitignore.
+ */
+function globToRegExp(pattern: string): RegExp {
+  const cached = regexCache.get(pattern);
+  if (cached) return cached;
+
+  const glob = pattern.includes('/') ? pattern.replace(/^\//, '') : `**/${pattern}`;
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slashAfter = glob[i + 2] === '/';
+      source += slashAfter ? '(?:.*/)?' : '.*';
+      i += slashAfter ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`, 'i');
+  regexCache.set(pattern, regex);
+  return regex;
+}
+
+export function matchesGlob(path: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(path);
+}
+
+/** Whether a folder (and everything in it) is excluded */
+export function isExcludedFolder(folder: string, options: DirectoryOptions): boolean {
+  return options.exclude.some(pattern =>
+    matchesGlob(folder, pattern) || matchesGlob(`${folder}/`, pattern.replace(/\/\*\*$/, '/'))
+  );
+}
+
+/** Whether a path is an excluded folder or inside one */
+export function isExcludedPath(path: string, options: DirectoryOptions): boolean {
+  return folderChain(path).some(folder => isExcludedFolder(folder, options));
+}
+
+/** Whether a file should be read as a prompt */
+export function isIncludedFile(path: string, options: DirectoryOptions): boolean {
+  const folder = folderOf(path);
+  if (folder && isExcludedPath(folder, options)) return false;
+  if (options.exclude.some(pattern => matchesGlob(path, pattern))) return false;
+  return options.include.some(pattern => matchesGlob(path, pattern));
+}
+
+/** Folder part of a relative path */
+export function folderOf(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+}
+
+/** A folder and each of its parents, outermost first */
+function folderChain(folder: string): string[] {
+  const chain: string[] = [];
+  for (const part of folder.split('/')) {
+    chain.push(chain.length > 0 ? `${chain[chain.length - 1]}/${part}` : part);
+  }
+  return chain;
+}
+
+/** Path relative to the attached directory, or null if outside it */
+export function relativePath(directoryPath: string, path: string): string | null {
+  const root = directoryPath.replace(/[\\/]+$/, '').replace(/\\/g, '/');
+  const normalized = path.replace(/\\/g, '/');
+  if (normalized === root) return '';
+  return normalized.startsWith(`${root}/`) ? normalized.slice(root.length + 1) : null;
+}
+
+/** Tags implied by a folder: one per folder name */
+export function folderTags(folder: string): string[] {
+  return folder ? folder.split('/') : [];
+}
+
+/** Tags plus those implied by a folder, without duplicates (case-insensitive) */
+export function withFolderTags(tags: string[], folder: string): string[] {
+  const seen = new Set(tags.map(t => t.toLowerCase()));
+  return [...tags, ...folderTags(folder).filter(t => !seen.has(t.toLowerCase()))];
+}
+
+/**
+ * Folder new prompts with these tags belong in: the first tag that names
+ * an existing folder, by full path (`coding/python`) or by folder name,
+ * shallowest first. '' (the root) when none match.
+ */
+export function folderForTags(tags: string[], folders: string[]): string {
+  const byDepth = [...folders].sort((a, b) => a.split('/').length - b.split('/').length);
+
+  for (const tag of tags) {
+    const wanted = tag.toLowerCase();
+    const match = byDepth.find(f => f.toLowerCase() === wanted)
+      ?? byDepth.find(f => f.split('/').pop()!.toLowerCase() === wanted);
+    if (match) return match;
+  }
+  return '';
+}
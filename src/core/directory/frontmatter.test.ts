@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import matter from 'gray-matter';
+import type { Prompt } from '@/shared/types/prompt';
+import { parseMarkdownPrompt } from '@/shared/utils/import';
+import {
+  DEFAULT_FRONTMATTER_PROFILE,
+  OBSIDIAN_FRONTMATTER_PROFILE,
+  frontmatterLines,
+  needsId,
+  readFrontmatter,
+  withAssignedId,
+} from './frontmatter';
+
+const prompt: Prompt = {
+  id: 'p1',
+  title: 'Review',
+  description: '',
+  content: 'Body',
+  tags: ['code', 'review'],
+  currentTxId: '',
+  versions: [],
+  createdAt: Date.UTC(2024, 0, 1),
+  updatedAt: Date.UTC(2024, 0, 2, 12),
+  isArchived: false,
+};
+
+function toMarkdown(lines: string[]): string {
+  return ['---', ...lines, '---', '', 'Body'].join('\n');
+}
+
+describe('Frontmatter profiles', () => {
+  it('should write the default layout', () => {
+    expect(frontmatterLines(prompt, DEFAULT_FRONTMATTER_PROFILE)).toEqual([
+      'id: p1',
+      'title: "Review"',
+      'tags:',
+      '  - code',
+      '  - review',
+      'created_at: 2024-01-01T00:00:00.000Z',
+      'updated_at: 2024-01-02T12:00:00.000Z',
+    ]);
+  });
+
+  it('should read Obsidian notes', () => {
+    const { data } = matter('---\naliases: [Review, CR]\ndate: 2024-01-01\ntags: "code #review"\n---\nBody');
+    const fields = readFrontmatter(data, OBSIDIAN_FRONTMATTER_PROFILE);
+
+    expect(fields.title).toBe('Review');
+    expect(fields.createdAt).toBe(Date.UTC(2024, 0, 1));
+    expect(fields.tags).toEqual(['code', 'review']);
+  });
+
+  it('should keep unmapped keys, other aliases and date formats on rewrite', () => {
+    const previous = matter('---\naliases: [Old, CR]\ndate: 2024-01-01\ncssclasses:\n  - wide\n---\nBody').data;
+    const lines = frontmatterLines(prompt, OBSIDIAN_FRONTMATTER_PROFILE, previous);
+
+    expect(lines).toContain('date: 2024-01-01');
+    expect(lines.join('\n')).toContain('aliases:\n  - "Review"\n  - "CR"');
+    expect(lines.join('\n')).toContain('cssclasses:\n  - wide');
+
+    const reparsed = parseMarkdownPrompt(toMarkdown(lines), OBSIDIAN_FRONTMATTER_PROFILE);
+    expect(reparsed.prompt).toMatchObject({ id: 'p1', title: 'Review', tags: ['code', 'review'] });
+  });
+
+  it('should write inline tags', () => {
+    const lines = frontmatterLines({ ...prompt, tags: ['a', 'b: c'] }, { ...DEFAULT_FRONTMATTER_PROFILE, tagStyle: 'inline' });
+
+    expect(lines).toContain('tags: [a, "b: c"]');
+    expect(parseMarkdownPrompt(toMarkdown(lines)).prompt?.tags).toEqual(['a', 'b: c']);
+  });
+
+  it('should assign ids to notes without one', () => {
+    const note = '---\ntags: [a]\n---\nBody';
+
+    expect(needsId(note, DEFAULT_FRONTMATTER_PROFILE)).toBe(false);
+    expect(needsId(note, OBSIDIAN_FRONTMATTER_PROFILE)).toBe(true);
+    expect(withAssignedId(note, OBSIDIAN_FRONTMATTER_PROFILE, 'n1')).toBe('---\nid: n1\ntags: [a]\n---\nBody');
+    expect(withAssignedId('Just text', OBSIDIAN_FRONTMATTER_PROFILE, 'n1')).toBe('---\nid: n1\n---\n\nJust text');
+    expect(withAssignedId('---\ntags: [a]\nid: old\n---\nid: body', DEFAULT_FRONTMATTER_PROFILE, 'n2'))
+      .toBe('---\ntags: [a]\nid: n2\n---\nid: body');
+  });
+
+  it('should fall back to the file name for untitled notes', () => {
+    const result = parseMarkdownPrompt('---\nid: n1\n---\n', OBSIDIAN_FRONTMATTER_PROFILE, 'Daily note');
+    expect(result.prompt?.title).toBe('Daily note');
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Frontmatter profiles
+ *
+ * Which frontmatter keys hold each prompt field, so prompts can live in a
+ * vault with its own conventions (Obsidian keeps titles in `aliases` and
+ * creation dates in `date`, for example). Keys a profile doesn't map are
+ * carried over untouched when a file is rewritten.
+ */
+
+import matter from 'gray-matter';
+import type { Prompt } from '@/shared/types/prompt';
+import { variablesToFrontmatter } from '@/core/template/variables';
+
+export type FrontmatterField = 'id' | 'title' | 'description' | 'tags' | 'createdAt' | 'updatedAt' | 'archived';
+
+export interface FrontmatterProfile {
+  /** Key for each field; '' leaves an optional field out of the files */
+  keys: Record<FrontmatterField, string>;
+  /** Tags as a YAML list, or inline as `[a, b]` */
+  tagStyle: 'list' | 'inline';
+  /** Give notes without an id one, written into the file */
+  assignIds: boolean;
+}
+
+export const DEFAULT_FRONTMATTER_PROFILE: FrontmatterProfile = {
+  keys: {
+    id: 'id',
+    title: 'title',
+    description: 'description',
+    tags: 'tags',
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    archived: 'archived',
+  },
+  tagStyle: 'list',
+  assignIds: false,
+};
+
+export const OBSIDIAN_FRONTMATTER_PROFILE: FrontmatterProfile = {
+  keys: {
+    id: 'id',
+    title: 'aliases',
+    description: 'description',
+    tags: 'tags',
+    createdAt: 'date',
+    updatedAt: 'updated',
+    archived: 'archived',
+  },
+  tagStyle: 'list',
+  assignIds: true,
+};
+
+export const FRONTMATTER_PRESETS: Record<string, { name: string; profile: FrontmatterProfile }> = {
+  default: { name: 'Pocket Prompt', profile: DEFAULT_FRONTMATTER_PROFILE },
+  obsidian: { name: 'Obsidian', profile: OBSIDIAN_FRONTMATTER_PROFILE },
+};
+
+/** Fields that can't be left out */
+const REQUIRED_FIELDS: FrontmatterField[] = ['id', 'title', 'tags'];
+
+/** Keys the app always owns, whatever the profile */
+const APP_KEYS = ['variables', 'provider'];
+
+/** Fields read from a file's frontmatter */
+export interface FrontmatterFields {
+  id?: string;
+  title?: string;
+  description: string;
+  tags: string[];
+  createdAt?: number;
+  updatedAt?: number;
+  isArchived: boolean;
+}
+
+/** Frontmatter key for a field ('' if the profile leaves it out) */
+export function keyFor(profile: FrontmatterProfile, field: FrontmatterField): string {
+  const key = profile.keys[field]?.trim() ?? '';
+  return key || (REQUIRED_FIELDS.includes(field) ? DEFAULT_FRONTMATTER_PROFILE.keys[field] : '');
+}
+
+function firstString(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (first === undefined || first === null || first === '') return undefined;
+  return String(first);
+}
+
+function toTimestamp(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date.getTime();
+}
+
+/** Tags from a list, or from an inline string like `a, b` or `#a #b` */
+function toTags(value: unknown): string[] {
+  const tags = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+  return tags.map(tag => tag.trim().replace(/^#/, '')).filter(Boolean);
+}
+
+/**
+ * Read prompt fields from parsed frontmatter
+ */
+export function readFrontmatter(data: Record<string, unknown>, profile: FrontmatterProfile): FrontmatterFields {
+  const value = (field: FrontmatterField) => {
+    const key = keyFor(profile, field);
+    return key ? data[key] : undefined;
+  };
+
+  return {
+    id: firstString(value('id')),
+    title: firstString(value('title')),
+    description: firstString(value('description')) ?? '',
+    tags: toTags(value('tags')),
+    createdAt: toTimestamp(value('createdAt')),
+    updatedAt: toTimestamp(value('updatedAt')),
+    isArchived: value('archived') === true,
+  };
+}
+
+/**
+ * Frontmatter keys the profile doesn't map, which a rewrite keeps as they are
+ */
+export function unmappedFrontmatter(data: Record<string, unknown>, profile: FrontmatterProfile): Record<string, unknown> {
+  const mapped = new Set([
+    ...(Object.keys(profile.keys) as FrontmatterField[]).map(field => keyFor(profile, field)),
+    ...APP_KEYS,
+  ]);
+  return Object.fromEntries(Object.entries(data).filter(([key]) => !mapped.has(key)));
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/"/g, '\\"')}"`;
+}
+
+/** A tag as an inline list item, quoted when YAML would misread it */
+function inlineTag(tag: string): string {
+  return /[,[\]{}#:"'&*!|>%@`]|^\s|\s$/.test(tag) ? quote(tag) : tag;
+}
+
+/**
+ * A date, in the file's existing format when it still holds the same
+ * moment (so `date: 2024-01-01` stays a plain date)
+ */
+function formatDate(timestamp: number, previous: unknown): string {
+  if (toTimestamp(previous) === timestamp) {
+    if (typeof previous === 'string') return previous;
+    if (previous instanceof Date && timestamp % 86_400_000 === 0) {
+      return previous.toISOString().slice(0, 10);
+    }
+  }
+  return new Date(timestamp).toISOString();
+}
+
+/** Unmapped keys as YAML lines */
+function yamlLines(data: Record<string, unknown>): string[] {
+  if (Object.keys(data).length === 0) return [];
+  return matter.stringify('', data).split('\n').slice(1, -3);
+}
+
+/**
+ * Frontmatter lines (without the `---` fences) for a prompt. `previous` is
+ * the frontmatter of the file being rewritten: unmapped keys come back
+ * unchanged, and a title list (aliases) keeps its other entries.
+ */
+export function frontmatterLines(
+  prompt: Prompt,
+  profile: FrontmatterProfile,
+  previous: Record<string, unknown> = {}
+): string[] {
+  const lines: string[] = [];
+  const key = (field: FrontmatterField) => keyFor(profile, field);
+
+  lines.push(`${key('id')}: ${prompt.id}`);
+
+  // Aliases are always a list; other list-valued title keys stay lists
+  const previousTitle = previous[key('title')];
+  if (Array.isArray(previousTitle) || key('title') === 'aliases') {
+    const others = Array.isArray(previousTitle) ? previousTitle.slice(1).map(String) : [];
+    lines.push(`${key('title')}:`);
+    [prompt.title, ...others].forEach(title => lines.push(`  - ${quote(title)}`));
+  } else {
+    lines.push(`${key('title')}: ${quote(prompt.title)}`);
+  }
+
+  if (prompt.description && key('description')) {
+    lines.push(`${key('description')}: ${quote(prompt.description)}`);
+  }
+
+  if (prompt.tags.length > 0) {
+    if (profile.tagStyle === 'inline') {
+      lines.push(`${key('tags')}: [${prompt.tags.map(inlineTag).join(', ')}]`);
+    } else {
+      lines.push(`${key('tags')}:`);
+      prompt.tags.forEach(tag => lines.push(`  - ${tag}`));
+    }
+  }
+
+  lines.push(...variablesToFrontmatter(prompt.variables));
+
+  if (prompt.defaultProvider) {
+    lines.push(`provider: ${prompt.defaultProvider}`);
+  }
+
+  if (key('createdAt')) {
+    lines.push(`${key('createdAt')}: ${formatDate(prompt.createdAt, previous[key('createdAt')])}`);
+  }
+  if (key('updatedAt')) {
+    lines.push(`${key('updatedAt')}: ${formatDate(prompt.updatedAt, previous[key('updatedAt')])}`);
+  }
+
+  if (prompt.isArchived && key('archived')) {
+    lines.push(`${key('archived')}: true`);
+  }
+
+  lines.push(...yamlLines(unmappedFrontmatter(previous, profile)));
+  return lines;
+}
+
+/**
+ * Whether a note lacks an id and the profile says to give it one. Notes
+ * with frontmatter that doesn't parse are left alone.
+ */
+export function needsId(fileContent: string, profile: FrontmatterProfile): boolean {
+  if (!profile.assignIds) return false;
+  try {
+    return !readFrontmatter(matter(fileContent).data, profile).id;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Set a note's id (replacing the one it has, if any) without touching
+ * anything else in its frontmatter
+ */
+export function withAssignedId(fileContent: string, profile: FrontmatterProfile, id: string): string {
+  const key = keyFor(profile, 'id');
+  const line = `${key}: ${id}`;
+  const fence = fileContent.match(/^---\r?\n/);
+  if (!fence) return `---\n${line}\n---\n\n${fileContent}`;
+
+  const end = fileContent.indexOf('\n---', fence[0].length - 1);
+  const block = end === -1 ? '' : fileContent.slice(fence[0].length, end);
+  const escapedKey = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const existing = new RegExp(`^${escapedKey}:.*$`, 'm');
+  if (existing.test(block)) {
+    return fileContent.slice(0, fence[0].length) + block.replace(existing, line) + fileContent.slice(end);
+  }
+  return `${fence[0]}${line}\n${fileContent.slice(fence[0].length)}`;
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_PROVIDERS,
+  buildProviderLaunch,
+  createProviderId,
+  getAllProviders,
+  getProviderBaseUrl,
+  isValidUrlTemplate,
+  resolveProvider,
+} from './providers';
+import type { LLMProvider } from './providers';
+
+const custom: LLMProvider = { id: 'custom-local', name: 'Local', urlTemplate: 'http://localhost:3000/chat?text={prompt}&model=x' };
+
+describe('LLM Providers', () => {
+  describe('buildProviderLaunch', () => {
+    it('should substitute the encoded prompt', () => {
+      const claude = resolveProvider(BUILT_IN_PROVIDERS, 'claude');
+      const launch = buildProviderLaunch(claude, 'Hi & bye?');
+      expect(launch).toEqual({ url: 'https://claude.ai/new?q=Hi%20%26%20bye%3F', viaClipboard: false });
+    });
+
+    it('should fall back to the landing page when the URL is too long', () => {
+      const launch = buildProviderLaunch(custom, 'x'.repeat(100), 50);
+      expect(launch).toEqual({ url: 'http://localhost:3000/chat?model=x', viaClipboard: true });
+    });
+
+    it('should use the clipboard for templates without a placeholder', () => {
+      const gemini = resolveProvider(BUILT_IN_PROVIDERS, 'gemini');
+      expect(buildProviderLaunch(gemini, 'short')).toEqual({
+        url: 'https://gemini.google.com/app',
+        viaClipboard: true,
+      });
+    });
+  });
+
+  describe('getProviderBaseUrl', () => {
+    it('should drop the emptied query parameter', () => {
+      expect(getProviderBaseUrl({ id: 'p', name: 'P', urlTemplate: 'https://www.perplexity.ai/search?q={prompt}' }))
+        .toBe('https://www.perplexity.ai/search');
+    });
+  });
+
+  describe('isValidUrlTemplate', () => {
+    it('should only accept http(s) URLs', () => {
+      expect(isValidUrlTemplate('https://example.com/?q={prompt}')).toBe(true);
+      expect(isValidUrlTemplate('javascript:alert({prompt})')).toBe(false);
+      expect(isValidUrlTemplate('not a url')).toBe(false);
+    });
+  });
+
+  describe('resolveProvider', () => {
+    const providers = getAllProviders([custom]);
+
+    it('should prefer the requested provider', () => {
+      expect(resolveProvider(providers, 'custom-local', 'claude').id).toBe('custom-local');
+    });
+
+    it('should fall back when the requested provider is unknown', () => {
+      expect(resolveProvider(providers, 'deleted', 'claude').id).toBe('claude');
+      expect(resolveProvider(providers, 'deleted', null).id).toBe('chatgpt');
+    });
+  });
+
+  describe('getAllProviders', () => {
+    it('should not let custom providers shadow built-ins', () => {
+      const shadow = { id: 'claude', name: 'Fake', urlTemplate: 'https://evil.example/?q={prompt}' };
+      const providers = getAllProviders([shadow]);
+      expect(providers.filter(p => p.id === 'claude')).toHaveLength(1);
+      expect(providers.find(p => p.id === 'claude')?.name).toBe('Claude');
+    });
+  });
+
+  describe('createProviderId', () => {
+    it('should slugify names and avoid collisions', () => {
+      expect(createProviderId('My Chat!', [])).toBe('custom-my-chat');
+      expect(createProviderId('Local', [custom])).toBe('custom-local-2');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * "Open in LLM" provider registry
+ *
+ * Providers are URL templates where `{prompt}` is replaced with the
+ * URL-encoded prompt text. Templates without `{prompt}` (or prompts too long
+ * for a URL) fall back to copying the prompt and opening the provider's page.
+ */
+
+export interface LLMProvider {
+  id: string;
+  name: string;
+  urlTemplate: string;
+  builtIn?: boolean;
+}
+
+export interface ProviderLaunch {
+  url: string;
+  /** True when the prompt must be pasted from the clipboard */
+  viaClipboard: boolean;
+}
+
+export const PROMPT_PLACEHOLDER = '{prompt}';
+
+// Conservative limit; providers and some browsers reject longer URLs
+export const MAX_URL_LENGTH = 2000;
+
+export const BUILT_IN_PROVIDERS: LLMProvider[] = [
+  { id: 'chatgpt', name: 'ChatGPT', urlTemplate: 'https://chatgpt.com/?q={prompt}', builtIn: true },
+  { id: 'claude', name: 'Claude', urlTemplate: 'https://claude.ai/new?q={prompt}', builtIn: true },
+  { id: 'gemini', name: 'Gemini', urlTemplate: 'https://gemini.google.com/app', builtIn: true },
+  { id: 'perplexity', name: 'Perplexity', urlTemplate: 'https://www.perplexity.ai/search?q={prompt}', builtIn: true },
+];
+
+export const DEFAULT_PROVIDER_ID = 'chatgpt';
+
+/**
+ * Check that a template is an http(s) URL once the placeholder is filled in
+ */
+export function isValidUrlTemplate(template: string): boolean {
+  try {
+    const url = new URL(template.trim().split(PROMPT_PLACEHOLDER).join('x'));
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Derive a stable id for a custom provider from its name
+ */
+export function createProviderId(name: string, existing: LLMProvider[]): string {
+  const base = `custom-${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'provider'}`;
+  let id = base;
+  let suffix = 2;
+  while (existing.some(p => p.id === id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
+}
+
+/**
+ * Built-in providers followed by custom ones (custom ids never shadow built-ins)
+ */
+export function getAllProviders(custom: LLMProvider[]): LLMProvider[] {
+  const builtInIds = new Set(BUILT_IN_PROVIDERS.map(p => p.id));
+  return [
+    ...BUILT_IN_PROVIDERS,
+    ...custom.filter(p => !builtInIds.has(p.id)).map(p => ({ ...p, builtIn: false })),
+  ];
+}
+
+/**
+ * Pick the provider to launch: the requested id, then the fallback id, then the first built-in
+ */
+export function resolveProvider(
+  providers: LLMProvider[],
+  id?: string | null,
+  fallbackId?: string | null
+): LLMProvider {
+  return (
+    providers.find(p => p.id === id) ??
+    providers.find(p => p.id === fallbackId) ??
+    providers.find(p => p.id === DEFAULT_PROVIDER_ID) ??
+    BUILT_IN_PROVIDERS[0]
+  );
+}
+
+/**
+ * The provider's landing page: the template with the placeholder removed
+ * along with any query parameter left empty by the removal
+ */
+export function getProviderBaseUrl(provider: LLMProvider): string {
+  const template = provider.urlTemplate.trim();
+  try {
+    const url = new URL(template.split(PROMPT_PLACEHOLDER).join(''));
+    for (const [key, value] of Array.from(url.searchParams.entries())) {
+      if (value === '') url.searchParams.delete(key);
+    }
+    return url.toString();
+  } catch {
+    return template.split(PROMPT_PLACEHOLDER).join('');
+  }
+}
+
+/**
+ * Build the URL to open for a prompt, falling back to the provider's landing
+ * page (with the prompt on the clipboard) when it can't be passed in the URL
+ */
+export function buildProviderLaunch(
+  provider: LLMProvider,
+  text: string,
+  maxLength: number = MAX_URL_LENGTH
+): ProviderLaunch {
+  const template = provider.urlTemplate.trim();
+
+  if (template.includes(PROMPT_PLACEHOLDER)) {
+    const url = template.split(PROMPT_PLACEHOLDER).join(encodeURIComponent(text));
+    if (url.length <= maxLength) {
+      return { url, viaClipboard: false };
+    }
+  }
+
+  return { url: getProviderBaseUrl(provider), viaClipboard: true };
+}
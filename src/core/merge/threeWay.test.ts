@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { mergeThreeWay, applyMerge } from './threeWay';
+
+const lines = (...l: string[]) => l.join('\n');
+
+describe('Three-way merge', () => {
+  const base = lines('intro', 'step one', 'step two', 'outro');
+
+  it('should combine edits to different lines without conflicts', () => {
+    const result = mergeThreeWay(base, lines('INTRO', 'step one', 'step two', 'outro'), lines('intro', 'step one', 'step two', 'OUTRO'));
+
+    expect(result.conflicts).toBe(0);
+    expect(result.hunks.map(h => h.suggested)).toEqual(['local', 'remote']);
+    expect(applyMerge(result)).toBe(lines('INTRO', 'step one', 'step two', 'OUTRO'));
+  });
+
+  it('should report different edits to the same lines as a conflict', () => {
+    const result = mergeThreeWay(base, lines('intro', 'step 1', 'step two', 'outro'), lines('intro', 'first step', 'step two', 'outro'));
+
+    expect(result.conflicts).toBe(1);
+    expect(result.hunks[0]).toMatchObject({ base: ['step one'], local: ['step 1'], remote: ['first step'] });
+    expect(applyMerge(result)).toBe(lines('intro', 'step 1', 'step two', 'outro'));
+    expect(applyMerge(result, { 0: 'remote' })).toBe(lines('intro', 'first step', 'step two', 'outro'));
+    expect(applyMerge(result, { 0: 'both' })).toBe(lines('intro', 'step 1', 'first step', 'step two', 'outro'));
+  });
+
+  it('should not conflict when both sides made the same change', () => {
+    const edited = lines('intro', 'step two', 'outro');
+    const result = mergeThreeWay(base, edited, edited);
+
+    expect(result.conflicts).toBe(0);
+    expect(applyMerge(result)).toBe(edited);
+  });
+
+  it('should handle insertions and deletions at the edges', () => {
+    const result = mergeThreeWay(base, lines('title', ...base.split('\n')), lines('intro', 'step one', 'step two'));
+
+    expect(result.conflicts).toBe(0);
+    expect(applyMerge(result)).toBe(lines('title', 'intro', 'step one', 'step two'));
+  });
+
+  it('should treat everything as one conflict without a common ancestor', () => {
+    const result = mergeThreeWay(null, 'mine', 'theirs');
+
+    expect(result.hunks).toHaveLength(1);
+    expect(result.conflicts).toBe(1);
+    expect(applyMerge(result, { 0: 'remote' })).toBe('theirs');
+  });
+
+  it('should keep choices per hunk', () => {
+    const result = mergeThreeWay(
+      base,
+      lines('A', 'step one', 'step two', 'B'),
+      lines('a', 'step one', 'step two', 'b'),
+    );
+
+    expect(result.conflicts).toBe(2);
+    expect(applyMerge(result, { 0: 'remote', 1: 'base' })).toBe(lines('a', 'step one', 'step two', 'outro'));
+  });
+});
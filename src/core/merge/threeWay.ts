@@ -0,0 +1,169 @@
+/**
+ * Three-way merge
+ *
+ * Line-based diff3: both edited copies are diffed against their common
+ * ancestor, unchanged runs are kept, and everything in between becomes a
+ * hunk. A hunk changed on one side only resolves itself; a hunk changed
+ * differently on both sides is a conflict the user has to pick for.
+ */
+
+export type HunkChoice = 'local' | 'remote' | 'both' | 'base';
+
+export type MergeChunk =
+  | { type: 'stable'; lines: string[] }
+  | {
+      type: 'hunk';
+      /** Index among the merge's hunks, used as the key for choices */
+      index: number;
+      base: string[];
+      local: string[];
+      remote: string[];
+      /** Both sides changed this region, and differently */
+      conflict: boolean;
+      /** What the hunk resolves to without user input */
+      suggested: HunkChoice;
+    };
+
+export type MergeHunk = Extract<MergeChunk, { type: 'hunk' }>;
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  hunks: MergeHunk[];
+  conflicts: number;
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * For each line of `a`, the index of the line of `b` it is matched with
+ * (longest common subsequence), or -1
+ */
+function matchLines(a: string[], b: string[]): number[] {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Array<number>(a.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches[i++] = j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Merge two edited copies of a text against their common ancestor.
+ * Without an ancestor (`base` null) the whole text is one hunk, a conflict
+ * unless both copies are identical.
+ */
+export function mergeThreeWay(base: string | null, local: string, remote: string): MergeResult {
+  const baseLines = splitLines(base ?? '');
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+  const toLocal = matchLines(baseLines, localLines);
+  const toRemote = matchLines(baseLines, remoteLines);
+
+  const chunks: MergeChunk[] = [];
+  const hunks: MergeHunk[] = [];
+  let stable: string[] = [];
+
+  const addHunk = (b: string[], l: string[], r: string[]) => {
+    if (stable.length > 0) {
+      chunks.push({ type: 'stable', lines: stable });
+      stable = [];
+    }
+
+    const localChanged = !sameLines(b, l);
+    const remoteChanged = !sameLines(b, r);
+    const conflict = localChanged && remoteChanged && !sameLines(l, r);
+    const hunk: MergeHunk = {
+      type: 'hunk',
+      index: hunks.length,
+      base: b,
+      local: l,
+      remote: r,
+      conflict,
+      suggested: remoteChanged && !localChanged ? 'remote' : 'local',
+    };
+    chunks.push(hunk);
+    hunks.push(hunk);
+  };
+
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  while (i <= baseLines.length) {
+    // Next base line kept by both sides (or the end of all three texts)
+    let next = i;
+    while (next < baseLines.length && (toLocal[next] < j || toRemote[next] < k)) next++;
+    const localEnd = next < baseLines.length ? toLocal[next] : localLines.length;
+    const remoteEnd = next < baseLines.length ? toRemote[next] : remoteLines.length;
+
+    if (next > i || localEnd > j || remoteEnd > k) {
+      const b = baseLines.slice(i, next);
+      const l = localLines.slice(j, localEnd);
+      const r = remoteLines.slice(k, remoteEnd);
+      if (sameLines(l, r) && sameLines(b, l)) {
+        stable.push(...b);
+      } else {
+        addHunk(b, l, r);
+      }
+    }
+
+    if (next === baseLines.length) break;
+    stable.push(baseLines[next]);
+    i = next + 1;
+    j = localEnd + 1;
+    k = remoteEnd + 1;
+  }
+
+  if (stable.length > 0) {
+    chunks.push({ type: 'stable', lines: stable });
+  }
+
+  return { chunks, hunks, conflicts: hunks.filter(h => h.conflict).length };
+}
+
+/** Lines a hunk contributes for a given choice */
+export function resolveHunk(hunk: MergeHunk, choice: HunkChoice): string[] {
+  switch (choice) {
+    case 'local':
+      return hunk.local;
+    case 'remote':
+      return hunk.remote;
+    case 'base':
+      return hunk.base;
+    case 'both':
+      return sameLines(hunk.local, hunk.remote) ? hunk.local : [...hunk.local, ...hunk.remote];
+  }
+}
+
+/**
+ * Build the merged text. Hunks without an entry in `choices` use their
+ * suggested resolution.
+ */
+export function applyMerge(result: MergeResult, choices: Record<number, HunkChoice> = {}): string {
+  return result.chunks
+    .flatMap(chunk => chunk.type === 'stable'
+      ? chunk.lines
+      : resolveHunk(chunk, choices[chunk.index] ?? chunk.suggested))
+    .join('\n');
+}
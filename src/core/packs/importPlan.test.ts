@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildPackImportPlan, summarizePackImport } from './importPlan';
+import { PACK_FORMAT } from './pack';
+import type { PackFile, PackPrompt } from './pack';
+import { createPrompt } from '@/shared/test/factories';
+
+function makePack(prompts: PackPrompt[]): PackFile {
+  return { format: PACK_FORMAT, formatVersion: 1, name: 'Pack', version: '1.0.0', prompts };
+}
+
+describe('Pack Import Plan', () => {
+  const library = [
+    createPrompt('review', { title: 'Code Review', content: 'Review this code' }),
+    createPrompt('summary', { title: 'Summarize Article', content: 'Summarize the following' }),
+    createPrompt('old', { title: 'Old Prompt', content: 'Archived', isArchived: true }),
+  ];
+
+  it('should mark prompts without conflicts as new', () => {
+    const plan = buildPackImportPlan(makePack([{ title: 'Brand New', content: 'Unique' }]), library);
+    expect(plan[0].conflicts).toEqual([]);
+    expect(plan[0].resolution).toBeNull();
+  });
+
+  it('should detect same-id conflicts', () => {
+    const plan = buildPackImportPlan(makePack([{ id: 'review', title: 'Renamed', content: 'x' }]), library);
+    expect(plan[0].reason).toBe('same-id');
+    expect(plan[0].conflicts.map(p => p.id)).toEqual(['review']);
+    expect(plan[0].resolution).toBe('skip');
+  });
+
+  it('should detect duplicates via title and content', () => {
+    const plan = buildPackImportPlan(makePack([
+      { title: 'code review', content: 'Something else' },
+      { title: 'Different', content: 'Summarize the following' },
+    ]), library);
+    expect(plan[0].reason).toBe('exact-title');
+    expect(plan[0].conflicts.map(p => p.id)).toEqual(['review']);
+    expect(plan[1].reason).toBe('exact-content');
+    expect(plan[1].conflicts.map(p => p.id)).toEqual(['summary']);
+  });
+
+  it('should ignore archived prompts and duplicates within the pack', () => {
+    const plan = buildPackImportPlan(makePack([
+      { title: 'Old Prompt', content: 'Archived' },
+      { title: 'Twin', content: 'Same' },
+      { title: 'Twin', content: 'Same' },
+    ]), library);
+    expect(plan.every(item => item.conflicts.length === 0)).toBe(true);
+  });
+
+  it('should summarize resolutions', () => {
+    const plan = buildPackImportPlan(makePack([
+      { title: 'Brand New', content: 'Unique' },
+      { id: 'review', title: 'Code Review', content: 'x' },
+      { id: 'summary', title: 'Summarize Article', content: 'y' },
+    ]), library);
+    plan[2].resolution = 'overwrite';
+    expect(summarizePackImport(plan)).toEqual({ create: 1, overwrite: 1, skip: 1 });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Pack import planning
+ *
+ * Matches each pack prompt against the library (same id, or anything
+ * `findDuplicates` would group it with) so the user can choose per prompt
+ * whether to skip it, overwrite the existing prompt, or keep both.
+ */
+
+import type { Prompt } from '@/shared/types/prompt';
+import { findDuplicates } from '@/core/validation/duplicates';
+import type { DuplicateGroup } from '@/core/validation/duplicates';
+import type { PackFile, PackPrompt } from './pack';
+
+export type PackConflictResolution = 'skip' | 'overwrite' | 'keep-both';
+
+export type PackConflictReason = 'same-id' | DuplicateGroup['reason'];
+
+export interface PackImportItem {
+  index: number;
+  prompt: PackPrompt;
+  /** Library prompts this one conflicts with (empty when new) */
+  conflicts: Prompt[];
+  reason?: PackConflictReason;
+  /** How to handle a conflict; null for prompts with no conflict */
+  resolution: PackConflictResolution | null;
+}
+
+export interface PackImportSummary {
+  create: number;
+  overwrite: number;
+  skip: number;
+}
+
+// Candidate ids can't collide with library ids
+const CANDIDATE_PREFIX = '\u0000pack:';
+
+function toCandidate(prompt: PackPrompt, index: number): Prompt {
+  return {
+    id: `${CANDIDATE_PREFIX}${index}`,
+    title: prompt.title,
+    description: prompt.description ?? '',
+    content: prompt.content,
+    tags: prompt.tags ?? [],
+    currentTxId: '',
+    versions: [],
+    createdAt: 0,
+    updatedAt: 0,
+    isArchived: false,
+    isSynced: false,
+  };
+}
+
+/**
+ * Preview a pack import: one item per pack prompt with its conflicts.
+ * Conflicting prompts default to 'skip' so nothing is overwritten by accident.
+ */
+export function buildPackImportPlan(pack: PackFile, library: Prompt[]): PackImportItem[] {
+  const active = library.filter(p => !p.isArchived);
+  const byId = new Map(active.map(p => [p.id, p]));
+
+  const items: PackImportItem[] = pack.prompts.map((prompt, index) => {
+    const sameId = prompt.id ? byId.get(prompt.id) : undefined;
+    return {
+      index,
+      prompt,
+      conflicts: sameId ? [sameId] : [],
+      reason: sameId ? 'same-id' : undefined,
+      resolution: sameId ? 'skip' : null,
+    };
+  });
+
+  // One duplicate pass over library + pack; only library members count as conflicts
+  const candidates = pack.prompts.map(toCandidate);
+  for (const group of findDuplicates([...active, ...candidates])) {
+    const existing = group.prompts.filter(p => !p.id.startsWith(CANDIDATE_PREFIX));
+    if (existing.length === 0) continue;
+
+    for (const member of group.prompts) {
+      if (!member.id.startsWith(CANDIDATE_PREFIX)) continue;
+      const item = items[Number(member.id.slice(CANDIDATE_PREFIX.length))];
+      if (item.reason === 'same-id') continue;
+
+      item.conflicts = existing;
+      item.reason = group.reason;
+      item.resolution = 'skip';
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Count what an import will do with the current resolutions
+ */
+export function summarizePackImport(items: PackImportItem[]): PackImportSummary {
+  const summary: PackImportSummary = { create: 0, overwrite: 0, skip: 0 };
+  for (const item of items) {
+    if (item.resolution === 'skip') summary.skip++;
+    else if (item.resolution === 'overwrite') summary.overwrite++;
+    else summary.create++;
+  }
+  return summary;
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PACK_FORMAT,
+  PACK_FORMAT_VERSION,
+  PackValidationError,
+  createPackFile,
+  getPackFileName,
+  parsePack,
+  serializePack,
+  validatePack,
+} from './pack';
+import { createPrompt } from '@/shared/test/factories';
+
+const validPack = {
+  format: PACK_FORMAT,
+  formatVersion: 1,
+  name: 'React Dev Pack',
+  author: 'Pocket Prompt',
+  version: '1.0.0',
+  license: 'CC-BY-4.0',
+  prompts: [
+    {
+      id: 'review',
+      title: 'Code Review',
+      content: 'Review this {{language}} code',
+      tags: ['react', ' review '],
+      variables: { language: { type: 'enum', options: ['TS', 'JS'] } },
+    },
+  ],
+};
+
+describe('Prompt Packs', () => {
+  describe('validatePack', () => {
+    it('should accept a valid pack and normalise fields', () => {
+      const result = validatePack(validPack);
+      expect(result.valid).toBe(true);
+      if (!result.valid) return;
+      expect(result.pack.prompts[0].tags).toEqual(['react', 'review']);
+      expect(result.pack.prompts[0].variables).toEqual([
+        { name: 'language', type: 'enum', options: ['TS', 'JS'] },
+      ]);
+    });
+
+    it('should report every problem with a path', () => {
+      const result = validatePack({
+        ...validPack,
+        version: 'latest',
+        prompts: [{ title: '', content: 5 }, 'nope'],
+      });
+      expect(result.valid).toBe(false);
+      if (result.valid) return;
+      expect(result.errors).toEqual([
+        'version must be a version string like "1.0.0"',
+        'prompts[0].title is required',
+        'prompts[0].content is required',
+        'prompts[1] must be an object',
+      ]);
+    });
+
+    it('should reject packs from a newer format version', () => {
+      const result = validatePack({ ...validPack, formatVersion: PACK_FORMAT_VERSION + 1 });
+      expect(result.valid).toBe(false);
+    });
+
+    it('should reject files that are not packs', () => {
+      expect(validatePack([]).valid).toBe(false);
+      expect(validatePack({ ...validPack, format: 'other' }).valid).toBe(false);
+    });
+  });
+
+  describe('parsePack', () => {
+    it('should throw a PackValidationError for invalid JSON', () => {
+      expect(() => parsePack('{')).toThrow(PackValidationError);
+    });
+
+    it('should round-trip packs created from prompts', () => {
+      const prompts = [
+        createPrompt('a', {
+          title: 'First',
+          content: 'Hello {{name}}',
+          tags: ['greeting'],
+          variables: [{ name: 'name', default: 'World' }],
+        }),
+        createPrompt('b', { title: 'Second', content: 'Plain', description: 'No tags' }),
+      ];
+      const pack = createPackFile(prompts, { name: 'Mine', version: '0.1.0', author: 'Me' });
+      const parsed = parsePack(serializePack(pack));
+
+      expect(parsed.name).toBe('Mine');
+      expect(parsed.prompts).toEqual([
+        { id: 'a', title: 'First', content: 'Hello {{name}}', tags: ['greeting'], variables: [{ name: 'name', default: 'World' }] },
+        { id: 'b', title: 'Second', description: 'No tags', content: 'Plain' },
+      ]);
+    });
+  });
+
+  describe('getPackFileName', () => {
+    it('should slugify the name and include the version', () => {
+      expect(getPackFileName({ name: 'The Senior React Dev Pack!', version: '2.1.0' }))
+        .toBe('the-senior-react-dev-pack-2.1.0.pack.json');
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Prompt Pack file format
+ *
+ * A pack is a single versioned JSON document bundling prompts for sharing or
+ * sale (see docs/PACK_FORMAT.md). `format` and `formatVersion` identify the
+ * schema; `version` is the pack author's own release version.
+ */
+
+import type { Prompt, PromptVariable } from '@/shared/types/prompt';
+import { parseVariableDeclarations } from '@/core/template/variables';
+
+export const PACK_FORMAT = 'pocket-prompt-pack';
+export const PACK_FORMAT_VERSION = 1;
+export const PACK_FILE_EXTENSION = '.pack.json';
+
+export interface PackPrompt {
+  /** Stable id within the pack (used to recognise re-imports) */
+  id?: string;
+  title: string;
+  description?: string;
+  content: string;
+  tags?: string[];
+  variables?: PromptVariable[];
+}
+
+export interface PackMetadata {
+  name: string;
+  description?: string;
+  author?: string;
+  /** Pack release version, e.g. "1.2.0" */
+  version: string;
+  license?: string;
+  tags?: string[];
+  homepage?: string;
+}
+
+export interface PackFile extends PackMetadata {
+  format: typeof PACK_FORMAT;
+  formatVersion: number;
+  createdAt?: string;
+  prompts: PackPrompt[];
+}
+
+export type PackValidationResult =
+  | { valid: true; pack: PackFile }
+  | { valid: false; errors: string[] };
+
+/**
+ * Custom error for pack files that fail schema validation
+ */
+export class PackValidationError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid pack file: ${errors.join('; ')}`);
+    this.name = 'PackValidationError';
+    this.errors = errors;
+  }
+}
+
+const VERSION_PATTERN = /^\d+(\.\d+){0,2}([-+][0-9A-Za-z.-]+)?$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(
+  data: Record<string, unknown>,
+  key: string,
+  path: string,
+  errors: string[]
+): string | undefined {
+  const value = data[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    errors.push(`${path}${key} must be a string`);
+    return undefined;
+  }
+  return value;
+}
+
+function optionalTags(
+  data: Record<string, unknown>,
+  path: string,
+  errors: string[]
+): string[] | undefined {
+  const value = data.tags;
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    errors.push(`${path}tags must be an array of strings`);
+    return undefined;
+  }
+  return value.map(tag => tag.trim()).filter(Boolean);
+}
+
+function validatePackPrompt(raw: unknown, index: number, errors: string[]): PackPrompt | null {
+  const path = `prompts[${index}].`;
+  if (!isRecord(raw)) {
+    errors.push(`prompts[${index}] must be an object`);
+    return null;
+  }
+
+  const before = errors.length;
+  if (typeof raw.title !== 'string' || !raw.title.trim()) {
+    errors.push(`${path}title is required`);
+  }
+  if (typeof raw.content !== 'string') {
+    errors.push(`${path}content is required`);
+  }
+  const id = optionalString(raw, 'id', path, errors);
+  const description = optionalString(raw, 'description', path, errors);
+  const tags = optionalTags(raw, path, errors);
+  const variables = parseVariableDeclarations(raw.variables);
+  if (errors.length > before) return null;
+
+  return {
+    ...(id ? { id } : {}),
+    title: (raw.title as string).trim(),
+    ...(description ? { description } : {}),
+    content: raw.content as string,
+    ...(tags && tags.length > 0 ? { tags } : {}),
+    ...(variables.length > 0 ? { variables } : {}),
+  };
+}
+
+/**
+ * Validate parsed JSON against the pack schema, normalising optional fields
+ */
+export function validatePack(data: unknown): PackValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    return { valid: false, errors: ['Pack must be a JSON object'] };
+  }
+
+  if (data.format !== PACK_FORMAT) {
+    errors.push(`format must be "${PACK_FORMAT}"`);
+  }
+  if (typeof data.formatVersion !== 'number' || !Number.isInteger(data.formatVersion)) {
+    errors.push('formatVersion must be an integer');
+  } else if (data.formatVersion > PACK_FORMAT_VERSION) {
+    errors.push(`formatVersion ${data.formatVersion} is newer than supported (${PACK_FORMAT_VERSION}); update the app`);
+  }
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    errors.push('name is required');
+  }
+  if (typeof data.version !== 'string' || !VERSION_PATTERN.test(data.version)) {
+    errors.push('version must be a version string like "1.0.0"');
+  }
+
+  const description = optionalString(data, 'description', '', errors);
+  const author = optionalString(data, 'author', '', errors);
+  const license = optionalString(data, 'license', '', errors);
+  const homepage = optionalString(data, 'homepage', '', errors);
+  const createdAt = optionalString(data, 'createdAt', '', errors);
+  const tags = optionalTags(data, '', errors);
+
+  const prompts: PackPrompt[] = [];
+  if (!Array.isArray(data.prompts)) {
+    errors.push('prompts must be an array');
+  } else {
+    data.prompts.forEach((raw, index) => {
+      const prompt = validatePackPrompt(raw, index, errors);
+      if (prompt) prompts.push(prompt);
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    pack: {
+      format: PACK_FORMAT,
+      formatVersion: data.formatVersion as number,
+      name: (data.name as string).trim(),
+      version: data.version as string,
+      ...(description ? { description } : {}),
+      ...(author ? { author } : {}),
+      ...(license ? { license } : {}),
+      ...(homepage ? { homepage } : {}),
+      ...(tags && tags.length > 0 ? { tags } : {}),
+      ...(createdAt ? { createdAt } : {}),
+      prompts,
+    },
+  };
+}
+
+/**
+ * Parse pack file text, throwing PackValidationError when it is not a valid pack
+ */
+export function parsePack(json: string): PackFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new PackValidationError([
+      `File is not valid JSON${error instanceof Error ? ` (${error.message})` : ''}`,
+    ]);
+  }
+
+  const result = validatePack(data);
+  if (!result.valid) {
+    throw new PackValidationError(result.errors);
+  }
+  return result.pack;
+}
+
+/**
+ * Convert a library prompt to its pack representation
+ */
+export function promptToPackPrompt(prompt: Prompt): PackPrompt {
+  return {
+    id: prompt.id,
+    title: prompt.title,
+    ...(prompt.description ? { description: prompt.description } : {}),
+    content: prompt.content,
+    ...(prompt.tags.length > 0 ? { tags: [...prompt.tags] } : {}),
+    ...(prompt.variables && prompt.variables.length > 0 ? { variables: prompt.variables } : {}),
+  };
+}
+
+/**
+ * Build a pack from a selection of prompts
+ */
+export function createPackFile(prompts: Prompt[], metadata: PackMetadata): PackFile {
+  return {
+    format: PACK_FORMAT,
+    formatVersion: PACK_FORMAT_VERSION,
+    ...metadata,
+    createdAt: new Date().toISOString(),
+    prompts: prompts.map(promptToPackPrompt),
+  };
+}
+
+/**
+ * Serialize a pack for download
+ */
+export function serializePack(pack: PackFile): string {
+  return JSON.stringify(pack, null, 2);
+}
+
+/**
+ * File name for a pack, e.g. "react-dev-pack-1.0.0.pack.json"
+ */
+export function getPackFileName(pack: Pick<PackFile, 'name' | 'version'>): string {
+  const slug = pack.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pack';
+  return `${slug}-${pack.version}${PACK_FILE_EXTENSION}`;
+}
@@ -50,14 +50,45 @@ describe('Boolean Expression Parser', () => {
       expect(orParts[1].type).toBe('tag');
     });
 
-    // Note: Complex parentheses handling is simplified for now
-    // Users can still create complex expressions, but parentheses
-    // in the middle of expressions may not work as expected
-    it.skip('should handle parentheses for grouping', () => {
+    it('should handle parentheses for grouping', () => {
       const expr = parseBooleanExpression('(ai OR writing) AND analysis');
       expect(expr.type).toBe('and');
     });
 
+    it('should keep what follows a group', () => {
+      expect(parseBooleanExpression('(ai AND code) OR writing')).toEqual({
+        type: 'or',
+        value: [
+          { type: 'and', value: [{ type: 'tag', value: 'ai' }, { type: 'tag', value: 'code' }] },
+          { type: 'tag', value: 'writing' },
+        ],
+      });
+    });
+
+    it('should handle nested groups', () => {
+      const expr = parseBooleanExpression('NOT ((a or b) and (c or (d and not e)))');
+      expect(evaluateExpression(expr, ['a', 'c'])).toBe(false);
+      expect(evaluateExpression(expr, ['a', 'd', 'e'])).toBe(true);
+      expect(evaluateExpression(expr, ['b'])).toBe(true);
+    });
+
+    it('should read quoted and multi-word tags', () => {
+      expect(parseBooleanExpression('"machine learning" AND \'and\'')).toEqual({
+        type: 'and',
+        value: [{ type: 'tag', value: 'machine learning' }, { type: 'tag', value: 'and' }],
+      });
+      expect(parseBooleanExpression('machine   learning')).toEqual({ type: 'tag', value: 'machine learning' });
+      expect(parseBooleanExpression('"say \\"hi\\""')).toEqual({ type: 'tag', value: 'say "hi"' });
+      expect(parseBooleanExpression("don't")).toEqual({ type: 'tag', value: "don't" });
+    });
+
+    it('should not split tags that contain operator words', () => {
+      expect(parseBooleanExpression('brand OR ORacle')).toEqual({
+        type: 'or',
+        value: [{ type: 'tag', value: 'brand' }, { type: 'tag', value: 'ORacle' }],
+      });
+    });
+
     it('should throw on empty expression', () => {
       expect(() => parseBooleanExpression('')).toThrow();
     });
@@ -161,6 +192,23 @@ describe('Boolean Expression Parser', () => {
       // OR should not be parenthesized, but if it contains OR inside AND, it should be
       expect(str).toBeTruthy();
     });
+
+    it('should round-trip through the parser', () => {
+      const expressions = [
+        '(ai AND code) OR writing',
+        '(a OR b) AND c',
+        '(a AND b) AND c',
+        'a OR (b OR c)',
+        'NOT (a OR b) AND NOT NOT c',
+        '"machine learning" AND "not" AND "say \\"hi\\""',
+        'NOT ((a OR b) AND (c OR (d AND NOT e)))',
+      ];
+      for (const text of expressions) {
+        const expr = parseBooleanExpression(text);
+        expect(expressionToString(expr)).toBe(text);
+        expect(parseBooleanExpression(expressionToString(expr))).toEqual(expr);
+      }
+    });
   });
 
   describe('validateExpression', () => {
@@ -182,6 +230,15 @@ describe('Boolean Expression Parser', () => {
       const result = validateExpression('(ai AND analysis');
       expect(result.valid).toBe(false);
     });
+
+    it('should report where the error is', () => {
+      expect(validateExpression('(ai AND analysis')).toMatchObject({ valid: false, position: 0 });
+      expect(validateExpression('ai AND')).toMatchObject({ valid: false, position: 6 });
+      expect(validateExpression('ai OR ) b')).toMatchObject({ valid: false, position: 6 });
+      expect(validateExpression('ai) OR b')).toMatchObject({ valid: false, position: 2 });
+      expect(validateExpression('ai "code')).toMatchObject({ valid: false, position: 3 });
+      expect(validateExpression('ai AND NOT')).toMatchObject({ valid: false, error: 'Expected a tag at column 11' });
+    });
   });
 
   describe('getExpressionTags', () => {
@@ -1,162 +1,188 @@
 /**
  * Boolean Expression System for Tag-Based Search
  *
- * Provides advanced tag filtering with boolean operators (AND, OR, NOT)
- * and parentheses grouping for complex queries.
+ * Provides advanced tag filtering with boolean operators (AND, OR, NOT, in
+ * any case) and parentheses grouping for complex queries. NOT binds
+ * tightest, then AND, then OR; groups nest to any depth.
  *
  * Examples:
  * - "ai AND analysis" - both tags must be present
  * - "writing OR creative" - either tag must be present
  * - "ai AND NOT deprecated" - ai tag present, deprecated not present
  * - "(ai AND analysis) OR writing" - complex expressions with grouping
+ * - '"machine learning" AND NOT draft' - quoted multi-word tags
  */
 
 import type { BooleanExpression } from '@/shared/types/prompt';
 
 /**
- * Parse a boolean expression string into an expression tree
+ * Custom error for expressions that can't be parsed; position is the index
+ * in the expression where parsing stopped
  */
-export function parseBooleanExpression(expr: string): BooleanExpression {
-  expr = expr.trim();
+export class ExpressionSyntaxError extends Error {
+  readonly position: number;
 
-  if (!expr) {
-    throw new Error('Empty expression');
+  constructor(reason: string, position: number) {
+    super(`${reason} at column ${position + 1}`);
+    this.name = 'ExpressionSyntaxError';
+    this.position = position;
   }
+}
 
-  // Handle parentheses by recursively parsing innermost groups
-  if (expr.includes('(')) {
-    return parseWithParentheses(expr);
-  }
+type Token =
+  | { kind: 'and' | 'or' | 'not' | 'open' | 'close'; start: number; end: number }
+  | { kind: 'tag'; value: string; quoted: boolean; start: number; end: number };
 
-  return parseSimpleExpression(expr);
-}
+const KEYWORDS: Record<string, 'and' | 'or' | 'not'> = { AND: 'and', OR: 'or', NOT: 'not' };
+
+// Characters that end an unquoted tag (quotes only start a tag)
+const DELIMITER = /[\s()]/;
 
 /**
- * Handle expressions with parentheses by finding and parsing innermost groups
+ * Split an expression into keywords (AND, OR, NOT in any case),
+ * parentheses and tags. Quoted tags ("a b" or 'a b') may contain anything;
+ * a backslash escapes the next character. Quotes within a word (don't) are
+ * part of it.
  */
-function parseWithParentheses(expr: string): BooleanExpression {
-  // Find innermost parentheses
-  let depth = 0;
-  let start = -1;
-
-  for (let i = 0; i < expr.length; i++) {
-    if (expr[i] === '(') {
-      if (depth === 0) start = i;
-      depth++;
-    } else if (expr[i] === ')') {
-      depth--;
-      if (depth === 0 && start >= 0) {
-        // Found complete innermost group
-        const inner = expr.substring(start + 1, i);
-        const innerExpr = parseSimpleExpression(inner);
-
-        // Replace parentheses group with placeholder and recurse
-        const placeholder = '__EXPR__';
-        const replaced = expr.substring(0, start) + placeholder + expr.substring(i + 1);
-
-        // If the result is just our placeholder, return the inner expression
-        if (replaced.trim() === placeholder) {
-          return innerExpr;
-        }
-
-        // Otherwise, we need to parse the outer expression
-        // For now, keep it simple and parse without the parentheses
-        return parseSimpleExpression(expr.substring(start + 1, i));
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expr.length) {
+    const char = expr[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close', start: i, end: i + 1 });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < expr.length && expr[i] !== char) {
+        if (expr[i] === '\\' && i + 1 < expr.length) i++;
+        value += expr[i];
+        i++;
+      }
+      if (i >= expr.length) {
+        throw new ExpressionSyntaxError('Unclosed quote', start);
       }
+      i++;
+      tokens.push({ kind: 'tag', value, quoted: true, start, end: i });
+    } else {
+      const start = i;
+      while (i < expr.length && !DELIMITER.test(expr[i])) i++;
+      const word = expr.slice(start, i);
+      const keyword = KEYWORDS[word.toUpperCase()];
+      tokens.push(keyword
+        ? { kind: keyword, start, end: i }
+        : { kind: 'tag', value: word, quoted: false, start, end: i });
     }
   }
 
-  // If we get here, parentheses are unbalanced or empty
-  throw new Error('Unbalanced parentheses in expression');
+  return tokens;
 }
 
 /**
- * Parse a simple expression without parentheses
+ * Recursive-descent parser over the tokens. Precedence, loosest first:
+ * OR, AND, NOT; parentheses group. Runs of the same operator become one
+ * node (`a AND b AND c` is a single AND of three tags); parenthesized
+ * groups stay nested, so expressionToString can round-trip any tree.
  */
-function parseSimpleExpression(expr: string): BooleanExpression {
-  expr = expr.trim();
+class ExpressionParser {
+  private tokens: Token[];
+  /** Length of the expression, where "unexpected end" errors point */
+  private length: number;
+  private index = 0;
+
+  constructor(tokens: Token[], length: number) {
+    this.tokens = tokens;
+    this.length = length;
+  }
 
-  // Handle NOT expressions (highest precedence)
-  if (expr.toUpperCase().startsWith('NOT ')) {
-    const inner = expr.substring(4).trim();
-    return {
-      type: 'not',
-      value: [parseSimpleExpression(inner)],
-    };
+  parse(): BooleanExpression {
+    const expr = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new ExpressionSyntaxError(
+        extra.kind === 'close' ? 'Unmatched closing parenthesis' : 'Expected AND or OR',
+        extra.start
+      );
+    }
+    return expr;
   }
 
-  // Handle OR expressions (lowest precedence)
-  const orParts = splitByOperator(expr, ' OR ');
-  if (orParts.length > 1) {
-    return {
-      type: 'or',
-      value: orParts.map(part => parseSimpleExpression(part)),
-    };
+  private parseOr(): BooleanExpression {
+    return this.parseChain('or', () => this.parseAnd());
   }
 
-  // Handle AND expressions (medium precedence)
-  const andParts = splitByOperator(expr, ' AND ');
-  if (andParts.length > 1) {
-    return {
-      type: 'and',
-      value: andParts.map(part => parseSimpleExpression(part)),
-    };
+  private parseAnd(): BooleanExpression {
+    return this.parseChain('and', () => this.parseNot());
   }
 
-  // Remove outer parentheses if present
-  if (expr.startsWith('(') && expr.endsWith(')')) {
-    return parseSimpleExpression(expr.substring(1, expr.length - 1));
+  private parseChain(type: 'and' | 'or', operand: () => BooleanExpression): BooleanExpression {
+    const operands = [operand()];
+    while (this.peek()?.kind === type) {
+      this.index++;
+      operands.push(operand());
+    }
+    return operands.length === 1 ? operands[0] : { type, value: operands };
   }
 
-  // Remove quotes from tag names (both single and double quotes)
-  let tagValue = expr;
-  if ((tagValue.startsWith('"') && tagValue.endsWith('"')) ||
-      (tagValue.startsWith("'") && tagValue.endsWith("'"))) {
-    tagValue = tagValue.substring(1, tagValue.length - 1);
+  private parseNot(): BooleanExpression {
+    if (this.peek()?.kind === 'not') {
+      this.index++;
+      return { type: 'not', value: [this.parseNot()] };
+    }
+    return this.parsePrimary();
   }
 
-  // Single tag expression
-  return {
-    type: 'tag',
-    value: tagValue,
-  };
-}
+  private parsePrimary(): BooleanExpression {
+    const token = this.peek();
+    if (!token) {
+      throw new ExpressionSyntaxError('Expected a tag', this.length);
+    }
 
-/**
- * Split expression by operator, respecting parentheses nesting
- */
-function splitByOperator(expr: string, operator: string): string[] {
-  const parts: string[] = [];
-  let current = '';
-  let depth = 0;
-  let i = 0;
+    if (token.kind === 'open') {
+      this.index++;
+      const inner = this.parseOr();
+      if (this.peek()?.kind !== 'close') {
+        throw new ExpressionSyntaxError('Unclosed parenthesis', token.start);
+      }
+      this.index++;
+      return inner;
+    }
 
-  while (i < expr.length) {
-    if (expr[i] === '(') {
-      depth++;
-      current += expr[i];
-      i++;
-    } else if (expr[i] === ')') {
-      depth--;
-      current += expr[i];
-      i++;
-    } else if (depth === 0 && expr.substring(i).toUpperCase().startsWith(operator)) {
-      // Found operator at depth 0
-      parts.push(current.trim());
-      current = '';
-      i += operator.length;
-    } else {
-      current += expr[i];
-      i++;
+    if (token.kind !== 'tag') {
+      throw new ExpressionSyntaxError('Expected a tag', token.start);
     }
+
+    // Adjacent unquoted words form one tag (`machine learning`)
+    const words = [token.value];
+    this.index++;
+    let next = this.peek();
+    while (!token.quoted && next?.kind === 'tag' && !next.quoted) {
+      words.push(next.value);
+      this.index++;
+      next = this.peek();
+    }
+    return { type: 'tag', value: words.join(' ') };
   }
 
-  // Add the last part
-  if (current.trim()) {
-    parts.push(current.trim());
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
   }
+}
 
-  return parts.length > 1 ? parts : [expr];
+/**
+ * Parse a boolean expression string into an expression tree. Throws an
+ * ExpressionSyntaxError pointing at the problem.
+ */
+export function parseBooleanExpression(expr: string): BooleanExpression {
+  if (!expr.trim()) {
+    throw new Error('Empty expression');
+  }
+  return new ExpressionParser(tokenize(expr), expr.length).parse();
 }
 
 /**
@@ -204,39 +230,41 @@ function containsTag(tags: string[], target: string): boolean {
 }
 
 /**
- * Convert boolean expression back to human-readable string
+ * A tag as written in an expression: quoted when it's empty, a keyword, or
+ * has spaces, parentheses or quotes
+ */
+export function quoteTag(tag: string): string {
+  const needsQuotes = tag === '' || /[\s()"'\\]/.test(tag) || tag.toUpperCase() in KEYWORDS;
+  return needsQuotes ? `"${tag.replace(/["\\]/g, '\\$&')}"` : tag;
+}
+
+/**
+ * Convert boolean expression back to human-readable string. Parsing the
+ * result gives back the same tree.
  */
 export function expressionToString(expr: BooleanExpression): string {
+  // Compound operands are always parenthesized: for readability, and so a
+  // nested run of the same operator isn't merged into its parent on parse
+  const operand = (e: BooleanExpression): string => {
+    const str = expressionToString(e);
+    const compound = (e.type === 'and' || e.type === 'or') && (e.value as BooleanExpression[]).length > 1;
+    return compound ? `(${str})` : str;
+  };
+
   switch (expr.type) {
     case 'tag':
-      return expr.value as string;
-
-    case 'and': {
-      const expressions = expr.value as BooleanExpression[];
-      const parts = expressions.map(e => {
-        // Add parentheses for OR expressions to show precedence
-        if (e.type === 'or') {
-          return `(${expressionToString(e)})`;
-        }
-        return expressionToString(e);
-      });
-      return parts.join(' AND ');
-    }
+      return quoteTag(expr.value as string);
 
+    case 'and':
     case 'or': {
       const expressions = expr.value as BooleanExpression[];
-      return expressions.map(e => expressionToString(e)).join(' OR ');
+      return expressions.map(operand).join(expr.type === 'and' ? ' AND ' : ' OR ');
     }
 
     case 'not': {
       const expressions = expr.value as BooleanExpression[];
       if (expressions.length === 1) {
-        const inner = expressionToString(expressions[0]);
-        // Add parentheses if the inner expression contains operators
-        if (expressions[0].type !== 'tag') {
-          return `NOT (${inner})`;
-        }
-        return `NOT ${inner}`;
+        return `NOT ${operand(expressions[0])}`;
       }
       return 'NOT ?';
     }
@@ -266,9 +294,10 @@ export function getExpressionTags(expr: BooleanExpression): string[] {
 }
 
 /**
- * Validate expression syntax without throwing
+ * Validate expression syntax without throwing; position is where a syntax
+ * error was found
  */
-export function validateExpression(expr: string): { valid: boolean; error?: string } {
+export function validateExpression(expr: string): { valid: boolean; error?: string; position?: number } {
   try {
     parseBooleanExpression(expr);
     return { valid: true };
@@ -276,6 +305,7 @@ export function validateExpression(expr: string): { valid: boolean; error?: stri
     return {
       valid: false,
       error: error instanceof Error ? error.message : 'Invalid expression',
+      position: error instanceof ExpressionSyntaxError ? error.position : undefined,
     };
   }
 }
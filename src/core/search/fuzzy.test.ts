@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { editDistance, findFuzzyWordRanges, FuzzyIndex, similarity, stemWord } from './fuzzy';
+import { createPrompt } from '@/shared/test/factories';
+
+describe('Typo-Tolerant Search', () => {
+  describe('stemWord', () => {
+    it('should reduce forms of a verb to one stem', () => {
+      expect(stemWord('summarizing')).toBe('summarize');
+      expect(stemWord('summarized')).toBe('summarize');
+      expect(stemWord('summarizes')).toBe('summarize');
+      expect(stemWord('summarize')).toBe('summarize');
+      expect(stemWord('Refactoring')).toBe('refactor');
+      expect(stemWord('refactored')).toBe('refactor');
+    });
+
+    it('should handle plurals and doubled consonants', () => {
+      expect(stemWord('queries')).toBe('query');
+      expect(stemWord('classes')).toBe('class');
+      expect(stemWord('running')).toBe('run');
+    });
+
+    it('should treat British spellings like American ones', () => {
+      expect(stemWord('summarise')).toBe(stemWord('summarize'));
+      expect(stemWord('optimising')).toBe(stemWord('optimizing'));
+    });
+
+    it('should leave short words and words it cannot stem alone', () => {
+      expect(stemWord('api')).toBe('api');
+      expect(stemWord('need')).toBe('need');
+      expect(stemWord('status')).toBe('status');
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should count inserted, deleted and changed letters', () => {
+      expect(editDistance('refactr', 'refactor', 2)).toBe(1);
+      expect(editDistance('sumarize', 'summarize', 2)).toBe(1);
+      expect(editDistance('kitten', 'sitting', 3)).toBe(3);
+    });
+
+    it('should count swapped letters as one edit', () => {
+      expect(editDistance('tempalte', 'template', 2)).toBe(1);
+    });
+
+    it('should stop at max', () => {
+      expect(editDistance('abc', 'xyzxyz', 1)).toBe(2);
+      expect(editDistance('abcdef', 'uvwxyz', 2)).toBe(3);
+    });
+  });
+
+  describe('similarity', () => {
+    it('should prefer exact matches over prefixes over typos', () => {
+      const exact = similarity('refactor', 'refactor');
+      const prefix = similarity('refac', 'refactor');
+      const typo = similarity('refactr', 'refactor');
+      expect(exact).toBeGreaterThan(prefix);
+      expect(prefix).toBeGreaterThan(typo);
+      expect(typo).toBeGreaterThan(0);
+    });
+
+    it('should not allow typos in short words', () => {
+      expect(similarity('cat', 'car')).toBe(0);
+      expect(similarity('cat', 'catalog')).toBeGreaterThan(0);
+    });
+  });
+
+  describe('FuzzyIndex', () => {
+    const prompts = [
+      createPrompt('refactor', { title: 'Refactor legacy code', tags: ['coding'] }),
+      createPrompt('summary', { title: 'Meeting notes', content: 'Summarizing the discussion in bullet points' }),
+      createPrompt('archived', { title: 'Refactor tests', isArchived: true }),
+    ];
+
+    it('should find prompts despite typos', () => {
+      const index = new FuzzyIndex();
+      index.sync(prompts);
+
+      expect(index.search('refactr').map(r => r.id)).toEqual(['refactor']);
+      expect(index.search('sumarize').map(r => r.id)).toEqual(['summary']);
+    });
+
+    it('should require every word to match', () => {
+      const index = new FuzzyIndex();
+      index.sync(prompts);
+
+      expect(index.search('refactr legcy').map(r => r.id)).toEqual(['refactor']);
+      expect(index.search('refactr meeting')).toEqual([]);
+    });
+
+    it('should rank exact tag and title hits above typos and content', () => {
+      const index = new FuzzyIndex();
+      index.sync([
+        createPrompt('content', { title: 'Cleanup', content: 'Review the review checklist' }),
+        createPrompt('typo', { title: 'Reviw notes' }),
+        createPrompt('title', { title: 'Review pull requests' }),
+        createPrompt('tag', { title: 'Checklist', tags: ['review'] }),
+      ]);
+
+      const ids = index.search('review').map(r => r.id);
+      expect(ids.slice(0, 2).sort()).toEqual(['tag', 'title']);
+      expect(ids.indexOf('typo')).toBeLessThan(ids.indexOf('content'));
+    });
+
+    it('should follow added, changed and removed prompts', () => {
+      const index = new FuzzyIndex();
+      index.sync(prompts);
+
+      const changed = { ...prompts[1], content: 'Translate the discussion' };
+      index.sync([prompts[0], changed, createPrompt('new', { title: 'Summarise articles' })]);
+
+      expect(index.search('sumarize').map(r => r.id)).toEqual(['new']);
+      expect(index.search('translat').map(r => r.id)).toEqual(['summary']);
+
+      index.sync([]);
+      expect(index.search('refactor')).toEqual([]);
+    });
+  });
+
+  describe('findFuzzyWordRanges', () => {
+    it('should find the words a typo-tolerant search matches', () => {
+      expect(findFuzzyWordRanges('Summarizing long documents', 'sumarize docs')).toEqual([
+        { start: 0, end: 11 },
+        { start: 17, end: 26 },
+      ]);
+    });
+
+    it('should return nothing without a query', () => {
+      expect(findFuzzyWordRanges('Some text', '')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Typo-tolerant search
+ *
+ * An alternative to the FlexSearch index for when words may be misspelled
+ * ("refactr", "sumarize"). Words are stemmed (English) and looked up in a
+ * vocabulary of the prompts' stemmed words, allowing a few edits:
+ * - Words of up to 3 letters must match exactly (or as a prefix)
+ * - 4 to 6 letters may be one edit away, longer words two
+ * - An edit is an inserted, deleted or changed letter, or two swapped ones
+ *
+ * Matches are weighted by field like the index's resolutions (tags and
+ * title 9, description 5, content 3) and by closeness, so exact tag and
+ * title hits still rank first. Every word has to match.
+ */
+
+import type { Prompt } from '@/shared/types/prompt';
+import type { MatchRange } from './highlight';
+
+export type FuzzyField = 'tags' | 'title' | 'description' | 'content';
+
+const FIELD_WEIGHTS: Record<FuzzyField, number> = {
+  tags: 9,
+  title: 9,
+  description: 5,
+  content: 3,
+};
+
+// How closely a word matched, by kind of match
+const EXACT = 1;
+const PREFIX = 0.9;
+const ONE_EDIT = 0.6;
+const TWO_EDITS = 0.35;
+const PREFIX_EDIT = 0.5;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+const VOWEL = /[aeiouy]/;
+
+/**
+ * Reduce an English word to a stem, so "summarizing", "summarized" and
+ * "summarizes" all become "summarize". Light suffix stripping, not a full
+ * Porter stemmer: it only has to make forms of a word agree.
+ */
+export function stemWord(word: string): string {
+  let stem = word.toLowerCase();
+  if (stem.length <= 3) return stem;
+
+  // Plurals
+  if (stem.endsWith('sses')) stem = stem.slice(0, -2);
+  else if (stem.endsWith('ies') && stem.length > 4) stem = `${stem.slice(0, -3)}y`;
+  else if (stem.endsWith('s') && !/(?:ss|us|is)$/.test(stem)) stem = stem.slice(0, -1);
+
+  // -ing and -ed, when a vowel is left (but not "speed" or "need")
+  const verb = stem.endsWith('eed') ? null : /^(.*[aeiouy].*?)(?:ing|ed)$/.exec(stem);
+  if (verb && verb[1].length >= 3) {
+    stem = verb[1];
+    if (/(?:at|bl|iz|is)$/.test(stem)) {
+      // summarized -> summariz -> summarize
+      stem += 'e';
+    } else if (/([^aeiouylsz])\1$/.test(stem)) {
+      // running -> runn -> run
+      stem = stem.slice(0, -1);
+    }
+  }
+
+  // British spellings and a few derivational suffixes
+  stem = stem
+    .replace(/is(e|ation)$/, 'iz$1')
+    .replace(/ization$/, 'ize')
+    .replace(/(?<=.{3})(?:ness|ment|ly)$/, '');
+
+  return VOWEL.test(stem) ? stem : word.toLowerCase();
+}
+
+/**
+ * Edit distance (with swapped letters counting as one edit), or max + 1
+ * once it's certain to be more than max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+function allowedEdits(length: number): number {
+  return length <= 3 ? 0 : length <= 6 ? 1 : 2;
+}
+
+/**
+ * How closely a vocabulary stem matches a query stem, 0 if it doesn't
+ */
+export function similarity(query: string, term: string): number {
+  if (term === query) return EXACT;
+  if (term.startsWith(query)) return PREFIX;
+
+  const edits = allowedEdits(query.length);
+  if (edits === 0) return 0;
+
+  const distance = editDistance(query, term, edits);
+  if (distance <= edits) return distance === 1 ? ONE_EDIT : TWO_EDITS;
+
+  // A word still being typed, with a typo
+  if (query.length >= 5 && term.length > query.length && editDistance(query, term.slice(0, query.length), 1) <= 1) {
+    return PREFIX_EDIT;
+  }
+  return 0;
+}
+
+/** The stems of the words in a query */
+export function queryStems(query: string): string[] {
+  return Array.from(new Set(Array.from(query.matchAll(WORD), match => stemWord(match[0]))));
+}
+
+/**
+ * Highest field weight of each stem in a prompt
+ */
+function promptTerms(prompt: Prompt): Map<string, number> {
+  const terms = new Map<string, number>();
+  const add = (text: string | undefined, weight: number) => {
+    for (const match of (text ?? '').matchAll(WORD)) {
+      const stem = stemWord(match[0]);
+      if ((terms.get(stem) ?? 0) < weight) terms.set(stem, weight);
+    }
+  };
+  add(prompt.content, FIELD_WEIGHTS.content);
+  add(prompt.description, FIELD_WEIGHTS.description);
+  add(prompt.title, FIELD_WEIGHTS.title);
+  add((prompt.tags ?? []).join(' '), FIELD_WEIGHTS.tags);
+  return terms;
+}
+
+/**
+ * Vocabulary of the prompts' stems, kept up to date with sync: only prompts
+ * that were added, changed (a new object) or removed are re-read
+ */
+export class FuzzyIndex {
+  private entries = new Map<string, { prompt: Prompt; terms: Map<string, number> }>();
+  // Stem -> prompt ID -> highest field weight
+  private vocabulary = new Map<string, Map<string, number>>();
+
+  sync(prompts: Prompt[]): void {
+    const current = new Map(prompts.filter(p => !p.isArchived).map(p => [p.id, p]));
+
+    for (const [id, entry] of this.entries) {
+      if (current.get(id) !== entry.prompt) this.remove(id);
+    }
+    for (const [id, prompt] of current) {
+      if (this.entries.has(id)) continue;
+      const terms = promptTerms(prompt);
+      this.entries.set(id, { prompt, terms });
+      for (const [stem, weight] of terms) {
+        let postings = this.vocabulary.get(stem);
+        if (!postings) {
+          postings = new Map();
+          this.vocabulary.set(stem, postings);
+        }
+        postings.set(id, weight);
+      }
+    }
+  }
+
+  private remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    for (const stem of entry.terms.keys()) {
+      const postings = this.vocabulary.get(stem);
+      postings?.delete(id);
+      if (postings?.size === 0) this.vocabulary.delete(stem);
+    }
+    this.entries.delete(id);
+  }
+
+  /**
+   * Prompts matching every word of the query, best first
+   */
+  search(query: string): { id: string; score: number }[] {
+    const stems = queryStems(query);
+    if (stems.length === 0) return [];
+
+    let scores: Map<string, number> | null = null;
+    for (const stem of stems) {
+      // Best weighted match of this word in each prompt
+      const wordScores = new Map<string, number>();
+      for (const [term, postings] of this.vocabulary) {
+        const closeness = similarity(stem, term);
+        if (closeness === 0) continue;
+        for (const [id, weight] of postings) {
+          wordScores.set(id, Math.max(wordScores.get(id) ?? 0, weight * closeness));
+        }
+      }
+
+      const previous: Map<string, number> | null = scores;
+      scores = new Map();
+      for (const [id, score] of wordScores) {
+        if (previous === null) {
+          scores.set(id, score);
+        } else if (previous.has(id)) {
+          scores.set(id, (previous.get(id) ?? 0) + score);
+        }
+      }
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from(scores ?? [], ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score);
+  }
+}
+
+/**
+ * Ranges of the words in text that a typo-tolerant search for query would
+ * match
+ */
+export function findFuzzyWordRanges(text: string, query: string): MatchRange[] {
+  const stems = queryStems(query);
+  if (!text || stems.length === 0) return [];
+
+  const ranges: MatchRange[] = [];
+  for (const match of text.matchAll(WORD)) {
+    const stem = stemWord(match[0]);
+    if (stems.some(queryStem => similarity(queryStem, stem) > 0)) {
+      ranges.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return ranges;
+}
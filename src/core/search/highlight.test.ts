@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractSnippet,
+  findQueryMatches,
+  findTextRanges,
+  findWordRanges,
+  hasMatches,
+  mergeRanges,
+} from './highlight';
+import { parseQuery } from './query';
+import type { Prompt } from '@/shared/types/prompt';
+
+const prompt: Prompt = {
+  id: 'prompt-1',
+  title: 'Review the React review',
+  description: 'Reviewing components',
+  content: 'Check hooks, effects and preview builds',
+  tags: ['react', 'Code-Review'],
+  currentTxId: 'tx-1',
+  versions: [],
+  createdAt: 0,
+  updatedAt: 0,
+  isArchived: false,
+  isSynced: true,
+};
+
+function matchesFor(query: string) {
+  return findQueryMatches(prompt, parseQuery(query).root!);
+}
+
+describe('Search Highlighting', () => {
+  describe('ranges', () => {
+    it('should merge overlapping and touching ranges', () => {
+      expect(mergeRanges([{ start: 5, end: 8 }, { start: 0, end: 2 }, { start: 2, end: 3 }, { start: 6, end: 10 }]))
+        .toEqual([{ start: 0, end: 3 }, { start: 5, end: 10 }]);
+    });
+
+    it('should find words by their start only', () => {
+      expect(findWordRanges('Review the preview, reviewer', 'review')).toEqual([
+        { start: 0, end: 6 },
+        { start: 20, end: 26 },
+      ]);
+    });
+
+    it('should find text anywhere', () => {
+      expect(findTextRanges('Review the preview', 'VIEW')).toEqual([
+        { start: 2, end: 6 },
+        { start: 14, end: 18 },
+      ]);
+    });
+  });
+
+  describe('findQueryMatches', () => {
+    it('should highlight words in every field and whole tags', () => {
+      const matches = matchesFor('review react');
+      expect(matches.title).toEqual([{ start: 0, end: 6 }, { start: 11, end: 16 }, { start: 17, end: 23 }]);
+      expect(matches.description).toEqual([{ start: 0, end: 6 }]);
+      expect(matches.content).toBeUndefined();
+      expect(matches.tags).toEqual(['react']);
+    });
+
+    it('should highlight short text in titles only, like the search', () => {
+      expect(matchesFor('vie')).toEqual({ title: [{ start: 2, end: 5 }, { start: 19, end: 22 }] });
+    });
+
+    it('should highlight phrases, fields and tags', () => {
+      expect(matchesFor('"and preview"').content).toEqual([{ start: 21, end: 32 }]);
+      expect(matchesFor('content:hook')).toEqual({ content: [{ start: 6, end: 10 }] });
+      expect(matchesFor('tag:code-review')).toEqual({ tags: ['Code-Review'] });
+    });
+
+    it('should not highlight excluded terms or metadata filters', () => {
+      const matches = matchesFor('-title:react is:active updated:>2020');
+      expect(hasMatches(matches)).toBe(false);
+    });
+  });
+
+  describe('extractSnippet', () => {
+    const text = `${'lorem ipsum '.repeat(20)}the needle is here ${'dolor sit '.repeat(20)}`;
+    const needle = text.indexOf('needle');
+
+    it('should return short text whole', () => {
+      expect(extractSnippet('Short\ntext', [{ start: 0, end: 5 }])).toEqual({
+        text: 'Short text',
+        ranges: [{ start: 0, end: 5 }],
+        truncatedStart: false,
+        truncatedEnd: false,
+      });
+    });
+
+    it('should cut a window around the first match at word boundaries', () => {
+      const snippet = extractSnippet(text, [{ start: needle, end: needle + 6 }], 80);
+
+      expect(snippet.truncatedStart).toBe(true);
+      expect(snippet.truncatedEnd).toBe(true);
+      expect(snippet.text.length).toBeLessThanOrEqual(80);
+      expect(snippet.text.startsWith('lorem') || snippet.text.startsWith('ipsum')).toBe(true);
+      const [range] = snippet.ranges;
+      expect(snippet.text.slice(range.start, range.end)).toBe('needle');
+    });
+
+    it('should start at the beginning without matches', () => {
+      const snippet = extractSnippet(text, [], 40);
+      expect(snippet.truncatedStart).toBe(false);
+      expect(snippet.text.startsWith('lorem ipsum')).toBe(true);
+      expect(snippet.ranges).toEqual([]);
+    });
+  });
+});
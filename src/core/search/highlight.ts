@@ -0,0 +1,202 @@
+/**
+ * Search Highlighting
+ *
+ * Where a query matched a prompt: character ranges in its title,
+ * description and content, and the tags that matched. Ranges follow what
+ * the search matches: words match at the start of a word (as FlexSearch's
+ * forward tokenizer does), short text, phrases and field values anywhere.
+ *
+ * extractSnippet cuts a window around the first match out of long text,
+ * such as the content, for showing in results.
+ */
+
+import type { Prompt } from '@/shared/types/prompt';
+import type { QueryNode } from './query';
+import { findFuzzyWordRanges } from './fuzzy';
+
+/** Characters from start up to (not including) end */
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export type HighlightField = 'title' | 'description' | 'content';
+
+export interface SearchMatches {
+  title?: MatchRange[];
+  description?: MatchRange[];
+  content?: MatchRange[];
+  /** Tags that matched, as written on the prompt */
+  tags?: string[];
+}
+
+export interface Snippet {
+  text: string;
+  /** Matches in the snippet's text */
+  ranges: MatchRange[];
+  /** Whether text was cut off before or after the snippet */
+  truncatedStart: boolean;
+  truncatedEnd: boolean;
+}
+
+const HIGHLIGHT_FIELDS: HighlightField[] = ['title', 'description', 'content'];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Sort ranges and merge the ones that overlap or touch
+ */
+export function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start || a.end - b.end);
+  const merged: MatchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Ranges of words in text starting with any of the words in query,
+ * case-insensitively
+ */
+export function findWordRanges(text: string, query: string): MatchRange[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!text || words.length === 0) return [];
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.map(escapeRegExp).join('|')})`, 'giu');
+  const ranges: MatchRange[] = [];
+  for (const match of text.matchAll(pattern)) {
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return mergeRanges(ranges);
+}
+
+/**
+ * Ranges where text contains needle, case-insensitively
+ */
+export function findTextRanges(text: string, needle: string): MatchRange[] {
+  const haystack = (text ?? '').toLowerCase();
+  const target = needle.toLowerCase();
+  const ranges: MatchRange[] = [];
+  if (!target) return ranges;
+
+  for (let index = haystack.indexOf(target); index !== -1; index = haystack.indexOf(target, index + target.length)) {
+    ranges.push({ start: index, end: index + target.length });
+  }
+  return ranges;
+}
+
+function addRanges(matches: SearchMatches, field: HighlightField, ranges: MatchRange[]): void {
+  if (ranges.length > 0) {
+    matches[field] = mergeRanges([...(matches[field] ?? []), ...ranges]);
+  }
+}
+
+function addTags(matches: SearchMatches, tags: string[]): void {
+  if (tags.length > 0) {
+    matches.tags = Array.from(new Set([...(matches.tags ?? []), ...tags]));
+  }
+}
+
+function collect(node: QueryNode, prompt: Prompt, matches: SearchMatches, fuzzy: boolean): void {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      node.children.forEach(child => collect(child, prompt, matches, fuzzy));
+      break;
+    case 'text': {
+      // Short text only searches titles (see simpleTitleSearch)
+      if (node.value.trim().length <= 3) {
+        addRanges(matches, 'title', findTextRanges(prompt.title, node.value.trim()));
+        break;
+      }
+      if (fuzzy) {
+        for (const field of HIGHLIGHT_FIELDS) {
+          addRanges(matches, field, findFuzzyWordRanges(prompt[field] ?? '', node.value));
+        }
+        addTags(matches, prompt.tags.filter(tag => findFuzzyWordRanges(tag, node.value).length > 0));
+        break;
+      }
+      for (const field of HIGHLIGHT_FIELDS) {
+        addRanges(matches, field, findWordRanges(prompt[field] ?? '', node.value));
+      }
+      const words = node.value.toLowerCase().split(/\s+/);
+      addTags(matches, prompt.tags.filter(tag => words.includes(tag.toLowerCase())));
+      break;
+    }
+    case 'phrase':
+      for (const field of HIGHLIGHT_FIELDS) {
+        addRanges(matches, field, findTextRanges(prompt[field] ?? '', node.value));
+      }
+      break;
+    case 'field':
+      addRanges(matches, node.field, findTextRanges(prompt[node.field] ?? '', node.value));
+      break;
+    case 'tag':
+      addTags(matches, prompt.tags.filter(tag => tag.toLowerCase() === node.value.toLowerCase()));
+      break;
+    // Excluded terms and metadata filters have nothing to highlight
+    default:
+      break;
+  }
+}
+
+/**
+ * Where a query matched a prompt; with fuzzy, words are highlighted the way
+ * the typo-tolerant search matches them
+ */
+export function findQueryMatches(prompt: Prompt, query: QueryNode, options: { fuzzy?: boolean } = {}): SearchMatches {
+  const matches: SearchMatches = {};
+  collect(query, prompt, matches, options.fuzzy ?? false);
+  return matches;
+}
+
+/**
+ * Whether there is anything to highlight
+ */
+export function hasMatches(matches: SearchMatches | undefined): boolean {
+  return !!matches && (HIGHLIGHT_FIELDS.some(field => matches[field]?.length) || !!matches.tags?.length);
+}
+
+/**
+ * A window of about maxLength characters of text around its first match
+ * (the start of the text without matches), cut at word boundaries
+ */
+export function extractSnippet(text: string, ranges: MatchRange[] = [], maxLength = 160): Snippet {
+  // Lines are joined so the snippet reads as one line
+  const flat = text.replace(/\s/g, ' ');
+  if (flat.length <= maxLength) {
+    return { text: flat, ranges, truncatedStart: false, truncatedEnd: false };
+  }
+
+  const first = ranges[0];
+  let start = first ? Math.max(0, first.start - Math.floor(maxLength / 4)) : 0;
+  let end = Math.min(flat.length, start + maxLength);
+  start = Math.max(0, Math.min(start, end - maxLength));
+
+  // Don't cut words in half
+  if (start > 0) {
+    const space = flat.indexOf(' ', start);
+    if (space !== -1 && space < (first?.start ?? end)) start = space + 1;
+  }
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(' ', end);
+    if (space > start && space >= (first?.end ?? start)) end = space;
+  }
+
+  return {
+    text: flat.slice(start, end),
+    ranges: ranges
+      .filter(range => range.end > start && range.start < end)
+      .map(range => ({ start: Math.max(range.start, start) - start, end: Math.min(range.end, end) - start })),
+    truncatedStart: start > 0,
+    truncatedEnd: end < flat.length,
+  };
+}
@@ -4,10 +4,19 @@ import {
   addToIndex,
   removeFromIndex,
   searchPrompts,
+  simpleTitleSearch,
   filterByTag,
+  filterBySavedSearch,
   getAllTags,
+  runQuery,
+  exportIndex,
+  importIndex,
+  updateIndex,
+  indexKey,
+  currentIndexKey,
 } from '@/core/search';
-import type { Prompt } from '@/shared/types/prompt';
+import { parseQuery } from '@/core/search/query';
+import type { Prompt, SavedSearch } from '@/shared/types/prompt';
 
 describe('Search Functionality', () => {
   const mockPrompts: Prompt[] = [
@@ -163,6 +172,18 @@ describe('Search Functionality', () => {
         expect(results[i - 1].score).toBeGreaterThanOrEqual(results[i].score);
       }
     });
+
+    it('should blend semantic similarity into keyword scores', () => {
+      const keyword = searchPrompts('javascript');
+      const blended = searchPrompts('javascript', new Map([['prompt-2', 0.9], ['prompt-3', 0.6]]));
+
+      // Keyword matches are boosted by their similarity
+      expect(blended[0].id).toBe('prompt-2');
+      expect(blended.find(r => r.id === 'prompt-2')!.score)
+        .toBeGreaterThan(keyword.find(r => r.id === 'prompt-2')!.score);
+      // Semantic-only matches are included
+      expect(blended.map(r => r.id)).toContain('prompt-3');
+    });
   });
 
   describe('Tag Filtering', () => {
@@ -223,4 +244,121 @@ describe('Search Functionality', () => {
       expect(tags).toEqual([]);
     });
   });
-});
\ No newline at end of file
+
+  describe('Saved Search Filtering', () => {
+    const search: SavedSearch = {
+      id: 'search-1',
+      name: 'JavaScript',
+      expression: { type: 'tag', value: 'javascript' },
+      updatedAt: Date.now(),
+    };
+
+    it('should filter by the tag expression', () => {
+      const ids = filterBySavedSearch(mockPrompts, search).map(p => p.id);
+      expect(ids).toEqual(['prompt-1', 'prompt-2']);
+    });
+
+    it('should combine the expression with the text query', () => {
+      const results = filterBySavedSearch(mockPrompts, { ...search, textQuery: 'TypeScript' });
+      expect(results.map(p => p.id)).toEqual(['prompt-2']);
+    });
+
+    it('should apply field filters in the query', () => {
+      const results = filterBySavedSearch(mockPrompts, { ...search, textQuery: '-tag:types title:react' });
+      expect(results.map(p => p.id)).toEqual(['prompt-1']);
+    });
+  });
+
+  describe('Query Evaluation', () => {
+    const run = (query: string) => runQuery(mockPrompts, parseQuery(query).root).map(r => r.id);
+
+    it('should match full-text words through the index', () => {
+      expect(run('TypeScript')).toEqual(['prompt-2']);
+    });
+
+    it('should combine words with tag and field filters', () => {
+      expect(run('tag:frontend -tag:react')).toEqual(['prompt-3']);
+      expect(run('javascript description:advanced')).toEqual(['prompt-2']);
+    });
+
+    it('should match archived prompts when the query asks for them', () => {
+      expect(run('is:archived content')).toEqual(['prompt-4']);
+    });
+
+    it('should return where each prompt matched', () => {
+      const [result] = runQuery(mockPrompts, parseQuery('grid tag:css').root);
+      expect(result.id).toBe('prompt-3');
+      expect(result.matches).toEqual({
+        title: [{ start: 4, end: 8 }],
+        description: [{ start: 11, end: 15 }],
+        content: [{ start: 0, end: 4 }],
+        tags: ['css'],
+      });
+    });
+
+    it('should return title ranges for short queries', () => {
+      const [result] = simpleTitleSearch(mockPrompts, 'gri');
+      expect(result.matches).toEqual({ title: [{ start: 4, end: 7 }] });
+    });
+
+    it('should return every prompt for an empty query', () => {
+      expect(run('')).toHaveLength(mockPrompts.length);
+    });
+
+    it('should include semantic matches for a term', () => {
+      const semantic = new Map([['styling layouts', new Map([['prompt-3', 0.7]])]]);
+      expect(run('styling layouts')).toEqual([]);
+      expect(runQuery(mockPrompts, parseQuery('styling layouts').root, { semantic }).map(r => r.id)).toEqual(['prompt-3']);
+    });
+
+    it('should match misspelled words only in typo-tolerant mode', () => {
+      const fuzzy = (query: string) => runQuery(mockPrompts, parseQuery(query).root, { fuzzy: true });
+
+      expect(run('TypeScrpt')).toEqual([]);
+      expect(fuzzy('TypeScrpt').map(r => r.id)).toEqual(['prompt-2']);
+      expect(fuzzy('layots -tag:react').map(r => r.id)).toEqual(['prompt-3']);
+      expect(fuzzy('TypeScrpt')[0].matches?.title).toEqual([{ start: 0, end: 10 }]);
+    });
+  });
+
+  describe('Index Snapshots', () => {
+    it('should key the index by the searchable content of active prompts', () => {
+      expect(currentIndexKey()).toBe(indexKey(mockPrompts));
+      expect(indexKey([...mockPrompts].reverse())).toBe(indexKey(mockPrompts));
+      expect(indexKey(mockPrompts.slice(1))).not.toBe(indexKey(mockPrompts));
+      const edited = mockPrompts.map(p => (p.id === 'prompt-1' ? { ...p, content: 'Changed' } : p));
+      expect(indexKey(edited)).not.toBe(indexKey(mockPrompts));
+      const archivedEdit = mockPrompts.map(p => (p.id === 'prompt-4' ? { ...p, content: 'Changed' } : p));
+      expect(indexKey(archivedEdit)).toBe(indexKey(mockPrompts));
+    });
+
+    it('should search the same after exporting and importing', () => {
+      const snapshot = exportIndex();
+      indexPrompts([]);
+      expect(searchPrompts('React')).toEqual([]);
+
+      expect(importIndex(snapshot)).toBe(true);
+      expect(searchPrompts('React').map(r => r.id)).toContain('prompt-1');
+      expect(currentIndexKey()).toBe(snapshot.key);
+    });
+
+    it('should refuse snapshots from another index version', () => {
+      expect(importIndex({ ...exportIndex(), version: 0 })).toBe(false);
+    });
+
+    it('should only re-index prompts that changed', () => {
+      const updated = [
+        { ...mockPrompts[0], title: 'Vue Best Practices' },
+        mockPrompts[1],
+        { ...mockPrompts[2], isArchived: true },
+        mockPrompts[3],
+      ];
+
+      expect(updateIndex(updated)).toBe(2);
+      expect(searchPrompts('Vue').map(r => r.id)).toEqual(['prompt-1']);
+      expect(searchPrompts('Grid')).toEqual([]);
+      expect(currentIndexKey()).toBe(indexKey(updated));
+      expect(updateIndex(updated)).toBe(0);
+    });
+  });
+});
@@ -1,55 +1,229 @@
 import { Document } from 'flexsearch';
-import type { Prompt } from '@/shared/types/prompt';
+import type { Prompt, SavedSearch } from '@/shared/types/prompt';
+import { evaluateExpression } from './boolean';
+import { matchesQuery, parseQuery, rankedTextTerms } from './query';
+import type { QueryNode } from './query';
+import { findQueryMatches, findTextRanges } from './highlight';
+import { FuzzyIndex } from './fuzzy';
+import type { SearchMatches } from './highlight';
+
+// Bump when the index options change, so saved snapshots are rebuilt
+const INDEX_VERSION = 1;
 
 // Create FlexSearch document index with field-specific resolution for better relevance
 // Higher resolution = better precision and higher ranking for that field
-let promptIndex = new Document({
-  document: {
-    id: 'id',
-    index: [
-      { field: 'tags', tokenize: 'strict', resolution: 9 },      // Highest priority: exact tag matches
-      { field: 'title', tokenize: 'forward', resolution: 9 },    // High priority: title matches
-      { field: 'description', tokenize: 'forward', resolution: 5 }, // Medium priority
-      { field: 'content', tokenize: 'forward', resolution: 3 },  // Lower priority: content is longer/less specific
-    ],
-  },
-  cache: true,
-});
-
-// Track indexed IDs for proper cleanup
-const indexedIds = new Set<string>();
-
-/**
- * Index all prompts for search
- */
-export function indexPrompts(prompts: Prompt[]): void {
-  // Completely clear and reinitialize the index for clean state
-  promptIndex = new Document({
+function createIndex() {
+  return new Document({
     document: {
       id: 'id',
       index: [
-        { field: 'tags', tokenize: 'strict', resolution: 9 },
-        { field: 'title', tokenize: 'forward', resolution: 9 },
-        { field: 'description', tokenize: 'forward', resolution: 5 },
-        { field: 'content', tokenize: 'forward', resolution: 3 },
+        { field: 'tags', tokenize: 'strict', resolution: 9 },      // Highest priority: exact tag matches
+        { field: 'title', tokenize: 'forward', resolution: 9 },    // High priority: title matches
+        { field: 'description', tokenize: 'forward', resolution: 5 }, // Medium priority
+        { field: 'content', tokenize: 'forward', resolution: 3 },  // Lower priority: content is longer/less specific
       ],
     },
     cache: true,
   });
-  indexedIds.clear();
+}
+
+let promptIndex = createIndex();
+
+// Hash of each indexed prompt's searchable fields, by ID (also tracks indexed IDs for cleanup)
+const indexedHashes = new Map<string, string>();
+
+// False while the index is built in the background (see ./persistent-index)
+let indexReady = true;
+
+// Called after the index changes, e.g. to save it
+const changeListeners = new Set<() => void>();
+
+/** The fields of a prompt that are indexed */
+export type IndexedPrompt = Pick<Prompt, 'id' | 'title' | 'description' | 'content' | 'tags'>;
+
+/**
+ * The index exported for saving, with what's needed to update it later
+ */
+export interface IndexSnapshot {
+  version: number;
+  /** Content hash of the indexed prompts (see indexKey) */
+  key: string;
+  /** Hash of each indexed prompt, by ID */
+  hashes: Record<string, string>;
+  /** FlexSearch export chunks */
+  data: Record<string, string>;
+}
+
+/**
+ * FNV-1a hash; only used to tell contents apart, so it doesn't need to be
+ * cryptographic
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16).padStart(8, '0')}:${text.length}`;
+}
+
+/**
+ * Hash of a prompt's searchable text, to tell when it needs re-indexing
+ */
+export function hashPrompt(prompt: IndexedPrompt): string {
+  // Imported prompts may lack fields
+  const tags = prompt.tags ?? [];
+  return hashText([prompt.title, prompt.description, prompt.content, tags.join('\u001f')].join('\u001e'));
+}
+
+function keyOf(hashes: Iterable<[string, string]>): string {
+  const entries = Array.from(hashes, ([id, hash]) => `${id}=${hash}`).sort();
+  return hashText(`v${INDEX_VERSION}\n${entries.join('\n')}`);
+}
+
+/**
+ * Content hash of the prompts an index holds: the same prompts with the same
+ * searchable text give the same key
+ */
+export function indexKey(prompts: Prompt[]): string {
+  return keyOf(prompts.filter(p => !p.isArchived).map(p => [p.id, hashPrompt(p)]));
+}
+
+function notifyChange(): void {
+  changeListeners.forEach(listener => listener());
+}
+
+/**
+ * Call listener whenever prompts are added to or removed from the index
+ * Returns a function that stops listening
+ */
+export function onIndexChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+}
+
+function addPrompt(index: ReturnType<typeof createIndex>, hashes: Map<string, string>, prompt: IndexedPrompt): void {
+  try {
+    // Only the indexed fields, so a prompt read from a file doesn't bring its extras
+    const { id, title, description, content, tags } = prompt;
+    index.add({ id, title, description, content, tags } as any);
+    hashes.set(id, hashPrompt(prompt));
+  } catch (error) {
+    // Skip problematic prompts (e.g., content too large for FlexSearch)
+    console.warn(`Failed to index prompt ${prompt.id}:`, error);
+  }
+}
+
+/**
+ * Index all prompts for search
+ */
+export function indexPrompts(prompts: Prompt[]): void {
+  // Completely clear and reinitialize the index for clean state
+  promptIndex = createIndex();
+  indexedHashes.clear();
+  indexReady = true;
 
   // Add non-archived prompts to index
   prompts.forEach(prompt => {
     if (!prompt.isArchived) {
-      try {
-        promptIndex.add(prompt as any);
-        indexedIds.add(prompt.id);
-      } catch (error) {
-        // Skip problematic prompts (e.g., content too large for FlexSearch)
-        console.warn(`Failed to index prompt ${prompt.id}:`, error);
-      }
+      addPrompt(promptIndex, indexedHashes, prompt);
     }
   });
+  notifyChange();
+}
+
+/**
+ * Build an index snapshot from scratch without touching the live index
+ * (used by the index worker)
+ */
+export function buildSnapshot(prompts: IndexedPrompt[]): IndexSnapshot {
+  const index = createIndex();
+  const hashes = new Map<string, string>();
+  prompts.forEach(prompt => addPrompt(index, hashes, prompt));
+  return snapshotOf(index, hashes);
+}
+
+function snapshotOf(index: ReturnType<typeof createIndex>, hashes: Map<string, string>): IndexSnapshot {
+  const data: Record<string, string> = {};
+  index.export((key, value) => {
+    data[key] = value;
+  });
+  return { version: INDEX_VERSION, key: keyOf(hashes), hashes: Object.fromEntries(hashes), data };
+}
+
+/**
+ * Export the live index
+ */
+export function exportIndex(): IndexSnapshot {
+  return snapshotOf(promptIndex, indexedHashes);
+}
+
+/**
+ * Replace the live index with a snapshot
+ * Returns false (leaving the index alone) if the snapshot is from another index version
+ */
+export function importIndex(snapshot: IndexSnapshot): boolean {
+  if (snapshot.version !== INDEX_VERSION) return false;
+
+  const index = createIndex();
+  for (const [key, value] of Object.entries(snapshot.data)) {
+    index.import(key, value);
+  }
+  promptIndex = index;
+  indexedHashes.clear();
+  Object.entries(snapshot.hashes).forEach(([id, hash]) => indexedHashes.set(id, hash));
+  indexReady = true;
+  return true;
+}
+
+/**
+ * Bring the live index up to date with prompts, re-indexing only the ones
+ * that were added, changed or removed
+ * Returns the number of prompts re-indexed or removed
+ */
+export function updateIndex(prompts: Prompt[]): number {
+  const active = new Map(prompts.filter(p => !p.isArchived).map(p => [p.id, p]));
+  let changed = 0;
+
+  for (const id of Array.from(indexedHashes.keys())) {
+    if (!active.has(id)) {
+      promptIndex.remove(id);
+      indexedHashes.delete(id);
+      changed++;
+    }
+  }
+  for (const prompt of active.values()) {
+    const hash = indexedHashes.get(prompt.id);
+    if (hash === hashPrompt(prompt)) continue;
+    if (hash !== undefined) promptIndex.remove(prompt.id);
+    addPrompt(promptIndex, indexedHashes, prompt);
+    changed++;
+  }
+
+  if (changed > 0) notifyChange();
+  return changed;
+}
+
+/**
+ * Key of the live index (see indexKey)
+ */
+export function currentIndexKey(): string {
+  return keyOf(indexedHashes);
+}
+
+/**
+ * Whether searches use the index; false while it's being built in the
+ * background, when text is matched word by word instead
+ */
+export function isIndexReady(): boolean {
+  return indexReady;
+}
+
+/**
+ * Mark the index as being built in the background
+ */
+export function setIndexPending(): void {
+  indexReady = false;
 }
 
 /**
@@ -59,15 +233,15 @@ export function addToIndex(prompt: Prompt): void {
   if (!prompt.isArchived) {
     try {
       // Remove existing entry if present to ensure no duplicates
-      if (indexedIds.has(prompt.id)) {
+      if (indexedHashes.has(prompt.id)) {
         promptIndex.remove(prompt.id);
+        indexedHashes.delete(prompt.id);
       }
-      promptIndex.add(prompt as any);
-      indexedIds.add(prompt.id);
     } catch (error) {
-      // Skip problematic prompts (e.g., content too large for FlexSearch)
       console.warn(`Failed to add prompt ${prompt.id} to index:`, error);
     }
+    addPrompt(promptIndex, indexedHashes, prompt);
+    notifyChange();
   }
 }
 
@@ -76,9 +250,10 @@ export function addToIndex(prompt: Prompt): void {
  */
 export function removeFromIndex(promptId: string): void {
   try {
-    if (indexedIds.has(promptId)) {
+    if (indexedHashes.has(promptId)) {
       promptIndex.remove(promptId);
-      indexedIds.delete(promptId);
+      indexedHashes.delete(promptId);
+      notifyChange();
     }
   } catch (error) {
     console.warn(`Error removing from index: ${promptId}`, error);
@@ -88,6 +263,8 @@ export function removeFromIndex(promptId: string): void {
 export interface SearchResult {
   id: string;
   score: number;
+  /** Where the prompt matched, for highlighting (see ./highlight) */
+  matches?: SearchMatches;
 }
 
 /**
@@ -102,17 +279,36 @@ export function simpleTitleSearch(prompts: Prompt[], query: string): SearchResul
     .filter(p => !p.isArchived && p.title.toLowerCase().includes(lowerQuery))
     .map(p => ({
       id: p.id,
-      score: p.title.toLowerCase().startsWith(lowerQuery) ? 2 : 1 // Prioritize prefix matches
+      score: p.title.toLowerCase().startsWith(lowerQuery) ? 2 : 1, // Prioritize prefix matches
+      matches: { title: findTextRanges(p.title, lowerQuery) },
     }))
     .sort((a, b) => b.score - a.score);
 }
 
+// How much a perfect semantic match (similarity 1) adds to a keyword score
+const SEMANTIC_WEIGHT = 2;
+
+/**
+ * Add semantic similarity to keyword scores; prompts that only match
+ * semantically are included, ranked by similarity alone
+ */
+function blendScores(results: SearchResult[], similarities?: Map<string, number>): SearchResult[] {
+  if (!similarities || similarities.size === 0) return results;
+
+  const scores = new Map(results.map(r => [r.id, r.score]));
+  for (const [id, similarity] of similarities) {
+    scores.set(id, (scores.get(id) ?? 0) + similarity * SEMANTIC_WEIGHT);
+  }
+  return Array.from(scores, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score);
+}
+
 /**
  * Search prompts by query
  * Returns array of search results with IDs and scores, sorted by relevance
- * Uses FlexSearch across title, description, content, tags
+ * Uses FlexSearch across title, description, content, tags, blended with
+ * semantic similarity to the query when given (see ./semantic)
  */
-export function searchPrompts(query: string): SearchResult[] {
+export function searchPrompts(query: string, similarities?: Map<string, number>): SearchResult[] {
   const trimmed = query.trim();
   if (!trimmed) {
     return [];
@@ -145,12 +341,15 @@ export function searchPrompts(query: string): SearchResult[] {
     });
 
     // Convert to array and sort by score (highest first)
-    return Array.from(scoreMap.entries())
-      .map(([id, score]) => ({ id, score }))
-      .sort((a, b) => b.score - a.score);
+    return blendScores(
+      Array.from(scoreMap.entries())
+        .map(([id, score]) => ({ id, score }))
+        .sort((a, b) => b.score - a.score),
+      similarities
+    );
   } catch (error) {
     console.error('Search error:', error);
-    return [];
+    return blendScores([], similarities);
   }
 }
 
@@ -165,6 +364,114 @@ export function filterByTag(prompts: Prompt[], tag: string): Prompt[] {
   );
 }
 
+// Vocabulary for typo-tolerant searches, built the first time one runs
+const fuzzyIndex = new FuzzyIndex();
+
+export interface QueryOptions {
+  /**
+   * Match full-text words despite typos (see ./fuzzy). prompts should then
+   * be the whole library, which the typo-tolerant vocabulary is kept in
+   * sync with.
+   */
+  fuzzy?: boolean;
+  /**
+   * Semantic similarity of prompts to each full-text term, by term (see
+   * ./semantic), blended into the term's keyword scores
+   */
+  semantic?: Map<string, Map<string, number>>;
+}
+
+/**
+ * Match full text the way the main search does: title match for 1-3 chars,
+ * FlexSearch (or the typo-tolerant search) above, blended with semantic
+ * similarities if any
+ */
+function searchText(
+  prompts: Prompt[],
+  query: string,
+  fuzzy = false,
+  similarities?: Map<string, number>
+): SearchResult[] {
+  if (query.trim().length <= 3) {
+    return simpleTitleSearch(prompts, query);
+  }
+  if (fuzzy) {
+    return blendScores(fuzzyIndex.search(query), similarities);
+  }
+  if (!indexReady) {
+    return blendScores(
+      prompts
+        .filter(p => !p.isArchived && containsWords(p, query))
+        .map(p => ({ id: p.id, score: 1 })),
+      similarities
+    );
+  }
+  return searchPrompts(query, similarities);
+}
+
+/**
+ * Whether every word appears somewhere in a prompt; for prompts the index
+ * leaves out (archived ones) or doesn't have yet
+ */
+function containsWords(prompt: Prompt, query: string): boolean {
+  const haystack = [prompt.title, prompt.description, prompt.content, ...prompt.tags].join('\n').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+}
+
+/**
+ * Run a parsed query (see ./query) over prompts, archived ones included
+ * Returns the matches sorted by the relevance of their full-text words,
+ * with where each one matched
+ */
+export function runQuery(prompts: Prompt[], query: QueryNode | null, options: QueryOptions = {}): SearchResult[] {
+  if (!query) {
+    return prompts.map(p => ({ id: p.id, score: 0 }));
+  }
+
+  const terms = rankedTextTerms(query);
+  const fuzzy = options.fuzzy ?? false;
+  if (fuzzy && terms.length > 0) {
+    fuzzyIndex.sync(prompts);
+  }
+
+  // Each full-text term is searched once, not once per prompt
+  const textScores = new Map<string, Map<string, number>>();
+  const scoresFor = (text: string) => {
+    let scores = textScores.get(text);
+    if (!scores) {
+      scores = new Map(searchText(prompts, text, fuzzy, options.semantic?.get(text)).map(r => [r.id, r.score]));
+      textScores.set(text, scores);
+    }
+    return scores;
+  };
+
+  return prompts
+    .filter(prompt => matchesQuery(query, prompt, text =>
+      prompt.isArchived ? containsWords(prompt, text) : scoresFor(text).has(prompt.id)
+    ))
+    .map(prompt => ({
+      id: prompt.id,
+      score: terms.reduce((sum, text) => sum + (scoresFor(text).get(prompt.id) ?? 0), 0),
+      matches: findQueryMatches(prompt, query, { fuzzy }),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Get the active prompts matching a saved search: its tag expression and
+ * query (plain text or the query language)
+ */
+export function filterBySavedSearch(prompts: Prompt[], search: SavedSearch): Prompt[] {
+  const tagged = prompts.filter(prompt =>
+    !prompt.isArchived && evaluateExpression(search.expression, prompt.tags)
+  );
+  const { root } = parseQuery(search.textQuery ?? '');
+  if (!root) return tagged;
+
+  const matches = new Set(runQuery(tagged, root).map(r => r.id));
+  return tagged.filter(prompt => matches.has(prompt.id));
+}
+
 /**
  * Get all unique tags from prompts
  */
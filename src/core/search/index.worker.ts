@@ -0,0 +1,14 @@
+/**
+ * Search index worker
+ *
+ * Builds the FlexSearch index off the UI thread: receives the prompts to
+ * index and posts back the exported snapshot, which the page imports (see
+ * persistent-index.ts).
+ */
+
+import { buildSnapshot } from './index';
+import type { IndexedPrompt } from './index';
+
+self.addEventListener('message', (event: MessageEvent<IndexedPrompt[]>) => {
+  self.postMessage(buildSnapshot(event.data));
+});
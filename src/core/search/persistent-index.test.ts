@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { currentIndexKey, indexKey, indexPrompts, isIndexReady, searchPrompts } from './index';
+import type { IndexSnapshot } from './index';
+import { loadSearchIndex, resetSearchIndex } from './persistent-index';
+import type { IndexStore } from './persistent-index';
+import { createPrompt } from '@/shared/test/factories';
+
+function memoryStore(initial: IndexSnapshot | null = null) {
+  let snapshot = initial;
+  const store = {
+    load: vi.fn(async () => snapshot),
+    save: vi.fn(async (next: IndexSnapshot) => {
+      snapshot = next;
+    }),
+    clear: vi.fn(async () => {
+      snapshot = null;
+    }),
+  } satisfies IndexStore;
+  return { store, saved: () => snapshot };
+}
+
+describe('Persistent Search Index', () => {
+  const prompts = [createPrompt('a', { title: 'Kubernetes deploys' }), createPrompt('b', { title: 'Postgres tuning' })];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    indexPrompts([]);
+  });
+
+  afterEach(async () => {
+    await resetSearchIndex();
+    vi.useRealTimers();
+  });
+
+  it('should build the index when nothing is saved, then save it', async () => {
+    const { store, saved } = memoryStore();
+
+    await loadSearchIndex(prompts, store);
+    expect(isIndexReady()).toBe(true);
+    expect(searchPrompts('Kubernetes').map(r => r.id)).toEqual(['a']);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(store.save).toHaveBeenCalledTimes(1);
+    expect(saved()?.key).toBe(indexKey(prompts));
+  });
+
+  it('should import a saved index and re-index only what changed', async () => {
+    const { store, saved } = memoryStore();
+    await loadSearchIndex(prompts, store);
+    await vi.advanceTimersByTimeAsync(5000);
+    const snapshot = saved()!;
+
+    indexPrompts([]);
+    const changed = [prompts[0], createPrompt('c', { title: 'Redis caching' })];
+    await loadSearchIndex(changed, store);
+
+    expect(store.load).toHaveBeenCalledTimes(2);
+    expect(searchPrompts('Kubernetes').map(r => r.id)).toEqual(['a']);
+    expect(searchPrompts('Postgres')).toEqual([]);
+    expect(searchPrompts('Redis').map(r => r.id)).toEqual(['c']);
+    expect(currentIndexKey()).toBe(indexKey(changed));
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(saved()?.key).not.toBe(snapshot.key);
+    expect(saved()?.key).toBe(indexKey(changed));
+  });
+
+  it('should skip loading when the index already matches', async () => {
+    const { store } = memoryStore();
+    await loadSearchIndex(prompts, store);
+    await loadSearchIndex([...prompts].reverse(), store);
+    expect(store.load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should build the index when the saved one fails to load', async () => {
+    const { store } = memoryStore();
+    store.load.mockRejectedValueOnce(new Error('corrupt'));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await loadSearchIndex(prompts, store);
+    expect(searchPrompts('Postgres').map(r => r.id)).toEqual(['b']);
+    warn.mockRestore();
+  });
+
+  it('should clear the saved index on reset', async () => {
+    const { store, saved } = memoryStore();
+    await loadSearchIndex(prompts, store);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    await resetSearchIndex();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(saved()).toBeNull();
+    expect(searchPrompts('Kubernetes')).toEqual([]);
+  });
+});
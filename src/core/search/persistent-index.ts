@@ -0,0 +1,152 @@
+/**
+ * Persistent search index
+ *
+ * Keeps the search index between sessions so large libraries aren't
+ * re-indexed on every load:
+ * - A saved snapshot is imported, then only the prompts added, changed or
+ *   removed since it was saved are re-indexed
+ * - Without one, the index is built in a Web Worker; until it's ready,
+ *   searches match words directly (see isIndexReady)
+ * - Changes to the index are saved a few seconds after they happen
+ *
+ * Where snapshots are kept is up to the IndexStore (a file on desktop,
+ * IndexedDB on the web; see backend/api/search-index-store.ts).
+ */
+
+import type { Prompt } from '@/shared/types/prompt';
+import {
+  buildSnapshot,
+  currentIndexKey,
+  exportIndex,
+  importIndex,
+  indexKey,
+  indexPrompts,
+  isIndexReady,
+  onIndexChange,
+  setIndexPending,
+  updateIndex,
+} from './index';
+import type { IndexedPrompt, IndexSnapshot } from './index';
+
+export interface IndexStore {
+  load(): Promise<IndexSnapshot | null>;
+  save(snapshot: IndexSnapshot): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const SAVE_DELAY_MS = 5000;
+
+let store: IndexStore | null = null;
+let listening = false;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+// Key of the last snapshot saved or loaded, to skip saving it again
+let savedKey: string | null = null;
+// Bumped by each load, so one finishing late doesn't replace a newer index
+let generation = 0;
+
+async function saveNow(): Promise<void> {
+  saveTimer = null;
+  if (!store) return;
+  if (!isIndexReady()) {
+    scheduleSave();
+    return;
+  }
+
+  const snapshot = exportIndex();
+  if (snapshot.key === savedKey) return;
+  try {
+    await store.save(snapshot);
+    savedKey = snapshot.key;
+  } catch (error) {
+    console.warn('[Search] Failed to save the index:', error);
+  }
+}
+
+function scheduleSave(): void {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = setTimeout(() => void saveNow(), SAVE_DELAY_MS);
+}
+
+function buildInWorker(prompts: IndexedPrompt[]): Promise<IndexSnapshot> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(buildSnapshot(prompts));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./index.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<IndexSnapshot>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Index worker failed'));
+    };
+    // Only the indexed fields, so the copy to the worker stays small
+    worker.postMessage(prompts.map(({ id, title, description, content, tags }) => ({ id, title, description, content, tags })));
+  });
+}
+
+/**
+ * Make the search index match prompts, from the saved snapshot where
+ * possible, and save it whenever it changes from then on
+ *
+ * getPrompts returns the latest prompts, which may have changed while the
+ * snapshot was loaded or built.
+ */
+export async function loadSearchIndex(
+  prompts: Prompt[],
+  indexStore: IndexStore,
+  getPrompts: () => Prompt[] = () => prompts
+): Promise<void> {
+  const run = ++generation;
+  store = indexStore;
+  if (!listening) {
+    onIndexChange(scheduleSave);
+    listening = true;
+  }
+
+  if (indexKey(prompts) === currentIndexKey()) return;
+
+  let snapshot: IndexSnapshot | null = null;
+  try {
+    snapshot = await indexStore.load();
+  } catch (error) {
+    console.warn('[Search] Failed to load the saved index:', error);
+  }
+  if (run !== generation) return;
+
+  if (snapshot && importIndex(snapshot)) {
+    savedKey = snapshot.key;
+    const changed = updateIndex(getPrompts());
+    console.log(`[Search] Loaded the saved index, ${changed} prompt(s) re-indexed`);
+    return;
+  }
+
+  setIndexPending();
+  try {
+    const built = await buildInWorker(prompts.filter(p => !p.isArchived));
+    if (run !== generation) return;
+    importIndex(built);
+    updateIndex(getPrompts());
+    scheduleSave();
+  } catch (error) {
+    if (run !== generation) return;
+    console.warn('[Search] Failed to build the index in the background:', error);
+    indexPrompts(getPrompts());
+  }
+}
+
+/**
+ * Empty the index and delete the saved snapshot
+ */
+export async function resetSearchIndex(): Promise<void> {
+  generation++;
+  indexPrompts([]);
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  savedKey = null;
+  await store?.clear();
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import {
+  completeQuery,
+  filtersArchived,
+  matchesQuery,
+  parseQuery,
+  rankedTextTerms,
+  tokenizeQuery,
+} from './query';
+import type { Prompt } from '@/shared/types/prompt';
+import { createPrompt } from '@/shared/test/factories';
+
+// Full-text words match when every word is in the title
+const titleWords = (prompt: Prompt) => (text: string) =>
+  text.toLowerCase().split(' ').every(word => prompt.title.toLowerCase().includes(word));
+
+function matches(query: string, prompt: Prompt): boolean {
+  const { root } = parseQuery(query);
+  if (!root) throw new Error(`Nothing to match in "${query}"`);
+  return matchesQuery(root, prompt, titleWords(prompt));
+}
+
+describe('Search Query Language', () => {
+  describe('tokenizeQuery', () => {
+    it('should split words, phrases, fields and operators', () => {
+      const tokens = tokenizeQuery('tag:ai -title:"code review" OR (draft)');
+      expect(tokens.map(t => [t.kind, t.value])).toEqual([
+        ['field', 'ai'],
+        ['operator', '-'],
+        ['field', 'code review'],
+        ['operator', 'OR'],
+        ['paren', '('],
+        ['word', 'draft'],
+        ['paren', ')'],
+      ]);
+    });
+
+    it('should record positions and field prefixes', () => {
+      const [tag, title] = tokenizeQuery('#ai title:x');
+      expect(tag).toMatchObject({ field: 'tag', start: 0, end: 3, prefixLength: 1 });
+      expect(title).toMatchObject({ field: 'title', start: 4, end: 11, prefixLength: 6 });
+    });
+
+    it('should treat unknown fields and lower-case operators as words', () => {
+      const tokens = tokenizeQuery('foo:bar or e-mail');
+      expect(tokens.map(t => t.kind)).toEqual(['word', 'word', 'word']);
+    });
+
+    it('should mark unclosed quotes', () => {
+      const [token] = tokenizeQuery('"exact phr');
+      expect(token).toMatchObject({ kind: 'phrase', value: 'exact phr', unclosed: true });
+    });
+  });
+
+  describe('parseQuery', () => {
+    it('should join adjacent words into one text search', () => {
+      const { root } = parseQuery('code review tag:ai');
+      expect(root).toEqual({
+        type: 'and',
+        children: [
+          { type: 'text', value: 'code review' },
+          { type: 'tag', value: 'ai' },
+        ],
+      });
+    });
+
+    it('should bind AND tighter than OR', () => {
+      const { root } = parseQuery('tag:a tag:b OR tag:c');
+      expect(root).toEqual({
+        type: 'or',
+        children: [
+          { type: 'and', children: [{ type: 'tag', value: 'a' }, { type: 'tag', value: 'b' }] },
+          { type: 'tag', value: 'c' },
+        ],
+      });
+    });
+
+    it('should parse negation and groups', () => {
+      const { root, errors } = parseQuery('NOT (tag:a OR tag:b) -is:archived');
+      expect(errors).toEqual([]);
+      expect(root).toEqual({
+        type: 'and',
+        children: [
+          { type: 'not', child: { type: 'or', children: [{ type: 'tag', value: 'a' }, { type: 'tag', value: 'b' }] } },
+          { type: 'not', child: { type: 'is', value: 'archived' } },
+        ],
+      });
+    });
+
+    it('should parse date ranges', () => {
+      const { root } = parseQuery('updated:>=2025-01');
+      expect(root).toEqual({
+        type: 'date',
+        field: 'updatedAt',
+        operator: '>=',
+        start: new Date(2025, 0, 1).getTime(),
+        end: new Date(2025, 1, 1).getTime(),
+      });
+    });
+
+    it('should report errors with positions and keep the rest', () => {
+      const { root, errors } = parseQuery('tag:ai is:nope (draft');
+      expect(errors).toEqual([
+        { message: 'Expected archived or active', position: 10 },
+        { message: 'Unclosed parenthesis', position: 15 },
+      ]);
+      expect(root).toEqual({
+        type: 'and',
+        children: [{ type: 'tag', value: 'ai' }, { type: 'text', value: 'draft' }],
+      });
+    });
+
+    it('should report missing values and operands', () => {
+      expect(parseQuery('tag:').errors).toEqual([{ message: 'Expected a value', position: 4 }]);
+      expect(parseQuery('a OR').errors).toEqual([{ message: 'Expected a term after OR', position: 4 }]);
+      expect(parseQuery('a)').errors).toEqual([{ message: 'Unmatched closing parenthesis', position: 1 }]);
+      expect(parseQuery('created:yesterday').errors[0].message).toBe('Expected a date like 2025-01-31');
+    });
+
+    it('should return no tree for an empty query', () => {
+      expect(parseQuery('   ')).toEqual({ root: null, tokens: [], errors: [] });
+    });
+  });
+
+  describe('matchesQuery', () => {
+    const prompt = createPrompt('prompt-1', {
+      title: 'Code Review Checklist',
+      description: 'Steps for reviewing pull requests',
+      content: 'Look for the exact phrase in the diff',
+      tags: ['ai', 'coding'],
+      createdAt: new Date(2024, 5, 1).getTime(),
+      updatedAt: new Date(2025, 0, 15).getTime(),
+    });
+
+    it('should match tags case-insensitively and exactly', () => {
+      expect(matches('tag:AI', prompt)).toBe(true);
+      expect(matches('#cod', prompt)).toBe(false);
+      expect(matches('-tag:old', prompt)).toBe(true);
+    });
+
+    it('should match fields and phrases as substrings', () => {
+      expect(matches('title:"code review"', prompt)).toBe(true);
+      expect(matches('description:pull', prompt)).toBe(true);
+      expect(matches('content:review', prompt)).toBe(false);
+      expect(matches('"exact phrase"', prompt)).toBe(true);
+      expect(matches('"phrase exact"', prompt)).toBe(false);
+    });
+
+    it('should look full-text words up with the given matcher', () => {
+      expect(matches('checklist code', prompt)).toBe(true);
+      expect(matches('checklist missing', prompt)).toBe(false);
+    });
+
+    it('should match archive state', () => {
+      expect(matches('is:active', prompt)).toBe(true);
+      expect(matches('is:archived', { ...prompt, isArchived: true })).toBe(true);
+    });
+
+    it('should compare dates with the range they name', () => {
+      expect(matches('updated:2025-01', prompt)).toBe(true);
+      expect(matches('updated:>2025-01', prompt)).toBe(false);
+      expect(matches('updated:<2025-01-16', prompt)).toBe(true);
+      expect(matches('updated:<=2024', prompt)).toBe(false);
+      expect(matches('created:2024-06-01', prompt)).toBe(true);
+    });
+
+    it('should combine OR and NOT', () => {
+      expect(matches('tag:old OR tag:coding', prompt)).toBe(true);
+      expect(matches('NOT (tag:old OR tag:coding)', prompt)).toBe(false);
+    });
+  });
+
+  describe('query helpers', () => {
+    it('should rank by the text terms that must match', () => {
+      expect(rankedTextTerms(parseQuery('review tag:ai -draft').root)).toEqual(['review']);
+    });
+
+    it('should detect archive filters', () => {
+      expect(filtersArchived(parseQuery('tag:a OR -is:archived').root)).toBe(true);
+      expect(filtersArchived(parseQuery('tag:a').root)).toBe(false);
+    });
+  });
+
+  describe('completeQuery', () => {
+    const tags = ['ai', 'machine learning', 'coding'];
+
+    it('should complete tags after tag: and #', () => {
+      expect(completeQuery('review tag:co', tags)).toEqual({ from: 7, to: 13, text: 'tag:coding ', remainder: 'ding' });
+      expect(completeQuery('-#mach', tags)).toEqual({
+        from: 1,
+        to: 6,
+        text: '#"machine learning" ',
+        remainder: 'ine learning',
+      });
+    });
+
+    it('should complete is: values and field names', () => {
+      expect(completeQuery('is:arc', tags)?.text).toBe('is:archived ');
+      expect(completeQuery('upd', tags)).toEqual({ from: 0, to: 3, text: 'updated:', remainder: 'ated:' });
+    });
+
+    it('should not complete finished or unknown terms', () => {
+      expect(completeQuery('tag:ai', tags)).toBeNull();
+      expect(completeQuery('tag:co ', tags)).toBeNull();
+      expect(completeQuery('zzz', tags)).toBeNull();
+    });
+  });
+});
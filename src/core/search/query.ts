@@ -0,0 +1,477 @@
+/**
+ * Search Query Language
+ *
+ * One query combines full-text search, tags and prompt fields:
+ *
+ *   tag:ai -tag:old title:"code review" updated:>2025-01 is:archived "exact phrase"
+ *
+ * - Words are looked up in the full-text index; "quoted phrases" must
+ *   appear as written in the title, description or content
+ * - field:value filters on a field: tag (or #name), title, description,
+ *   content, is (archived or active), created and updated (YYYY, YYYY-MM or
+ *   YYYY-MM-DD, optionally after >, >=, < or <=)
+ * - Terms are ANDed. OR (upper case) between terms, - or NOT before a term
+ *   to exclude it, and parentheses to group
+ *
+ * Parsing never fails: problems are reported with their positions and the
+ * terms they affect are left out, so a query being typed still searches.
+ */
+
+import type { Prompt } from '@/shared/types/prompt';
+import { quoteTag } from './boolean';
+
+export type QueryField = 'tag' | 'title' | 'description' | 'content' | 'is' | 'created' | 'updated';
+
+/** Field names as typed, with their aliases */
+const FIELD_NAMES: Record<string, QueryField> = {
+  tag: 'tag',
+  tags: 'tag',
+  title: 'title',
+  description: 'description',
+  desc: 'description',
+  content: 'content',
+  body: 'content',
+  is: 'is',
+  created: 'created',
+  updated: 'updated',
+};
+
+const IS_VALUES = ['archived', 'active'] as const;
+
+export type QueryTokenKind = 'word' | 'phrase' | 'field' | 'operator' | 'paren';
+
+export interface QueryToken {
+  kind: QueryTokenKind;
+  start: number;
+  end: number;
+  /** The word, phrase or field value (unquoted); the operator or parenthesis */
+  value: string;
+  field?: QueryField;
+  /** Length of a field token's `name:` (or `#`) part */
+  prefixLength?: number;
+  /** A quote was opened and never closed */
+  unclosed?: boolean;
+}
+
+type DateOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export type QueryNode =
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  /** Words for the full-text index */
+  | { type: 'text'; value: string }
+  /** Text that must appear as written */
+  | { type: 'phrase'; value: string }
+  | { type: 'tag'; value: string }
+  | { type: 'field'; field: 'title' | 'description' | 'content'; value: string }
+  | { type: 'is'; value: (typeof IS_VALUES)[number] }
+  /** A date filter; start and end bound the day, month or year given */
+  | { type: 'date'; field: 'createdAt' | 'updatedAt'; operator: DateOperator; start: number; end: number };
+
+export interface QueryError {
+  message: string;
+  /** Index in the query the error points at */
+  position: number;
+}
+
+export interface ParsedQuery {
+  /** null when nothing searchable is left */
+  root: QueryNode | null;
+  tokens: QueryToken[];
+  errors: QueryError[];
+}
+
+/**
+ * Read a double-quoted string starting at `start`; a backslash escapes the
+ * next character
+ */
+function readQuoted(input: string, start: number): { value: string; end: number; unclosed: boolean } {
+  let value = '';
+  let i = start + 1;
+  while (i < input.length && input[i] !== '"') {
+    if (input[i] === '\\' && i + 1 < input.length) i++;
+    value += input[i];
+    i++;
+  }
+  if (i >= input.length) {
+    return { value, end: i, unclosed: true };
+  }
+  return { value, end: i + 1, unclosed: false };
+}
+
+/** Index of the end of an unquoted word starting at `start` */
+function wordEnd(input: string, start: number): number {
+  let i = start;
+  while (i < input.length && !/[\s()]/.test(input[i])) i++;
+  return i;
+}
+
+/**
+ * Split a query into tokens covering everything but whitespace, e.g. for
+ * syntax highlighting. Never throws.
+ */
+export function tokenizeQuery(input: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    const next = input[i + 1];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', start: i, end: i + 1, value: char });
+      i++;
+    } else if (char === '-' && next !== undefined && !/[\s()-]/.test(next)) {
+      tokens.push({ kind: 'operator', start: i, end: i + 1, value: '-' });
+      i++;
+    } else if (char === '"') {
+      const quoted = readQuoted(input, i);
+      tokens.push({ kind: 'phrase', start: i, end: quoted.end, value: quoted.value, unclosed: quoted.unclosed });
+      i = quoted.end;
+    } else {
+      const start = i;
+      const name = /^([a-z]+):/i.exec(input.slice(i, i + 13))?.[1];
+      const field = name ? FIELD_NAMES[name.toLowerCase()] : char === '#' && next !== undefined && !/[\s()]/.test(next) ? 'tag' : undefined;
+
+      if (!field) {
+        i = wordEnd(input, i);
+        const word = input.slice(start, i);
+        const operator = word === 'OR' || word === 'AND' || word === 'NOT';
+        tokens.push({ kind: operator ? 'operator' : 'word', start, end: i, value: word });
+        continue;
+      }
+
+      const prefixLength = name ? name.length + 1 : 1;
+      i += prefixLength;
+      if (input[i] === '"') {
+        const quoted = readQuoted(input, i);
+        tokens.push({ kind: 'field', field, prefixLength, start, end: quoted.end, value: quoted.value, unclosed: quoted.unclosed });
+        i = quoted.end;
+      } else {
+        const end = wordEnd(input, i);
+        tokens.push({ kind: 'field', field, prefixLength, start, end, value: input.slice(i, end) });
+        i = end;
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * The range a date filter covers: a year, month or day, after an optional
+ * comparison. Dates are local.
+ */
+function parseDateFilter(value: string): { operator: DateOperator; start: number; end: number } | null {
+  const match = /^(>=|<=|>|<|=)?(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/.exec(value);
+  if (!match) return null;
+
+  const [, operator = '=', year, month, day] = match;
+  const y = Number(year);
+  const m = month ? Number(month) - 1 : 0;
+  const d = day ? Number(day) : 1;
+  if (m > 11 || d < 1 || d > 31) return null;
+
+  const end = day ? new Date(y, m, d + 1) : month ? new Date(y, m + 1, 1) : new Date(y + 1, 0, 1);
+  return { operator: operator as DateOperator, start: new Date(y, m, d).getTime(), end: end.getTime() };
+}
+
+/** An AND or OR of the children; the child itself if there's only one */
+function combine(type: 'and' | 'or', children: QueryNode[]): QueryNode | null {
+  if (children.length === 0) return null;
+  return children.length === 1 ? children[0] : { type, children };
+}
+
+/**
+ * Recursive-descent parser over the tokens. OR binds loosest, then the
+ * implicit AND between terms, then - and NOT. Adjacent words become one
+ * text node, so plain queries search the index as a whole.
+ */
+class QueryParser {
+  readonly errors: QueryError[] = [];
+  private tokens: QueryToken[];
+  private index = 0;
+
+  constructor(tokens: QueryToken[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): QueryNode | null {
+    const parts = [this.parseOr()];
+    // Only an unmatched ')' stops parseOr early: skip it and go on
+    while (this.peek()) {
+      this.error('Unmatched closing parenthesis', this.next().start);
+      parts.push(this.parseOr());
+    }
+    return combine('and', parts.filter((part): part is QueryNode => part !== null));
+  }
+
+  private parseOr(): QueryNode | null {
+    const children: QueryNode[] = [];
+    const first = this.parseAnd();
+    if (first) children.push(first);
+
+    while (this.isOperator(this.peek(), 'OR')) {
+      const or = this.next();
+      if (children.length === 0) this.error('Expected a term before OR', or.start);
+      const next = this.parseAnd();
+      if (next) {
+        children.push(next);
+      } else {
+        this.error('Expected a term after OR', or.end);
+      }
+    }
+    return combine('or', children);
+  }
+
+  private parseAnd(): QueryNode | null {
+    const children: QueryNode[] = [];
+    for (let token = this.peek(); token && !this.endsRun(token); token = this.peek()) {
+      if (this.isOperator(token, 'AND')) {
+        // Terms are ANDed anyway
+        this.index++;
+        continue;
+      }
+      const node = this.parseUnary();
+      const last = children[children.length - 1];
+      if (node?.type === 'text' && last?.type === 'text') {
+        children[children.length - 1] = { type: 'text', value: `${last.value} ${node.value}` };
+      } else if (node) {
+        children.push(node);
+      }
+    }
+    return combine('and', children);
+  }
+
+  private parseUnary(): QueryNode | null {
+    const token = this.next();
+    if (this.isOperator(token, '-') || this.isOperator(token, 'NOT')) {
+      const next = this.peek();
+      if (!next || this.endsRun(next)) {
+        this.error(`Expected a term after ${token.value}`, token.end);
+        return null;
+      }
+      const child = this.parseUnary();
+      return child ? { type: 'not', child } : null;
+    }
+    return this.parsePrimary(token);
+  }
+
+  private parsePrimary(token: QueryToken): QueryNode | null {
+    switch (token.kind) {
+      case 'paren': {
+        const inner = this.parseOr();
+        const close = this.peek();
+        if (close?.kind === 'paren' && close.value === ')') {
+          this.index++;
+        } else {
+          this.error('Unclosed parenthesis', token.start);
+        }
+        if (!inner) this.error('Empty group', token.start);
+        return inner;
+      }
+
+      case 'word':
+        return { type: 'text', value: token.value };
+
+      case 'phrase':
+        if (token.unclosed) this.error('Unclosed quote', token.start);
+        return token.value.trim() ? { type: 'phrase', value: token.value } : null;
+
+      case 'field':
+        return this.parseField(token);
+
+      case 'operator':
+        // AND right after - or NOT
+        this.error('Expected a term', token.start);
+        return null;
+    }
+  }
+
+  private parseField(token: QueryToken): QueryNode | null {
+    const valueStart = token.start + (token.prefixLength ?? 0);
+    if (token.unclosed) this.error('Unclosed quote', valueStart);
+    if (!token.value) {
+      this.error('Expected a value', valueStart);
+      return null;
+    }
+
+    switch (token.field) {
+      case 'tag':
+        return { type: 'tag', value: token.value };
+
+      case 'title':
+      case 'description':
+      case 'content':
+        return { type: 'field', field: token.field, value: token.value };
+
+      case 'is': {
+        const value = IS_VALUES.find(v => v === token.value.toLowerCase());
+        if (!value) {
+          this.error(`Expected ${IS_VALUES.join(' or ')}`, valueStart);
+          return null;
+        }
+        return { type: 'is', value };
+      }
+
+      case 'created':
+      case 'updated': {
+        const range = parseDateFilter(token.value);
+        if (!range) {
+          this.error('Expected a date like 2025-01-31', valueStart);
+          return null;
+        }
+        return { type: 'date', field: token.field === 'created' ? 'createdAt' : 'updatedAt', ...range };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /** Whether a token ends a run of ANDed terms */
+  private endsRun(token: QueryToken): boolean {
+    return (token.kind === 'paren' && token.value === ')') || this.isOperator(token, 'OR');
+  }
+
+  private isOperator(token: QueryToken | undefined, value: string): boolean {
+    return token?.kind === 'operator' && token.value === value;
+  }
+
+  private error(message: string, position: number): void {
+    this.errors.push({ message, position });
+  }
+
+  private peek(): QueryToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): QueryToken {
+    return this.tokens[this.index++];
+  }
+}
+
+/**
+ * Parse a query into its tree, with any problems found
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const tokens = tokenizeQuery(input);
+  const parser = new QueryParser(tokens);
+  const root = parser.parse();
+  return { root, tokens, errors: parser.errors };
+}
+
+function includesText(haystack: string | undefined, needle: string): boolean {
+  return (haystack ?? '').toLowerCase().includes(needle.toLowerCase());
+}
+
+/**
+ * Whether a prompt matches a query. Full-text words are looked up with
+ * matchesText (the index lives outside this module).
+ */
+export function matchesQuery(node: QueryNode, prompt: Prompt, matchesText: (text: string) => boolean): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => matchesQuery(child, prompt, matchesText));
+    case 'or':
+      return node.children.some(child => matchesQuery(child, prompt, matchesText));
+    case 'not':
+      return !matchesQuery(node.child, prompt, matchesText);
+    case 'text':
+      return matchesText(node.value);
+    case 'phrase':
+      return [prompt.title, prompt.description, prompt.content].some(text => includesText(text, node.value));
+    case 'tag':
+      return prompt.tags.some(tag => tag.toLowerCase() === node.value.toLowerCase());
+    case 'field':
+      return includesText(prompt[node.field], node.value);
+    case 'is':
+      return node.value === 'archived' ? prompt.isArchived : !prompt.isArchived;
+    case 'date': {
+      const time = prompt[node.field];
+      switch (node.operator) {
+        case '>': return time >= node.end;
+        case '>=': return time >= node.start;
+        case '<': return time < node.start;
+        case '<=': return time < node.end;
+        case '=': return time >= node.start && time < node.end;
+      }
+    }
+  }
+}
+
+/**
+ * Full-text words a prompt has to match (not excluded ones), whose
+ * relevance ranks the results
+ */
+export function rankedTextTerms(node: QueryNode | null): string[] {
+  if (!node) return [];
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(rankedTextTerms);
+    case 'text':
+      return [node.value];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Whether the query says which prompts to show by archive state (is:),
+ * rather than leaving it to the archive toggle
+ */
+export function filtersArchived(node: QueryNode | null): boolean {
+  if (!node) return false;
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.some(filtersArchived);
+    case 'not':
+      return filtersArchived(node.child);
+    default:
+      return node.type === 'is';
+  }
+}
+
+export interface QueryCompletion {
+  /** Range of the query the completion replaces */
+  from: number;
+  to: number;
+  /** Replacement text, with a space after it once the term is complete */
+  text: string;
+  /** What's left to type of the suggestion, to show after the cursor */
+  remainder: string;
+}
+
+/**
+ * Suggest how to finish the term at the end of a query: a field name, a
+ * tag after tag: or #, or an is: value
+ */
+export function completeQuery(input: string, tags: string[]): QueryCompletion | null {
+  const tokens = tokenizeQuery(input);
+  const last = tokens[tokens.length - 1];
+  if (!last || last.end !== input.length) return null;
+
+  if (last.kind === 'word' && last.value.length >= 2) {
+    const typed = last.value.toLowerCase();
+    const name = Object.keys(FIELD_NAMES).find(n => n.startsWith(typed) && n !== typed);
+    return name ? { from: last.start, to: last.end, text: `${name}:`, remainder: `${name.slice(typed.length)}:` } : null;
+  }
+
+  if (last.kind !== 'field' || !last.value) return null;
+  const typed = last.value.toLowerCase();
+  const options = last.field === 'tag' ? tags : last.field === 'is' ? [...IS_VALUES] : [];
+  const option = options.find(o => o.toLowerCase().startsWith(typed) && o.toLowerCase() !== typed);
+  if (!option) return null;
+
+  const prefix = input.slice(last.start, last.start + (last.prefixLength ?? 0));
+  return {
+    from: last.start,
+    to: last.end,
+    text: `${prefix}${quoteTag(option)} `,
+    remainder: option.slice(typed.length) + (last.unclosed ? '"' : ''),
+  };
+}
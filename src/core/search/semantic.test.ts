@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+  configureEmbeddings,
+  cosineSimilarity,
+  createEndpointEmbedder,
+  createLocalEmbedder,
+  embedLocally,
+  EmbeddingError,
+  resetEmbeddings,
+  semanticScores,
+  similarPrompts,
+  syncEmbeddings,
+} from './semantic';
+import type { EmbeddingProvider, EmbeddingStore, StoredEmbedding } from './semantic';
+import { createPrompt } from '@/shared/test/factories';
+
+function createMemoryStore(): EmbeddingStore & { rows: Map<string, StoredEmbedding> } {
+  const rows = new Map<string, StoredEmbedding>();
+  return {
+    rows,
+    load: async (model) => Array.from(rows.entries())
+      .filter(([key]) => key.startsWith(`${model}/`))
+      .map(([, embedding]) => embedding),
+    save: async (model, embeddings) => {
+      embeddings.forEach(embedding => rows.set(`${model}/${embedding.promptId}`, embedding));
+    },
+    remove: async (model, ids) => {
+      ids.forEach(id => rows.delete(`${model}/${id}`));
+    },
+    clear: async () => rows.clear(),
+  };
+}
+
+// Counts the texts it's asked to embed
+function countingEmbedder(): EmbeddingProvider & { embedded: string[] } {
+  const local = createLocalEmbedder();
+  const embedded: string[] = [];
+  return {
+    ...local,
+    embedded,
+    embed: async (texts) => {
+      embedded.push(...texts);
+      return local.embed(texts);
+    },
+  };
+}
+
+const prompts = [
+  createPrompt('summary', {
+    title: 'Summarize meeting notes',
+    content: 'Summarize the following notes into bullet points with action items.',
+    tags: ['writing'],
+  }),
+  createPrompt('review', {
+    title: 'Code review',
+    content: 'Review this pull request for bugs, naming and missing tests.',
+    tags: ['coding'],
+  }),
+  createPrompt('refactor', {
+    title: 'Refactor a function',
+    content: 'Refactor the function below so it is easier to read and test.',
+    tags: ['coding'],
+  }),
+];
+
+describe('Semantic Search', () => {
+  describe('embeddings', () => {
+    it('should measure cosine similarity', () => {
+      expect(cosineSimilarity(Float32Array.of(1, 0), Float32Array.of(1, 0))).toBeCloseTo(1);
+      expect(cosineSimilarity(Float32Array.of(1, 0), Float32Array.of(0, 1))).toBeCloseTo(0);
+      expect(cosineSimilarity(Float32Array.of(0, 0), Float32Array.of(1, 0))).toBe(0);
+    });
+
+    it('should embed related word forms close together', () => {
+      const summarizing = embedLocally('summarizing long documents');
+      const summaries = embedLocally('write a summary of the document');
+      const unrelated = embedLocally('translate into French');
+
+      expect(cosineSimilarity(summarizing, summaries)).toBeGreaterThan(cosineSimilarity(summarizing, unrelated));
+      expect(embedLocally('the and of')).toEqual(new Float32Array(384));
+    });
+  });
+
+  describe('endpoints', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should read Ollama and OpenAI-style responses', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(new Response(JSON.stringify({ embeddings: [[3, 4]] })))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ data: [{ embedding: [0, 2] }] })));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const ollama = createEndpointEmbedder({ kind: 'ollama', url: 'http://localhost:11434/', model: 'nomic-embed-text' });
+      expect(await ollama.embed(['text'])).toEqual([Float32Array.of(0.6, 0.8)]);
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/embed');
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ model: 'nomic-embed-text', input: ['text'] });
+
+      const openai = createEndpointEmbedder({ kind: 'openai', url: 'http://localhost:1234/v1', model: 'embed' });
+      expect(await openai.embed(['text'])).toEqual([Float32Array.of(0, 1)]);
+      expect(fetchMock.mock.calls[1][0]).toBe('http://localhost:1234/v1/embeddings');
+    });
+
+    it('should throw EmbeddingError for failed requests', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('nope', { status: 404, statusText: 'Not Found' })));
+      const endpoint = createEndpointEmbedder({ kind: 'ollama', url: 'http://localhost:11434', model: 'missing' });
+
+      const error = await endpoint.embed(['text']).catch(e => e);
+      expect(error).toBeInstanceOf(EmbeddingError);
+      expect(error.status).toBe(404);
+    });
+  });
+
+  describe('index', () => {
+    let store: ReturnType<typeof createMemoryStore>;
+    let embedder: ReturnType<typeof countingEmbedder>;
+
+    beforeEach(async () => {
+      await resetEmbeddings();
+      store = createMemoryStore();
+      embedder = countingEmbedder();
+      // A fresh provider object each time, with an ID of its own
+      configureEmbeddings({ ...embedder, id: `test-${crypto.randomUUID()}` }, store);
+    });
+
+    it('should embed each prompt once and again when it changes', async () => {
+      expect(await syncEmbeddings(prompts)).toBe(3);
+      expect(await syncEmbeddings(prompts)).toBe(0);
+
+      const changed = { ...prompts[0], content: 'Something else entirely' };
+      expect(await syncEmbeddings([changed, prompts[1], prompts[2]])).toBe(1);
+      expect(embedder.embedded).toHaveLength(4);
+    });
+
+    it('should save vectors and forget removed prompts', async () => {
+      await syncEmbeddings(prompts);
+      expect(store.rows.size).toBe(3);
+
+      await syncEmbeddings(prompts.slice(0, 2));
+      expect(store.rows.size).toBe(2);
+      expect(similarPrompts('review').map(r => r.id)).not.toContain('refactor');
+    });
+
+    it('should skip archived prompts', async () => {
+      expect(await syncEmbeddings([...prompts, createPrompt('old', { isArchived: true })])).toBe(3);
+    });
+
+    it('should score prompts against a query', async () => {
+      await syncEmbeddings(prompts);
+
+      const scores = await semanticScores('summaries of notes');
+      expect(Array.from(scores.keys())).toEqual(['summary']);
+      expect(scores.get('summary')).toBeGreaterThan(0.3);
+    });
+
+    it('should rank similar prompts', async () => {
+      await syncEmbeddings(prompts);
+
+      const [first] = similarPrompts('refactor');
+      expect(first.id).toBe('review');
+      expect(similarPrompts('missing')).toEqual([]);
+    });
+  });
+});
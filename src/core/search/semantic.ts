@@ -0,0 +1,326 @@
+/**
+ * Semantic search
+ *
+ * Finds prompts by what they're about rather than the exact words in them,
+ * by comparing embedding vectors with cosine similarity:
+ * - Each active prompt is embedded once and re-embedded when its text
+ *   changes; vectors are kept in an EmbeddingStore (the libSQL database,
+ *   see backend/api/embedding-store.ts) between sessions
+ * - Searches embed the query and score every prompt against it; the scores
+ *   are blended into the keyword ranking (see searchPrompts in ./index)
+ * - similarPrompts ranks prompts by how close they are to another one
+ *   ("more like this")
+ *
+ * Embeddings come from an EmbeddingProvider: the built-in one runs on the
+ * CPU with no download (hashed word stems and letter trigrams, so it
+ * matches forms of a word and shared roots rather than meaning); a local
+ * embedding endpoint such as Ollama or any OpenAI-compatible server gives
+ * real semantic matches.
+ */
+
+import type { Prompt } from '@/shared/types/prompt';
+import { hashPrompt } from './index';
+import { stemWord } from './fuzzy';
+
+export interface EmbeddingProvider {
+  /** Identifies the model; vectors from different models aren't compared */
+  id: string;
+  /** Similarity below which a prompt doesn't count as a match for a query */
+  minSimilarity: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+/** A local server that computes embeddings */
+export interface EmbeddingEndpoint {
+  /** 'ollama' posts to {url}/api/embed, 'openai' to {url}/embeddings */
+  kind: 'ollama' | 'openai';
+  url: string;
+  model: string;
+}
+
+export interface StoredEmbedding {
+  promptId: string;
+  /** Hash of the prompt text the vector was computed from (see hashPrompt) */
+  hash: string;
+  vector: Float32Array;
+}
+
+export interface EmbeddingStore {
+  /** Every vector saved for a model */
+  load(model: string): Promise<StoredEmbedding[]>;
+  save(model: string, embeddings: StoredEmbedding[]): Promise<void>;
+  remove(model: string, promptIds: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Custom error for an embedding endpoint that failed or answered with
+ * something other than vectors
+ */
+export class EmbeddingError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'EmbeddingError';
+    this.status = status;
+  }
+}
+
+export interface SimilarPrompt {
+  id: string;
+  score: number;
+}
+
+const LOCAL_DIMENSIONS = 384;
+const BATCH_SIZE = 32;
+// Endpoints have context limits; the start of a prompt says what it's about
+const MAX_ENDPOINT_CHARS = 8000;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// Words too common to say what a prompt is about
+const STOPWORDS = new Set(
+  ('a an and are as at be but by can do for from has have how i if in into is it its me my not of on or our so ' +
+    'than that the their them then there these they this to us was we what when which who will with you your')
+    .split(' ')
+);
+
+/**
+ * Cosine similarity of two vectors (0 if either is all zeros)
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+// FNV-1a, for spreading features over the vector
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function addFeature(vector: Float32Array, feature: string, weight: number): void {
+  const hash = hashFeature(feature);
+  // The top bit picks the sign, so unrelated features cancel out on average
+  vector[hash % vector.length] += hash & 0x80000000 ? -weight : weight;
+}
+
+/**
+ * Built-in embedding: each word's stem, plus its letter trigrams at half
+ * weight, hashed into a fixed-size vector
+ */
+export function embedLocally(text: string, dimensions = LOCAL_DIMENSIONS): Float32Array {
+  const vector = new Float32Array(dimensions);
+  for (const match of text.matchAll(WORD)) {
+    const word = match[0].toLowerCase();
+    if (STOPWORDS.has(word)) continue;
+
+    const stem = stemWord(word);
+    addFeature(vector, `w:${stem}`, 1);
+    const padded = `#${stem}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  }
+  return normalize(vector);
+}
+
+/**
+ * The built-in, CPU-only provider
+ */
+export function createLocalEmbedder(): EmbeddingProvider {
+  return {
+    id: `local-hash-${LOCAL_DIMENSIONS}`,
+    minSimilarity: 0.3,
+    embed: async (texts) => texts.map(text => embedLocally(text)),
+  };
+}
+
+/**
+ * A provider that asks a local embedding server
+ */
+export function createEndpointEmbedder(endpoint: EmbeddingEndpoint): EmbeddingProvider {
+  const base = endpoint.url.trim().replace(/\/+$/, '');
+  const url = endpoint.kind === 'ollama' ? `${base}/api/embed` : `${base}/embeddings`;
+
+  return {
+    id: `${endpoint.kind}:${endpoint.model}@${base}`,
+    minSimilarity: 0.5,
+    async embed(texts) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ model: endpoint.model, input: texts }),
+        });
+      } catch (error) {
+        throw new EmbeddingError(`Can't reach ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (!response.ok) {
+        throw new EmbeddingError(`${url} answered ${response.status} ${response.statusText}`.trim(), response.status);
+      }
+
+      const body = await response.json();
+      const vectors: unknown = endpoint.kind === 'ollama'
+        ? body?.embeddings
+        : body?.data?.map((item: { embedding?: unknown }) => item.embedding);
+      if (!Array.isArray(vectors) || vectors.length !== texts.length || !vectors.every(Array.isArray)) {
+        throw new EmbeddingError(`${url} didn't return an embedding for each text`);
+      }
+      return vectors.map(vector => normalize(Float32Array.from(vector as number[])));
+    },
+  };
+}
+
+/**
+ * The text a prompt is embedded from
+ */
+export function promptText(prompt: Prompt): string {
+  return [prompt.title, prompt.description, (prompt.tags ?? []).join(', '), prompt.content]
+    .filter(Boolean)
+    .join('\n\n')
+    .slice(0, MAX_ENDPOINT_CHARS);
+}
+
+let provider: EmbeddingProvider = createLocalEmbedder();
+let store: EmbeddingStore | null = null;
+// Vectors of active prompts for the current provider, by prompt ID
+const embeddings = new Map<string, StoredEmbedding>();
+// Whether the store's vectors for the current provider have been read
+let loaded = false;
+// Bumped when the provider changes or the index is reset, so a sync
+// finishing late doesn't bring back old vectors
+let generation = 0;
+
+/**
+ * Use provider for embeddings from now on, and store (if any) to keep them
+ */
+export function configureEmbeddings(next: EmbeddingProvider, nextStore: EmbeddingStore | null): void {
+  if (next.id === provider.id && nextStore === store) return;
+  generation++;
+  provider = next;
+  store = nextStore;
+  embeddings.clear();
+  loaded = false;
+}
+
+/**
+ * The provider in use
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return provider;
+}
+
+/**
+ * Embed the active prompts that don't have an up-to-date vector yet and
+ * forget the ones that are gone
+ * Returns the number of prompts embedded; throws if the provider fails
+ */
+export async function syncEmbeddings(prompts: Prompt[]): Promise<number> {
+  const run = generation;
+  const model = provider;
+
+  if (!loaded && store) {
+    try {
+      const saved = await store.load(model.id);
+      if (run !== generation) return 0;
+      saved.forEach(embedding => embeddings.set(embedding.promptId, embedding));
+    } catch (error) {
+      console.warn('[Semantic] Failed to load saved embeddings:', error);
+    }
+  }
+  loaded = true;
+
+  const active = new Map(prompts.filter(p => !p.isArchived).map(p => [p.id, p]));
+  const removed = Array.from(embeddings.keys()).filter(id => !active.has(id));
+  removed.forEach(id => embeddings.delete(id));
+
+  const stale = Array.from(active.values()).filter(p => embeddings.get(p.id)?.hash !== hashPrompt(p));
+  for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+    const batch = stale.slice(i, i + BATCH_SIZE);
+    const vectors = await model.embed(batch.map(promptText));
+    if (run !== generation) return i;
+
+    const computed = batch.map((prompt, j) => ({ promptId: prompt.id, hash: hashPrompt(prompt), vector: vectors[j] }));
+    computed.forEach(embedding => embeddings.set(embedding.promptId, embedding));
+    await store?.save(model.id, computed).catch(error => {
+      console.warn('[Semantic] Failed to save embeddings:', error);
+    });
+  }
+
+  if (removed.length > 0) {
+    await store?.remove(model.id, removed).catch(error => {
+      console.warn('[Semantic] Failed to remove embeddings:', error);
+    });
+  }
+  return stale.length;
+}
+
+/**
+ * Similarity of each embedded prompt to query, for the ones similar enough
+ * to count as matches
+ */
+export async function semanticScores(query: string): Promise<Map<string, number>> {
+  const scores = new Map<string, number>();
+  if (!query.trim() || embeddings.size === 0) return scores;
+
+  const model = provider;
+  const [vector] = await model.embed([query]);
+  if (model !== provider) return scores;
+
+  for (const [id, embedding] of embeddings) {
+    const similarity = cosineSimilarity(vector, embedding.vector);
+    if (similarity >= model.minSimilarity) scores.set(id, similarity);
+  }
+  return scores;
+}
+
+/**
+ * Prompts most similar to the one with promptId, best first (empty until
+ * it has been embedded)
+ */
+export function similarPrompts(promptId: string, limit = 20): SimilarPrompt[] {
+  const target = embeddings.get(promptId);
+  if (!target) return [];
+
+  return Array.from(embeddings.values())
+    .filter(embedding => embedding.promptId !== promptId)
+    .map(embedding => ({ id: embedding.promptId, score: cosineSimilarity(target.vector, embedding.vector) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Forget every vector, here and in the store
+ */
+export async function resetEmbeddings(): Promise<void> {
+  generation++;
+  embeddings.clear();
+  loaded = false;
+  await store?.clear();
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_LIST_OPTIONS, groupPrompts, sortPrompts, topTag, countTags } from './sort';
+import type { ListOptions } from './sort';
+import type { Prompt, PromptVersion } from '@/shared/types/prompt';
+import { createPrompt } from '@/shared/test/factories';
+
+function versions(count: number): PromptVersion[] {
+  return Array.from({ length: count }, (_, i) => ({
+    txId: `tx-${i}`,
+    version: i + 1,
+    timestamp: i,
+  }));
+}
+
+function options(overrides: Partial<ListOptions>): ListOptions {
+  return { ...DEFAULT_LIST_OPTIONS, ...overrides };
+}
+
+const ids = (prompts: Prompt[]) => prompts.map(p => p.id);
+
+describe('Prompt List Sorting', () => {
+  describe('sortPrompts', () => {
+    it('should sort by title, case-insensitively and numerically', () => {
+      const prompts = [
+        createPrompt('a', { title: 'step 10' }),
+        createPrompt('b', { title: 'Step 2' }),
+        createPrompt('c', { title: 'alpha' }),
+      ];
+
+      expect(ids(sortPrompts(prompts, options({ sortKey: 'title', sortDirection: 'asc' })))).toEqual(['c', 'b', 'a']);
+      expect(ids(sortPrompts(prompts, options({ sortKey: 'title', sortDirection: 'desc' })))).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should sort by created and updated dates', () => {
+      const prompts = [
+        createPrompt('a', { createdAt: 1, updatedAt: 30 }),
+        createPrompt('b', { createdAt: 3, updatedAt: 10 }),
+        createPrompt('c', { createdAt: 2, updatedAt: 20 }),
+      ];
+
+      expect(ids(sortPrompts(prompts, options({ sortKey: 'created', sortDirection: 'desc' })))).toEqual(['b', 'c', 'a']);
+      expect(ids(sortPrompts(prompts, options({ sortKey: 'updated', sortDirection: 'asc' })))).toEqual(['b', 'c', 'a']);
+    });
+
+    it('should sort by copy count', () => {
+      const prompts = [createPrompt('a'), createPrompt('b'), createPrompt('c')];
+      const copyCounts = { b: 5, c: 2 };
+
+      const sorted = sortPrompts(prompts, options({ sortKey: 'copies', sortDirection: 'desc' }), { copyCounts });
+      expect(ids(sorted)).toEqual(['b', 'c', 'a']);
+    });
+
+    it('should sort by how many prompts share the most used tag', () => {
+      const prompts = [
+        createPrompt('a', { tags: ['rare'] }),
+        createPrompt('b', { tags: ['common', 'rare'] }),
+        createPrompt('c', { tags: ['Common'] }),
+        createPrompt('d', { tags: ['common'] }),
+        createPrompt('e'),
+      ];
+
+      const sorted = sortPrompts(prompts, options({ sortKey: 'tag', sortDirection: 'desc', thenBy: 'title' }));
+      expect(ids(sorted)).toEqual(['b', 'c', 'd', 'a', 'e']);
+    });
+
+    it('should sort by version count', () => {
+      const prompts = [
+        createPrompt('a', { versions: versions(1) }),
+        createPrompt('b', { versions: versions(4) }),
+        createPrompt('c', { versions: versions(2) }),
+      ];
+
+      expect(ids(sortPrompts(prompts, options({ sortKey: 'versions', sortDirection: 'desc' })))).toEqual(['b', 'c', 'a']);
+    });
+
+    it('should break ties with the secondary key in its usual direction', () => {
+      const prompts = [
+        createPrompt('a', { title: 'Beta', updatedAt: 1 }),
+        createPrompt('b', { title: 'Alpha', updatedAt: 3 }),
+        createPrompt('c', { title: 'Gamma', updatedAt: 2 }),
+      ];
+      const copyCounts = { a: 1, b: 1, c: 1 };
+
+      const byUpdated = sortPrompts(prompts, options({ sortKey: 'copies', thenBy: 'updated' }), { copyCounts });
+      expect(ids(byUpdated)).toEqual(['b', 'c', 'a']);
+
+      const byTitle = sortPrompts(prompts, options({ sortKey: 'copies', thenBy: 'title' }), { copyCounts });
+      expect(ids(byTitle)).toEqual(['b', 'a', 'c']);
+    });
+
+    it('should rank by relevance only when scores are given', () => {
+      const prompts = [
+        createPrompt('a', { updatedAt: 3 }),
+        createPrompt('b', { updatedAt: 1 }),
+        createPrompt('c', { updatedAt: 2 }),
+      ];
+      const scores = new Map([['a', 1], ['b', 9], ['c', 5]]);
+
+      expect(ids(sortPrompts(prompts, DEFAULT_LIST_OPTIONS, { scores }))).toEqual(['b', 'c', 'a']);
+      expect(ids(sortPrompts(prompts, DEFAULT_LIST_OPTIONS))).toEqual(['a', 'c', 'b']);
+    });
+
+    it('should not change the input array', () => {
+      const prompts = [createPrompt('b', { title: 'B' }), createPrompt('a', { title: 'A' })];
+      sortPrompts(prompts, options({ sortKey: 'title', sortDirection: 'asc' }));
+      expect(ids(prompts)).toEqual(['b', 'a']);
+    });
+  });
+
+  describe('topTag', () => {
+    it('should pick the tag most prompts use, alphabetically on a tie', () => {
+      const prompts = [
+        createPrompt('a', { tags: ['zeta', 'beta', 'alpha'] }),
+        createPrompt('b', { tags: ['zeta'] }),
+        createPrompt('c', { tags: ['beta', 'alpha'] }),
+      ];
+      const counts = countTags(prompts);
+
+      expect(topTag(prompts[1], counts)).toBe('zeta');
+      expect(topTag(prompts[2], counts)).toBe('alpha');
+      expect(topTag(createPrompt('d'), counts)).toBeNull();
+    });
+  });
+
+  describe('groupPrompts', () => {
+    it('should group by most used tag in sorted order, untagged last', () => {
+      const prompts = [
+        createPrompt('a'),
+        createPrompt('b', { tags: ['writing'] }),
+        createPrompt('c', { tags: ['code', 'writing'] }),
+        createPrompt('d', { tags: ['code'] }),
+        createPrompt('e', { tags: ['code'] }),
+      ];
+
+      const groups = groupPrompts(prompts, 'tag');
+      expect(groups.map(g => [g.label, ids(g.prompts)])).toEqual([
+        ['writing', ['b']],
+        ['code', ['c', 'd', 'e']],
+        ['Untagged', ['a']],
+      ]);
+    });
+
+    it('should group by folder, with prompts outside a directory last', () => {
+      const prompts = [
+        createPrompt('a'),
+        createPrompt('b', { folder: 'work/reviews' }),
+        createPrompt('c', { folder: '' }),
+        createPrompt('d', { folder: 'work/reviews' }),
+      ];
+
+      const groups = groupPrompts(prompts, 'folder');
+      expect(groups.map(g => [g.label, ids(g.prompts)])).toEqual([
+        ['work/reviews', ['b', 'd']],
+        ['Top level', ['c']],
+        ['No folder', ['a']],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Prompt list ordering
+ *
+ * Sorts the prompt list by a chosen key (relevance while searching, title,
+ * dates, how often a prompt was copied, how common its tags are, or how
+ * many versions it has), breaks ties with a second key, and groups the
+ * result by tag or folder. Groups keep the sort order: a group comes where
+ * its first prompt would.
+ */
+
+import type { Prompt } from '@/shared/types/prompt';
+
+export type SortKey = 'relevance' | 'title' | 'created' | 'updated' | 'copies' | 'tag' | 'versions';
+export type SortDirection = 'asc' | 'desc';
+export type GroupBy = 'none' | 'tag' | 'folder';
+
+export interface ListOptions {
+  sortKey: SortKey;
+  sortDirection: SortDirection;
+  /** Orders prompts the sort key ranks the same, in its usual direction */
+  thenBy: Exclude<SortKey, 'relevance'>;
+  groupBy: GroupBy;
+}
+
+export interface SortContext {
+  /** Relevance of each prompt, when searching */
+  scores?: Map<string, number>;
+  /** Times each prompt was copied, by ID */
+  copyCounts?: Record<string, number>;
+}
+
+export interface PromptGroup {
+  key: string;
+  label: string;
+  prompts: Prompt[];
+}
+
+/** Sort keys with their labels and usual direction */
+export const SORT_KEYS: { key: SortKey; label: string; direction: SortDirection }[] = [
+  { key: 'relevance', label: 'Relevance', direction: 'desc' },
+  { key: 'title', label: 'Title', direction: 'asc' },
+  { key: 'created', label: 'Created', direction: 'desc' },
+  { key: 'updated', label: 'Updated', direction: 'desc' },
+  { key: 'copies', label: 'Most copied', direction: 'desc' },
+  { key: 'tag', label: 'Most used tag', direction: 'desc' },
+  { key: 'versions', label: 'Version count', direction: 'desc' },
+];
+
+export const DEFAULT_LIST_OPTIONS: ListOptions = {
+  sortKey: 'relevance',
+  sortDirection: 'desc',
+  thenBy: 'updated',
+  groupBy: 'none',
+};
+
+const UNTAGGED_KEY = 'tag:';
+const NO_FOLDER_KEY = 'folder:';
+
+/**
+ * How many prompts use each tag (lowercased)
+ */
+export function countTags(prompts: Prompt[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const prompt of prompts) {
+    for (const tag of new Set((prompt.tags ?? []).map(t => t.toLowerCase()))) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * The prompt's tag used by the most prompts (alphabetically first on a tie)
+ */
+export function topTag(prompt: Prompt, tagCounts: Map<string, number>): string | null {
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const tag of prompt.tags ?? []) {
+    const count = tagCounts.get(tag.toLowerCase()) ?? 0;
+    if (count > bestCount || (count === bestCount && best !== null && tag.toLowerCase() < best.toLowerCase())) {
+      best = tag;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function timestamp(value: number): number {
+  return new Date(value).getTime() || 0;
+}
+
+/**
+ * Ascending comparator for a key
+ */
+function comparator(key: SortKey, context: SortContext, tagCounts: Map<string, number>) {
+  const byNumber = (value: (prompt: Prompt) => number) => (a: Prompt, b: Prompt) => value(a) - value(b);
+
+  switch (key) {
+    case 'relevance':
+      return byNumber(p => context.scores?.get(p.id) ?? 0);
+    case 'title':
+      return (a: Prompt, b: Prompt) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true });
+    case 'created':
+      return byNumber(p => timestamp(p.createdAt));
+    case 'updated':
+      return byNumber(p => timestamp(p.updatedAt));
+    case 'copies':
+      return byNumber(p => context.copyCounts?.[p.id] ?? 0);
+    case 'tag':
+      return byNumber(p => {
+        const tag = topTag(p, tagCounts);
+        return tag ? tagCounts.get(tag.toLowerCase()) ?? 0 : 0;
+      });
+    case 'versions':
+      return byNumber(p => p.versions?.length ?? 0);
+  }
+}
+
+function directionOf(key: SortKey): SortDirection {
+  return SORT_KEYS.find(k => k.key === key)?.direction ?? 'desc';
+}
+
+/**
+ * Sort prompts (a copy) by the options' key and direction, then by thenBy,
+ * then by title
+ * Relevance only orders prompts while searching (when context has scores).
+ */
+export function sortPrompts(prompts: Prompt[], options: ListOptions, context: SortContext = {}): Prompt[] {
+  const tagCounts = countTags(prompts);
+  const sign = (direction: SortDirection) => (direction === 'asc' ? 1 : -1);
+
+  const steps: { compare: (a: Prompt, b: Prompt) => number; sign: number }[] = [];
+  if (options.sortKey !== 'relevance' || context.scores) {
+    steps.push({ compare: comparator(options.sortKey, context, tagCounts), sign: sign(options.sortDirection) });
+  }
+  steps.push({ compare: comparator(options.thenBy, context, tagCounts), sign: sign(directionOf(options.thenBy)) });
+  steps.push({ compare: comparator('title', context, tagCounts), sign: 1 });
+
+  return [...prompts].sort((a, b) => {
+    for (const step of steps) {
+      const result = step.compare(a, b) * step.sign;
+      if (result !== 0) return result;
+    }
+    return a.id.localeCompare(b.id);
+  });
+}
+
+/**
+ * Group sorted prompts by their most used tag or their folder, keeping
+ * their order; prompts without one come last
+ */
+export function groupPrompts(prompts: Prompt[], groupBy: Exclude<GroupBy, 'none'>): PromptGroup[] {
+  const tagCounts = countTags(prompts);
+  const groups = new Map<string, PromptGroup>();
+
+  for (const prompt of prompts) {
+    let key: string;
+    let label: string;
+    if (groupBy === 'tag') {
+      const tag = topTag(prompt, tagCounts);
+      key = tag ? `tag:${tag.toLowerCase()}` : UNTAGGED_KEY;
+      label = tag ?? 'Untagged';
+    } else {
+      key = prompt.folder !== undefined ? `folder:/${prompt.folder}` : NO_FOLDER_KEY;
+      label = prompt.folder === undefined ? 'No folder' : prompt.folder || 'Top level';
+    }
+
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, label, prompts: [] };
+      groups.set(key, group);
+    }
+    group.prompts.push(prompt);
+  }
+
+  const ungrouped = groupBy === 'tag' ? UNTAGGED_KEY : NO_FOLDER_KEY;
+  return Array.from(groups.values()).sort((a, b) => Number(a.key === ungrouped) - Number(b.key === ungrouped));
+}
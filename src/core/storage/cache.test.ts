@@ -12,6 +12,10 @@ import {
   clearCache,
   getTheme,
   saveTheme,
+  getListOptions,
+  saveListOptions,
+  getCopyCounts,
+  recordPromptCopy,
 } from '@/core/storage/cache';
 import type { UserProfile, Prompt, PromptMetadata } from '@/shared/types/prompt';
 
@@ -213,4 +217,46 @@ describe('Storage Utilities', () => {
       expect(theme).toBe('light');
     });
   });
+
+  describe('List Options', () => {
+    it('should return defaults when nothing is saved', () => {
+      expect(getListOptions()).toEqual({
+        sortKey: 'relevance',
+        sortDirection: 'desc',
+        thenBy: 'updated',
+        groupBy: 'none',
+      });
+    });
+
+    it('should save and retrieve list options', () => {
+      const options = { sortKey: 'title', sortDirection: 'asc', thenBy: 'copies', groupBy: 'folder' } as const;
+      saveListOptions(options);
+      expect(getListOptions()).toEqual(options);
+    });
+
+    it('should replace unknown saved values with defaults', () => {
+      localStorage.setItem('pktpmt_list_options', JSON.stringify({
+        sortKey: 'stars',
+        sortDirection: 'sideways',
+        thenBy: 'relevance',
+        groupBy: 'tag',
+      }));
+      expect(getListOptions()).toEqual({
+        sortKey: 'relevance',
+        sortDirection: 'desc',
+        thenBy: 'updated',
+        groupBy: 'tag',
+      });
+    });
+
+    it('should count copies per prompt and clear them with the cache', () => {
+      recordPromptCopy('p1');
+      expect(recordPromptCopy('p1')).toEqual({ p1: 2 });
+      recordPromptCopy('p2');
+      expect(getCopyCounts()).toEqual({ p1: 2, p2: 1 });
+
+      clearCache();
+      expect(getCopyCounts()).toEqual({});
+    });
+  });
 });
\ No newline at end of file
@@ -1,4 +1,8 @@
 import type { UserProfile, Prompt, PromptMetadata, SavedSearch } from '@/shared/types/prompt';
+import type { LLMProvider } from '@/core/llm/providers';
+import type { EmbeddingEndpoint } from '@/core/search/semantic';
+import { DEFAULT_LIST_OPTIONS, SORT_KEYS } from '@/core/search/sort';
+import type { ListOptions, SortKey } from '@/core/search/sort';
 
 // Protocol version for versioned storage keys (inlined from arweave config)
 // This ensures cache is isolated per protocol version
@@ -10,7 +14,14 @@ const STORAGE_KEYS = {
   THEME: 'pktpmt_theme', // Theme is shared across versions
   SAVED_SEARCHES: `pktpmt_${PROTOCOL_VERSION}_saved_searches`,
   VIEW_MODE: 'pktpmt_view_mode', // View mode is shared across versions
+  LIST_OPTIONS: 'pktpmt_list_options', // Sort, secondary order and grouping of the prompt list
+  COPY_COUNTS: 'pktpmt_copy_counts', // Times each prompt was copied, for sorting
+  FUZZY_SEARCH: 'pktpmt_fuzzy_search', // Typo-tolerant search toggle
+  SEMANTIC_SEARCH: 'pktpmt_semantic_search', // Semantic search toggle and embedding endpoint
   ATTACHED_DIRECTORY: 'pktpmt_attached_directory', // Path to attached prompt directory
+  TEMPLATE_VALUES: 'pktpmt_template_values', // Last-used template variable values per prompt
+  LLM_PROVIDERS: 'pktpmt_llm_providers', // Custom "Open in LLM" providers
+  DEFAULT_LLM_PROVIDER: 'pktpmt_default_llm_provider', // Global default "Open in LLM" provider
 } as const;
 
 /**
@@ -175,6 +186,7 @@ export function clearCache(): void {
   try {
     localStorage.removeItem(STORAGE_KEYS.PROMPTS);
     localStorage.removeItem(STORAGE_KEYS.PROFILE);
+    localStorage.removeItem(STORAGE_KEYS.COPY_COUNTS);
   } catch (error) {
     console.error('Error clearing cache:', error);
   }
@@ -285,6 +297,189 @@ export function saveViewMode(mode: 'list' | 'cards'): void {
   }
 }
 
+/**
+ * Get prompt list sort and grouping options
+ */
+export function getListOptions(): ListOptions {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.LIST_OPTIONS);
+    const saved: Record<string, unknown> = data ? JSON.parse(data) : {};
+    const isSortKey = (key: unknown): key is SortKey => SORT_KEYS.some(k => k.key === key);
+    return {
+      sortKey: isSortKey(saved.sortKey) ? saved.sortKey : DEFAULT_LIST_OPTIONS.sortKey,
+      sortDirection: saved.sortDirection === 'asc' ? 'asc' : 'desc',
+      thenBy: isSortKey(saved.thenBy) && saved.thenBy !== 'relevance' ? saved.thenBy : DEFAULT_LIST_OPTIONS.thenBy,
+      groupBy: saved.groupBy === 'tag' || saved.groupBy === 'folder' ? saved.groupBy : 'none',
+    };
+  } catch {
+    return { ...DEFAULT_LIST_OPTIONS };
+  }
+}
+
+/**
+ * Save prompt list sort and grouping options
+ */
+export function saveListOptions(options: ListOptions): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.LIST_OPTIONS, JSON.stringify(options));
+  } catch (error) {
+    console.error('Error saving list options:', error);
+  }
+}
+
+/**
+ * Get how many times each prompt was copied
+ */
+export function getCopyCounts(): Record<string, number> {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.COPY_COUNTS);
+    return data ? JSON.parse(data) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Count a copy of a prompt
+ * Returns the updated counts
+ */
+export function recordPromptCopy(promptId: string): Record<string, number> {
+  const counts = getCopyCounts();
+  counts[promptId] = (counts[promptId] ?? 0) + 1;
+  try {
+    localStorage.setItem(STORAGE_KEYS.COPY_COUNTS, JSON.stringify(counts));
+  } catch (error) {
+    console.error('Error saving copy counts:', error);
+  }
+  return counts;
+}
+
+/**
+ * Get typo-tolerant search preference (off by default)
+ */
+export function getFuzzySearch(): boolean {
+  try {
+    return localStorage.getItem(STORAGE_KEYS.FUZZY_SEARCH) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Save typo-tolerant search preference
+ */
+export function saveFuzzySearch(enabled: boolean): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.FUZZY_SEARCH, String(enabled));
+  } catch (error) {
+    console.error('Error saving fuzzy search preference:', error);
+  }
+}
+
+export interface SemanticSearchSettings {
+  enabled: boolean;
+  /** Local embedding server; the built-in embedder when null */
+  endpoint: EmbeddingEndpoint | null;
+}
+
+/**
+ * Get semantic search settings (off, built-in embedder by default)
+ */
+export function getSemanticSearchSettings(): SemanticSearchSettings {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.SEMANTIC_SEARCH);
+    const settings = data ? JSON.parse(data) : {};
+    return { enabled: settings.enabled === true, endpoint: settings.endpoint ?? null };
+  } catch {
+    return { enabled: false, endpoint: null };
+  }
+}
+
+/**
+ * Save semantic search settings
+ */
+export function saveSemanticSearchSettings(settings: SemanticSearchSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.SEMANTIC_SEARCH, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving semantic search settings:', error);
+  }
+}
+
+/**
+ * Get last-used template variable values for a prompt
+ */
+export function getTemplateValues(promptId: string): Record<string, string> {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.TEMPLATE_VALUES);
+    const all: Record<string, Record<string, string>> = data ? JSON.parse(data) : {};
+    return all[promptId] || {};
+  } catch (error) {
+    console.error('Error reading template values:', error);
+    return {};
+  }
+}
+
+/**
+ * Save last-used template variable values for a prompt
+ */
+export function saveTemplateValues(promptId: string, values: Record<string, string>): void {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.TEMPLATE_VALUES);
+    const all: Record<string, Record<string, string>> = data ? JSON.parse(data) : {};
+    all[promptId] = values;
+    localStorage.setItem(STORAGE_KEYS.TEMPLATE_VALUES, JSON.stringify(all));
+  } catch (error) {
+    console.error('Error saving template values:', error);
+  }
+}
+
+/**
+ * Get custom "Open in LLM" providers
+ */
+export function getCustomProviders(): LLMProvider[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.LLM_PROVIDERS);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error reading LLM providers:', error);
+    return [];
+  }
+}
+
+/**
+ * Save custom "Open in LLM" providers
+ */
+export function saveCustomProviders(providers: LLMProvider[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.LLM_PROVIDERS, JSON.stringify(providers));
+  } catch (error) {
+    console.error('Error saving LLM providers:', error);
+  }
+}
+
+/**
+ * Get the global default "Open in LLM" provider id
+ */
+export function getDefaultProviderId(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEYS.DEFAULT_LLM_PROVIDER);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the global default "Open in LLM" provider id
+ */
+export function saveDefaultProviderId(id: string): void {
+  try {
+    localStorage.setItem(STORAGE_KEYS.DEFAULT_LLM_PROVIDER, id);
+  } catch (error) {
+    console.error('Error saving default LLM provider:', error);
+  }
+}
+
 /**
  * Get attached directory path
  * When set, the app uses this directory as the source of truth for prompts
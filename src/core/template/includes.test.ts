@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractIncludes,
+  findIncludedPrompt,
+  composePrompt,
+  buildUsedByIndex,
+  IncludeError,
+} from './includes';
+import { createPrompt } from '@/shared/test/factories';
+
+describe('Template Includes', () => {
+  const houseStyle = createPrompt('style-1', { title: 'House Style', content: 'Be concise.' });
+  const reviewer = createPrompt('review-1', { title: 'Code Review', content: '{{> House Style}}\nReview this {{language}} code.' });
+  const prompts = [houseStyle, reviewer];
+
+  describe('extractIncludes', () => {
+    it('should find includes with optional pinned versions', () => {
+      const refs = extractIncludes('{{> house-style}} and {{>intro@3}}');
+      expect(refs).toEqual([
+        { raw: '{{> house-style}}', target: 'house-style', version: undefined },
+        { raw: '{{>intro@3}}', target: 'intro', version: 3 },
+      ]);
+    });
+
+    it('should not treat variables as includes', () => {
+      expect(extractIncludes('{{name}}')).toEqual([]);
+    });
+  });
+
+  describe('findIncludedPrompt', () => {
+    it('should match by id', () => {
+      expect(findIncludedPrompt('style-1', prompts)?.id).toBe('style-1');
+    });
+
+    it('should match by title case-insensitively', () => {
+      expect(findIncludedPrompt('house style', prompts)?.id).toBe('style-1');
+    });
+
+    it('should prefer active prompts over archived ones', () => {
+      const archived = createPrompt('old', { title: 'House Style', content: 'Old', isArchived: true });
+      expect(findIncludedPrompt('House Style', [archived, houseStyle])?.id).toBe('style-1');
+    });
+  });
+
+  describe('composePrompt', () => {
+    it('should inline included content', async () => {
+      const composed = await composePrompt(reviewer, prompts);
+      expect(composed.content).toBe('Be concise.\nReview this {{language}} code.');
+      expect(composed.id).toBe('review-1');
+    });
+
+    it('should resolve nested includes', async () => {
+      const outer = createPrompt('outer', { title: 'Outer', content: 'Start {{> review-1}}' });
+      const composed = await composePrompt(outer, [...prompts, outer]);
+      expect(composed.content).toBe('Start Be concise.\nReview this {{language}} code.');
+    });
+
+    it('should detect cycles', async () => {
+      const a = createPrompt('a', { title: 'A', content: '{{> b}}' });
+      const b = createPrompt('b', { title: 'B', content: '{{> a}}' });
+      await expect(composePrompt(a, [a, b])).rejects.toThrow(IncludeError);
+      await expect(composePrompt(a, [a, b])).rejects.toThrow('A → B → A');
+    });
+
+    it('should detect self-includes', async () => {
+      const self = createPrompt('self', { title: 'Self', content: 'Loop {{> self}}' });
+      await expect(composePrompt(self, [self])).rejects.toThrow('cycle');
+    });
+
+    it('should throw for missing targets', async () => {
+      const broken = createPrompt('x', { title: 'X', content: '{{> nowhere}}' });
+      await expect(composePrompt(broken, [broken])).rejects.toThrow('not found');
+    });
+
+    it('should use pinned versions when a loader is provided', async () => {
+      const pinned = createPrompt('p', { title: 'Pinned', content: '{{> style-1@2}}' });
+      const composed = await composePrompt(pinned, [houseStyle, pinned], {
+        loadVersion: async (id, version) => (id === 'style-1' && version === 2 ? 'Version two.' : null),
+      });
+      expect(composed.content).toBe('Version two.');
+    });
+
+    it('should throw when a pinned version is unavailable', async () => {
+      const pinned = createPrompt('p', { title: 'Pinned', content: '{{> style-1@9}}' });
+      await expect(
+        composePrompt(pinned, [houseStyle, pinned], { loadVersion: async () => null })
+      ).rejects.toThrow('Version 9');
+    });
+
+    it('should merge variable declarations with the including prompt winning', async () => {
+      const partial = createPrompt('part', {
+        title: 'Part',
+        content: '{{tone}} {{lang}}',
+        variables: [{ name: 'tone', default: 'formal' }, { name: 'lang', default: 'en' }],
+      });
+      const root = createPrompt('root', {
+        title: 'Root',
+        content: '{{> part}}',
+        variables: [{ name: 'tone', default: 'casual' }],
+      });
+      const composed = await composePrompt(root, [partial, root]);
+      const tone = composed.variables?.find(v => v.name === 'tone');
+      const lang = composed.variables?.find(v => v.name === 'lang');
+      expect(tone?.default).toBe('casual');
+      expect(lang?.default).toBe('en');
+    });
+  });
+
+  describe('buildUsedByIndex', () => {
+    it('should map included prompts to the prompts using them', () => {
+      const another = createPrompt('other', { title: 'Other', content: '{{> style-1}} {{> House Style}}' });
+      const index = buildUsedByIndex([...prompts, another]);
+      expect(index.get('style-1')).toEqual(['review-1', 'other']);
+      expect(index.has('review-1')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Prompt composition via includes/partials
+ *
+ * `{{> target}}` inlines another prompt's content, where target is a prompt id
+ * or title (case-insensitive). `{{> target@3}}` pins version 3 of that prompt.
+ * Includes are resolved recursively at copy/render time; variables declared by
+ * included prompts are merged into the composed prompt.
+ */
+
+import type { Prompt, PromptVariable } from '@/shared/types/prompt';
+
+export interface IncludeReference {
+  raw: string;
+  target: string;
+  version?: number;
+}
+
+/**
+ * Loads the content of a pinned version (null when it doesn't exist)
+ */
+export type VersionLoader = (promptId: string, version: number) => Promise<string | null>;
+
+export interface ComposeOptions {
+  loadVersion?: VersionLoader;
+  maxDepth?: number;
+}
+
+/**
+ * Custom error for unresolvable includes (missing targets, cycles, depth)
+ */
+export class IncludeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IncludeError';
+  }
+}
+
+// {{> target}} or {{> target@version}}
+const INCLUDE_PATTERN = /\{\{>\s*([^{}]+?)(?:@(\d+))?\s*\}\}/g;
+
+const DEFAULT_MAX_DEPTH = 10;
+
+/**
+ * Find all include references in content
+ */
+export function extractIncludes(content: string): IncludeReference[] {
+  return Array.from(content.matchAll(INCLUDE_PATTERN), match => ({
+    raw: match[0],
+    target: match[1].trim(),
+    version: match[2] ? parseInt(match[2], 10) : undefined,
+  }));
+}
+
+/**
+ * Check if content contains any includes
+ */
+export function hasIncludes(content: string): boolean {
+  return extractIncludes(content).length > 0;
+}
+
+/**
+ * Find the prompt an include target refers to
+ * Exact id matches win over title matches; active prompts win over archived
+ */
+export function findIncludedPrompt(target: string, prompts: Prompt[]): Prompt | undefined {
+  const byId = prompts.find(p => p.id === target);
+  if (byId) return byId;
+
+  const normalized = target.toLowerCase();
+  const byTitle = prompts.filter(p => p.title.trim().toLowerCase() === normalized);
+  return byTitle.find(p => !p.isArchived) ?? byTitle[0];
+}
+
+/**
+ * Resolve all includes in a prompt, returning a prompt with the composed
+ * content and merged variable declarations (the including prompt wins)
+ */
+export async function composePrompt(
+  prompt: Prompt,
+  prompts: Prompt[],
+  options: ComposeOptions = {}
+): Promise<Prompt> {
+  const declarations = new Map<string, PromptVariable>();
+  const content = await expand(prompt.content, [prompt], prompts, declarations, options);
+
+  // Root declarations take precedence over included ones
+  for (const declaration of prompt.variables ?? []) {
+    declarations.set(declaration.name, declaration);
+  }
+
+  return {
+    ...prompt,
+    content,
+    variables: declarations.size > 0 ? Array.from(declarations.values()) : prompt.variables,
+  };
+}
+
+async function expand(
+  content: string,
+  stack: Prompt[],
+  prompts: Prompt[],
+  declarations: Map<string, PromptVariable>,
+  options: ComposeOptions
+): Promise<string> {
+  // The same include may appear several times; expand it once
+  const references = Array.from(
+    new Map(extractIncludes(content).map(r => [r.raw, r])).values()
+  );
+  if (references.length === 0) return content;
+
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  if (stack.length > maxDepth) {
+    throw new IncludeError(`Includes are nested more than ${maxDepth} levels deep`);
+  }
+
+  let result = content;
+
+  for (const reference of references) {
+    const included = findIncludedPrompt(reference.target, prompts);
+    if (!included) {
+      throw new IncludeError(`Included prompt not found: "${reference.target}"`);
+    }
+
+    if (stack.some(p => p.id === included.id)) {
+      const path = [...stack, included].map(p => p.title).join(' → ');
+      throw new IncludeError(`Include cycle detected: ${path}`);
+    }
+
+    let includedContent = included.content;
+    if (reference.version !== undefined) {
+      const pinned = options.loadVersion
+        ? await options.loadVersion(included.id, reference.version)
+        : null;
+      if (pinned === null) {
+        throw new IncludeError(`Version ${reference.version} of "${included.title}" is not available`);
+      }
+      includedContent = pinned;
+    }
+
+    for (const declaration of included.variables ?? []) {
+      if (!declarations.has(declaration.name)) {
+        declarations.set(declaration.name, declaration);
+      }
+    }
+
+    const expanded = await expand(includedContent, [...stack, included], prompts, declarations, options);
+    result = result.split(reference.raw).join(expanded);
+  }
+
+  return result;
+}
+
+/**
+ * Build a reverse index of includes: included prompt id -> ids of prompts using it
+ */
+export function buildUsedByIndex(prompts: Prompt[]): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+
+  for (const prompt of prompts) {
+    const seen = new Set<string>();
+
+    for (const reference of extractIncludes(prompt.content)) {
+      const included = findIncludedPrompt(reference.target, prompts);
+      if (!included || included.id === prompt.id || seen.has(included.id)) continue;
+
+      seen.add(included.id);
+      const users = index.get(included.id) ?? [];
+      users.push(prompt.id);
+      index.set(included.id, users);
+    }
+  }
+
+  return index;
+}
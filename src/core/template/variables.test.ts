@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractVariables,
+  resolveVariables,
+  hasVariables,
+  renderTemplate,
+  renderPrompt,
+  parseVariableDeclarations,
+  variablesToFrontmatter,
+} from './variables';
+import { parseMarkdownPrompt } from '@/shared/utils/import';
+import type { PromptVariable } from '@/shared/types/prompt';
+
+describe('Template Variables', () => {
+  describe('extractVariables', () => {
+    it('should find placeholders in order of appearance', () => {
+      const vars = extractVariables('Review {{language}} code for {{ focus }}');
+      expect(vars.map(v => v.name)).toEqual(['language', 'focus']);
+    });
+
+    it('should deduplicate repeated placeholders', () => {
+      const vars = extractVariables('{{name}} and {{name}} again');
+      expect(vars).toHaveLength(1);
+    });
+
+    it('should pick up inline defaults', () => {
+      const vars = extractVariables('Write in {{tone:friendly}} tone');
+      expect(vars[0]).toEqual({ name: 'tone', inlineDefault: 'friendly' });
+    });
+
+    it('should ignore partials and invalid names', () => {
+      expect(extractVariables('{{> shared-intro}} {{1abc}} {{}}')).toEqual([]);
+    });
+  });
+
+  describe('resolveVariables', () => {
+    it('should default to text type', () => {
+      const [variable] = resolveVariables('{{topic}}');
+      expect(variable.type).toBe('text');
+      expect(variable.default).toBe('');
+    });
+
+    it('should prefer declared defaults over inline defaults', () => {
+      const declarations: PromptVariable[] = [{ name: 'tone', default: 'formal' }];
+      const [variable] = resolveVariables('{{tone:casual}}', declarations);
+      expect(variable.default).toBe('formal');
+    });
+
+    it('should infer enum type from options and default to the first choice', () => {
+      const declarations: PromptVariable[] = [{ name: 'lang', options: ['ts', 'js'] }];
+      const [variable] = resolveVariables('{{lang}}', declarations);
+      expect(variable.type).toBe('enum');
+      expect(variable.default).toBe('ts');
+    });
+
+    it('should ignore declarations not used in content', () => {
+      const declarations: PromptVariable[] = [{ name: 'unused', default: 'x' }];
+      expect(resolveVariables('no variables here', declarations)).toEqual([]);
+    });
+  });
+
+  describe('hasVariables', () => {
+    it('should detect templates', () => {
+      expect(hasVariables({ content: 'Hello {{name}}' })).toBe(true);
+      expect(hasVariables({ content: 'Hello world' })).toBe(false);
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should replace placeholders with values', () => {
+      expect(renderTemplate('Hi {{name}}, {{name}}!', { name: 'Ada' })).toBe('Hi Ada, Ada!');
+    });
+
+    it('should fall back to defaults', () => {
+      expect(renderTemplate('Tone: {{tone:friendly}}', {})).toBe('Tone: friendly');
+    });
+
+    it('should keep placeholders without a value or default', () => {
+      expect(renderTemplate('Hi {{name}}', {})).toBe('Hi {{name}}');
+    });
+
+    it('should allow an explicit empty value', () => {
+      expect(renderTemplate('[{{suffix:x}}]', { suffix: '' })).toBe('[]');
+    });
+
+    it('should not treat prototype keys as values', () => {
+      expect(renderTemplate('{{constructor}}', {})).toBe('{{constructor}}');
+    });
+  });
+
+  describe('renderPrompt', () => {
+    it('should use declarations stored on the prompt', () => {
+      const rendered = renderPrompt({
+        content: 'Translate to {{lang}}',
+        variables: [{ name: 'lang', type: 'enum', options: ['French', 'German'] }],
+      });
+      expect(rendered).toBe('Translate to French');
+    });
+  });
+
+  describe('parseVariableDeclarations', () => {
+    it('should parse a map of declarations', () => {
+      const declarations = parseVariableDeclarations({
+        lang: { type: 'enum', options: ['ts', 'js'], default: 'ts' },
+        count: 3,
+        notes: null,
+      });
+      expect(declarations).toEqual([
+        { name: 'lang', type: 'enum', options: ['ts', 'js'], default: 'ts' },
+        { name: 'count', default: '3' },
+        { name: 'notes' },
+      ]);
+    });
+
+    it('should parse a list of names or objects', () => {
+      const declarations = parseVariableDeclarations(['topic', { name: 'tone', choices: ['a', 'b'] }]);
+      expect(declarations).toEqual([
+        { name: 'topic' },
+        { name: 'tone', options: ['a', 'b'], type: 'enum' },
+      ]);
+    });
+
+    it('should ignore unknown types and invalid input', () => {
+      expect(parseVariableDeclarations({ x: { type: 'date' } })).toEqual([{ name: 'x' }]);
+      expect(parseVariableDeclarations('nope')).toEqual([]);
+      expect(parseVariableDeclarations(undefined)).toEqual([]);
+    });
+  });
+
+  describe('variablesToFrontmatter', () => {
+    it('should return nothing when there are no declarations', () => {
+      expect(variablesToFrontmatter(undefined)).toEqual([]);
+      expect(variablesToFrontmatter([])).toEqual([]);
+    });
+
+    it('should round-trip through markdown frontmatter', () => {
+      const declarations: PromptVariable[] = [
+        { name: 'lang', type: 'enum', default: 'ts', options: ['ts', 'js "quoted"'] },
+        { name: 'notes', type: 'multiline', description: 'Extra context' },
+        { name: 'steps', default: '1.\tplan\r\n2. "do"\n3. C:\\done', description: 'One\nper line' },
+      ];
+      const markdown = [
+        '---',
+        'id: p1',
+        'title: Test',
+        ...variablesToFrontmatter(declarations),
+        '---',
+        '',
+        '{{lang}} {{notes}} {{steps}}',
+      ].join('\n');
+
+      const result = parseMarkdownPrompt(markdown);
+      expect(result.success).toBe(true);
+      expect(result.prompt?.variables).toEqual(declarations);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Template variables for prompts
+ *
+ * Prompts can contain `{{name}}` placeholders (optionally `{{name:default}}`).
+ * Defaults, types and enum choices can also be declared in frontmatter under
+ * a `variables` key; declarations win over inline defaults.
+ */
+
+import type { Prompt, PromptVariable, PromptVariableType } from '@/shared/types/prompt';
+
+export interface TemplateVariable {
+  name: string;
+  type: PromptVariableType;
+  default: string;
+  options: string[];
+  description?: string;
+}
+
+export type TemplateValues = Record<string, string>;
+
+// {{name}} or {{name:default}} - names start with a letter or underscore,
+// which keeps partials ({{> id}}) and other mustache forms out
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.-]*)\s*(?::([^}]*))?\}\}/g;
+
+const VARIABLE_TYPES: PromptVariableType[] = ['text', 'multiline', 'number', 'enum'];
+
+/**
+ * Find all variable placeholders in content, in order of first appearance
+ */
+export function extractVariables(content: string): { name: string; inlineDefault?: string }[] {
+  const found = new Map<string, { name: string; inlineDefault?: string }>();
+
+  for (const match of content.matchAll(VARIABLE_PATTERN)) {
+    const name = match[1];
+    const inlineDefault = match[2]?.trim();
+    const existing = found.get(name);
+
+    if (!existing) {
+      found.set(name, { name, inlineDefault });
+    } else if (existing.inlineDefault === undefined && inlineDefault !== undefined) {
+      existing.inlineDefault = inlineDefault;
+    }
+  }
+
+  return Array.from(found.values());
+}
+
+/**
+ * Resolve the variables a prompt needs filled in, merging placeholders
+ * found in the content with declarations from frontmatter
+ */
+export function resolveVariables(
+  content: string,
+  declarations: PromptVariable[] = []
+): TemplateVariable[] {
+  const declared = new Map(declarations.map(d => [d.name, d]));
+
+  return extractVariables(content).map(({ name, inlineDefault }) => {
+    const declaration = declared.get(name);
+    const options = declaration?.options ?? [];
+    const type = declaration?.type ?? (options.length > 0 ? 'enum' : 'text');
+
+    return {
+      name,
+      type,
+      default: declaration?.default ?? inlineDefault ?? (type === 'enum' ? options[0] ?? '' : ''),
+      options,
+      description: declaration?.description,
+    };
+  });
+}
+
+/**
+ * Check if a prompt contains any template variables
+ */
+export function hasVariables(prompt: Pick<Prompt, 'content'>): boolean {
+  return extractVariables(prompt.content).length > 0;
+}
+
+/**
+ * Replace placeholders with values
+ * Placeholders without a value or default are left untouched
+ */
+export function renderTemplate(
+  content: string,
+  values: TemplateValues,
+  declarations: PromptVariable[] = []
+): string {
+  const defaults = new Map(
+    resolveVariables(content, declarations).map(v => [v.name, v.default])
+  );
+
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (Object.prototype.hasOwnProperty.call(values, name)) return values[name];
+    return defaults.get(name) || placeholder;
+  });
+}
+
+/**
+ * Render a prompt's content with the given values (falling back to defaults)
+ * This is the single entry point used by copy, share and export
+ */
+export function renderPrompt(
+  prompt: Pick<Prompt, 'content' | 'variables'>,
+  values: TemplateValues = {}
+): string {
+  return renderTemplate(prompt.content, values, prompt.variables);
+}
+
+/**
+ * Normalize a frontmatter `variables` value into declarations
+ * Accepts a list of names, a list of objects with `name`, or a map of
+ * name -> default / declaration object
+ */
+export function parseVariableDeclarations(raw: unknown): PromptVariable[] {
+  if (!raw || typeof raw !== 'object') return [];
+
+  const entries: [string, unknown][] = Array.isArray(raw)
+    ? raw.map(item =>
+        typeof item === 'string'
+          ? [item, {}]
+          : [String((item as Record<string, unknown>)?.name ?? ''), item]
+      )
+    : Object.entries(raw as Record<string, unknown>);
+
+  const declarations: PromptVariable[] = [];
+
+  for (const [name, value] of entries) {
+    if (!name) continue;
+
+    if (value === null || value === undefined) {
+      declarations.push({ name });
+      continue;
+    }
+    if (typeof value !== 'object') {
+      declarations.push({ name, default: String(value) });
+      continue;
+    }
+
+    const spec = value as Record<string, unknown>;
+    const declaration: PromptVariable = { name };
+
+    const choices = spec.options ?? spec.enum ?? spec.choices;
+    if (Array.isArray(choices)) {
+      declaration.options = choices.map(String);
+    }
+    if (typeof spec.type === 'string' && VARIABLE_TYPES.includes(spec.type as PromptVariableType)) {
+      declaration.type = spec.type as PromptVariableType;
+    } else if (declaration.options) {
+      declaration.type = 'enum';
+    }
+    if (spec.default !== undefined && spec.default !== null) {
+      declaration.default = String(spec.default);
+    }
+    if (typeof spec.description === 'string') {
+      declaration.description = spec.description;
+    }
+
+    declarations.push(declaration);
+  }
+
+  return declarations;
+}
+
+/**
+ * Serialize declarations as YAML frontmatter lines (map form)
+ */
+export function variablesToFrontmatter(declarations: PromptVariable[] | undefined): string[] {
+  if (!declarations || declarations.length === 0) return [];
+
+  // Double-quoted YAML: raw line breaks would be folded into spaces
+  const quote = (value: string) => `"${value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')}"`;
+  const lines = ['variables:'];
+
+  for (const declaration of declarations) {
+    lines.push(`  ${declaration.name}:`);
+    if (declaration.type) lines.push(`    type: ${declaration.type}`);
+    if (declaration.default !== undefined) lines.push(`    default: ${quote(declaration.default)}`);
+    if (declaration.options && declaration.options.length > 0) {
+      lines.push(`    options: [${declaration.options.map(quote).join(', ')}]`);
+    }
+    if (declaration.description) lines.push(`    description: ${quote(declaration.description)}`);
+  }
+
+  return lines;
+}
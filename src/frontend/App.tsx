@@ -12,6 +12,12 @@ import {
   Download,
   Copy,
   FolderSync,
+  Send,
+  Package,
+  Sparkles,
+  X,
+  ChevronDown,
+  ChevronRight,
 } from "lucide-react";
 import { WalletButton } from "@/frontend/components/wallet/WalletButton";
 import {
@@ -19,19 +25,28 @@ import {
   type SearchBarHandle,
 } from "@/frontend/components/search/SearchBar";
 import { PromptListItem } from "@/frontend/components/prompts/PromptListItem";
+import { PromptCard } from "@/frontend/components/prompts/PromptCard";
+import { PromptListControls } from "@/frontend/components/prompts/PromptListControls";
 import { PromptDialog } from "@/frontend/components/prompts/PromptDialog";
 import { PromptEditor } from "@/frontend/components/prompts/PromptEditor";
+import { VariableFillDialog } from "@/frontend/components/prompts/VariableFillDialog";
 import { VersionHistory } from "@/frontend/components/prompts/VersionHistory";
 import { UploadDialog } from "@/frontend/components/shared/UploadDialog";
+import { PacksDialog } from "@/frontend/components/packs/PacksDialog";
 import { MobileMenu } from "@/frontend/components/shared/MobileMenu";
 import { PasswordPrompt } from "@/frontend/components/wallet/PasswordPrompt";
 import { PasswordUnlock } from "@/frontend/components/wallet/PasswordUnlock";
 import { ThemeToggle } from "@/frontend/components/shared/ThemeToggle";
 import { HotkeysDialog } from "@/frontend/components/shared/HotkeysDialog";
+import { DatabaseErrorScreen } from "@/frontend/components/shared/DatabaseErrorScreen";
 import { ComingSoonButton } from "@/frontend/components/waitlist/ComingSoonButton";
 import { PublicPromptView } from "@/frontend/components/prompts/PublicPromptView";
 import { TursoSharedPromptView } from "@/frontend/components/prompts/TursoSharedPromptView";
 import { SyncButton } from "@/frontend/components/sync/SyncButton";
+import {
+  ConflictsButton,
+  ConflictsDialog,
+} from "@/frontend/components/sync/ConflictsDialog";
 import { TitleBar } from "@/frontend/components/shared/TitleBar";
 import { Button } from "@/frontend/components/ui/button";
 import {
@@ -42,23 +57,41 @@ import {
 } from "@/frontend/components/ui/tooltip";
 import { useWallet } from "@/frontend/hooks/useWallet";
 import { useIdentity } from "@/frontend/hooks/useIdentity";
+import { useDatabase } from "@/frontend/hooks/useDatabase";
 import { usePrompts } from "@/frontend/hooks/usePrompts";
+import { useSemanticSearch } from "@/frontend/hooks/useSemanticSearch";
+import { useListOptions } from "@/frontend/hooks/useListOptions";
 import { usePassword } from "@/frontend/contexts/PasswordContext";
 import { FEATURE_FLAGS } from "@/shared/config/features";
 import { useInitializeTheme } from "@/frontend/hooks/useTheme";
 import { useCollections } from "@/frontend/hooks/useCollections";
 import {
+  useSourceLabels,
   useSyncModeStatus,
   validateDirectoryOnStartup,
 } from "@/frontend/hooks/useSyncMode";
 import type { Prompt, PromptVersion } from "@/shared/types/prompt";
-import { searchPrompts, simpleTitleSearch } from "@/core/search";
+import { runQuery } from "@/core/search";
+import { hasMatches } from "@/core/search/highlight";
+import type { SearchMatches } from "@/core/search/highlight";
+import { semanticScores } from "@/core/search/semantic";
+import type { SimilarPrompt } from "@/core/search/semantic";
+import { groupPrompts, sortPrompts } from "@/core/search/sort";
+import {
+  filtersArchived,
+  parseQuery,
+  rankedTextTerms,
+} from "@/core/search/query";
 import { evaluateExpression, expressionToString } from "@/core/search/boolean";
 import type { FileImportResult } from "@/shared/utils/import";
 import { hasEncryptedPromptsInCache } from "@/core/storage/cache";
 import type { EncryptedData } from "@/core/encryption/crypto";
 import { wasPromptEncrypted } from "@/core/encryption/crypto";
 import { findDuplicates } from "@/core/validation/duplicates";
+import { hasVariables } from "@/core/template/variables";
+import { resolvePromptIncludes } from "@/frontend/utils/promptTemplates";
+import { getPromptProvider, launchInProvider } from "@/frontend/utils/openInLLM";
+import type { LLMProvider } from "@/core/llm/providers";
 import {
   parseDeepLink,
   updateDeepLink,
@@ -73,11 +106,21 @@ import {
 function App() {
   useInitializeTheme();
 
+  // Schema migrations must finish before anything touches the database
+  const databaseStatus = useDatabase((state) => state.status);
+  useEffect(() => {
+    if (databaseStatus === "pending") {
+      useDatabase.getState().migrate();
+    }
+  }, [databaseStatus]);
+
   // Initialize device identity for Turso mode
   const identity = useIdentity();
 
   // Auto-initialize identity for local-first mode
   useEffect(() => {
+    if (databaseStatus !== "ready") return;
+
     console.log("[DEBUG] Identity state:", {
       connected: identity.connected,
       connecting: identity.connecting,
@@ -89,7 +132,7 @@ function App() {
       console.log("[DEBUG] Initializing identity...");
       identity.initialize();
     }
-  }, [identity]);
+  }, [identity, databaseStatus]);
 
   // Check for public prompt viewing (txid parameter) - no wallet required
   const [publicTxId, setPublicTxId] = useState<string | null>(() => {
@@ -103,6 +146,12 @@ function App() {
     return params.get("share") || null;
   });
 
+  // Shared pack link (pack parameter) - offered for import in the Packs view
+  const [packShareToken, setPackShareToken] = useState<string | null>(() => {
+    const params = new URLSearchParams(window.location.search);
+    return params.get("pack") || null;
+  });
+
   const { address } = useWallet();
 
   // Use identity connection for local-first mode
@@ -131,6 +180,7 @@ function App() {
     selectedTags,
     booleanExpression,
     activeSavedSearch,
+    fuzzySearch,
     loadPrompts,
     addPrompt,
     updatePrompt,
@@ -143,6 +193,7 @@ function App() {
   } = usePrompts();
 
   const syncStatus = useSyncModeStatus();
+  const sourceLabels = useSourceLabels();
 
   // Defer searchQuery for filtering - keeps input responsive while filtering happens in background
   // EXCEPT for clearing: when searchQuery is empty, use it directly for instant clear
@@ -160,6 +211,7 @@ function App() {
   const [editingPrompt, setEditingPrompt] = useState<Prompt | null>(null);
   const [versionHistoryOpen, setVersionHistoryOpen] = useState(false);
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
+  const [packsOpen, setPacksOpen] = useState(() => packShareToken !== null);
   const [passwordPromptOpen, setPasswordPromptOpen] = useState(false);
   const [passwordUnlockOpen, setPasswordUnlockOpen] = useState(false);
   const [sampleEncryptedData, setSampleEncryptedData] =
@@ -170,6 +222,8 @@ function App() {
   const lastMousePosRef = useRef<{ x: number; y: number } | null>(null);
   const mouseMovedSinceKeyboard = useRef(false);
   const [copiedPromptId, setCopiedPromptId] = useState<string | null>(null);
+  const [fillPrompt, setFillPrompt] = useState<Prompt | null>(null);
+  const [fillProvider, setFillProvider] = useState<LLMProvider | null>(null);
   const searchBarRef = useRef<SearchBarHandle>(null);
   const desktopSearchBarContainerRef = useRef<HTMLDivElement>(null);
   const [deepLinkInitialized, setDeepLinkInitialized] = useState(false);
@@ -177,6 +231,34 @@ function App() {
   const passwordCheckDone = useRef(false);
   const [hotkeysOpen, setHotkeysOpen] = useState(false);
   const [comingSoonOpen, setComingSoonOpen] = useState(false);
+  // "More like this": the prompt and the ones most similar to it
+  const [similarTo, setSimilarTo] = useState<{
+    prompt: Prompt;
+    results: SimilarPrompt[];
+  } | null>(null);
+  // Semantic similarity of prompts to each full-text term of the query
+  const [semanticMatches, setSemanticMatches] = useState<
+    Map<string, Map<string, number>> | undefined
+  >(undefined);
+  const semanticEnabled = useSemanticSearch((state) => state.enabled);
+  const semanticVersion = useSemanticSearch((state) => state.version);
+  const semanticEndpoint = useSemanticSearch((state) => state.endpoint);
+  const syncSemanticPrompts = useSemanticSearch((state) => state.syncPrompts);
+  const findSimilarPrompts = useSemanticSearch((state) => state.findSimilar);
+  // Sort, grouping and view mode of the prompt list (persisted)
+  const sortKey = useListOptions((state) => state.sortKey);
+  const sortDirection = useListOptions((state) => state.sortDirection);
+  const thenBy = useListOptions((state) => state.thenBy);
+  const groupBy = useListOptions((state) => state.groupBy);
+  const viewMode = useListOptions((state) => state.viewMode);
+  const copyCounts = useListOptions((state) => state.copyCounts);
+  const listOptions = useMemo(
+    () => ({ sortKey, sortDirection, thenBy, groupBy }),
+    [sortKey, sortDirection, thenBy, groupBy],
+  );
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(
+    () => new Set(),
+  );
 
   // Update selected prompt when prompts change (fixes caching issue)
   useEffect(() => {
@@ -799,6 +881,7 @@ function App() {
       editorOpen ||
       versionHistoryOpen ||
       uploadDialogOpen ||
+      packsOpen ||
       passwordPromptOpen ||
       passwordUnlockOpen;
 
@@ -817,6 +900,7 @@ function App() {
     editorOpen,
     versionHistoryOpen,
     uploadDialogOpen,
+    packsOpen,
     passwordPromptOpen,
     passwordUnlockOpen,
   ]);
@@ -976,16 +1060,86 @@ function App() {
     );
   }, [prompts, showDuplicates]);
 
-  // Pre-compute timestamps for sorting (avoid Date creation during sort)
-  const timestampMap = useMemo(
-    () => new Map(prompts.map((p) => [p.id, new Date(p.updatedAt).getTime()])),
-    [prompts],
+  // Parsed search query (text, tags, fields; see core/search/query)
+  const parsedQuery = useMemo(
+    () => parseQuery(effectiveSearchQuery),
+    [effectiveSearchQuery],
+  );
+
+  // Keep prompt embeddings up to date while semantic search is on, a
+  // moment after prompts (or the embedding model) stop changing
+  useEffect(() => {
+    if (!semanticEnabled || prompts.length === 0) return;
+    const timer = setTimeout(() => void syncSemanticPrompts(prompts), 1000);
+    return () => clearTimeout(timer);
+  }, [prompts, semanticEnabled, semanticEndpoint, syncSemanticPrompts]);
+
+  // Semantic matches for the query's full-text terms (the embedding is
+  // computed asynchronously; keyword results show until it's ready)
+  useEffect(() => {
+    const terms = semanticEnabled
+      ? rankedTextTerms(parsedQuery.root).filter((term) => term.trim().length > 3)
+      : [];
+    if (terms.length === 0) {
+      setSemanticMatches(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all(
+      terms.map(async (term) => [term, await semanticScores(term)] as const),
+    )
+      .then((entries) => {
+        if (!cancelled) setSemanticMatches(new Map(entries));
+      })
+      .catch((error) => {
+        console.warn("[Semantic] Failed to embed the query:", error);
+        if (!cancelled) setSemanticMatches(undefined);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [parsedQuery, semanticEnabled, semanticVersion]);
+
+  // Leave "more like this" when the search changes
+  useEffect(() => {
+    setSimilarTo(null);
+  }, [searchQuery, selectedTags, booleanExpression, showArchived, showDuplicates]);
+
+  const handleMoreLikeThis = useCallback(
+    async (prompt: Prompt) => {
+      setViewDialogOpen(false);
+      try {
+        const results = await findSimilarPrompts(prompt, prompts);
+        setSimilarTo({ prompt, results });
+      } catch (error) {
+        console.error("Failed to find similar prompts:", error);
+      }
+    },
+    [findSimilarPrompts, prompts],
   );
 
   // Filter prompts based on search and tags (memoized for performance)
   // Uses effectiveSearchQuery: deferred for typing (smooth), instant for clearing
-  const filteredPrompts = useMemo(() => {
-    const queryLength = effectiveSearchQuery.trim().length;
+  // Also returns where each prompt matched, for highlighting
+  const { matchingPrompts, searchMatches } = useMemo(() => {
+    const query = parsedQuery.root;
+
+    // "More like this" replaces the search results, ranked by similarity
+    if (similarTo) {
+      const byId = new Map(prompts.map((p) => [p.id, p]));
+      return {
+        matchingPrompts: sortPrompts(
+          similarTo.results.flatMap((r) => byId.get(r.id) ?? []),
+          listOptions,
+          {
+            scores: new Map(similarTo.results.map((r) => [r.id, r.score])),
+            copyCounts,
+          },
+        ),
+        searchMatches: new Map<string, SearchMatches>(),
+      };
+    }
 
     // Default: show no results unless there's a search query or active filter
     const hasActiveFilter =
@@ -993,75 +1147,118 @@ function App() {
       selectedTags.length > 0 ||
       showDuplicates ||
       showArchived;
-    if (!effectiveSearchQuery && !hasActiveFilter) {
-      return [];
+    if (!query && !hasActiveFilter) {
+      return { matchingPrompts: [], searchMatches: new Map<string, SearchMatches>() };
     }
 
-    // Get search results based on query length:
-    // - 1-3 chars: simple O(n) title matching
-    // - 4+ chars: FlexSearch
-    let searchResults: { id: string; score: number }[] = [];
-    if (effectiveSearchQuery) {
-      searchResults =
-        queryLength <= 3
-          ? simpleTitleSearch(prompts, effectiveSearchQuery)
-          : searchPrompts(effectiveSearchQuery);
-    }
-    const searchScoreMap = new Map(searchResults.map((r) => [r.id, r.score]));
+    // is:archived / is:active in the query overrides the archive toggle
+    const archiveFromQuery = filtersArchived(query);
 
-    const finalResult = prompts
-      .filter((prompt) => {
-        // Archive filter - mutually exclusive
+    const candidates = prompts.filter((prompt) => {
+      // Archive filter - mutually exclusive
+      if (!archiveFromQuery) {
         if (showArchived) {
           if (!prompt.isArchived) return false;
         } else {
           if (prompt.isArchived) return false;
         }
+      }
 
-        // Duplicate filter
-        if (duplicateIds && !duplicateIds.has(prompt.id)) return false;
+      // Duplicate filter
+      if (duplicateIds && !duplicateIds.has(prompt.id)) return false;
 
-        // Boolean expression filter (takes precedence over simple tag filter)
-        if (booleanExpression) {
-          if (!evaluateExpression(booleanExpression, prompt.tags)) return false;
-        } else if (selectedTags.length > 0) {
-          // Simple tag filter (only applies if no boolean expression)
-          const hasAllTags = selectedTags.every((tag) =>
-            prompt.tags.some((t) => t.toLowerCase() === tag.toLowerCase()),
-          );
-          if (!hasAllTags) return false;
-        }
+      // Boolean expression filter (takes precedence over simple tag filter)
+      if (booleanExpression) {
+        if (!evaluateExpression(booleanExpression, prompt.tags)) return false;
+      } else if (selectedTags.length > 0) {
+        // Simple tag filter (only applies if no boolean expression)
+        const hasAllTags = selectedTags.every((tag) =>
+          prompt.tags.some((t) => t.toLowerCase() === tag.toLowerCase()),
+        );
+        if (!hasAllTags) return false;
+      }
 
-        // Text search filter (works with both boolean and simple tag filters)
-        if (effectiveSearchQuery) {
-          if (!searchScoreMap.has(prompt.id)) return false;
-        }
+      return true;
+    });
 
-        return true;
-      })
-      .sort((a, b) => {
-        // When searching, sort by relevance score
-        if (effectiveSearchQuery && searchScoreMap.size > 0) {
-          return (
-            (searchScoreMap.get(b.id) || 0) - (searchScoreMap.get(a.id) || 0)
-          );
-        }
-        // Default sort by updatedAt (most recent first) - use pre-computed timestamps
-        return (timestampMap.get(b.id) || 0) - (timestampMap.get(a.id) || 0);
-      });
+    // Query filter (works with both boolean and simple tag filters):
+    // full-text words go through the title match (1-3 chars), FlexSearch or,
+    // when typo-tolerant, the fuzzy index - which is kept in sync with the
+    // whole library, so it's searched over all prompts and narrowed below
+    const searchResults = runQuery(fuzzySearch ? prompts : candidates, query, {
+      fuzzy: fuzzySearch,
+      semantic: semanticMatches,
+    });
+    const searchScoreMap = new Map(searchResults.map((r) => [r.id, r.score]));
+    const searchMatches = new Map(
+      searchResults.flatMap((r) =>
+        r.matches && hasMatches(r.matches) ? [[r.id, r.matches] as const] : [],
+      ),
+    );
+    // Relevance only ranks text searches; otherwise the secondary key orders
+    const rankByScore = rankedTextTerms(query).length > 0;
 
-    return finalResult;
+    const finalResult = sortPrompts(
+      candidates.filter((prompt) => searchScoreMap.has(prompt.id)),
+      listOptions,
+      { scores: rankByScore ? searchScoreMap : undefined, copyCounts },
+    );
+
+    return { matchingPrompts: finalResult, searchMatches };
   }, [
     prompts,
-    effectiveSearchQuery,
+    parsedQuery,
     showArchived,
     duplicateIds,
     booleanExpression,
     selectedTags,
-    timestampMap,
     showDuplicates,
+    fuzzySearch,
+    semanticMatches,
+    similarTo,
+    listOptions,
+    copyCounts,
   ]);
 
+  // Group headers (when grouping); collapsed groups' prompts are hidden,
+  // so filteredPrompts is what's on screen and keyboard navigation follows it
+  const promptGroups = useMemo(
+    () =>
+      listOptions.groupBy === "none"
+        ? null
+        : groupPrompts(matchingPrompts, listOptions.groupBy),
+    [matchingPrompts, listOptions.groupBy],
+  );
+  const filteredPrompts = useMemo(
+    () =>
+      promptGroups
+        ? promptGroups.flatMap((group) =>
+            collapsedGroups.has(group.key) ? [] : group.prompts,
+          )
+        : matchingPrompts,
+    [promptGroups, collapsedGroups, matchingPrompts],
+  );
+
+  // Copies made from the quick launch overlay are counted in its own window
+  useEffect(() => {
+    const { reloadCopyCounts } = useListOptions.getState();
+    window.addEventListener("focus", reloadCopyCounts);
+    window.addEventListener("storage", reloadCopyCounts);
+    return () => {
+      window.removeEventListener("focus", reloadCopyCounts);
+      window.removeEventListener("storage", reloadCopyCounts);
+    };
+  }, []);
+
+  const toggleGroup = useCallback((key: string) => {
+    setCollapsedGroups((current) => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, []);
+
   // Reset selected index when filtered prompts change
   // Use effectiveSearchQuery to stay in sync with filtering
   useEffect(() => {
@@ -1119,6 +1316,11 @@ function App() {
           setUploadDialogOpen(false);
           return;
         }
+        if (packsOpen) {
+          event.preventDefault();
+          setPacksOpen(false);
+          return;
+        }
         if (passwordPromptOpen) {
           event.preventDefault();
           setPasswordPromptOpen(false);
@@ -1154,9 +1356,11 @@ function App() {
         editorOpen ||
         versionHistoryOpen ||
         uploadDialogOpen ||
+        packsOpen ||
         passwordPromptOpen ||
         passwordUnlockOpen ||
-        viewDialogOpen;
+        viewDialogOpen ||
+        fillPrompt !== null;
 
       switch (event.key) {
         case "ArrowDown":
@@ -1225,6 +1429,12 @@ function App() {
           event.preventDefault();
           handleCopy(filteredPrompts[selectedIndex]);
           break;
+        case "o":
+          // Don't allow when dialogs are open or typing - PromptDialog handles its own shortcuts
+          if (blockingDialogOpen || isTyping) return;
+          event.preventDefault();
+          handleOpenInLLM(filteredPrompts[selectedIndex]);
+          break;
         case "a":
           // Don't allow when dialogs are open or typing - PromptDialog handles its own shortcuts
           if (blockingDialogOpen || isTyping) return;
@@ -1261,8 +1471,10 @@ function App() {
     editorOpen,
     versionHistoryOpen,
     uploadDialogOpen,
+    packsOpen,
     passwordPromptOpen,
     passwordUnlockOpen,
+    fillPrompt,
     password,
     archivePrompt,
     restorePrompt,
@@ -1285,13 +1497,78 @@ function App() {
     setViewDialogOpen(false);
   };
 
-  const handleCopy = (prompt: Prompt) => {
-    navigator.clipboard.writeText(prompt.content);
+  const handleCopy = async (prompt: Prompt) => {
+    // Expand includes, then send templates through the fill-in form
+    let resolved: Prompt;
+    try {
+      resolved = await resolvePromptIncludes(prompt);
+    } catch (error) {
+      console.error("[App] Failed to resolve includes:", error);
+      alert(error instanceof Error ? error.message : "Failed to resolve includes");
+      return;
+    }
+
+    if (hasVariables(resolved)) {
+      setFillProvider(null);
+      setFillPrompt(resolved);
+      return;
+    }
+    navigator.clipboard.writeText(resolved.content);
+    useListOptions.getState().recordCopy(prompt.id);
     setCopiedPromptId(prompt.id);
     // Keep overlay visible long enough for fade-out animation (1000ms visible + 300ms fade-out)
     setTimeout(() => setCopiedPromptId(null), 1300);
   };
 
+  const handleOpenInLLM = async (prompt: Prompt) => {
+    // Same pipeline as copy, ending in the prompt's provider
+    const provider = getPromptProvider(prompt);
+    let resolved: Prompt;
+    try {
+      resolved = await resolvePromptIncludes(prompt);
+    } catch (error) {
+      console.error("[App] Failed to resolve includes:", error);
+      alert(error instanceof Error ? error.message : "Failed to resolve includes");
+      return;
+    }
+
+    if (hasVariables(resolved)) {
+      setFillProvider(provider);
+      setFillPrompt(resolved);
+      return;
+    }
+    try {
+      const launch = await launchInProvider(provider, resolved.content);
+      if (launch.viaClipboard) {
+        // Too long for a URL: show the copied overlay so the user knows to paste
+        setCopiedPromptId(prompt.id);
+        setTimeout(() => setCopiedPromptId(null), 1300);
+      }
+    } catch (error) {
+      console.error("[App] Failed to open provider:", error);
+      alert(error instanceof Error ? error.message : `Failed to open ${provider.name}`);
+    }
+  };
+
+  const handleFillSubmit = async (rendered: string) => {
+    if (!fillPrompt) return;
+    if (fillProvider) {
+      try {
+        const launch = await launchInProvider(fillProvider, rendered);
+        if (!launch.viaClipboard) return;
+      } catch (error) {
+        console.error("[App] Failed to open provider:", error);
+        alert(error instanceof Error ? error.message : `Failed to open ${fillProvider.name}`);
+        return;
+      }
+    } else {
+      navigator.clipboard.writeText(rendered);
+      useListOptions.getState().recordCopy(fillPrompt.id);
+    }
+    setCopiedPromptId(fillPrompt.id);
+    setTimeout(() => setCopiedPromptId(null), 1300);
+  };
+
   // Stable ID-based callbacks to prevent re-renders (fixes React.memo)
   const handleViewById = useCallback(
     (id: string) => {
@@ -1331,6 +1608,14 @@ function App() {
     [prompts],
   );
 
+  const handleOpenInLLMById = useCallback(
+    (id: string) => {
+      const prompt = prompts.find((p) => p.id === id);
+      if (prompt) handleOpenInLLM(prompt);
+    },
+    [prompts],
+  );
+
   // Track actual mouse movement to distinguish from layout shifts
   useEffect(() => {
     const handleGlobalMouseMove = (e: MouseEvent) => {
@@ -1367,9 +1652,99 @@ function App() {
     [isKeyboardMode, selectedIndex],
   );
 
+  // Results in the chosen view mode, under collapsible group headers when
+  // grouping; each item's index is its position in filteredPrompts
+  const renderResults = (variant: "pane" | "mobile") => {
+    const indexById = new Map(filteredPrompts.map((p, i) => [p.id, i]));
+
+    const renderPrompts = (list: Prompt[]) =>
+      viewMode === "cards" ? (
+        <div
+          className={`grid gap-3 ${variant === "pane" ? "grid-cols-2 p-3" : "grid-cols-1 p-3"}`}
+        >
+          {list.map((prompt) => {
+            const index = indexById.get(prompt.id) ?? -1;
+            return (
+              <div
+                key={prompt.id}
+                data-prompt-index={index}
+                data-selected={isKeyboardMode && index === selectedIndex}
+                onMouseEnter={() => handleMouseEnterItem(index)}
+              >
+                <PromptCard
+                  prompt={prompt}
+                  sourceLabel={sourceLabels.get(prompt.source ?? "")}
+                  isCopied={copiedPromptId === prompt.id}
+                  matches={searchMatches.get(prompt.id)}
+                  onView={handleViewById}
+                  onEdit={handleEditById}
+                  onArchive={handleArchiveById}
+                  onRestore={handleRestoreById}
+                  onCopyPrompt={handleCopyById}
+                  onOpenInLLM={handleOpenInLLMById}
+                />
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        list.map((prompt) => {
+          const index = indexById.get(prompt.id) ?? -1;
+          return (
+            <PromptListItem
+              key={prompt.id}
+              prompt={prompt}
+              sourceLabel={sourceLabels.get(prompt.source ?? "")}
+              isCopied={copiedPromptId === prompt.id}
+              matches={searchMatches.get(prompt.id)}
+              onView={handleViewById}
+              onEdit={handleEditById}
+              onArchive={handleArchiveById}
+              onRestore={handleRestoreById}
+              onCopyPrompt={handleCopyById}
+              onOpenInLLM={handleOpenInLLMById}
+              onMouseEnter={() => handleMouseEnterItem(index)}
+              variant="pane"
+              data-prompt-index={index}
+              data-selected={isKeyboardMode && index === selectedIndex}
+            />
+          );
+        })
+      );
+
+    if (!promptGroups) return renderPrompts(filteredPrompts);
+
+    return promptGroups.map((group) => {
+      const collapsed = collapsedGroups.has(group.key);
+      return (
+        <div key={group.key}>
+          <button
+            onClick={() => toggleGroup(group.key)}
+            className="sticky top-0 z-[1] flex w-full items-center gap-1.5 border-b border-border/20 bg-muted/60 px-3 py-1.5 text-left text-[11px] font-medium text-muted-foreground backdrop-blur-sm transition-colors hover:text-foreground"
+            aria-expanded={!collapsed}
+          >
+            {collapsed ? (
+              <ChevronRight className="h-3 w-3" />
+            ) : (
+              <ChevronDown className="h-3 w-3" />
+            )}
+            <span className="truncate">{group.label}</span>
+            <span className="ml-auto tabular-nums">{group.prompts.length}</span>
+          </button>
+          {!collapsed && renderPrompts(group.prompts)}
+        </div>
+      );
+    });
+  };
+
   const handleSave = async (data: Partial<Prompt>) => {
     if (editingPrompt) {
-      return await updatePrompt(editingPrompt.id, data, password || undefined);
+      return await updatePrompt(
+        editingPrompt.id,
+        data,
+        password || undefined,
+        editingPrompt,
+      );
     } else {
       return await addPrompt(
         data as Omit<Prompt, "id" | "createdAt" | "updatedAt">,
@@ -1391,23 +1766,29 @@ function App() {
         return;
       }
 
-      // Update prompt with restored content
-      await updatePrompt(
-        selectedPrompt.id,
-        {
-          content,
-        },
-        password || undefined,
-      );
-
-      // Close version history and refresh prompt
-      setVersionHistoryOpen(false);
-      setViewDialogOpen(false);
+      await handleRestoreContent(content);
     } catch (error) {
       console.error("[App] Failed to restore version:", error);
     }
   };
 
+  const handleRestoreContent = async (content: string) => {
+    if (!selectedPrompt) return;
+
+    // Update prompt with restored content
+    await updatePrompt(
+      selectedPrompt.id,
+      {
+        content,
+      },
+      password || undefined,
+    );
+
+    // Close version history and refresh prompt
+    setVersionHistoryOpen(false);
+    setViewDialogOpen(false);
+  };
+
   const handleExitPublicView = () => {
     setPublicTxId(null);
     const url = new URL(window.location.href);
@@ -1441,6 +1822,8 @@ function App() {
               description: result.prompt!.description,
               content: result.prompt!.content,
               tags: result.prompt!.tags,
+              variables: result.prompt!.variables,
+              defaultProvider: result.prompt!.defaultProvider,
             },
             password || undefined,
           );
@@ -1453,6 +1836,8 @@ function App() {
               description: result.prompt!.description,
               content: result.prompt!.content,
               tags: result.prompt!.tags,
+              variables: result.prompt!.variables,
+              defaultProvider: result.prompt!.defaultProvider,
               currentTxId: "",
               versions: [],
               isArchived: false,
@@ -1503,6 +1888,10 @@ function App() {
     return <PublicPromptView txId={publicTxId} onBack={handleExitPublicView} />;
   }
 
+  if (databaseStatus === "failed") {
+    return <DatabaseErrorScreen />;
+  }
+
   if (!connected) {
     // Show loading spinner while initializing
     return (
@@ -1585,6 +1974,22 @@ function App() {
               </Tooltip>
             </TooltipProvider>
 
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setPacksOpen(true)}
+                  >
+                    <Package className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Packs</TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+
+            <ConflictsButton />
             <SyncButton />
             <ComingSoonButton
               open={comingSoonOpen}
@@ -1615,9 +2020,11 @@ function App() {
             </h1>
           </div>
           <div className="flex items-center gap-1">
+            <ConflictsButton />
             <SyncButton />
             <MobileMenu
               onUploadClick={() => setUploadDialogOpen(true)}
+              onPacksClick={() => setPacksOpen(true)}
               onWhatsNextClick={() => setComingSoonOpen(true)}
             />
           </div>
@@ -1626,7 +2033,7 @@ function App() {
 
       {/* Main Content - Search Engine Style */}
       <main
-        className={`min-h-screen px-4 sm:px-6 lg:px-10 pb-[calc(11rem+env(safe-area-inset-bottom))] sm:pb-6 flex justify-center transition-[padding] duration-300 ease-out ${filteredPrompts.length > 0 ? "pt-20 sm:pt-[20vh] lg:pt-[33vh]" : "pt-24 sm:pt-[25vh] lg:pt-[38vh]"}`}
+        className={`min-h-screen px-4 sm:px-6 lg:px-10 pb-[calc(11rem+env(safe-area-inset-bottom))] sm:pb-6 flex justify-center transition-[padding] duration-300 ease-out ${matchingPrompts.length > 0 ? "pt-20 sm:pt-[20vh] lg:pt-[33vh]" : "pt-24 sm:pt-[25vh] lg:pt-[38vh]"}`}
       >
         <div className="w-full max-w-2xl">
           {/* Search Container - Logo + Search + Results */}
@@ -1659,11 +2066,29 @@ function App() {
                 onCreateNew={handleCreateNew}
                 connectedBottom={
                   !loading &&
-                  (filteredPrompts.length > 0 || showArchived || showDuplicates)
+                  (matchingPrompts.length > 0 ||
+                    showArchived ||
+                    showDuplicates ||
+                    !!similarTo)
                 }
               />
 
               {/* Status Indicators */}
+              {similarTo && (
+                <div className="flex items-center gap-2 bg-primary/5 px-4 py-1.5 text-xs border-t border-border/30">
+                  <Sparkles className="h-3 w-3 text-primary" />
+                  <span className="font-medium truncate">
+                    Similar to {similarTo.prompt.title}
+                  </span>
+                  <button
+                    onClick={() => setSimilarTo(null)}
+                    className="ml-auto rounded-full p-0.5 text-muted-foreground transition-colors hover:text-foreground"
+                    title="Back to search results"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              )}
               {showArchived && (
                 <div className="flex items-center gap-2 bg-card/80 px-4 py-2.5 text-xs border-t border-border/30">
                   <ArchiveIcon className="h-3 w-3 text-muted-foreground" />
@@ -1680,39 +2105,25 @@ function App() {
               )}
 
               {/* Results Section - Scrollable */}
-              {filteredPrompts.length > 0 && (
+              {matchingPrompts.length > 0 && (
                 <div
                   className="bg-[#faf8fc] dark:bg-card border-t border-border/30"
                   data-keyboard-mode={isKeyboardMode}
                 >
-                  <div className="max-h-[300px] overflow-y-auto">
-                    {filteredPrompts.map((prompt, index) => (
-                      <PromptListItem
-                        key={prompt.id}
-                        prompt={prompt}
-                        isCopied={copiedPromptId === prompt.id}
-                        onView={handleViewById}
-                        onEdit={handleEditById}
-                        onArchive={handleArchiveById}
-                        onRestore={handleRestoreById}
-                        onCopyPrompt={handleCopyById}
-                        onMouseEnter={() => handleMouseEnterItem(index)}
-                        variant="pane"
-                        data-prompt-index={index}
-                        data-selected={
-                          isKeyboardMode && index === selectedIndex
-                        }
-                      />
-                    ))}
+                  <PromptListControls className="px-2 py-1 border-b border-border/20 bg-muted/20" />
+                  <div
+                    className={`${viewMode === "cards" ? "max-h-[520px]" : "max-h-[300px]"} overflow-y-auto`}
+                  >
+                    {renderResults("pane")}
                   </div>
                   <div className="px-3 py-1.5 text-center text-[11px] text-muted-foreground border-t border-border/20 bg-muted/20">
-                    {filteredPrompts.length}{" "}
-                    {filteredPrompts.length === 1 ? "prompt" : "prompts"}
+                    {matchingPrompts.length}{" "}
+                    {matchingPrompts.length === 1 ? "prompt" : "prompts"}
                     {(() => {
                       const totalActive = prompts.filter(
                         (p) => !p.isArchived,
                       ).length;
-                      return filteredPrompts.length !== totalActive &&
+                      return matchingPrompts.length !== totalActive &&
                         !showArchived
                         ? ` of ${totalActive}`
                         : "";
@@ -1724,34 +2135,18 @@ function App() {
 
             {/* Mobile Results */}
             <div className="sm:hidden mt-4">
-              {filteredPrompts.length > 0 && (
+              {matchingPrompts.length > 0 && (
                 <>
+                  <PromptListControls className="mb-2 px-1" />
                   <div
                     className="bg-card rounded-3xl overflow-hidden shadow-soft-lg"
                     data-keyboard-mode={isKeyboardMode}
                   >
-                    {filteredPrompts.map((prompt, index) => (
-                      <PromptListItem
-                        key={prompt.id}
-                        prompt={prompt}
-                        isCopied={copiedPromptId === prompt.id}
-                        onView={handleViewById}
-                        onEdit={handleEditById}
-                        onArchive={handleArchiveById}
-                        onRestore={handleRestoreById}
-                        onCopyPrompt={handleCopyById}
-                        onMouseEnter={() => handleMouseEnterItem(index)}
-                        variant="pane"
-                        data-prompt-index={index}
-                        data-selected={
-                          isKeyboardMode && index === selectedIndex
-                        }
-                      />
-                    ))}
+                    {renderResults("mobile")}
                   </div>
                   <div className="mt-4 text-center text-xs text-muted-foreground">
-                    {filteredPrompts.length}{" "}
-                    {filteredPrompts.length === 1 ? "prompt" : "prompts"}
+                    {matchingPrompts.length}{" "}
+                    {matchingPrompts.length === 1 ? "prompt" : "prompts"}
                   </div>
                 </>
               )}
@@ -1801,6 +2196,18 @@ function App() {
           setViewDialogOpen(false);
           setVersionHistoryOpen(true);
         }}
+        onMoreLikeThis={() => void handleMoreLikeThis(selectedPrompt!)}
+      />
+
+      <VariableFillDialog
+        open={fillPrompt !== null}
+        onOpenChange={(open) => {
+          if (!open) setFillPrompt(null);
+        }}
+        prompt={fillPrompt}
+        onSubmit={handleFillSubmit}
+        submitLabel={fillProvider ? `Open in ${fillProvider.name}` : "Copy"}
+        submitIcon={fillProvider ? Send : Copy}
       />
 
       <PromptEditor
@@ -1815,6 +2222,11 @@ function App() {
         onOpenChange={setVersionHistoryOpen}
         prompt={selectedPrompt}
         onRestoreVersion={handleRestoreVersion}
+        onRestoreContent={(content) => {
+          handleRestoreContent(content).catch((error) =>
+            console.error("[App] Failed to restore commit:", error),
+          );
+        }}
         password={password || undefined}
       />
 
@@ -1839,6 +2251,20 @@ function App() {
         onCancel={() => setPasswordUnlockOpen(false)}
       />
 
+      <ConflictsDialog />
+
+      <PacksDialog
+        open={packsOpen}
+        onOpenChange={setPacksOpen}
+        importToken={packShareToken}
+        onImportTokenHandled={() => {
+          setPackShareToken(null);
+          const url = new URL(window.location.href);
+          url.searchParams.delete("pack");
+          window.history.replaceState({}, "", url.pathname + url.search);
+        }}
+      />
+
       <HotkeysDialog open={hotkeysOpen} onOpenChange={setHotkeysOpen} />
     </div>
   );
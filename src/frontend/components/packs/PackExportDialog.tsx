@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react';
+import type { FormEvent } from 'react';
+import { Package, Download } from 'lucide-react';
+import { Dialog, DialogBody, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/frontend/components/ui/dialog';
+import { Button } from '@/frontend/components/ui/button';
+import { Input } from '@/frontend/components/ui/input';
+import { Textarea } from '@/frontend/components/ui/textarea';
+import { Label } from '@/frontend/components/ui/label';
+import { createPackFile, getPackFileName, serializePack, validatePack } from '@/core/packs/pack';
+import type { Prompt } from '@/shared/types/prompt';
+
+interface PackExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  prompts: Prompt[];
+  defaultName?: string;
+  defaultDescription?: string;
+}
+
+/**
+ * Collect pack metadata and download the given prompts as a pack file
+ */
+export function PackExportDialog({
+  open,
+  onOpenChange,
+  prompts,
+  defaultName = '',
+  defaultDescription = '',
+}: PackExportDialogProps) {
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState(defaultDescription);
+  const [author, setAuthor] = useState('');
+  const [version, setVersion] = useState('1.0.0');
+  const [license, setLicense] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+      setDescription(defaultDescription);
+      setErrors([]);
+    }
+  }, [open, defaultName, defaultDescription]);
+
+  const handleExport = (e: FormEvent) => {
+    e.preventDefault();
+
+    const pack = createPackFile(prompts, {
+      name: name.trim(),
+      version: version.trim(),
+      ...(description.trim() ? { description: description.trim() } : {}),
+      ...(author.trim() ? { author: author.trim() } : {}),
+      ...(license.trim() ? { license: license.trim() } : {}),
+    });
+
+    // Never write a file our own importer would reject
+    const result = validatePack(pack);
+    if (!result.valid) {
+      setErrors(result.errors);
+      return;
+    }
+
+    const blob = new Blob([serializePack(pack)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = getPackFileName(pack);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="md">
+        <DialogHeader className="text-left border-b">
+          <DialogTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5 text-primary" />
+            Export as Pack
+          </DialogTitle>
+          <DialogDescription>
+            {prompts.length} prompt{prompts.length !== 1 ? 's' : ''} will be bundled into a shareable pack file
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleExport}>
+          <DialogBody className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="pack-name">Name</Label>
+              <Input id="pack-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="The Senior React Dev Pack" autoFocus />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pack-description">Description</Label>
+              <Textarea id="pack-description" value={description} onChange={(e) => setDescription(e.target.value)} className="min-h-[60px]" />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="pack-author">Author</Label>
+                <Input id="pack-author" value={author} onChange={(e) => setAuthor(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pack-version">Version</Label>
+                <Input id="pack-version" value={version} onChange={(e) => setVersion(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pack-license">License</Label>
+                <Input id="pack-license" value={license} onChange={(e) => setLicense(e.target.value)} placeholder="CC-BY-4.0" />
+              </div>
+            </div>
+            {errors.length > 0 && (
+              <ul className="list-disc pl-5 text-xs text-destructive">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+          </DialogBody>
+
+          <DialogFooter className="flex-row justify-end border-t">
+            <Button type="button" variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" className="gap-2" disabled={prompts.length === 0}>
+              <Download className="h-4 w-4" />
+              Download Pack
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Package, AlertCircle, Loader2 } from 'lucide-react';
+import { Dialog, DialogBody, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/frontend/components/ui/dialog';
+import { Button } from '@/frontend/components/ui/button';
+import { Badge } from '@/frontend/components/ui/badge';
+import { usePrompts } from '@/frontend/hooks/usePrompts';
+import { parsePack, PackValidationError } from '@/core/packs/pack';
+import type { PackFile } from '@/core/packs/pack';
+import { buildPackImportPlan, summarizePackImport } from '@/core/packs/importPlan';
+import type { PackConflictReason, PackConflictResolution, PackImportItem } from '@/core/packs/importPlan';
+import type { Prompt } from '@/shared/types/prompt';
+
+interface PackImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Raw pack file contents */
+  source: string | null;
+  fileName?: string;
+  onImported?: (count: number) => void;
+}
+
+const REASON_LABELS: Record<PackConflictReason, string> = {
+  'same-id': 'Already imported',
+  'exact-title': 'Same title',
+  'similar-title': 'Similar title',
+  'exact-content': 'Same content',
+};
+
+/**
+ * Preview a pack file and import it, resolving conflicts per prompt
+ */
+export function PackImportDialog({ open, onOpenChange, source, fileName, onImported }: PackImportDialogProps) {
+  const { addPrompt, updatePrompt } = usePrompts();
+  const [items, setItems] = useState<PackImportItem[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Parse once per file; validation errors are shown instead of the preview
+  const parsed = useMemo((): { pack: PackFile | null; errors: string[] } => {
+    if (!source) return { pack: null, errors: [] };
+    try {
+      return { pack: parsePack(source), errors: [] };
+    } catch (error) {
+      const errors = error instanceof PackValidationError
+        ? error.errors
+        : [error instanceof Error ? error.message : 'Failed to read pack'];
+      return { pack: null, errors };
+    }
+  }, [source]);
+
+  // Build the plan when the dialog opens (not on every library change mid-import)
+  useEffect(() => {
+    if (!open || !parsed.pack) {
+      setItems([]);
+      return;
+    }
+    setItems(buildPackImportPlan(parsed.pack, usePrompts.getState().prompts));
+  }, [open, parsed.pack]);
+
+  const summary = summarizePackImport(items);
+  const { pack, errors } = parsed;
+
+  const setResolution = (index: number, resolution: PackConflictResolution) => {
+    setItems(prev => prev.map(item => (item.index === index ? { ...item, resolution } : item)));
+  };
+
+  const setAllResolutions = (resolution: PackConflictResolution) => {
+    setItems(prev => prev.map(item => (item.resolution === null ? item : { ...item, resolution })));
+  };
+
+  const handleImport = async () => {
+    if (!pack) return;
+    setIsImporting(true);
+
+    let imported = 0;
+    try {
+      for (const item of items) {
+        if (item.resolution === 'skip') continue;
+
+        const data = {
+          title: item.prompt.title,
+          description: item.prompt.description ?? '',
+          content: item.prompt.content,
+          tags: item.prompt.tags ?? [],
+          variables: item.prompt.variables,
+        };
+
+        const success = item.resolution === 'overwrite'
+          ? await updatePrompt(item.conflicts[0].id, data)
+          : await addPrompt({
+              ...data,
+              currentTxId: '',
+              versions: [],
+              isArchived: false,
+              isSynced: false,
+            } as Omit<Prompt, 'id' | 'createdAt' | 'updatedAt'>);
+        if (success) imported++;
+      }
+
+      onImported?.(imported);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Pack import failed:', error);
+      alert(`Pack import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const conflictCount = items.filter(item => item.resolution !== null).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="xl" className="flex max-h-[88vh] flex-col">
+        <DialogHeader className="text-left border-b">
+          <DialogTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5 text-primary" />
+            {pack ? pack.name : 'Import Pack'}
+          </DialogTitle>
+          <DialogDescription>
+            {pack
+              ? [
+                  `v${pack.version}`,
+                  pack.author && `by ${pack.author}`,
+                  pack.license,
+                  `${pack.prompts.length} prompt${pack.prompts.length !== 1 ? 's' : ''}`,
+                ].filter(Boolean).join(' · ')
+              : fileName}
+          </DialogDescription>
+          {pack?.description && (
+            <p className="text-sm text-foreground/70">{pack.description}</p>
+          )}
+        </DialogHeader>
+
+        <DialogBody className="flex-1 min-h-0 overflow-y-auto space-y-3">
+          {errors.length > 0 && (
+            <div className="rounded-lg border border-destructive/30 bg-destructive/10 p-4 space-y-1">
+              <div className="flex items-center gap-2 text-sm font-medium text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                This file is not a valid prompt pack
+              </div>
+              <ul className="list-disc pl-6 text-xs text-destructive">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {conflictCount > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+              <span>{conflictCount} prompt{conflictCount !== 1 ? 's' : ''} conflict with your library</span>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => setAllResolutions('skip')}>Skip all</Button>
+                <Button variant="ghost" size="sm" onClick={() => setAllResolutions('overwrite')}>Overwrite all</Button>
+                <Button variant="ghost" size="sm" onClick={() => setAllResolutions('keep-both')}>Keep all</Button>
+              </div>
+            </div>
+          )}
+
+          {items.map(item => (
+            <div
+              key={item.index}
+              className={`rounded-lg border p-3 ${item.resolution !== null ? 'border-amber-500/50 bg-amber-500/5' : 'border-border'}`}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                  <h4 className="font-medium truncate">{item.prompt.title}</h4>
+                  {item.prompt.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-1 mt-0.5">{item.prompt.description}</p>
+                  )}
+                  {item.prompt.tags && item.prompt.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1.5">
+                      {item.prompt.tags.map(tag => (
+                        <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                      ))}
+                    </div>
+                  )}
+                  {item.reason && (
+                    <p className="mt-1.5 text-xs text-amber-700 dark:text-amber-300">
+                      {REASON_LABELS[item.reason]}: {item.conflicts.map(p => p.title).join(', ')}
+                    </p>
+                  )}
+                </div>
+                {item.resolution !== null ? (
+                  <select
+                    value={item.resolution}
+                    onChange={(e) => setResolution(item.index, e.target.value as PackConflictResolution)}
+                    className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                  >
+                    <option value="skip">Skip</option>
+                    <option value="overwrite">Overwrite</option>
+                    <option value="keep-both">Keep both</option>
+                  </select>
+                ) : (
+                  <Badge variant="secondary" className="text-xs">New</Badge>
+                )}
+              </div>
+            </div>
+          ))}
+        </DialogBody>
+
+        <DialogFooter className="flex-row items-center justify-between border-t">
+          <span className="text-xs text-muted-foreground">
+            {pack && `${summary.create} new · ${summary.overwrite} overwritten · ${summary.skip} skipped`}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleImport}
+              disabled={!pack || isImporting || summary.create + summary.overwrite === 0}
+              className="gap-2"
+            >
+              {isImporting && <Loader2 className="h-4 w-4 animate-spin" />}
+              Import {summary.create + summary.overwrite} Prompt{summary.create + summary.overwrite !== 1 ? 's' : ''}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,368 @@
+import { useState, useEffect } from 'react';
+import type { FormEvent } from 'react';
+import { Package, Plus, Trash2, ArrowUp, ArrowDown, X, Link2, Link2Off, Download, Check, Loader2 } from 'lucide-react';
+import { Dialog, DialogBody, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/frontend/components/ui/dialog';
+import { Button } from '@/frontend/components/ui/button';
+import { Input } from '@/frontend/components/ui/input';
+import { Textarea } from '@/frontend/components/ui/textarea';
+import { Label } from '@/frontend/components/ui/label';
+import { usePacks } from '@/frontend/hooks/usePacks';
+import { usePrompts } from '@/frontend/hooks/usePrompts';
+import { useIsAttachedDirectoryMode } from '@/frontend/hooks/useSyncMode';
+import { PackExportDialog } from '@/frontend/components/packs/PackExportDialog';
+import type { Pack } from '@/shared/interfaces/StorageBackend';
+import type { Prompt } from '@/shared/types/prompt';
+import { cn } from '@/shared/utils/cn';
+
+interface PacksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Share token from a `?pack=` link, offered for import */
+  importToken?: string | null;
+  onImportTokenHandled?: () => void;
+}
+
+const DEFAULT_COVER_COLOR = '#6366f1';
+
+function getShareUrl(token: string): string {
+  return `${window.location.origin}?pack=${token}`;
+}
+
+/**
+ * Square cover for a pack: image if set, otherwise its accent color
+ */
+function PackCover({ pack, className }: { pack: Pack; className?: string }) {
+  return (
+    <div
+      className={cn('flex flex-shrink-0 items-center justify-center rounded-lg bg-cover bg-center text-white', className)}
+      style={{
+        backgroundColor: pack.coverColor || DEFAULT_COVER_COLOR,
+        backgroundImage: pack.coverImage ? `url("${pack.coverImage}")` : undefined,
+      }}
+    >
+      {!pack.coverImage && <Package className="h-1/2 w-1/2 opacity-80" />}
+    </div>
+  );
+}
+
+/**
+ * Browse, build, reorder, share and export packs
+ */
+export function PacksDialog({ open, onOpenChange, importToken, onImportTokenHandled }: PacksDialogProps) {
+  const {
+    packs,
+    loading,
+    error,
+    loadPacks,
+    createPack,
+    updatePack,
+    deletePack,
+    addPromptsToPack,
+    removePromptsFromPack,
+    reorderPackPrompts,
+    sharePack,
+    unsharePack,
+    importPack,
+  } = usePacks();
+  const { prompts, loadPrompts } = usePrompts();
+  const isDirectoryMode = useIsAttachedDirectoryMode();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [promptFilter, setPromptFilter] = useState('');
+  const [exportOpen, setExportOpen] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (open && !isDirectoryMode) {
+      loadPacks();
+    }
+  }, [open, isDirectoryMode, loadPacks]);
+
+  const selectedPack = packs.find(p => p.id === selectedId) ?? packs[0] ?? null;
+  const promptsById = new Map(prompts.map(p => [p.id, p]));
+  const packPrompts = selectedPack
+    ? selectedPack.promptIds.map(id => promptsById.get(id)).filter((p): p is Prompt => !!p)
+    : [];
+  const filter = promptFilter.trim().toLowerCase();
+  const availablePrompts = selectedPack
+    ? prompts.filter(p =>
+        !p.isArchived &&
+        !selectedPack.promptIds.includes(p.id) &&
+        (!filter || p.title.toLowerCase().includes(filter))
+      )
+    : [];
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const pack = await createPack({ name: newName.trim(), description: '', promptIds: [] });
+    if (pack) {
+      setSelectedId(pack.id);
+      setNewName('');
+    }
+  };
+
+  const handleDelete = async (pack: Pack) => {
+    if (confirm(`Delete the pack "${pack.name}"? Its prompts stay in your library.`)) {
+      await deletePack(pack.id);
+      setSelectedId(null);
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    if (!selectedPack) return;
+    const ids = packPrompts.map(p => p.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderPackPrompts(selectedPack.id, ids);
+  };
+
+  const handleCopyLink = async (pack: Pack) => {
+    const token = pack.shareToken ?? await sharePack(pack.id);
+    if (!token) return;
+    await navigator.clipboard.writeText(getShareUrl(token));
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const handleImportShared = async () => {
+    if (!importToken) return;
+    setIsImporting(true);
+    const pack = await importPack(importToken);
+    setIsImporting(false);
+    if (pack) {
+      setSelectedId(pack.id);
+      onImportTokenHandled?.();
+      // The copied prompts are new library entries
+      await loadPrompts();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="xl" className="flex max-h-[88vh] flex-col">
+        <DialogHeader className="text-left border-b">
+          <DialogTitle className="flex items-center gap-2">
+            <Package className="h-5 w-5 text-primary" />
+            Packs
+          </DialogTitle>
+          <DialogDescription>
+            Curated, ordered bundles of prompts. Removing a prompt from a pack or deleting a pack never deletes the prompt.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isDirectoryMode ? (
+          <DialogBody>
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              Packs are stored in the app database and aren't available while a directory is attached.
+            </p>
+          </DialogBody>
+        ) : (
+          <DialogBody className="flex min-h-0 flex-1 flex-col gap-4 sm:flex-row">
+            {/* Pack list */}
+            <div className="flex flex-col gap-3 sm:w-56 sm:flex-shrink-0">
+              {importToken && (
+                <div className="rounded-lg border border-primary/40 bg-primary/5 p-3 space-y-2">
+                  <p className="text-sm">Someone shared a pack with you.</p>
+                  <Button size="sm" className="w-full gap-2" onClick={handleImportShared} disabled={isImporting}>
+                    {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                    Import shared pack
+                  </Button>
+                </div>
+              )}
+
+              <form onSubmit={handleCreate} className="flex gap-2">
+                <Input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New pack name" className="h-8" />
+                <Button type="submit" size="sm" variant="outline" className="h-8 px-2" disabled={!newName.trim()} title="Create pack">
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </form>
+
+              <div className="min-h-0 flex-1 space-y-1 overflow-y-auto">
+                {loading && packs.length === 0 && (
+                  <p className="px-2 text-sm text-muted-foreground">Loading packs…</p>
+                )}
+                {!loading && packs.length === 0 && (
+                  <p className="px-2 text-sm text-muted-foreground">No packs yet.</p>
+                )}
+                {packs.map(pack => (
+                  <button
+                    key={pack.id}
+                    type="button"
+                    onClick={() => setSelectedId(pack.id)}
+                    className={cn(
+                      'flex w-full items-center gap-3 rounded-lg px-2 py-2 text-left transition-colors',
+                      selectedPack?.id === pack.id ? 'bg-primary/10' : 'hover:bg-muted'
+                    )}
+                  >
+                    <PackCover pack={pack} className="h-9 w-9" />
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate text-sm font-medium">{pack.name}</div>
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        {pack.promptIds.length} prompt{pack.promptIds.length !== 1 ? 's' : ''}
+                        {pack.shareToken && <Link2 className="h-3 w-3" />}
+                      </div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </div>
+
+            {/* Pack details */}
+            {selectedPack && (
+              <div className="min-h-0 flex-1 space-y-4 overflow-y-auto sm:border-l sm:pl-4">
+                <div key={selectedPack.id} className="flex gap-4">
+                  <PackCover pack={selectedPack} className="h-20 w-20" />
+                  <div className="flex-1 space-y-2">
+                    <Input
+                      defaultValue={selectedPack.name}
+                      onBlur={(e) => {
+                        const name = e.target.value.trim();
+                        if (name && name !== selectedPack.name) updatePack(selectedPack.id, { name });
+                      }}
+                      className="h-8 font-medium"
+                      aria-label="Pack name"
+                    />
+                    <Textarea
+                      defaultValue={selectedPack.description}
+                      onBlur={(e) => {
+                        if (e.target.value !== selectedPack.description) updatePack(selectedPack.id, { description: e.target.value });
+                      }}
+                      placeholder="Description"
+                      className="min-h-[52px] text-sm"
+                      aria-label="Pack description"
+                    />
+                  </div>
+                </div>
+
+                <div key={`${selectedPack.id}-cover`} className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2">
+                  <Label htmlFor="pack-cover-color" className="text-xs">Cover color</Label>
+                  <input
+                    id="pack-cover-color"
+                    type="color"
+                    defaultValue={selectedPack.coverColor || DEFAULT_COVER_COLOR}
+                    onBlur={(e) => {
+                      if (e.target.value !== selectedPack.coverColor) updatePack(selectedPack.id, { coverColor: e.target.value });
+                    }}
+                    className="h-7 w-12 cursor-pointer rounded border border-input bg-background"
+                  />
+                  <Label htmlFor="pack-cover-image" className="text-xs">Cover image</Label>
+                  <Input
+                    id="pack-cover-image"
+                    defaultValue={selectedPack.coverImage ?? ''}
+                    onBlur={(e) => {
+                      const coverImage = e.target.value.trim();
+                      if (coverImage !== (selectedPack.coverImage ?? '')) updatePack(selectedPack.id, { coverImage });
+                    }}
+                    placeholder="https://…"
+                    className="h-8 text-sm"
+                  />
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" variant="outline" className="gap-2" onClick={() => handleCopyLink(selectedPack)}>
+                    {linkCopied ? <Check className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+                    {linkCopied ? 'Link copied' : selectedPack.shareToken ? 'Copy share link' : 'Share'}
+                  </Button>
+                  {selectedPack.shareToken && (
+                    <Button size="sm" variant="ghost" className="gap-2" onClick={() => unsharePack(selectedPack.id)}>
+                      <Link2Off className="h-4 w-4" />
+                      Stop sharing
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-2"
+                    onClick={() => setExportOpen(true)}
+                    disabled={packPrompts.length === 0}
+                  >
+                    <Download className="h-4 w-4" />
+                    Export
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="ml-auto gap-2 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDelete(selectedPack)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete pack
+                  </Button>
+                </div>
+
+                {/* Ordered prompts */}
+                <div className="space-y-1">
+                  <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    Prompts
+                  </h3>
+                  {packPrompts.length === 0 && (
+                    <p className="text-sm text-muted-foreground">Add prompts from your library below.</p>
+                  )}
+                  {packPrompts.map((prompt, index) => (
+                    <div key={prompt.id} className="flex items-center gap-2 rounded-lg border border-border/70 px-3 py-1.5">
+                      <span className="w-5 text-xs text-muted-foreground">{index + 1}</span>
+                      <span className="flex-1 truncate text-sm">{prompt.title}</span>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleMove(index, -1)} disabled={index === 0} title="Move up">
+                        <ArrowUp className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleMove(index, 1)} disabled={index === packPrompts.length - 1} title="Move down">
+                        <ArrowDown className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                        onClick={() => removePromptsFromPack(selectedPack.id, [prompt.id])}
+                        title="Remove from pack"
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Library picker */}
+                <div className="space-y-2 border-t pt-3">
+                  <Input
+                    value={promptFilter}
+                    onChange={(e) => setPromptFilter(e.target.value)}
+                    placeholder="Add prompts: filter by title"
+                    className="h-8 text-sm"
+                  />
+                  <div className="max-h-48 space-y-0.5 overflow-y-auto">
+                    {availablePrompts.slice(0, 50).map(prompt => (
+                      <button
+                        key={prompt.id}
+                        type="button"
+                        onClick={() => addPromptsToPack(selectedPack.id, [prompt.id])}
+                        className="flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-sm hover:bg-muted"
+                      >
+                        <Plus className="h-3.5 w-3.5 text-muted-foreground" />
+                        <span className="truncate">{prompt.title}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+          </DialogBody>
+        )}
+      </DialogContent>
+
+      {selectedPack && (
+        <PackExportDialog
+          open={exportOpen}
+          onOpenChange={setExportOpen}
+          prompts={packPrompts}
+          defaultName={selectedPack.name}
+          defaultDescription={selectedPack.description}
+        />
+      )}
+    </Dialog>
+  );
+}
@@ -0,0 +1,217 @@
+/**
+ * GitHistory - Commits touching a prompt's file
+ *
+ * Shown in VersionHistory when the prompt's attached directory is a git
+ * repository. A commit can be compared with the one before it, the current
+ * content or any other commit, and restored.
+ */
+
+import { Button } from '@/frontend/components/ui/button';
+import { Badge } from '@/frontend/components/ui/badge';
+import { getStorageBackend } from '@/frontend/hooks/usePrompts';
+import type { Prompt } from '@/shared/types/prompt';
+import type { FileRevision } from '@/shared/interfaces/StorageBackend';
+import { useEffect, useRef, useState } from 'react';
+import { Eye, GitCommitHorizontal } from 'lucide-react';
+
+/** Compare with the prompt's current content */
+const CURRENT = 'current';
+
+interface GitHistoryProps {
+  prompt: Prompt;
+  onRestore: (content: string, revision: FileRevision) => void;
+}
+
+interface Comparison {
+  content: string;
+  compared?: string;
+}
+
+export function GitHistory({ prompt, onRestore }: GitHistoryProps) {
+  const [revisions, setRevisions] = useState<FileRevision[]>([]);
+  const [selectedHash, setSelectedHash] = useState<string | null>(null);
+  // Hash of the commit compared against, CURRENT, or '' for none
+  const [compareTo, setCompareTo] = useState('');
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Cache for fetched commit content
+  const contentCacheRef = useRef<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    const history = getStorageBackend().history;
+    if (!history) return;
+
+    let cancelled = false;
+    history.getFileHistory(prompt.id)
+      .then((list) => {
+        if (!cancelled) setRevisions(list);
+      })
+      .catch((error) => console.warn('[GitHistory] Failed to load commits:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [prompt.id]);
+
+  if (revisions.length === 0) return null;
+
+  const getContent = async (hash: string): Promise<string> => {
+    if (hash === CURRENT) return prompt.content;
+
+    const cache = contentCacheRef.current;
+    const cached = cache.get(hash);
+    if (cached !== undefined) return cached;
+
+    const revision = revisions.find(r => r.hash === hash);
+    const history = getStorageBackend().history;
+    if (!revision || !history) throw new Error(`Unknown commit ${hash}`);
+    const content = await history.getRevisionContent(prompt.id, revision);
+    cache.set(hash, content);
+    return content;
+  };
+
+  const showCommit = async (hash: string, against: string) => {
+    setSelectedHash(hash);
+    setCompareTo(against);
+    setLoading(true);
+    try {
+      const [content, compared] = await Promise.all([
+        getContent(hash),
+        against ? getContent(against) : undefined,
+      ]);
+      setComparison({ content, compared });
+    } catch (error) {
+      console.error('Failed to load commit:', error);
+      setComparison(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleView = (index: number) => {
+    const { hash } = revisions[index];
+    if (selectedHash === hash) {
+      setSelectedHash(null);
+      setComparison(null);
+      return;
+    }
+    // Compare with the commit before it by default
+    void showCommit(hash, revisions[index + 1]?.hash ?? '');
+  };
+
+  const handleRestore = async (revision: FileRevision) => {
+    try {
+      onRestore(await getContent(revision.hash), revision);
+    } catch (error) {
+      console.error('Failed to restore commit:', error);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <GitCommitHorizontal className="h-4 w-4" />
+        Git commits
+      </div>
+
+      {revisions.map((revision, index) => (
+        <div key={revision.hash} className="border rounded-lg p-4 space-y-3">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="truncate font-medium">{revision.subject || '(no message)'}</span>
+                <Badge variant="outline" className="font-mono">{revision.hash.slice(0, 7)}</Badge>
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {revision.author} · {formatDate(revision.timestamp)}
+              </div>
+            </div>
+
+            <div className="flex flex-shrink-0 gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleView(index)}
+                disabled={loading}
+              >
+                <Eye className="mr-1 h-3 w-3" />
+                {selectedHash === revision.hash ? 'Hide' : 'View'}
+              </Button>
+              <Button size="sm" variant="default" onClick={() => handleRestore(revision)}>
+                Restore
+              </Button>
+            </div>
+          </div>
+
+          {selectedHash === revision.hash && comparison && (
+            <div className="mt-3 space-y-2">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <label htmlFor={`compare-${revision.hash}`}>Compare with</label>
+                <select
+                  id={`compare-${revision.hash}`}
+                  className="h-7 rounded-md border border-input bg-background px-2 text-xs"
+                  value={compareTo}
+                  disabled={loading}
+                  onChange={(e) => void showCommit(revision.hash, e.target.value)}
+                >
+                  <option value="">Nothing</option>
+                  <option value={CURRENT}>Current content</option>
+                  {revisions.filter(r => r.hash !== revision.hash).map(r => (
+                    <option key={r.hash} value={r.hash}>
+                      {r.hash.slice(0, 7)} {r.subject}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {comparison.compared === undefined ? (
+                <div className="rounded-md border bg-muted/50 p-3 max-h-60 overflow-y-auto">
+                  <pre className="whitespace-pre-wrap font-mono text-xs">{comparison.content}</pre>
+                </div>
+              ) : comparison.compared === comparison.content ? (
+                <div className="rounded-md border border-blue-500/30 bg-blue-500/10 p-3 text-xs text-blue-700 dark:text-blue-300">
+                  No content changes
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <div className="text-xs text-muted-foreground">
+                      {compareTo === CURRENT ? 'Current:' : `${compareTo.slice(0, 7)}:`}
+                    </div>
+                    <div className="rounded-md border bg-red-500/5 p-2 max-h-48 overflow-y-auto">
+                      <pre className="whitespace-pre-wrap font-mono text-xs text-muted-foreground">
+                        {comparison.compared}
+                      </pre>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="text-xs text-muted-foreground">This commit:</div>
+                    <div className="rounded-md border bg-green-500/5 p-2 max-h-48 overflow-y-auto">
+                      <pre className="whitespace-pre-wrap font-mono text-xs">{comparison.content}</pre>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {selectedHash === revision.hash && !comparison && !loading && (
+            <div className="mt-3 rounded-md border border-red-600/30 bg-red-500/10 p-3 text-sm text-red-700 dark:text-red-300">
+              Failed to load commit content
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Send, ChevronDown, Check, Settings } from 'lucide-react';
+import { Button } from '@/frontend/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/frontend/components/ui/dropdown-menu';
+import { LLMProvidersDialog } from '@/frontend/components/shared/LLMProvidersDialog';
+import { useLLMProviders } from '@/frontend/hooks/useLLMProviders';
+import { getAllProviders, resolveProvider } from '@/core/llm/providers';
+import type { Prompt } from '@/shared/types/prompt';
+
+interface OpenInLLMMenuProps {
+  prompt: Prompt;
+  onOpen: (providerId: string) => void;
+  onSetDefault: (providerId: string) => void;
+}
+
+/**
+ * Split button: opens the prompt in its default provider, with a menu to pick
+ * another provider or change this prompt's default
+ */
+export function OpenInLLMMenu({ prompt, onOpen, onSetDefault }: OpenInLLMMenuProps) {
+  const { customProviders, defaultProviderId } = useLLMProviders();
+  const [providersDialogOpen, setProvidersDialogOpen] = useState(false);
+
+  const providers = getAllProviders(customProviders);
+  const current = resolveProvider(providers, prompt.defaultProvider, defaultProviderId);
+  const hasOwnDefault = providers.some(p => p.id === prompt.defaultProvider);
+
+  return (
+    <div className="flex items-center">
+      <Button
+        variant="outline"
+        onClick={() => onOpen(current.id)}
+        size="sm"
+        className="gap-2 rounded-r-none"
+        title={`Open in ${current.name} (o)`}
+      >
+        <Send className="h-4 w-4" />
+        <span className="hidden sm:inline">Open in {current.name}</span>
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="px-2 rounded-l-none border-l-0" title="Choose provider">
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Open in</DropdownMenuLabel>
+          {providers.map(provider => (
+            <DropdownMenuItem key={provider.id} onClick={() => onOpen(provider.id)}>
+              <span className="flex-1">{provider.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Default for this prompt</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-48">
+              <DropdownMenuItem onClick={() => onSetDefault('')}>
+                <span className="flex-1">Global default</span>
+                {!hasOwnDefault && <Check className="h-4 w-4" />}
+              </DropdownMenuItem>
+              {providers.map(provider => (
+                <DropdownMenuItem key={provider.id} onClick={() => onSetDefault(provider.id)}>
+                  <span className="flex-1">{provider.name}</span>
+                  {hasOwnDefault && provider.id === prompt.defaultProvider && <Check className="h-4 w-4" />}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuItem onClick={() => setProvidersDialogOpen(true)}>
+            <Settings className="mr-2 h-4 w-4" />
+            <span>Manage providers…</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <LLMProvidersDialog open={providersDialogOpen} onOpenChange={setProvidersDialogOpen} />
+    </div>
+  );
+}
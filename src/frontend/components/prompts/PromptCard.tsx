@@ -1,23 +1,31 @@
 import { memo } from 'react';
-import { ExternalLink, Edit, Archive, ArchiveRestore, Check, Lock, Globe, Info } from 'lucide-react';
+import { ExternalLink, Edit, Archive, ArchiveRestore, Check, Lock, Globe, Info, Send } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/frontend/components/ui/card';
 import { Button } from '@/frontend/components/ui/button';
 import { Badge } from '@/frontend/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/frontend/components/ui/tooltip';
 import type { Prompt } from '@/shared/types/prompt';
 import { wasPromptEncrypted } from '@/core/encryption/crypto';
+import type { SearchMatches } from '@/core/search/highlight';
+import { HighlightedSnippet, HighlightedText } from '@/frontend/components/search/HighlightedText';
+import { cn } from '@/shared/utils/cn';
 
 interface PromptCardProps {
   prompt: Prompt;
+  /** Attached directory the prompt is from, when several are attached */
+  sourceLabel?: string;
   isCopied?: boolean;
+  /** Where the current search matched, to highlight */
+  matches?: SearchMatches;
   onView: (id: string) => void;
   onEdit: (id: string) => void;
   onArchive: (id: string) => void;
   onRestore: (id: string) => void;
   onCopyPrompt: (id: string) => void;
+  onOpenInLLM?: (id: string) => void;
 }
 
-export const PromptCard = memo(function PromptCard({ prompt, isCopied = false, onView, onEdit, onArchive, onRestore, onCopyPrompt }: PromptCardProps) {
+export const PromptCard = memo(function PromptCard({ prompt, sourceLabel, isCopied = false, matches, onView, onEdit, onArchive, onRestore, onCopyPrompt, onOpenInLLM }: PromptCardProps) {
   const isEncrypted = wasPromptEncrypted(prompt.tags);
   const isPublic = !isEncrypted;
 
@@ -35,16 +43,13 @@ export const PromptCard = memo(function PromptCard({ prompt, isCopied = false, o
     return `${month}/${day}/${year} · ${hours}:${minutes}`;
   };
 
-  const getDisplayDescription = () => {
-    if (prompt.description) {
-      return prompt.description;
-    }
-    // If no description, use truncated content
-    if (typeof prompt.content === 'string') {
-      return prompt.content;
-    }
-    return '';
-  };
+  const content = typeof prompt.content === 'string' ? prompt.content : '';
+  // Content matched: show where, as well as the description
+  const contentMatched = !!matches?.content?.length && !!prompt.description;
+  // Matched tags first, so they aren't hidden behind "+N"
+  const tags = matches?.tags?.length
+    ? [...matches.tags, ...prompt.tags.filter(tag => !matches.tags?.includes(tag))]
+    : prompt.tags;
 
   return (
     <Card
@@ -71,7 +76,9 @@ export const PromptCard = memo(function PromptCard({ prompt, isCopied = false, o
         <div className="flex items-start justify-between gap-2">
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-1.5">
-              <CardTitle className="font-headline text-sm truncate">{prompt.title}</CardTitle>
+              <CardTitle className="font-headline text-sm truncate">
+                <HighlightedText text={prompt.title} ranges={matches?.title} />
+              </CardTitle>
               <span title={isPublic ? "Public prompt" : "Encrypted prompt"}>
                 {isPublic ? (
                   <Globe className="h-3 w-3 text-muted-foreground flex-shrink-0" />
@@ -79,10 +86,19 @@ export const PromptCard = memo(function PromptCard({ prompt, isCopied = false, o
                   <Lock className="h-3 w-3 text-muted-foreground flex-shrink-0" />
                 )}
               </span>
+              {sourceLabel && (
+                <Badge variant="outline" className="flex-shrink-0 text-[11px] px-1.5 py-0 font-normal text-muted-foreground" title={`From ${sourceLabel}`}>
+                  {sourceLabel}
+                </Badge>
+              )}
             </div>
-            {getDisplayDescription() && (
+            {(prompt.description || content) && (
               <CardDescription className="line-clamp-2 mt-0.5 text-xs">
-                {getDisplayDescription()}
+                {prompt.description ? (
+                  <HighlightedText text={prompt.description} ranges={matches?.description} />
+                ) : (
+                  <HighlightedSnippet text={content} ranges={matches?.content} />
+                )}
               </CardDescription>
             )}
           </div>
@@ -90,15 +106,25 @@ export const PromptCard = memo(function PromptCard({ prompt, isCopied = false, o
       </CardHeader>
 
       <CardContent className="px-5 pt-2 pb-3 flex-1 flex flex-col min-h-0">
+        {/* Where the content matched */}
+        {contentMatched && (
+          <p className="mb-2 line-clamp-2 text-xs text-muted-foreground/70">
+            <HighlightedSnippet text={content} ranges={matches?.content} maxLength={120} />
+          </p>
+        )}
+
         {/* Tags */}
-        {prompt.tags.length > 0 && (
+        {tags.length > 0 && (
           <div className="relative" style={{ maxHeight: '2.625rem' }}>
             <div className="flex flex-wrap gap-1">
-              {prompt.tags.slice(0, 6).map((tag, index) => (
+              {tags.slice(0, 6).map((tag, index) => (
                 <Badge
                   key={tag}
                   variant="outline"
-                  className="text-xs h-5 px-1.5 flex-shrink-0"
+                  className={cn(
+                    'text-xs h-5 px-1.5 flex-shrink-0',
+                    matches?.tags?.includes(tag) && 'border-primary/40 bg-primary/15 text-primary',
+                  )}
                   style={{ animationDelay: `${index * 50}ms` }}
                 >
                   {tag}
@@ -135,6 +161,27 @@ export const PromptCard = memo(function PromptCard({ prompt, isCopied = false, o
             </TooltipContent>
           </Tooltip>
 
+          {onOpenInLLM && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onOpenInLLM(prompt.id);
+                  }}
+                  className="md:hover:scale-110 active:scale-90 transition-transform h-8 w-8 md:h-7 md:w-auto"
+                >
+                  <Send className="h-3 w-3" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Open in LLM</p>
+              </TooltipContent>
+            </Tooltip>
+          )}
+
           {!prompt.isArchived ? (
             <>
               <Tooltip>
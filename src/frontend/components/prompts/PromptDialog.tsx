@@ -1,10 +1,20 @@
-import { Copy, Edit, Archive, History, Check, Lock, Share2, Link, Loader2, X } from 'lucide-react';
+import { Copy, Edit, Archive, History, Check, Lock, Share2, Link, Loader2, X, Send, Sparkles } from 'lucide-react';
 import { Dialog, DialogBody, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogDescription } from '@/frontend/components/ui/dialog';
 import { Button } from '@/frontend/components/ui/button';
 import { Badge } from '@/frontend/components/ui/badge';
+import { VariableFillDialog } from '@/frontend/components/prompts/VariableFillDialog';
+import { OpenInLLMMenu } from '@/frontend/components/prompts/OpenInLLMMenu';
 import type { Prompt } from '@/shared/types/prompt';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import * as tursoQueries from '@/backend/api/turso-queries';
+import { hasVariables, renderPrompt } from '@/core/template/variables';
+import { buildUsedByIndex, hasIncludes } from '@/core/template/includes';
+import { getTemplateValues } from '@/core/storage/cache';
+import { usePrompts } from '@/frontend/hooks/usePrompts';
+import { useListOptions } from '@/frontend/hooks/useListOptions';
+import { resolvePromptIncludes } from '@/frontend/utils/promptTemplates';
+import { getPromptProvider, launchInProvider } from '@/frontend/utils/openInLLM';
+import type { LLMProvider } from '@/core/llm/providers';
 
 interface PromptDialogProps {
   open: boolean;
@@ -13,6 +23,8 @@ interface PromptDialogProps {
   onEdit: () => void;
   onArchive: () => void;
   onShowVersions: () => void;
+  /** Show the prompts most similar to this one */
+  onMoreLikeThis?: () => void;
 }
 
 export function PromptDialog({
@@ -22,11 +34,58 @@ export function PromptDialog({
   onEdit,
   onArchive,
   onShowVersions,
+  onMoreLikeThis,
 }: PromptDialogProps) {
   const [copied, setCopied] = useState(false);
   const [shareToken, setShareToken] = useState<string | null>(null);
   const [isSharing, setIsSharing] = useState(false);
   const [shareLinkCopied, setShareLinkCopied] = useState(false);
+  const [fillPrompt, setFillPrompt] = useState<Prompt | null>(null);
+  const [fillProvider, setFillProvider] = useState<LLMProvider | null>(null);
+  const [launchNote, setLaunchNote] = useState<string | null>(null);
+  const [rendered, setRendered] = useState<string | null>(null);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [showSource, setShowSource] = useState(false);
+  const { prompts, updatePrompt } = usePrompts();
+  const recordCopy = useListOptions((state) => state.recordCopy);
+
+  // The prop is a snapshot; read the per-prompt provider from the store
+  const currentPrompt = prompts.find(p => p.id === prompt?.id) ?? prompt;
+
+  const isTemplate = !!prompt && (hasIncludes(prompt.content) || hasVariables(prompt));
+
+  // Prompts that include this one
+  const usedBy = useMemo(() => {
+    if (!prompt) return [];
+    const ids = buildUsedByIndex(prompts).get(prompt.id) ?? [];
+    return prompts.filter(p => ids.includes(p.id));
+  }, [prompts, prompt]);
+
+  // Rendered preview: includes expanded, variables filled with last-used values
+  useEffect(() => {
+    if (!open || !prompt || !isTemplate) {
+      setRendered(null);
+      setRenderError(null);
+      return;
+    }
+
+    let cancelled = false;
+    resolvePromptIncludes(prompt)
+      .then(resolved => {
+        if (cancelled) return;
+        setRendered(renderPrompt(resolved, getTemplateValues(prompt.id)));
+        setRenderError(null);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setRendered(null);
+        setRenderError(error instanceof Error ? error.message : 'Failed to render prompt');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, prompt, prompts, isTemplate]);
 
   // Fetch share token when dialog opens
   useEffect(() => {
@@ -40,6 +99,10 @@ export function PromptDialog({
     if (!open) {
       setShareToken(null);
       setShareLinkCopied(false);
+      setFillPrompt(null);
+      setFillProvider(null);
+      setLaunchNote(null);
+      setShowSource(false);
     }
   }, [open]);
 
@@ -88,15 +151,84 @@ export function PromptDialog({
     return latestVersion && latestVersion.version > 1;
   };
 
+  const copyText = useCallback((text: string) => {
+    navigator.clipboard.writeText(text);
+    if (prompt) recordCopy(prompt.id);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }, [prompt, recordCopy]);
+
+  // Expand includes, then send templates through the fill-in form
+  const handleCopy = useCallback(async () => {
+    if (!prompt) return;
+
+    let resolved: Prompt;
+    try {
+      resolved = await resolvePromptIncludes(prompt);
+    } catch (error) {
+      console.error('Failed to resolve includes:', error);
+      setRenderError(error instanceof Error ? error.message : 'Failed to resolve includes');
+      return;
+    }
+
+    if (hasVariables(resolved)) {
+      setFillProvider(null);
+      setFillPrompt(resolved);
+      return;
+    }
+    copyText(resolved.content);
+  }, [prompt, copyText]);
+
+  const openText = useCallback(async (provider: LLMProvider, text: string) => {
+    try {
+      const launch = await launchInProvider(provider, text);
+      setLaunchNote(launch.viaClipboard
+        ? `Prompt copied to clipboard — paste it into ${provider.name}`
+        : null);
+    } catch (error) {
+      console.error('Failed to open provider:', error);
+      setRenderError(error instanceof Error ? error.message : `Failed to open ${provider.name}`);
+    }
+  }, []);
+
+  // Same pipeline as copy, ending in the provider instead of the clipboard
+  const handleOpenInLLM = useCallback(async (providerId?: string) => {
+    if (!prompt || !currentPrompt) return;
+    const provider = getPromptProvider(currentPrompt, providerId);
+
+    let resolved: Prompt;
+    try {
+      resolved = await resolvePromptIncludes(prompt);
+    } catch (error) {
+      console.error('Failed to resolve includes:', error);
+      setRenderError(error instanceof Error ? error.message : 'Failed to resolve includes');
+      return;
+    }
+
+    if (hasVariables(resolved)) {
+      setFillProvider(provider);
+      setFillPrompt(resolved);
+      return;
+    }
+    openText(provider, resolved.content);
+  }, [prompt, currentPrompt, openText]);
+
+  const handleSetDefaultProvider = (providerId: string) => {
+    if (!prompt) return;
+    updatePrompt(prompt.id, { defaultProvider: providerId });
+  };
+
+  const handleFillSubmit = (text: string) => {
+    if (fillProvider) {
+      openText(fillProvider, text);
+    } else {
+      copyText(text);
+    }
+  };
+
   // Keyboard shortcuts for the dialog
   useEffect(() => {
-    if (!open || !prompt) return;
-
-    const handleCopy = () => {
-      navigator.clipboard.writeText(prompt.content);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    };
+    if (!open || !prompt || fillPrompt) return;
 
     const handleKeyDown = (event: KeyboardEvent) => {
       const target = event.target as HTMLElement;
@@ -114,6 +246,10 @@ export function PromptDialog({
           event.preventDefault();
           handleCopy();
           break;
+        case 'o':
+          event.preventDefault();
+          handleOpenInLLM();
+          break;
         case 'a':
           if (!prompt.isArchived) {
             event.preventDefault();
@@ -126,15 +262,9 @@ export function PromptDialog({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [open, prompt, onEdit, onArchive, onOpenChange]);
+  }, [open, prompt, fillPrompt, handleCopy, handleOpenInLLM, onEdit, onArchive, onOpenChange]);
 
-  if (!prompt) return null;
-
-  const handleCopy = () => {
-    navigator.clipboard.writeText(prompt.content);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
+  if (!prompt || !currentPrompt) return null;
 
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleString('en-US', {
@@ -168,7 +298,20 @@ export function PromptDialog({
               </div>
 
             <div className="flex flex-wrap items-center gap-2">
-                {hasVersionHistory(prompt) && (
+                {onMoreLikeThis && (
+            <Button
+              variant="outline"
+              onClick={onMoreLikeThis}
+              size="sm"
+              className="gap-2"
+              title="Find prompts similar to this one"
+            >
+              <Sparkles className="h-4 w-4" />
+              <span className="hidden sm:inline">More like this</span>
+            </Button>
+          )}
+
+          {hasVersionHistory(prompt) && (
                   <Badge variant="outline" className="px-3 py-1 text-xs">
                     v{prompt.versions[prompt.versions.length - 1]?.version}
                   </Badge>
@@ -185,6 +328,9 @@ export function PromptDialog({
             <div className="flex flex-col gap-1">
               <div>Created: <span className="font-medium text-foreground/80">{formatDate(prompt.createdAt)}</span></div>
               <div>Last updated: <span className="font-medium text-foreground/80">{formatDate(prompt.updatedAt)}</span></div>
+              {prompt.folder && (
+                <div>Folder: <span className="font-mono font-medium text-foreground/80">{prompt.folder}/</span></div>
+              )}
             </div>
             {prompt.tags.length > 0 && (
               <div className="flex flex-wrap gap-1.5">
@@ -195,6 +341,16 @@ export function PromptDialog({
                 ))}
               </div>
             )}
+            {usedBy.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span>Used by:</span>
+                {usedBy.map(p => (
+                  <Badge key={p.id} variant="secondary" className="text-xs px-3 py-1">
+                    {p.title}
+                  </Badge>
+                ))}
+              </div>
+            )}
           </div>
         </DialogHeader>
 
@@ -203,10 +359,34 @@ export function PromptDialog({
             <span>{wordCount} words</span>
             <span>•</span>
             <span>{characterCount} characters</span>
+            {isTemplate && (
+              <>
+                <span>•</span>
+                <button
+                  type="button"
+                  onClick={() => setShowSource(!showSource)}
+                  className="underline-offset-2 hover:underline hover:text-foreground"
+                >
+                  {showSource ? 'Show rendered' : 'Show source'}
+                </button>
+              </>
+            )}
           </div>
+          {renderError && (
+            <div className="mb-2 rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-xs text-destructive flex-shrink-0">
+              {renderError}
+            </div>
+          )}
+          {launchNote && (
+            <div className="mb-2 rounded-md border border-primary/30 bg-primary/10 px-3 py-2 text-xs text-foreground/80 flex-shrink-0">
+              {launchNote}
+            </div>
+          )}
           <div className="border border-primary/20 bg-primary/[0.02] rounded-xl p-5 flex-1 min-h-0 flex flex-col">
             <pre className="whitespace-pre-wrap font-mono text-sm leading-relaxed pr-1 overflow-y-auto flex-1 min-h-0">
-              {typeof prompt.content === 'string' ? prompt.content : 'Encrypted content unavailable'}
+              {typeof prompt.content !== 'string'
+                ? 'Encrypted content unavailable'
+                : !showSource && rendered !== null ? rendered : prompt.content}
             </pre>
           </div>
         </DialogBody>
@@ -253,6 +433,12 @@ export function PromptDialog({
             )}
           </Button>
 
+          <OpenInLLMMenu
+            prompt={currentPrompt}
+            onOpen={handleOpenInLLM}
+            onSetDefault={handleSetDefaultProvider}
+          />
+
           {/* Share button */}
           {shareToken ? (
               <div className="flex items-center gap-1">
@@ -346,6 +532,17 @@ export function PromptDialog({
           </div>
         </DialogFooter>
       </DialogContent>
+
+      <VariableFillDialog
+        open={fillPrompt !== null}
+        onOpenChange={(isOpen) => {
+          if (!isOpen) setFillPrompt(null);
+        }}
+        prompt={fillPrompt}
+        onSubmit={handleFillSubmit}
+        submitLabel={fillProvider ? `Open in ${fillProvider.name}` : 'Copy'}
+        submitIcon={fillProvider ? Send : Copy}
+      />
     </Dialog>
   );
 }
\ No newline at end of file
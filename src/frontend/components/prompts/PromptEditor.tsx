@@ -7,7 +7,8 @@ import { Textarea } from '@/frontend/components/ui/textarea';
 import { Badge } from '@/frontend/components/ui/badge';
 import { Label } from '@/frontend/components/ui/label';
 import { usePrompts } from '@/frontend/hooks/usePrompts';
-import type { Prompt } from '@/shared/types/prompt';
+import { extractVariables } from '@/core/template/variables';
+import type { Prompt, PromptVariable, PromptVariableType } from '@/shared/types/prompt';
 
 interface PromptEditorProps {
   open: boolean;
@@ -23,6 +24,7 @@ export function PromptEditor({ open, onOpenChange, prompt, onSave }: PromptEdito
   const [content, setContent] = useState('');
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState('');
+  const [variables, setVariables] = useState<PromptVariable[]>([]);
   const [saving, setSaving] = useState(false);
   const [allTags, setAllTags] = useState<string[]>([]);
   const tagInputRef = useRef<HTMLInputElement>(null);
@@ -98,12 +100,14 @@ export function PromptEditor({ open, onOpenChange, prompt, onSave }: PromptEdito
       setDescription(prompt.description);
       setContent(prompt.content);
       setTags(prompt.tags);
+      setVariables(prompt.variables ?? []);
     } else {
       // Reset for new prompt
       setTitle('');
       setDescription('');
       setContent('');
       setTags([]);
+      setVariables([]);
     }
     setTagInput('');
   }, [prompt, open]);
@@ -141,6 +145,20 @@ export function PromptEditor({ open, onOpenChange, prompt, onSave }: PromptEdito
     }
   };
 
+  // Variables currently used in the content, with their declarations
+  const detectedVariables = extractVariables(content).map(({ name, inlineDefault }) => ({
+    name,
+    inlineDefault,
+    declaration: variables.find(v => v.name === name) ?? { name },
+  }));
+
+  const updateVariable = (name: string, patch: Partial<PromptVariable>) => {
+    setVariables(prev => {
+      const existing = prev.find(v => v.name === name) ?? { name };
+      return [...prev.filter(v => v.name !== name), { ...existing, ...patch }];
+    });
+  };
+
   const handleSave = async () => {
     if (!title.trim()) {
       alert('Title is required');
@@ -153,6 +171,9 @@ export function PromptEditor({ open, onOpenChange, prompt, onSave }: PromptEdito
       description: description.trim(),
       content: content.trim(),
       tags,
+      // Keep every declaration (including description-only ones from
+      // frontmatter or packs) for variables still in the content
+      variables: detectedVariables.flatMap(({ name }) => variables.filter(v => v.name === name)),
     });
 
     setSaving(false);
@@ -265,6 +286,45 @@ export function PromptEditor({ open, onOpenChange, prompt, onSave }: PromptEdito
                 <span>{Math.ceil(new Blob([content]).size / 1024)} KB</span>
               </div>
             </div>
+
+            {detectedVariables.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium text-foreground/70">Variables</Label>
+                <div className="space-y-2">
+                  {detectedVariables.map(({ name, inlineDefault, declaration }) => (
+                    <div key={name} className="flex flex-wrap items-center gap-2">
+                      <code className="w-32 truncate text-xs" title={name}>{name}</code>
+                      <select
+                        value={declaration.type ?? 'text'}
+                        onChange={(e) => updateVariable(name, { type: e.target.value as PromptVariableType })}
+                        className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                      >
+                        <option value="text">Text</option>
+                        <option value="multiline">Multiline</option>
+                        <option value="number">Number</option>
+                        <option value="enum">Choice</option>
+                      </select>
+                      <Input
+                        value={declaration.default ?? ''}
+                        onChange={(e) => updateVariable(name, { default: e.target.value || undefined })}
+                        placeholder={inlineDefault ? `Default (${inlineDefault})` : 'Default'}
+                        className="h-9 flex-1 min-w-[120px]"
+                      />
+                      {declaration.type === 'enum' && (
+                        <Input
+                          defaultValue={declaration.options?.join(', ') ?? ''}
+                          onBlur={(e) => updateVariable(name, {
+                            options: e.target.value.split(',').map(o => o.trim()).filter(Boolean),
+                          })}
+                          placeholder="Choices, comma separated"
+                          className="h-9 flex-1 min-w-[160px]"
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </DialogBody>
 
@@ -0,0 +1,124 @@
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Check, ChevronDown, LayoutGrid, List } from 'lucide-react';
+import { Button } from '@/frontend/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/frontend/components/ui/dropdown-menu';
+import { useListOptions } from '@/frontend/hooks/useListOptions';
+import { SORT_KEYS } from '@/core/search/sort';
+import type { GroupBy } from '@/core/search/sort';
+import { cn } from '@/shared/utils/cn';
+
+const GROUPS: { value: GroupBy; label: string }[] = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'tag', label: 'Tag' },
+  { value: 'folder', label: 'Folder' },
+];
+
+interface PromptListControlsProps {
+  className?: string;
+}
+
+/**
+ * Sort, grouping and view mode controls for the prompt list
+ */
+export function PromptListControls({ className }: PromptListControlsProps) {
+  const { sortKey, sortDirection, thenBy, groupBy, viewMode, setListOptions, setViewMode } = useListOptions();
+  const sortLabel = SORT_KEYS.find(k => k.key === sortKey)?.label ?? 'Relevance';
+  const DirectionIcon = sortDirection === 'asc' ? ArrowUpNarrowWide : ArrowDownWideNarrow;
+
+  return (
+    <div className={cn('flex items-center gap-1 text-[11px] text-muted-foreground', className)}>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-[11px] font-normal" title="Sort">
+            Sort: <span className="text-foreground">{sortLabel}</span>
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-52">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Sort by</DropdownMenuLabel>
+          {SORT_KEYS.map(({ key, label, direction }) => (
+            <DropdownMenuItem
+              key={key}
+              // A new key starts in its usual direction
+              onClick={() => setListOptions({ sortKey: key, sortDirection: key === sortKey ? sortDirection : direction })}
+            >
+              <span className="flex-1">{key === 'relevance' ? 'Relevance (when searching)' : label}</span>
+              {key === sortKey && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Then by</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-44">
+              {SORT_KEYS.filter(k => k.key !== 'relevance').map(({ key, label }) => (
+                <DropdownMenuItem key={key} onClick={() => setListOptions({ thenBy: key as typeof thenBy })}>
+                  <span className="flex-1">{label}</span>
+                  {key === thenBy && <Check className="h-4 w-4" />}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 w-6 p-0"
+        onClick={() => setListOptions({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' })}
+        title={sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+      >
+        <DirectionIcon className="h-3.5 w-3.5" />
+      </Button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-[11px] font-normal" title="Group">
+            Group: <span className="text-foreground">{groupBy === 'none' ? 'None' : GROUPS.find(g => g.value === groupBy)?.label}</span>
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-40">
+          {GROUPS.map(group => (
+            <DropdownMenuItem key={group.value} onClick={() => setListOptions({ groupBy: group.value })}>
+              <span className="flex-1">{group.label}</span>
+              {group.value === groupBy && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <div className="ml-auto flex items-center gap-0.5">
+        <Button
+          variant={viewMode === 'list' ? 'secondary' : 'ghost'}
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={() => setViewMode('list')}
+          title="List view"
+          aria-pressed={viewMode === 'list'}
+        >
+          <List className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant={viewMode === 'cards' ? 'secondary' : 'ghost'}
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={() => setViewMode('cards')}
+          title="Card view"
+          aria-pressed={viewMode === 'cards'}
+        >
+          <LayoutGrid className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
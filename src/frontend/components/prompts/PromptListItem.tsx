@@ -1,26 +1,33 @@
 import { memo } from 'react';
 import type { HTMLAttributes } from 'react';
-import { ExternalLink, Edit, Archive, ArchiveRestore, Check, Lock, Globe, Info } from 'lucide-react';
+import { ExternalLink, Edit, Archive, ArchiveRestore, Check, Lock, Globe, Info, Send } from 'lucide-react';
 import { Button } from '@/frontend/components/ui/button';
 import { Badge } from '@/frontend/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/frontend/components/ui/tooltip';
 import type { Prompt } from '@/shared/types/prompt';
+import type { SearchMatches } from '@/core/search/highlight';
+import { HighlightedSnippet, HighlightedText } from '@/frontend/components/search/HighlightedText';
 import { wasPromptEncrypted } from '@/core/encryption/crypto';
 import { cn } from '@/shared/utils/cn';
 
 interface PromptListItemProps extends HTMLAttributes<HTMLDivElement> {
   prompt: Prompt;
+  /** Attached directory the prompt is from, when several are attached */
+  sourceLabel?: string;
   isCopied?: boolean;
+  /** Where the current search matched, to highlight */
+  matches?: SearchMatches;
   onView: (id: string) => void;
   onEdit: (id: string) => void;
   onArchive: (id: string) => void;
   onRestore: (id: string) => void;
   onCopyPrompt: (id: string) => void;
+  onOpenInLLM?: (id: string) => void;
   variant?: 'card' | 'pane';
   'data-selected'?: boolean;
 }
 
-export const PromptListItem = memo(function PromptListItem({ prompt, isCopied = false, onView, onEdit, onArchive, onRestore, onCopyPrompt, variant = 'card', className, 'data-selected': isSelected = false, ...rest }: PromptListItemProps) {
+export const PromptListItem = memo(function PromptListItem({ prompt, sourceLabel, isCopied = false, matches, onView, onEdit, onArchive, onRestore, onCopyPrompt, onOpenInLLM, variant = 'card', className, 'data-selected': isSelected = false, ...rest }: PromptListItemProps) {
   const isEncrypted = wasPromptEncrypted(prompt.tags);
   const isPublic = !isEncrypted;
 
@@ -38,16 +45,13 @@ export const PromptListItem = memo(function PromptListItem({ prompt, isCopied =
     return `${month}/${day}/${year} · ${hours}:${minutes}`;
   };
 
-  const getDisplayDescription = () => {
-    if (prompt.description) {
-      return prompt.description;
-    }
-    // If no description, use truncated content
-    if (typeof prompt.content === 'string') {
-      return prompt.content;
-    }
-    return '';
-  };
+  const content = typeof prompt.content === 'string' ? prompt.content : '';
+  // Content matched: show where, as well as the description
+  const contentMatched = !!matches?.content?.length && !!prompt.description;
+  // Matched tags first, so they aren't hidden behind "+N"
+  const tags = matches?.tags?.length
+    ? [...matches.tags, ...prompt.tags.filter(tag => !matches.tags?.includes(tag))]
+    : prompt.tags;
 
   const containerClass = variant === 'pane'
     ? cn(
@@ -116,22 +120,45 @@ export const PromptListItem = memo(function PromptListItem({ prompt, isCopied =
                 )}
               </span>
               <h3 className="font-headline text-base font-semibold sm:text-base sm:font-medium text-primary [@media(hover:hover)]:hover:underline truncate">
-                {prompt.title}
+                <HighlightedText text={prompt.title} ranges={matches?.title} />
               </h3>
+              {sourceLabel && (
+                <Badge variant="outline" className="flex-shrink-0 text-[11px] px-1.5 py-0 font-normal text-muted-foreground" title={`From ${sourceLabel}`}>
+                  {sourceLabel}
+                </Badge>
+              )}
             </div>
 
-            {/* Description */}
-            {getDisplayDescription() && (
+            {/* Description (if none, the content around its first match) */}
+            {(prompt.description || content) && (
               <p className="text-[15px] sm:text-sm text-muted-foreground/80 line-clamp-2 sm:line-clamp-1 leading-relaxed">
-                {getDisplayDescription()}
+                {prompt.description ? (
+                  <HighlightedText text={prompt.description} ranges={matches?.description} />
+                ) : (
+                  <HighlightedSnippet text={content} ranges={matches?.content} />
+                )}
+              </p>
+            )}
+
+            {/* Where the content matched */}
+            {contentMatched && (
+              <p className="text-[13px] sm:text-xs text-muted-foreground/70 line-clamp-1">
+                <HighlightedSnippet text={content} ranges={matches?.content} />
               </p>
             )}
 
             {/* Tags */}
-            {prompt.tags.length > 0 && (
+            {tags.length > 0 && (
               <div className="flex flex-wrap gap-2 sm:gap-1.5 pt-1">
-                {prompt.tags.slice(0, 3).map((tag) => (
-                  <Badge key={tag} variant="secondary" className="text-[13px] sm:text-xs px-2.5 sm:px-2 py-1 sm:py-0.5">
+                {tags.slice(0, 3).map((tag) => (
+                  <Badge
+                    key={tag}
+                    variant="secondary"
+                    className={cn(
+                      'text-[13px] sm:text-xs px-2.5 sm:px-2 py-1 sm:py-0.5',
+                      matches?.tags?.includes(tag) && 'bg-primary/15 text-primary',
+                    )}
+                  >
                     {tag}
                   </Badge>
                 ))}
@@ -172,6 +199,27 @@ export const PromptListItem = memo(function PromptListItem({ prompt, isCopied =
             </TooltipContent>
           </Tooltip>
 
+          {onOpenInLLM && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onOpenInLLM(prompt.id);
+                  }}
+                  className="h-9 flex-1 sm:flex-initial sm:h-10 sm:w-10 md:h-8 md:w-8 p-0 active:scale-95 transition-transform"
+                >
+                  <Send className="h-4 w-4 sm:h-[18px] sm:w-[18px] md:h-3.5 md:w-3.5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Open in LLM</p>
+              </TooltipContent>
+            </Tooltip>
+          )}
+
           {!prompt.isArchived ? (
             <>
               <Tooltip>
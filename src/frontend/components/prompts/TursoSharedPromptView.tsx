@@ -7,10 +7,12 @@ import { Copy, Check, ExternalLink, ArrowLeft, Link } from 'lucide-react';
 import { Button } from '@/frontend/components/ui/button';
 import { Badge } from '@/frontend/components/ui/badge';
 import { UploadDialog } from '@/frontend/components/shared/UploadDialog';
+import { VariableFillDialog } from '@/frontend/components/prompts/VariableFillDialog';
 import type { Prompt } from '@/shared/types/prompt';
 import type { FileImportResult } from '@/shared/utils/import';
 import * as tursoQueries from '@/backend/api/turso-queries';
 import { usePrompts } from '@/frontend/hooks/usePrompts';
+import { hasVariables } from '@/core/template/variables';
 
 interface TursoSharedPromptViewProps {
   shareToken: string;
@@ -26,6 +28,7 @@ export function TursoSharedPromptView({ shareToken, onBack }: TursoSharedPromptV
   const [copied, setCopied] = useState(false);
   const [linkCopied, setLinkCopied] = useState(false);
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
+  const [fillOpen, setFillOpen] = useState(false);
 
   useEffect(() => {
     async function loadPrompt() {
@@ -53,7 +56,15 @@ export function TursoSharedPromptView({ shareToken, onBack }: TursoSharedPromptV
 
   const handleCopy = () => {
     if (!prompt) return;
-    navigator.clipboard.writeText(prompt.content);
+    if (hasVariables(prompt)) {
+      setFillOpen(true);
+      return;
+    }
+    copyText(prompt.content);
+  };
+
+  const copyText = (text: string) => {
+    navigator.clipboard.writeText(text);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
@@ -77,6 +88,7 @@ export function TursoSharedPromptView({ shareToken, onBack }: TursoSharedPromptV
           description: result.prompt.description,
           content: result.prompt.content,
           tags: result.prompt.tags,
+          variables: result.prompt.variables,
           currentTxId: '',
           versions: [],
           isArchived: false,
@@ -88,7 +100,7 @@ export function TursoSharedPromptView({ shareToken, onBack }: TursoSharedPromptV
 
   // Keyboard shortcuts
   useEffect(() => {
-    if (!prompt) return;
+    if (!prompt || fillOpen) return;
 
     const handleKeyDown = (event: KeyboardEvent) => {
       const target = event.target as HTMLElement;
@@ -106,7 +118,7 @@ export function TursoSharedPromptView({ shareToken, onBack }: TursoSharedPromptV
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [prompt]);
+  }, [prompt, fillOpen]);
 
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleString('en-US', {
@@ -266,6 +278,13 @@ export function TursoSharedPromptView({ shareToken, onBack }: TursoSharedPromptV
         ) : null}
       </main>
 
+      <VariableFillDialog
+        open={fillOpen}
+        onOpenChange={setFillOpen}
+        prompt={prompt}
+        onSubmit={copyText}
+      />
+
       {/* Upload Dialog for Save to Library */}
       {prompt && (
         <UploadDialog
@@ -284,6 +303,7 @@ export function TursoSharedPromptView({ shareToken, onBack }: TursoSharedPromptV
                 description: prompt.description,
                 content: prompt.content,
                 tags: prompt.tags,
+                variables: prompt.variables,
                 createdAt: prompt.createdAt,
                 updatedAt: prompt.updatedAt,
               },
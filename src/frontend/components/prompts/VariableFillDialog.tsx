@@ -0,0 +1,155 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { FormEvent, KeyboardEvent } from 'react';
+import { Copy } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Dialog, DialogBody, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogDescription } from '@/frontend/components/ui/dialog';
+import { Button } from '@/frontend/components/ui/button';
+import { Input } from '@/frontend/components/ui/input';
+import { Textarea } from '@/frontend/components/ui/textarea';
+import { Label } from '@/frontend/components/ui/label';
+import { resolveVariables, renderPrompt, type TemplateValues } from '@/core/template/variables';
+import { getTemplateValues, saveTemplateValues } from '@/core/storage/cache';
+import type { Prompt } from '@/shared/types/prompt';
+
+interface VariableFillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  prompt: Prompt | null;
+  onSubmit: (rendered: string) => void;
+  submitLabel?: string;
+  submitIcon?: LucideIcon;
+}
+
+/**
+ * Fill-in form for template variables, shown before a prompt is copied
+ * Remembers the last values used for each prompt
+ */
+export function VariableFillDialog({
+  open,
+  onOpenChange,
+  prompt,
+  onSubmit,
+  submitLabel = 'Copy',
+  submitIcon: SubmitIcon = Copy,
+}: VariableFillDialogProps) {
+  const [values, setValues] = useState<TemplateValues>({});
+
+  const variables = useMemo(
+    () => (prompt ? resolveVariables(prompt.content, prompt.variables) : []),
+    [prompt]
+  );
+
+  // Seed the form with last-used values, falling back to defaults
+  useEffect(() => {
+    if (!open || !prompt) return;
+
+    const lastValues = getTemplateValues(prompt.id);
+    const initial: TemplateValues = {};
+    for (const variable of variables) {
+      const last = lastValues[variable.name];
+      const isValidChoice = variable.type !== 'enum' || variable.options.includes(last);
+      initial[variable.name] = last !== undefined && isValidChoice ? last : variable.default;
+    }
+    setValues(initial);
+  }, [open, prompt, variables]);
+
+  const preview = useMemo(
+    () => (prompt ? renderPrompt(prompt, values) : ''),
+    [prompt, values]
+  );
+
+  if (!prompt) return null;
+
+  const setValue = (name: string, value: string) => {
+    setValues(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e?: FormEvent) => {
+    e?.preventDefault();
+    saveTemplateValues(prompt.id, values);
+    onSubmit(preview);
+    onOpenChange(false);
+  };
+
+  // Cmd/Ctrl+Enter submits from anywhere, including multiline fields
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="lg" className="flex max-h-[88vh] flex-col">
+        <DialogHeader className="text-left border-b">
+          <DialogTitle>Fill in variables</DialogTitle>
+          <DialogDescription>{prompt.title}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} onKeyDown={handleKeyDown} className="flex flex-1 min-h-0 flex-col">
+          <DialogBody className="flex-1 overflow-y-auto min-h-0 space-y-5">
+            <div className="space-y-4">
+              {variables.map((variable, index) => (
+                <div key={variable.name} className="space-y-2">
+                  <Label htmlFor={`var-${variable.name}`} className="font-mono text-xs">
+                    {variable.name}
+                  </Label>
+                  {variable.type === 'enum' && variable.options.length > 0 ? (
+                    <select
+                      id={`var-${variable.name}`}
+                      value={values[variable.name] ?? ''}
+                      onChange={(e) => setValue(variable.name, e.target.value)}
+                      autoFocus={index === 0}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    >
+                      {variable.options.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                  ) : variable.type === 'multiline' ? (
+                    <Textarea
+                      id={`var-${variable.name}`}
+                      value={values[variable.name] ?? ''}
+                      onChange={(e) => setValue(variable.name, e.target.value)}
+                      autoFocus={index === 0}
+                      className="min-h-[100px] font-mono text-sm"
+                    />
+                  ) : (
+                    <Input
+                      id={`var-${variable.name}`}
+                      type={variable.type === 'number' ? 'number' : 'text'}
+                      value={values[variable.name] ?? ''}
+                      onChange={(e) => setValue(variable.name, e.target.value)}
+                      autoFocus={index === 0}
+                    />
+                  )}
+                  {variable.description && (
+                    <p className="text-xs text-muted-foreground">{variable.description}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-foreground/60">Preview</Label>
+              <pre className="max-h-[30vh] overflow-y-auto whitespace-pre-wrap rounded-xl border border-primary/20 bg-primary/[0.02] p-4 font-mono text-sm leading-relaxed">
+                {preview}
+              </pre>
+            </div>
+          </DialogBody>
+
+          <DialogFooter className="flex-row justify-end border-t">
+            <Button type="button" variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" className="gap-2">
+              <SubmitIcon className="h-4 w-4" />
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
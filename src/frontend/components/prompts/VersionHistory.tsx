@@ -2,6 +2,7 @@
  * VersionHistory - Display prompt version history with Turso backend
  *
  * Loads version content from local Turso database for diff viewing.
+ * Prompts in an attached git repository also list their file's commits.
  */
 
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/frontend/components/ui/dialog';
@@ -11,6 +12,7 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/fron
 import type { Prompt, PromptVersion } from '@/shared/types/prompt';
 import { useState, useRef, useCallback } from 'react';
 import { getVersionContent } from '@/backend/api/turso-queries';
+import { GitHistory } from './GitHistory';
 import { Eye } from 'lucide-react';
 
 interface VersionHistoryProps {
@@ -18,6 +20,8 @@ interface VersionHistoryProps {
   onOpenChange: (open: boolean) => void;
   prompt: Prompt | null;
   onRestoreVersion: (version: PromptVersion) => void;
+  /** Restore content from outside the database versions (a git commit) */
+  onRestoreContent: (content: string) => void;
   password?: string;
 }
 
@@ -31,6 +35,7 @@ export function VersionHistory({
   onOpenChange,
   prompt,
   onRestoreVersion,
+  onRestoreContent,
 }: VersionHistoryProps) {
   const [selectedVersionTxId, setSelectedVersionTxId] = useState<string | null>(null);
   const [selectedVersionData, setSelectedVersionData] = useState<VersionData | null>(null);
@@ -271,6 +276,15 @@ export function VersionHistory({
             })
           )}
         </div>
+
+        <GitHistory
+          key={prompt.id}
+          prompt={prompt}
+          onRestore={(content) => {
+            onRestoreContent(content);
+            onOpenChange(false);
+          }}
+        />
       </DialogContent>
     </Dialog>
   );
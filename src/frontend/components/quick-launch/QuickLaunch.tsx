@@ -0,0 +1,228 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import type { KeyboardEvent } from 'react';
+import { Search } from 'lucide-react';
+import { VariableFillDialog } from '@/frontend/components/prompts/VariableFillDialog';
+import { usePrompts } from '@/frontend/hooks/usePrompts';
+import { useIdentity } from '@/frontend/hooks/useIdentity';
+import { useDatabase } from '@/frontend/hooks/useDatabase';
+import { useInitializeTheme } from '@/frontend/hooks/useTheme';
+import { resolvePromptIncludes } from '@/frontend/utils/promptTemplates';
+import { isTauri } from '@/frontend/utils/protocolLinks';
+import { searchPrompts, simpleTitleSearch } from '@/core/search';
+import { hasVariables } from '@/core/template/variables';
+import { recordPromptCopy } from '@/core/storage/cache';
+import type { Prompt } from '@/shared/types/prompt';
+import { cn } from '@/shared/utils/cn';
+
+const MAX_RESULTS = 8;
+
+/**
+ * Hide the overlay and return focus to the previous app
+ */
+async function hideOverlay(): Promise<void> {
+  if (!isTauri()) return;
+  const { invoke } = await import('@tauri-apps/api/core');
+  await invoke('hide_quick_launch');
+}
+
+/**
+ * Spotlight-style overlay opened by the global shortcut:
+ * search, Enter to copy (filling variables first), then get out of the way
+ */
+export function QuickLaunch() {
+  useInitializeTheme();
+  const { prompts, readPrompts } = usePrompts();
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [fillPrompt, setFillPrompt] = useState<Prompt | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const reset = useCallback(() => {
+    setQuery('');
+    setSelectedIndex(0);
+    setFillPrompt(null);
+    setError(null);
+    inputRef.current?.focus();
+  }, []);
+
+  const showError = useCallback((err: unknown) => {
+    setError(err instanceof Error ? err.message : 'Failed to load prompts');
+  }, []);
+
+  // Load prompts once the database and identity are ready (this window has
+  // its own JS context). Only read: the main window watches and syncs them
+  useEffect(() => {
+    const start = async () => {
+      await useDatabase.getState().migrate();
+      if (useDatabase.getState().status !== 'ready') {
+        setError('The prompt database needs attention. Open Pocket Prompt for details.');
+        return;
+      }
+      await useIdentity.getState().initialize();
+      await readPrompts();
+    };
+    start().catch(showError);
+  }, [readPrompts, showError]);
+
+  // The window is reused: reset and refresh every time the shortcut shows it
+  useEffect(() => {
+    if (!isTauri()) return;
+
+    let unlisten: (() => void) | undefined;
+    let cancelled = false;
+    import('@tauri-apps/api/event').then(({ listen }) =>
+      listen('quick-launch-shown', () => {
+        reset();
+        readPrompts().catch(showError);
+      })
+    ).then(fn => {
+      if (cancelled) fn();
+      else unlisten = fn;
+    });
+
+    return () => {
+      cancelled = true;
+      if (unlisten) unlisten();
+    };
+  }, [reset, readPrompts, showError]);
+
+  // Same ranking as the main search; recent prompts when the query is empty
+  const results = useMemo(() => {
+    const active = prompts.filter(p => !p.isArchived);
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return [...active].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_RESULTS);
+    }
+
+    const matches = trimmed.length <= 3
+      ? simpleTitleSearch(active, trimmed)
+      : searchPrompts(trimmed);
+    const byId = new Map(active.map(p => [p.id, p]));
+    return matches
+      .map(match => byId.get(match.id))
+      .filter((p): p is Prompt => p !== undefined)
+      .slice(0, MAX_RESULTS);
+  }, [prompts, query]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  // Keep the selected row visible
+  useEffect(() => {
+    const row = listRef.current?.children[selectedIndex] as HTMLElement | undefined;
+    row?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const copyAndHide = async (promptId: string, text: string) => {
+    await navigator.clipboard.writeText(text);
+    recordPromptCopy(promptId);
+    await hideOverlay();
+  };
+
+  const handleSelect = async (prompt: Prompt) => {
+    let resolved: Prompt;
+    try {
+      resolved = await resolvePromptIncludes(prompt);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve includes');
+      return;
+    }
+
+    if (hasVariables(resolved)) {
+      setFillPrompt(resolved);
+      return;
+    }
+    await copyAndHide(prompt.id, resolved.content);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        if (results.length > 0) setSelectedIndex(prev => (prev + 1) % results.length);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (results.length > 0) setSelectedIndex(prev => (prev - 1 + results.length) % results.length);
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (results[selectedIndex]) handleSelect(results[selectedIndex]);
+        break;
+      case 'Escape':
+        event.preventDefault();
+        hideOverlay();
+        break;
+    }
+  };
+
+  return (
+    <div className="flex h-screen flex-col overflow-hidden rounded-2xl border border-border bg-background text-foreground shadow-soft-lg">
+      <div className="flex items-center gap-3 border-b border-border px-4 py-3">
+        <Search className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+        <input
+          ref={inputRef}
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search prompts..."
+          className="flex-1 bg-transparent text-lg outline-none placeholder:text-muted-foreground"
+        />
+      </div>
+
+      {error && (
+        <div className="border-b border-destructive/30 bg-destructive/10 px-4 py-2 text-xs text-destructive">
+          {error}
+        </div>
+      )}
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-2">
+        {results.map((prompt, index) => (
+          <div
+            key={prompt.id}
+            onMouseMove={() => setSelectedIndex(index)}
+            onClick={() => handleSelect(prompt)}
+            className={cn(
+              'cursor-pointer rounded-xl px-3 py-2',
+              index === selectedIndex && 'bg-primary/10'
+            )}
+          >
+            <div className="truncate text-sm font-medium text-primary">{prompt.title}</div>
+            {(prompt.description || prompt.content) && (
+              <div className="truncate text-xs text-muted-foreground">
+                {prompt.description || prompt.content}
+              </div>
+            )}
+          </div>
+        ))}
+        {results.length === 0 && (
+          <div className="px-3 py-6 text-center text-sm text-muted-foreground">
+            {query.trim() ? 'No matching prompts' : 'No prompts yet'}
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-4 border-t border-border px-4 py-2 text-[11px] text-muted-foreground">
+        <span>↑↓ navigate</span>
+        <span>Enter copy</span>
+        <span>Esc close</span>
+      </div>
+
+      <VariableFillDialog
+        open={fillPrompt !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setFillPrompt(null);
+            inputRef.current?.focus();
+          }
+        }}
+        prompt={fillPrompt}
+        onSubmit={(text) => fillPrompt && copyAndHide(fillPrompt.id, text)}
+      />
+    </div>
+  );
+}
@@ -296,7 +296,7 @@ export function BooleanSearchDialog({
             <Label htmlFor="text-query" className="text-base">Optional Text Filter</Label>
             <Input
               id="text-query"
-              placeholder="Additional fuzzy text search..."
+              placeholder="Additional query, e.g. title:review -tag:old..."
               value={textQuery}
               onChange={(e) => setTextQuery(e.target.value)}
             />
@@ -338,7 +338,7 @@ export function BooleanSearchDialog({
             </div>
             {textQuery && (
               <div className="text-sm text-muted-foreground">
-                Text filter: <span className="font-mono">{textQuery}</span>
+                Query: <span className="font-mono">{textQuery}</span>
               </div>
             )}
             <div className="text-sm font-medium text-primary">
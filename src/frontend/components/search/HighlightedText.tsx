@@ -0,0 +1,47 @@
+import { extractSnippet } from "@/core/search/highlight";
+import type { MatchRange } from "@/core/search/highlight";
+
+interface HighlightedTextProps {
+  text: string;
+  /** Sorted, non-overlapping ranges to mark */
+  ranges?: MatchRange[];
+}
+
+/**
+ * Text with the parts a search matched marked
+ */
+export function HighlightedText({ text, ranges }: HighlightedTextProps) {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  ranges.forEach((range, index) => {
+    if (range.start > offset) parts.push(text.slice(offset, range.start));
+    parts.push(
+      <mark
+        key={index}
+        className="rounded-sm bg-primary/15 text-inherit dark:bg-primary/30"
+      >
+        {text.slice(range.start, range.end)}
+      </mark>,
+    );
+    offset = range.end;
+  });
+  if (offset < text.length) parts.push(text.slice(offset));
+
+  return <>{parts}</>;
+}
+
+/**
+ * The part of long text around its first match, highlighted
+ */
+export function HighlightedSnippet({ text, ranges, maxLength }: HighlightedTextProps & { maxLength?: number }) {
+  const snippet = extractSnippet(text, ranges, maxLength);
+  return (
+    <>
+      {snippet.truncatedStart && "…"}
+      <HighlightedText text={snippet.text} ranges={snippet.ranges} />
+      {snippet.truncatedEnd && "…"}
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+import { Fragment, forwardRef } from "react";
+import type { ReactNode } from "react";
+import type { ParsedQuery, QueryToken } from "@/core/search/query";
+import { cn } from "@/shared/utils/cn";
+
+interface QueryHighlightProps {
+  query: string;
+  parsed: ParsedQuery;
+  /** Ghost text after the query, from autocomplete */
+  suggestion?: string;
+  className?: string;
+}
+
+const TOKEN_CLASSES: Record<QueryToken["kind"], string> = {
+  word: "text-foreground",
+  phrase: "text-emerald-700 dark:text-emerald-400",
+  field: "text-foreground",
+  operator: "text-amber-600 dark:text-amber-400",
+  paren: "text-muted-foreground",
+};
+
+/**
+ * The search query with its syntax colored, laid over the (transparent)
+ * input text. Only colors change, never widths, so the caret stays in place.
+ */
+export const QueryHighlight = forwardRef<HTMLDivElement, QueryHighlightProps>(
+  ({ query, parsed, suggestion, className }, ref) => {
+    const parts: ReactNode[] = [];
+    let offset = 0;
+
+    parsed.tokens.forEach((token, index) => {
+      if (token.start > offset) {
+        parts.push(query.slice(offset, token.start));
+      }
+      const invalid = parsed.errors.some(
+        (error) => error.position >= token.start && error.position <= token.end,
+      );
+      const text = query.slice(token.start, token.end);
+      const prefixLength = token.prefixLength ?? 0;
+
+      parts.push(
+        <span
+          key={index}
+          className={cn(
+            TOKEN_CLASSES[token.kind],
+            invalid && "underline decoration-wavy decoration-destructive",
+          )}
+        >
+          {prefixLength > 0 ? (
+            <Fragment>
+              <span className="text-primary">{text.slice(0, prefixLength)}</span>
+              {text.slice(prefixLength)}
+            </Fragment>
+          ) : (
+            text
+          )}
+        </span>,
+      );
+      offset = token.end;
+    });
+    if (offset < query.length) {
+      parts.push(query.slice(offset));
+    }
+
+    return (
+      <div
+        ref={ref}
+        aria-hidden="true"
+        className={cn("pointer-events-none overflow-hidden whitespace-pre", className)}
+      >
+        {parts}
+        {suggestion && (
+          <span className="text-muted-foreground/50">{suggestion}</span>
+        )}
+      </div>
+    );
+  },
+);
+QueryHighlight.displayName = "QueryHighlight";
@@ -1,8 +1,11 @@
 import { useState } from 'react';
-import { Bookmark, Trash2, Play, Copy as CopyIcon, Edit2 } from 'lucide-react';
+import { Bookmark, Trash2, Play, Copy as CopyIcon, Edit2, Package } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/frontend/components/ui/dialog';
 import { Button } from '@/frontend/components/ui/button';
 import { expressionToString } from '@/core/search/boolean';
+import { filterBySavedSearch } from '@/core/search';
+import { usePrompts } from '@/frontend/hooks/usePrompts';
+import { PackExportDialog } from '@/frontend/components/packs/PackExportDialog';
 import type { SavedSearch } from '@/shared/types/prompt';
 import type { UseCollectionsReturn } from '@/frontend/hooks/useCollections';
 
@@ -28,6 +31,8 @@ export function SavedSearchesDialog({
   collections: collectionsHook,
 }: SavedSearchesDialogProps) {
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [exportingSearch, setExportingSearch] = useState<SavedSearch | null>(null);
+  const prompts = usePrompts((state) => state.prompts);
 
   const handleDelete = (id: string) => {
     if (confirm('Are you sure you want to delete this collection?')) {
@@ -184,6 +189,18 @@ export function SavedSearchesDialog({
                       >
                         <CopyIcon className="h-4 w-4" />
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setExportingSearch(search);
+                        }}
+                        title="Export as pack"
+                      >
+                        <Package className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -206,7 +223,7 @@ export function SavedSearchesDialog({
                     </code>
                     {search.textQuery && (
                       <div className="text-xs text-muted-foreground">
-                        Text filter: <span className="font-mono text-xs">{search.textQuery}</span>
+                        Query: <span className="font-mono text-xs">{search.textQuery}</span>
                       </div>
                     )}
                   </div>
@@ -228,6 +245,14 @@ export function SavedSearchesDialog({
           </Button>
         </div>
       </DialogContent>
+
+      <PackExportDialog
+        open={exportingSearch !== null}
+        onOpenChange={(isOpen) => !isOpen && setExportingSearch(null)}
+        prompts={exportingSearch ? filterBySavedSearch(prompts, exportingSearch) : []}
+        defaultName={exportingSearch?.name}
+        defaultDescription={exportingSearch?.description}
+      />
     </Dialog>
   );
 }
@@ -1,14 +1,26 @@
-import { Search, X, Filter, Bookmark, Archive, Plus } from "lucide-react";
+import { Search, X, Filter, Bookmark, Archive, Plus, SpellCheck, Sparkles, Check, Loader2, Settings } from "lucide-react";
 import { Input } from "@/frontend/components/ui/input";
 import { Badge } from "@/frontend/components/ui/badge";
 import { Button } from "@/frontend/components/ui/button";
 import { SavedSearchesDialog } from "@/frontend/components/search/SavedSearchesDialog";
+import { SemanticSearchDialog } from "@/frontend/components/search/SemanticSearchDialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/frontend/components/ui/dropdown-menu";
 import { usePrompts } from "@/frontend/hooks/usePrompts";
+import { useSemanticSearch } from "@/frontend/hooks/useSemanticSearch";
 import { getAllTags } from "@/core/search";
 import {
   expressionToString,
   parseBooleanExpression,
+  quoteTag,
 } from "@/core/search/boolean";
+import { completeQuery, parseQuery } from "@/core/search/query";
+import type { QueryCompletion } from "@/core/search/query";
 import {
   useState,
   useEffect,
@@ -18,10 +30,12 @@ import {
   useCallback,
   startTransition,
   useMemo,
+  useLayoutEffect,
 } from "react";
 import type { BooleanExpression, SavedSearch } from "@/shared/types/prompt";
 import type { UseCollectionsReturn } from "@/frontend/hooks/useCollections";
 import { BooleanBuilder } from "@/frontend/components/search/BooleanBuilder";
+import { QueryHighlight } from "@/frontend/components/search/QueryHighlight";
 import { getDuplicateCount } from "@/core/validation/duplicates";
 
 interface SearchBarProps {
@@ -65,6 +79,8 @@ export const SearchBar = forwardRef<SearchBarHandle, SearchBarProps>(
       setBooleanExpression,
       loadSavedSearch,
       clearBooleanSearch,
+      fuzzySearch,
+      setFuzzySearch,
     } = usePrompts();
     // Memoize allTags to avoid recalculating on every render
     const allTags = useMemo(() => getAllTags(prompts), [prompts]);
@@ -73,6 +89,10 @@ export const SearchBar = forwardRef<SearchBarHandle, SearchBarProps>(
     const [expressionText, setExpressionText] = useState("");
     const [savedSearchesDialogOpen, setSavedSearchesDialogOpen] =
       useState(false);
+    const [semanticDialogOpen, setSemanticDialogOpen] = useState(false);
+    const semanticEnabled = useSemanticSearch((state) => state.enabled);
+    const semanticStatus = useSemanticSearch((state) => state.status);
+    const setSemanticEnabled = useSemanticSearch((state) => state.setEnabled);
     const searchInputRef = useRef<HTMLInputElement>(null);
     const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -141,7 +161,19 @@ export const SearchBar = forwardRef<SearchBarHandle, SearchBarProps>(
     }, [setSearchQuery]);
 
     // Inline autocomplete state
-    const [inlineSuggestion, setInlineSuggestion] = useState("");
+    const [completion, setCompletion] = useState<QueryCompletion | null>(null);
+
+    // The query as typed, parsed for syntax highlighting
+    const parsedInput = useMemo(() => parseQuery(inputValue), [inputValue]);
+    const highlightRef = useRef<HTMLDivElement>(null);
+
+    // Keep the highlighted text scrolled with the input
+    const syncHighlightScroll = useCallback(() => {
+      if (highlightRef.current && searchInputRef.current) {
+        highlightRef.current.scrollLeft = searchInputRef.current.scrollLeft;
+      }
+    }, []);
+    useLayoutEffect(syncHighlightScroll, [inputValue, syncHighlightScroll]);
 
     // Expose methods to parent component
     useImperativeHandle(ref, () => ({
@@ -161,58 +193,35 @@ export const SearchBar = forwardRef<SearchBarHandle, SearchBarProps>(
     // Update inline suggestion when input value or cursor position changes
     useEffect(() => {
       if (!searchInputRef.current) {
-        setInlineSuggestion("");
+        setCompletion(null);
         return;
       }
 
-      const input = searchInputRef.current;
-      const cursorPos = input.selectionStart || 0;
-
       // Only show suggestion if cursor is at the end of the text
+      const cursorPos = searchInputRef.current.selectionStart || 0;
       if (cursorPos !== inputValue.length) {
-        setInlineSuggestion("");
+        setCompletion(null);
         return;
       }
 
-      const textBeforeCursor = inputValue.slice(0, cursorPos);
-      const lastHashIndex = textBeforeCursor.lastIndexOf("#");
-
-      if (lastHashIndex !== -1) {
-        const tagQuery = textBeforeCursor.slice(lastHashIndex + 1);
-
-        // Check if we're still in a tag (no space after #)
-        if (!tagQuery.includes(" ") && tagQuery.length > 0) {
-          // Find first tag that starts with the query
-          const matchingTag = allTags.find((tag) =>
-            tag.toLowerCase().startsWith(tagQuery.toLowerCase()),
-          );
-
-          if (
-            matchingTag &&
-            matchingTag.toLowerCase() !== tagQuery.toLowerCase()
-          ) {
-            // Show the remaining part of the tag
-            const suggestion = matchingTag.slice(tagQuery.length);
-            setInlineSuggestion(suggestion);
-            return;
-          }
-        }
-      }
-
-      setInlineSuggestion("");
+      // Field names, tags after tag: or #, is: values
+      setCompletion(completeQuery(inputValue, allTags));
     }, [inputValue, allTags]);
 
     // Handle inline autocomplete acceptance
     const acceptInlineSuggestion = () => {
-      if (!inlineSuggestion || !searchInputRef.current) return;
+      if (!completion || !searchInputRef.current) return;
 
-      const newQuery = inputValue + inlineSuggestion + " ";
+      const newQuery =
+        inputValue.slice(0, completion.from) +
+        completion.text +
+        inputValue.slice(completion.to);
       setInputValue(newQuery);
       isInternalChange.current = true;
       setSearchQuery(newQuery);
-      setInlineSuggestion("");
+      setCompletion(null);
 
-      // Set cursor position after the space
+      // Set cursor position after the completion
       setTimeout(() => {
         const input = searchInputRef.current;
         if (input) {
@@ -226,14 +235,14 @@ export const SearchBar = forwardRef<SearchBarHandle, SearchBarProps>(
     const handleInlineAutocompleteKeyDown = (
       e: React.KeyboardEvent<HTMLInputElement>,
     ) => {
-      if (!inlineSuggestion) return;
+      if (!completion) return;
 
       if (e.key === "Tab" || e.key === "ArrowRight") {
         e.preventDefault();
         acceptInlineSuggestion();
       } else if (e.key === "Escape") {
         e.preventDefault();
-        setInlineSuggestion("");
+        setCompletion(null);
       }
     };
 
@@ -282,18 +291,15 @@ export const SearchBar = forwardRef<SearchBarHandle, SearchBarProps>(
           <div className="relative flex-1">
             <Search className="pointer-events-none absolute left-3 sm:left-2.5 top-1/2 h-4 w-4 sm:h-3.5 sm:w-3.5 -translate-y-1/2 text-muted-foreground" />
 
-            {/* Inline suggestion overlay */}
-            {inlineSuggestion && (
-              <div
-                className="pointer-events-none absolute left-11 sm:left-10 top-1/2 -translate-y-1/2 text-base sm:text-sm text-muted-foreground/50"
-                style={{
-                  whiteSpace: "pre",
-                  fontFamily: "inherit",
-                }}
-              >
-                <span className="invisible">{inputValue}</span>
-                {inlineSuggestion}
-              </div>
+            {/* Syntax highlighting and inline suggestion, under the transparent input text */}
+            {inputValue && (
+              <QueryHighlight
+                ref={highlightRef}
+                query={inputValue}
+                parsed={parsedInput}
+                suggestion={completion?.remainder}
+                className="absolute inset-0 flex items-center pl-10 sm:pl-9 pr-32 sm:pr-28 text-sm"
+              />
             )}
 
             <Input
@@ -301,13 +307,17 @@ export const SearchBar = forwardRef<SearchBarHandle, SearchBarProps>(
               type="text"
               placeholder={
                 booleanExpression
-                  ? "Additional text filter…"
+                  ? "Additional query…"
                   : "Search prompts…"
               }
               value={inputValue}
               onChange={handleInputChange}
               onKeyDown={handleInlineAutocompleteKeyDown}
-              className="h-9 sm:h-8 w-full border-0 bg-transparent pl-10 sm:pl-9 pr-20 sm:pr-16 text-sm sm:text-sm focus-visible:ring-0 py-0"
+              onScroll={syncHighlightScroll}
+              onSelect={syncHighlightScroll}
+              title={parsedInput.errors[0]?.message}
+              aria-invalid={parsedInput.errors.length > 0 || undefined}
+              className="h-9 sm:h-8 w-full border-0 bg-transparent pl-10 sm:pl-9 pr-32 sm:pr-28 text-sm sm:text-sm text-transparent caret-foreground focus-visible:ring-0 py-0"
             />
             <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-0.5">
               {inputValue && (
@@ -319,6 +329,49 @@ export const SearchBar = forwardRef<SearchBarHandle, SearchBarProps>(
                   <X className="h-3.5 w-3.5" />
                 </button>
               )}
+              <Button
+                variant={fuzzySearch ? "default" : "ghost"}
+                size="sm"
+                onClick={() => setFuzzySearch(!fuzzySearch)}
+                className="h-6 w-6 p-0"
+                title={
+                  fuzzySearch
+                    ? "Typo-tolerant search is on"
+                    : "Typo-tolerant search"
+                }
+                aria-pressed={fuzzySearch}
+              >
+                <SpellCheck className="h-3 w-3" />
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant={semanticEnabled ? "default" : "ghost"}
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title="Semantic search"
+                  >
+                    {semanticEnabled && semanticStatus === "indexing" ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <Sparkles className="h-3 w-3" />
+                    )}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-56">
+                  <DropdownMenuItem
+                    onClick={() => setSemanticEnabled(!semanticEnabled)}
+                  >
+                    <span className="flex-1">Semantic search</span>
+                    {semanticEnabled && <Check className="h-4 w-4" />}
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setSemanticDialogOpen(true)}>
+                    <Settings className="h-4 w-4 mr-2" />
+                    Embedding model…
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button
                 variant={
                   booleanExpression || showBooleanBuilder ? "default" : "ghost"
@@ -400,7 +453,7 @@ export const SearchBar = forwardRef<SearchBarHandle, SearchBarProps>(
                               : [...selectedTags, tag];
                             if (updatedTags.length > 0) {
                               const tagsExpression = updatedTags
-                                .map((t) => `"${t}"`)
+                                .map(quoteTag)
                                 .join(" AND ");
                               setExpressionText(tagsExpression);
                               try {
@@ -501,6 +554,11 @@ export const SearchBar = forwardRef<SearchBarHandle, SearchBarProps>(
           duplicateCount={duplicateCount}
           collections={collections}
         />
+
+        <SemanticSearchDialog
+          open={semanticDialogOpen}
+          onOpenChange={setSemanticDialogOpen}
+        />
       </>
     );
   },
@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { AlertCircle, Check, Loader2 } from 'lucide-react';
+import { Dialog, DialogBody, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/frontend/components/ui/dialog';
+import { Button } from '@/frontend/components/ui/button';
+import { Input } from '@/frontend/components/ui/input';
+import { Label } from '@/frontend/components/ui/label';
+import { useSemanticSearch } from '@/frontend/hooks/useSemanticSearch';
+import type { EmbeddingEndpoint } from '@/core/search/semantic';
+import { cn } from '@/shared/utils/cn';
+
+interface SemanticSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type EmbedderKind = 'built-in' | EmbeddingEndpoint['kind'];
+
+const KINDS: { kind: EmbedderKind; label: string; url: string; model: string }[] = [
+  { kind: 'built-in', label: 'Built-in', url: '', model: '' },
+  { kind: 'ollama', label: 'Ollama', url: 'http://localhost:11434', model: 'nomic-embed-text' },
+  { kind: 'openai', label: 'OpenAI-compatible', url: 'http://localhost:1234/v1', model: 'text-embedding-nomic-embed-text-v1.5' },
+];
+
+/**
+ * Choose where semantic search gets its embeddings: the built-in embedder
+ * or a local embedding server
+ */
+export function SemanticSearchDialog({ open, onOpenChange }: SemanticSearchDialogProps) {
+  const { endpoint, status, error, setEndpoint } = useSemanticSearch();
+  const [kind, setKind] = useState<EmbedderKind>('built-in');
+  const [url, setUrl] = useState('');
+  const [model, setModel] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Start from the saved settings each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setKind(endpoint?.kind ?? 'built-in');
+    setUrl(endpoint?.url ?? '');
+    setModel(endpoint?.model ?? '');
+    setFormError(null);
+  }, [open, endpoint]);
+
+  const handleKind = (next: EmbedderKind) => {
+    const defaults = KINDS.find(k => k.kind === next)!;
+    setKind(next);
+    setUrl(next === endpoint?.kind ? endpoint.url : defaults.url);
+    setModel(next === endpoint?.kind ? endpoint.model : defaults.model);
+    setFormError(null);
+  };
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault();
+    if (kind === 'built-in') {
+      setEndpoint(null);
+      onOpenChange(false);
+      return;
+    }
+    if (!/^https?:\/\/\S+$/.test(url.trim())) {
+      setFormError('URL must be an http(s) URL');
+      return;
+    }
+    if (!model.trim()) {
+      setFormError('Model is required');
+      return;
+    }
+
+    setEndpoint({ kind, url: url.trim(), model: model.trim() });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="lg">
+        <DialogHeader className="text-left border-b">
+          <DialogTitle>Semantic Search</DialogTitle>
+          <DialogDescription>
+            Semantic search also finds prompts phrased differently from the query. Embeddings are computed on this device and kept in the local database.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogBody>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Embeddings</Label>
+              <div className="flex flex-wrap gap-2">
+                {KINDS.map(option => (
+                  <Button
+                    key={option.kind}
+                    type="button"
+                    size="sm"
+                    variant={kind === option.kind ? 'default' : 'outline'}
+                    onClick={() => handleKind(option.kind)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {kind === 'built-in'
+                  ? 'Runs on the CPU with nothing to download. It matches related word forms and roots, not meaning; use a local embedding server for that.'
+                  : kind === 'ollama'
+                    ? 'Pull an embedding model first, e.g. `ollama pull nomic-embed-text`.'
+                    : 'Any server with an OpenAI-style /embeddings route, such as LM Studio or llama.cpp.'}
+              </p>
+            </div>
+
+            {kind !== 'built-in' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="embedding-url">URL</Label>
+                  <Input
+                    id="embedding-url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    className="font-mono text-sm"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="embedding-model">Model</Label>
+                  <Input
+                    id="embedding-model"
+                    value={model}
+                    onChange={(e) => setModel(e.target.value)}
+                    className="font-mono text-sm"
+                  />
+                </div>
+              </>
+            )}
+
+            {formError && <p className="text-xs text-destructive">{formError}</p>}
+
+            <div className="flex items-center justify-between gap-3 border-t pt-4">
+              <span
+                className={cn(
+                  'flex items-center gap-1.5 text-xs text-muted-foreground',
+                  status === 'error' && 'text-destructive'
+                )}
+              >
+                {status === 'indexing' && (
+                  <>
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    Embedding prompts…
+                  </>
+                )}
+                {status === 'ready' && (
+                  <>
+                    <Check className="h-3.5 w-3.5" />
+                    Prompts embedded
+                  </>
+                )}
+                {status === 'error' && (
+                  <>
+                    <AlertCircle className="h-3.5 w-3.5" />
+                    {error}
+                  </>
+                )}
+              </span>
+              <Button type="submit" size="sm">
+                Save
+              </Button>
+            </div>
+          </form>
+        </DialogBody>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { AlertTriangle, RotateCcw, Copy, Check } from 'lucide-react';
+import { Button } from '@/frontend/components/ui/button';
+import { useDatabase } from '@/frontend/hooks/useDatabase';
+import { LATEST_SCHEMA_VERSION } from '@/backend/api/migrations';
+
+/**
+ * Full-screen recovery view shown when a schema migration fails on startup
+ */
+export function DatabaseErrorScreen() {
+  const { error, failedMigration, backupPath, migrate } = useDatabase();
+  const [copied, setCopied] = useState(false);
+
+  const details = [
+    `Error: ${error ?? 'Unknown error'}`,
+    failedMigration && `Failed migration: ${failedMigration}`,
+    `Target schema version: ${LATEST_SCHEMA_VERSION}`,
+    backupPath && `Backup: ${backupPath}`,
+  ].filter(Boolean).join('\n');
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(details);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <div className="w-full max-w-lg space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="rounded-full bg-destructive/10 p-3">
+            <AlertTriangle className="h-6 w-6 text-destructive" />
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold">Your prompt database couldn't be updated</h1>
+            <p className="text-sm text-muted-foreground">
+              The failed step was rolled back, so your data is as it was before it ran.
+            </p>
+          </div>
+        </div>
+
+        <pre className="whitespace-pre-wrap break-words rounded-lg border border-border bg-muted/50 p-4 text-xs">
+          {details}
+        </pre>
+
+        <div className="space-y-2 text-sm text-muted-foreground">
+          {backupPath ? (
+            <p>
+              A copy of your database was saved as <code className="text-xs bg-muted px-1 py-0.5 rounded">{backupPath}</code> before
+              the update started. Keep it until the app opens normally again.
+            </p>
+          ) : (
+            <p>No backup was needed because no update had started, or this database is hosted remotely.</p>
+          )}
+          <p>Try again, or copy the details above when reporting the problem.</p>
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={() => migrate()} className="gap-2">
+            <RotateCcw className="h-4 w-4" />
+            Try again
+          </Button>
+          <Button variant="outline" onClick={handleCopy} className="gap-2">
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            {copied ? 'Copied' : 'Copy details'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
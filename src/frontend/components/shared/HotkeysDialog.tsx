@@ -39,6 +39,7 @@ const hotkeysSections: HotkeySection[] = [
     hotkeys: [
       { keys: ['E'], description: 'Edit prompt' },
       { keys: ['C'], description: 'Copy prompt content' },
+      { keys: ['O'], description: 'Open in LLM' },
       { keys: ['A'], description: 'Archive/restore prompt' },
       { keys: ['?'], description: 'Show this help' },
     ],
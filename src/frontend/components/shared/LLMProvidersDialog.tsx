@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { Check, Plus, Trash2 } from 'lucide-react';
+import { Dialog, DialogBody, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/frontend/components/ui/dialog';
+import { Button } from '@/frontend/components/ui/button';
+import { Input } from '@/frontend/components/ui/input';
+import { Label } from '@/frontend/components/ui/label';
+import { useLLMProviders } from '@/frontend/hooks/useLLMProviders';
+import { getAllProviders, isValidUrlTemplate, PROMPT_PLACEHOLDER } from '@/core/llm/providers';
+import { cn } from '@/shared/utils/cn';
+
+interface LLMProvidersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Manage "Open in LLM" providers: pick the global default and add custom URL templates
+ */
+export function LLMProvidersDialog({ open, onOpenChange }: LLMProvidersDialogProps) {
+  const { customProviders, defaultProviderId, addCustomProvider, removeCustomProvider, setDefaultProviderId } = useLLMProviders();
+  const [name, setName] = useState('');
+  const [urlTemplate, setUrlTemplate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const providers = getAllProviders(customProviders);
+
+  const handleAdd = (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (!isValidUrlTemplate(urlTemplate)) {
+      setError('URL template must be an http(s) URL');
+      return;
+    }
+
+    addCustomProvider(name, urlTemplate);
+    setName('');
+    setUrlTemplate('');
+    setError(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent size="lg">
+        <DialogHeader className="text-left border-b">
+          <DialogTitle>LLM Providers</DialogTitle>
+          <DialogDescription>
+            Choose where "Open in LLM" sends prompts. Prompts can override this with their own default.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogBody className="space-y-6">
+          <div className="space-y-1">
+            {providers.map(provider => {
+              const isDefault = provider.id === defaultProviderId;
+              return (
+                <div
+                  key={provider.id}
+                  className={cn(
+                    'flex items-center gap-3 rounded-xl px-3 py-2',
+                    isDefault && 'bg-primary/10'
+                  )}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium">{provider.name}</div>
+                    <div className="text-xs text-muted-foreground font-mono truncate">{provider.urlTemplate}</div>
+                  </div>
+                  {isDefault ? (
+                    <span className="flex items-center gap-1 text-xs text-primary">
+                      <Check className="h-3.5 w-3.5" />
+                      Default
+                    </span>
+                  ) : (
+                    <Button size="sm" variant="ghost" onClick={() => setDefaultProviderId(provider.id)}>
+                      Make default
+                    </Button>
+                  )}
+                  {!provider.builtIn && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeCustomProvider(provider.id)}
+                      className="px-2 text-muted-foreground hover:text-destructive"
+                      title="Remove provider"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <form onSubmit={handleAdd} className="space-y-3 border-t pt-4">
+            <div className="text-sm font-medium">Add custom provider</div>
+            <div className="space-y-2">
+              <Label htmlFor="provider-name">Name</Label>
+              <Input
+                id="provider-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="My LLM"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="provider-url">URL template</Label>
+              <Input
+                id="provider-url"
+                value={urlTemplate}
+                onChange={(e) => setUrlTemplate(e.target.value)}
+                placeholder={`https://example.com/chat?q=${PROMPT_PLACEHOLDER}`}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                {PROMPT_PLACEHOLDER} is replaced with the prompt. Without it, the prompt is copied and the page is opened.
+              </p>
+            </div>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+            <Button type="submit" size="sm" className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add provider
+            </Button>
+          </form>
+        </DialogBody>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { MoreVertical, Upload, Sun, Moon, Rocket } from 'lucide-react';
+import { MoreVertical, Upload, Sun, Moon, Rocket, Package } from 'lucide-react';
 import { Button } from '@/frontend/components/ui/button';
 import {
   DropdownMenu,
@@ -10,10 +10,11 @@ import { useTheme } from '@/frontend/hooks/useTheme';
 
 interface MobileMenuProps {
   onUploadClick: () => void;
+  onPacksClick?: () => void;
   onWhatsNextClick?: () => void;
 }
 
-export function MobileMenu({ onUploadClick, onWhatsNextClick }: MobileMenuProps) {
+export function MobileMenu({ onUploadClick, onPacksClick, onWhatsNextClick }: MobileMenuProps) {
   const { theme, toggleTheme } = useTheme();
 
   return (
@@ -32,6 +33,12 @@ export function MobileMenu({ onUploadClick, onWhatsNextClick }: MobileMenuProps)
           <Upload className="mr-2 h-4 w-4" />
           <span>Import/Export</span>
         </DropdownMenuItem>
+        {onPacksClick && (
+          <DropdownMenuItem onClick={onPacksClick}>
+            <Package className="mr-2 h-4 w-4" />
+            <span>Packs</span>
+          </DropdownMenuItem>
+        )}
         {onWhatsNextClick && (
           <DropdownMenuItem onClick={onWhatsNextClick}>
             <Rocket className="mr-2 h-4 w-4" />
@@ -1,12 +1,17 @@
 import { useState, useRef, useEffect } from 'react';
 import type { DragEvent } from 'react';
-import { Upload, FolderUp, FileText, CheckCircle, AlertCircle, Copy, Download } from 'lucide-react';
+import { Upload, FolderUp, FileText, CheckCircle, AlertCircle, Copy, Download, Package } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/frontend/components/ui/dialog';
 import { Button } from '@/frontend/components/ui/button';
 import { Badge } from '@/frontend/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/frontend/components/ui/tabs';
 import { importMarkdownDirectory, type FileImportResult } from '@/shared/utils/import';
 import type { Prompt } from '@/shared/types/prompt';
+import { renderPrompt, variablesToFrontmatter } from '@/core/template/variables';
+import { getTemplateValues } from '@/core/storage/cache';
+import { resolvePromptIncludes } from '@/frontend/utils/promptTemplates';
+import { PackImportDialog } from '@/frontend/components/packs/PackImportDialog';
+import { PackExportDialog } from '@/frontend/components/packs/PackExportDialog';
 
 
 interface UploadDialogProps {
@@ -37,6 +42,12 @@ function promptToMarkdown(prompt: Prompt): string {
     });
   }
 
+  frontmatter.push(...variablesToFrontmatter(prompt.variables));
+
+  if (prompt.defaultProvider) {
+    frontmatter.push(`provider: ${prompt.defaultProvider}`);
+  }
+
   frontmatter.push(`created: ${new Date(prompt.createdAt).toISOString()}`);
   frontmatter.push(`updated: ${new Date(prompt.updatedAt).toISOString()}`);
   frontmatter.push('---');
@@ -64,8 +75,12 @@ export function UploadDialog({ open, onOpenChange, onImport, existingPromptIds,
   const [exportSelectedIds, setExportSelectedIds] = useState<Set<string>>(new Set());
   const [isExporting, setIsExporting] = useState(false);
   const [hasInitializedExport, setHasInitializedExport] = useState(false);
+  const [renderVariables, setRenderVariables] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
+  const packInputRef = useRef<HTMLInputElement>(null);
+  const [pack, setPack] = useState<{ source: string; fileName: string } | null>(null);
+  const [packExportOpen, setPackExportOpen] = useState(false);
 
 
 
@@ -77,13 +92,28 @@ export function UploadDialog({ open, onOpenChange, onImport, existingPromptIds,
     }
   }, [activeTab, existingPrompts, hasInitializedExport]);
 
+  // Optionally render templates with last-used values (same output as copy)
+  const toExportable = async (prompt: Prompt): Promise<Prompt> => {
+    if (!renderVariables) return prompt;
+    const resolved = await resolvePromptIncludes(prompt);
+    return {
+      ...prompt,
+      content: renderPrompt(resolved, getTemplateValues(prompt.id)),
+      variables: undefined,
+    };
+  };
+
   const handleExportSelected = async () => {
     if (exportSelectedIds.size === 0) return;
 
     setIsExporting(true);
 
     try {
-      const selectedPrompts = existingPrompts.filter(p => exportSelectedIds.has(p.id));
+      const selectedPrompts = await Promise.all(
+        existingPrompts
+          .filter(p => exportSelectedIds.has(p.id))
+          .map(toExportable)
+      );
 
       if (selectedPrompts.length === 1) {
         // Single file export
@@ -169,6 +199,7 @@ export function UploadDialog({ open, onOpenChange, onImport, existingPromptIds,
     setExportSelectedIds(new Set());
     if (fileInputRef.current) fileInputRef.current.value = '';
     if (folderInputRef.current) folderInputRef.current.value = '';
+    if (packInputRef.current) packInputRef.current.value = '';
   };
 
 
@@ -338,6 +369,13 @@ export function UploadDialog({ open, onOpenChange, onImport, existingPromptIds,
     await processFiles(files);
   };
 
+  const handlePackSelect = async () => {
+    const file = packInputRef.current?.files?.[0];
+    if (!file) return;
+    setPack({ source: await file.text(), fileName: file.name });
+    packInputRef.current!.value = '';
+  };
+
   const toggleSelection = (id: string) => {
     const newSelection = new Set(selectedIds);
     if (newSelection.has(id)) {
@@ -589,7 +627,7 @@ export function UploadDialog({ open, onOpenChange, onImport, existingPromptIds,
             </div>
 
             {/* Manual Selection Buttons */}
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <Button
                 variant="outline"
                 onClick={() => fileInputRef.current?.click()}
@@ -615,6 +653,19 @@ export function UploadDialog({ open, onOpenChange, onImport, existingPromptIds,
                   <div className="text-xs text-muted-foreground">All .md files</div>
                 </div>
               </Button>
+
+              <Button
+                variant="outline"
+                onClick={() => packInputRef.current?.click()}
+                disabled={isProcessing}
+                className="h-24 flex flex-col gap-2"
+              >
+                <Package className="h-6 w-6" />
+                <div className="space-y-0.5">
+                  <div className="font-medium">Select Pack</div>
+                  <div className="text-xs text-muted-foreground">.pack.json file</div>
+                </div>
+              </Button>
             </div>
 
             {/* Hidden File Inputs */}
@@ -633,6 +684,13 @@ export function UploadDialog({ open, onOpenChange, onImport, existingPromptIds,
               onChange={handleFolderSelect}
               className="hidden"
             />
+            <input
+              ref={packInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handlePackSelect}
+              className="hidden"
+            />
 
             {/* Info */}
             <div className="rounded-lg border border-border/50 bg-muted/30 p-4 space-y-2">
@@ -741,6 +799,15 @@ export function UploadDialog({ open, onOpenChange, onImport, existingPromptIds,
                     <CheckCircle className="h-4 w-4 text-green-500 mt-0.5 flex-shrink-0" />
                     <p className="text-sm">Exports as Obsidian-compatible markdown with frontmatter</p>
                   </div>
+                  <label className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={renderVariables}
+                      onChange={(e) => setRenderVariables(e.target.checked)}
+                      className="h-4 w-4 mt-0.5"
+                    />
+                    <span className="text-sm">Render templates (expand includes, fill variables with last-used values)</span>
+                  </label>
                   <div className="flex items-start gap-2">
                     <FileText className="h-4 w-4 text-primary mt-0.5 flex-shrink-0" />
                     <p className="text-sm">
@@ -752,24 +819,35 @@ export function UploadDialog({ open, onOpenChange, onImport, existingPromptIds,
                   </div>
                 </div>
 
-                {/* Export button */}
-                <Button
-                  onClick={handleExportSelected}
-                  disabled={exportSelectedCount === 0 || isExporting}
-                  className="w-full gap-2"
-                >
-                  {isExporting ? (
-                    <>
-                      <div className="animate-spin h-4 w-4 border-2 border-background border-t-transparent rounded-full" />
-                      Exporting...
-                    </>
-                  ) : (
-                    <>
-                      <Download className="h-4 w-4" />
-                      Export {exportSelectedCount} Prompt{exportSelectedCount !== 1 ? 's' : ''}
-                    </>
-                  )}
-                </Button>
+                {/* Export buttons */}
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setPackExportOpen(true)}
+                    disabled={exportSelectedCount === 0 || isExporting}
+                    className="gap-2"
+                  >
+                    <Package className="h-4 w-4" />
+                    Export as Pack
+                  </Button>
+                  <Button
+                    onClick={handleExportSelected}
+                    disabled={exportSelectedCount === 0 || isExporting}
+                    className="flex-1 gap-2"
+                  >
+                    {isExporting ? (
+                      <>
+                        <div className="animate-spin h-4 w-4 border-2 border-background border-t-transparent rounded-full" />
+                        Exporting...
+                      </>
+                    ) : (
+                      <>
+                        <Download className="h-4 w-4" />
+                        Export {exportSelectedCount} Prompt{exportSelectedCount !== 1 ? 's' : ''}
+                      </>
+                    )}
+                  </Button>
+                </div>
               </>
             )}
           </TabsContent>
@@ -778,6 +856,19 @@ export function UploadDialog({ open, onOpenChange, onImport, existingPromptIds,
         </Tabs>
         </div>
       </DialogContent>
+
+      <PackImportDialog
+        open={pack !== null}
+        onOpenChange={(isOpen) => !isOpen && setPack(null)}
+        source={pack?.source ?? null}
+        fileName={pack?.fileName}
+        onImported={handleClose}
+      />
+      <PackExportDialog
+        open={packExportOpen}
+        onOpenChange={setPackExportOpen}
+        prompts={activePromptsForExport.filter(p => exportSelectedIds.has(p.id))}
+      />
     </Dialog>
   );
 }
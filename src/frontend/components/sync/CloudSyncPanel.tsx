@@ -0,0 +1,109 @@
+import { AlertCircle, AlertTriangle, RefreshCw, Settings } from "lucide-react";
+import { Button } from "@/frontend/components/ui/button";
+import { useCloudSync } from "@/frontend/hooks/useCloudSync";
+import { useConflicts } from "@/frontend/hooks/useConflicts";
+import { useSyncMode } from "@/frontend/hooks/useSyncMode";
+
+interface CloudSyncPanelProps {
+  serverUrl: string;
+  onEditServer: () => void;
+}
+
+function formatLastSync(timestamp: number | null): string {
+  if (!timestamp) return "Never";
+  return new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Live cloud sync status, manual sync and conflict resolution
+ */
+export function CloudSyncPanel({ serverUrl, onEditServer }: CloudSyncPanelProps) {
+  const { status, syncNow, setAutoSync } = useCloudSync();
+  const { conflicts, setOpen: openConflicts } = useConflicts();
+  const autoSync = useSyncMode((state) => state.cloudSync?.autoSync ?? true);
+
+  if (!status) return null;
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0 space-y-1 text-sm">
+          <p className="truncate font-medium" title={serverUrl}>
+            {serverUrl}
+          </p>
+          <p className="text-muted-foreground">
+            {status.syncing
+              ? "Syncing..."
+              : `Last synced: ${formatLastSync(status.lastSyncAt)}`}
+          </p>
+          <p className="text-muted-foreground">
+            {status.pendingChanges === 0
+              ? "All changes synced"
+              : `${status.pendingChanges} change${status.pendingChanges === 1 ? "" : "s"} waiting to sync`}
+          </p>
+        </div>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={onEditServer}
+            title="Server settings"
+          >
+            <Settings className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5"
+            onClick={() => syncNow()}
+            disabled={status.syncing}
+          >
+            <RefreshCw
+              className={`h-3.5 w-3.5 ${status.syncing ? "animate-spin" : ""}`}
+            />
+            Sync now
+          </Button>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={autoSync}
+          onChange={(e) => setAutoSync(e.target.checked)}
+        />
+        Sync automatically in the background
+      </label>
+
+      {status.error && (
+        <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-2 text-sm text-destructive">
+          <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+          <span>
+            Offline or unreachable: {status.error}. Changes are kept on this
+            device and will sync later.
+          </span>
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="flex items-center justify-between gap-2 rounded-md bg-amber-500/10 p-2 text-sm">
+          <span className="flex items-center gap-1.5 text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            {conflicts.length === 1
+              ? "1 prompt was edited on another device too"
+              : `${conflicts.length} prompts were edited on another device too`}
+          </span>
+          <Button size="sm" variant="outline" onClick={() => openConflicts(true)}>
+            Review
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
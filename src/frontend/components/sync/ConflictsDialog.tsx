@@ -0,0 +1,315 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, GitMerge } from "lucide-react";
+import {
+  Dialog,
+  DialogBody,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/frontend/components/ui/dialog";
+import { Button } from "@/frontend/components/ui/button";
+import { Input } from "@/frontend/components/ui/input";
+import { useConflicts } from "@/frontend/hooks/useConflicts";
+import { useSyncMode } from "@/frontend/hooks/useSyncMode";
+import {
+  mergeThreeWay,
+  applyMerge,
+  type HunkChoice,
+  type MergeHunk,
+} from "@/core/merge/threeWay";
+import type {
+  ConflictResolution,
+  PromptConflict,
+} from "@/shared/interfaces/StorageBackend";
+import { cn } from "@/shared/utils/cn";
+
+/** Unchanged runs longer than this are folded */
+const FOLD_AFTER = 6;
+
+function sideLabels(source: PromptConflict["source"]) {
+  return source === "cloud"
+    ? { local: "This device", remote: "Other device" }
+    : { local: "App edit", remote: "File" };
+}
+
+function Lines({ lines, className }: { lines: string[]; className?: string }) {
+  if (lines.length === 0) {
+    return <p className="px-3 py-1 text-xs italic text-muted-foreground">(no lines)</p>;
+  }
+  return (
+    <pre className={cn("whitespace-pre-wrap break-words px-3 py-1 font-mono text-xs", className)}>
+      {lines.join("\n")}
+    </pre>
+  );
+}
+
+function StableLines({ lines }: { lines: string[] }) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (expanded || lines.length <= FOLD_AFTER) {
+    return <Lines lines={lines} className="text-muted-foreground" />;
+  }
+  return (
+    <div className="text-muted-foreground">
+      <Lines lines={lines.slice(0, 2)} />
+      <button
+        type="button"
+        className="px-3 text-xs hover:underline"
+        onClick={() => setExpanded(true)}
+      >
+        … {lines.length - 4} unchanged lines
+      </button>
+      <Lines lines={lines.slice(-2)} />
+    </div>
+  );
+}
+
+interface HunkViewProps {
+  hunk: MergeHunk;
+  choice: HunkChoice;
+  labels: { local: string; remote: string };
+  onChoose: (choice: HunkChoice) => void;
+}
+
+function HunkView({ hunk, choice, labels, onChoose }: HunkViewProps) {
+  const options: Array<{ value: HunkChoice; label: string }> = [
+    { value: "local", label: labels.local },
+    { value: "remote", label: labels.remote },
+    { value: "both", label: "Both" },
+    { value: "base", label: "Original" },
+  ];
+
+  return (
+    <div
+      className={cn(
+        "my-1 rounded-md border",
+        hunk.conflict ? "border-amber-500/60" : "border-border",
+      )}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-border bg-muted/40 px-3 py-1.5">
+        <span className="text-xs font-medium">
+          {hunk.conflict
+            ? "Changed on both sides"
+            : `Changed in ${hunk.suggested === "remote" ? labels.remote : labels.local}`}
+        </span>
+        <div className="flex gap-1">
+          {options.map((option) => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={choice === option.value ? "default" : "ghost"}
+              className="h-6 px-2 text-xs"
+              onClick={() => onChoose(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 divide-y divide-border sm:grid-cols-2 sm:divide-x sm:divide-y-0">
+        <div className={cn(choice === "local" || choice === "both" ? "bg-emerald-500/10" : "opacity-60")}>
+          <p className="px-3 pt-1 text-[10px] uppercase tracking-wide text-muted-foreground">{labels.local}</p>
+          <Lines lines={hunk.local} />
+        </div>
+        <div className={cn(choice === "remote" || choice === "both" ? "bg-emerald-500/10" : "opacity-60")}>
+          <p className="px-3 pt-1 text-[10px] uppercase tracking-wide text-muted-foreground">{labels.remote}</p>
+          <Lines lines={hunk.remote} />
+        </div>
+      </div>
+      {choice === "base" && (
+        <div className="border-t border-border bg-emerald-500/10">
+          <p className="px-3 pt-1 text-[10px] uppercase tracking-wide text-muted-foreground">Original</p>
+          <Lines lines={hunk.base} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface MergeViewProps {
+  conflict: PromptConflict;
+  onResolve: (resolution: ConflictResolution) => Promise<void>;
+}
+
+/**
+ * Three-way merge of one conflict: pick a side per hunk, then save the
+ * result (or either copy as a whole) as a new version
+ */
+function MergeView({ conflict, onResolve }: MergeViewProps) {
+  const { localVersion, remoteVersion, baseContent, baseVersion } = conflict;
+  const merge = useMemo(
+    () => mergeThreeWay(baseContent, localVersion.content, remoteVersion.content),
+    [baseContent, localVersion.content, remoteVersion.content],
+  );
+  const [choices, setChoices] = useState<Record<number, HunkChoice>>({});
+  const [changeNote, setChangeNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const labels = sideLabels(conflict.source);
+  const unresolved = merge.hunks.filter(
+    (hunk) => hunk.conflict && choices[hunk.index] === undefined,
+  ).length;
+
+  const resolve = async (resolution: ConflictResolution) => {
+    setSaving(true);
+    try {
+      await onResolve({ ...resolution, changeNote: changeNote.trim() || undefined });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1 text-sm">
+        <p className="font-medium">{localVersion.title}</p>
+        {remoteVersion.title !== localVersion.title && (
+          <p className="text-xs text-muted-foreground">
+            {labels.remote} title: “{remoteVersion.title}”. Merging keeps the {labels.local.toLowerCase()} title and details.
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {baseVersion === null
+            ? "No shared version found, so everything is compared as one change."
+            : `Compared against version ${baseVersion}, the last one both copies share.`}
+          {merge.conflicts > 0 && ` ${unresolved} of ${merge.conflicts} conflicting change${merge.conflicts === 1 ? "" : "s"} left to pick.`}
+        </p>
+      </div>
+
+      <div className="max-h-[45vh] overflow-y-auto rounded-md border border-border py-1">
+        {merge.chunks.map((chunk, i) =>
+          chunk.type === "stable" ? (
+            <StableLines key={i} lines={chunk.lines} />
+          ) : (
+            <HunkView
+              key={i}
+              hunk={chunk}
+              labels={labels}
+              choice={choices[chunk.index] ?? chunk.suggested}
+              onChoose={(choice) =>
+                setChoices((current) => ({ ...current, [chunk.index]: choice }))
+              }
+            />
+          ),
+        )}
+      </div>
+
+      <Input
+        value={changeNote}
+        onChange={(e) => setChangeNote(e.target.value)}
+        placeholder="Change note (optional)"
+      />
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button
+          variant="outline"
+          disabled={saving}
+          onClick={() => resolve({ strategy: "local" })}
+        >
+          Keep {labels.local.toLowerCase()}
+        </Button>
+        <Button
+          variant="outline"
+          disabled={saving}
+          onClick={() => resolve({ strategy: "remote" })}
+        >
+          Keep {labels.remote.toLowerCase()}
+        </Button>
+        <Button
+          disabled={saving || unresolved > 0}
+          onClick={() =>
+            resolve({ strategy: "merge", mergedContent: applyMerge(merge, choices) })
+          }
+        >
+          <GitMerge className="mr-1.5 h-4 w-4" />
+          Save merge
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Lists prompts edited in two places at once and merges them
+ */
+export function ConflictsDialog() {
+  const { conflicts, open, setOpen, bind, resolveConflict } = useConflicts();
+  const currentMode = useSyncMode((state) => state.currentMode);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Follow the active backend's conflicts
+  useEffect(() => bind(), [bind, currentMode]);
+
+  const selected =
+    conflicts.find((c) => c.promptId === selectedId) ?? conflicts[0] ?? null;
+
+  const handleResolve = async (resolution: ConflictResolution) => {
+    if (!selected) return;
+    const resolved = await resolveConflict(selected.promptId, resolution);
+    if (resolved) setSelectedId(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit conflicts</DialogTitle>
+          <DialogDescription>
+            These prompts were changed in two places at once. Pick a side for
+            each change; the result is saved as a new version.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogBody className="pt-0">
+          {!selected ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No conflicts left.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {conflicts.length > 1 && (
+                <div className="flex flex-wrap gap-1">
+                  {conflicts.map((conflict) => (
+                    <Button
+                      key={conflict.promptId}
+                      size="sm"
+                      variant={conflict.promptId === selected.promptId ? "secondary" : "ghost"}
+                      onClick={() => setSelectedId(conflict.promptId)}
+                    >
+                      {conflict.localVersion.title}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              <MergeView
+                key={selected.promptId}
+                conflict={selected}
+                onResolve={handleResolve}
+              />
+            </div>
+          )}
+        </DialogBody>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Header button shown while there are unresolved conflicts
+ */
+export function ConflictsButton() {
+  const { conflicts, setOpen } = useConflicts();
+  if (conflicts.length === 0) return null;
+
+  return (
+    <Button
+      variant="ghost"
+      className="h-8 gap-1.5 px-2 text-amber-600 dark:text-amber-400"
+      onClick={() => setOpen(true)}
+      title="Resolve edit conflicts"
+    >
+      <AlertTriangle className="h-4 w-4" />
+      <span className="text-xs font-medium">{conflicts.length}</span>
+    </Button>
+  );
+}
@@ -0,0 +1,180 @@
+import { AlertCircle, CheckCircle2, Copy, FileWarning } from "lucide-react";
+import { Button } from "@/frontend/components/ui/button";
+import { useDirectoryDiagnostics } from "@/frontend/hooks/useDirectoryDiagnostics";
+import { useSyncMode } from "@/frontend/hooks/useSyncMode";
+import { relativePath } from "@/core/directory/folders";
+import type { DirectoryFix, DirectoryIssue } from "@/shared/interfaces/StorageBackend";
+
+function issueKey(issue: DirectoryIssue): string {
+  switch (issue.kind) {
+    case "invalid":
+      return `invalid:${issue.path}`;
+    case "duplicate-id":
+      return `duplicate-id:${issue.promptId}`;
+    case "source-collision":
+      return `source-collision:${issue.promptId}`;
+    case "filename-collision":
+      return `filename-collision:${issue.fileName}`;
+  }
+}
+
+function FixButton({
+  fix,
+  label,
+  canFix,
+}: {
+  fix: DirectoryFix;
+  label: string;
+  canFix: (fix: DirectoryFix) => boolean;
+}) {
+  const { fixing, fixIssue } = useDirectoryDiagnostics();
+  if (!canFix(fix)) return null;
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      className="h-6 px-2 text-xs"
+      disabled={fixing}
+      onClick={() => fixIssue(fix)}
+    >
+      {label}
+    </Button>
+  );
+}
+
+function IssueRow({
+  issue,
+  display,
+  canFix,
+}: {
+  issue: DirectoryIssue;
+  display: (path: string) => string;
+  /** Whether a fix applies (its file is in a writable directory, and so on) */
+  canFix: (fix: DirectoryFix) => boolean;
+}) {
+  switch (issue.kind) {
+    case "invalid":
+      return (
+        <li className="space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="flex min-w-0 items-center gap-1.5">
+              <FileWarning className="h-3.5 w-3.5 flex-shrink-0 text-amber-500" />
+              <code className="truncate text-xs">{display(issue.path)}</code>
+            </span>
+            {issue.missingId && (
+              <FixButton fix={{ kind: "add-id", path: issue.path }} label="Add ID" canFix={canFix} />
+            )}
+          </div>
+          <p className="pl-5 text-xs text-muted-foreground">{issue.error}</p>
+        </li>
+      );
+
+    case "duplicate-id":
+      return (
+        <li className="space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="flex min-w-0 items-center gap-1.5 text-xs">
+              <Copy className="h-3.5 w-3.5 flex-shrink-0 text-amber-500" />
+              <span className="truncate">
+                ID <code>{issue.promptId}</code> is used by {issue.paths.length} files;
+                only one shows up
+              </span>
+            </span>
+            <FixButton fix={{ kind: "merge", promptId: issue.promptId }} label="Merge" canFix={canFix} />
+          </div>
+          {issue.paths.map((path) => (
+            <div key={path} className="flex items-center justify-between gap-2 pl-5">
+              <code className="truncate text-xs text-muted-foreground">{display(path)}</code>
+              <FixButton fix={{ kind: "add-id", path }} label="New ID" canFix={canFix} />
+            </div>
+          ))}
+        </li>
+      );
+
+    case "source-collision":
+      return (
+        <li className="space-y-1">
+          <span className="flex min-w-0 items-center gap-1.5 text-xs">
+            <Copy className="h-3.5 w-3.5 flex-shrink-0 text-amber-500" />
+            <span className="truncate">
+              ID <code>{issue.promptId}</code> is in {issue.paths.length} directories;
+              the first is shown
+            </span>
+          </span>
+          {issue.paths.map((path, index) => (
+            <div key={path} className="flex items-center justify-between gap-2 pl-5">
+              <code className="truncate text-xs text-muted-foreground">{display(path)}</code>
+              {index > 0 && (
+                <FixButton fix={{ kind: "add-id", path }} label="New ID" canFix={canFix} />
+              )}
+            </div>
+          ))}
+        </li>
+      );
+
+    case "filename-collision":
+      return (
+        <li className="space-y-1">
+          <span className="flex min-w-0 items-center gap-1.5 text-xs">
+            <AlertCircle className="h-3.5 w-3.5 flex-shrink-0 text-amber-500" />
+            <span className="truncate">
+              Names differ only in case: <code>{issue.fileName}</code>
+            </span>
+          </span>
+          {issue.paths.map((path) => (
+            <div key={path} className="flex items-center justify-between gap-2 pl-5">
+              <code className="truncate text-xs text-muted-foreground">{display(path)}</code>
+              <FixButton fix={{ kind: "rename", path }} label="Rename" canFix={canFix} />
+            </div>
+          ))}
+        </li>
+      );
+  }
+}
+
+/**
+ * Files of the attached directory that don't show up as prompts, or clash
+ * with each other, with one-click fixes
+ */
+export function DirectoryDiagnostics() {
+  const { issues, error } = useDirectoryDiagnostics();
+  const directorySources = useSyncMode((state) => state.directorySources);
+
+  const sourceOf = (path: string) =>
+    directorySources.find((source) => relativePath(source.path, path) !== null);
+  const display = (path: string) => {
+    const source = sourceOf(path);
+    const relative = source && relativePath(source.path, path);
+    if (!source || !relative) return path;
+    return directorySources.length > 1 ? `${source.label}: ${relative}` : relative;
+  };
+  const canFix = (fix: DirectoryFix) =>
+    fix.kind === "merge" || !sourceOf(fix.path)?.readOnly;
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-3">
+      <h3 className="text-sm font-medium">File issues</h3>
+
+      {issues.length === 0 ? (
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />
+          Every file was read as a prompt.
+        </p>
+      ) : (
+        <ul className="max-h-64 space-y-3 overflow-y-auto">
+          {issues.map((issue) => (
+            <IssueRow
+              key={issueKey(issue)}
+              issue={issue}
+              display={display}
+              canFix={canFix}
+            />
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
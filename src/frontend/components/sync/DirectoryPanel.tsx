@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Button } from "@/frontend/components/ui/button";
+import { Input } from "@/frontend/components/ui/input";
+import { Label } from "@/frontend/components/ui/label";
+import { Textarea } from "@/frontend/components/ui/textarea";
+import { usePrompts } from "@/frontend/hooks/usePrompts";
+import { useSyncMode } from "@/frontend/hooks/useSyncMode";
+import {
+  FRONTMATTER_PRESETS,
+  type FrontmatterField,
+  type FrontmatterProfile,
+} from "@/core/directory/frontmatter";
+import type { FileNaming } from "@/core/directory/folders";
+
+const FIELD_LABELS: Record<FrontmatterField, string> = {
+  id: "ID",
+  title: "Title",
+  description: "Description",
+  tags: "Tags",
+  createdAt: "Created",
+  updatedAt: "Updated",
+  archived: "Archived",
+};
+
+const FILE_NAMING_LABELS: Record<FileNaming, string> = {
+  slug: "Title (renamed with it)",
+  id: "Prompt ID",
+  keep: "Title when created",
+};
+
+function toLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Frontmatter keys for each prompt field, starting from a preset
+ */
+function FrontmatterSettings({
+  profile,
+  onChange,
+}: {
+  profile: FrontmatterProfile;
+  onChange: (profile: FrontmatterProfile) => void;
+}) {
+  const preset = Object.entries(FRONTMATTER_PRESETS).find(
+    ([, p]) => JSON.stringify(p.profile) === JSON.stringify(profile),
+  )?.[0];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="frontmatter-preset">Frontmatter</Label>
+        <select
+          id="frontmatter-preset"
+          className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+          value={preset ?? "custom"}
+          onChange={(e) => {
+            const chosen = FRONTMATTER_PRESETS[e.target.value];
+            if (chosen) onChange(chosen.profile);
+          }}
+        >
+          {Object.entries(FRONTMATTER_PRESETS).map(([id, p]) => (
+            <option key={id} value={id}>
+              {p.name}
+            </option>
+          ))}
+          {!preset && <option value="custom">Custom</option>}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        {(Object.keys(FIELD_LABELS) as FrontmatterField[]).map((field) => (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={`frontmatter-${field}`} className="text-xs text-muted-foreground">
+              {FIELD_LABELS[field]}
+            </Label>
+            <Input
+              id={`frontmatter-${field}`}
+              className="h-8 font-mono text-xs"
+              value={profile.keys[field]}
+              onChange={(e) =>
+                onChange({ ...profile, keys: { ...profile.keys, [field]: e.target.value } })
+              }
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={profile.tagStyle === "inline"}
+            onChange={(e) =>
+              onChange({ ...profile, tagStyle: e.target.checked ? "inline" : "list" })
+            }
+          />
+          Write tags inline (<code>[a, b]</code>)
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={profile.assignIds}
+            onChange={(e) => onChange({ ...profile, assignIds: e.target.checked })}
+          />
+          Add an ID to notes without one
+        </label>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Which files of the attached directory are read, whether folders become
+ * tags, how files are named, whether saves are committed, and how
+ * frontmatter is mapped
+ */
+export function DirectoryPanel() {
+  const { directoryOptions, setDirectoryOptions } = useSyncMode();
+  const loadPrompts = usePrompts((state) => state.loadPrompts);
+  const [include, setInclude] = useState(directoryOptions.include.join("\n"));
+  const [exclude, setExclude] = useState(directoryOptions.exclude.join("\n"));
+  const [foldersAsTags, setFoldersAsTags] = useState(directoryOptions.foldersAsTags);
+  const [frontmatter, setFrontmatter] = useState(directoryOptions.frontmatter);
+  const [fileNames, setFileNames] = useState(directoryOptions.fileNames);
+  const [autoCommit, setAutoCommit] = useState(directoryOptions.autoCommit);
+
+  const changed =
+    include !== directoryOptions.include.join("\n") ||
+    exclude !== directoryOptions.exclude.join("\n") ||
+    foldersAsTags !== directoryOptions.foldersAsTags ||
+    fileNames !== directoryOptions.fileNames ||
+    autoCommit !== directoryOptions.autoCommit ||
+    JSON.stringify(frontmatter) !== JSON.stringify(directoryOptions.frontmatter);
+
+  const handleSave = async () => {
+    setDirectoryOptions({
+      include: toLines(include),
+      exclude: toLines(exclude),
+      foldersAsTags,
+      frontmatter,
+      fileNames,
+      autoCommit,
+    });
+    await loadPrompts();
+  };
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-3">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label htmlFor="directory-include">Include</Label>
+          <Textarea
+            id="directory-include"
+            rows={3}
+            className="font-mono text-xs"
+            value={include}
+            onChange={(e) => setInclude(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="directory-exclude">Exclude</Label>
+          <Textarea
+            id="directory-exclude"
+            rows={3}
+            className="font-mono text-xs"
+            value={exclude}
+            onChange={(e) => setExclude(e.target.value)}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        One pattern per line. <code>**</code> matches any number of folders;
+        a pattern without a <code>/</code> matches a name in any folder.
+      </p>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={foldersAsTags}
+          onChange={(e) => setFoldersAsTags(e.target.checked)}
+        />
+        Tag prompts with the folders they're in
+      </label>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={autoCommit}
+          onChange={(e) => setAutoCommit(e.target.checked)}
+        />
+        Commit each save (directories in a git repository)
+      </label>
+
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="directory-file-names">Name files after</Label>
+        <select
+          id="directory-file-names"
+          className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+          value={fileNames}
+          onChange={(e) => setFileNames(e.target.value as FileNaming)}
+        >
+          {(Object.keys(FILE_NAMING_LABELS) as FileNaming[]).map((naming) => (
+            <option key={naming} value={naming}>
+              {FILE_NAMING_LABELS[naming]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <FrontmatterSettings profile={frontmatter} onChange={setFrontmatter} />
+
+      <div className="flex justify-end">
+        <Button size="sm" disabled={!changed} onClick={handleSave}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { FolderPlus, Trash2 } from "lucide-react";
+import { Button } from "@/frontend/components/ui/button";
+import { Input } from "@/frontend/components/ui/input";
+import { usePrompts } from "@/frontend/hooks/usePrompts";
+import { useSyncMode } from "@/frontend/hooks/useSyncMode";
+import type { DirectorySource } from "@/shared/types/sync";
+
+function SourceRow({
+  source,
+  isDefault,
+  onChanged,
+}: {
+  source: DirectorySource;
+  isDefault: boolean;
+  onChanged: () => void;
+}) {
+  const { updateDirectorySource, removeDirectorySource, setDefaultDirectory } =
+    useSyncMode();
+  const [label, setLabel] = useState(source.label);
+
+  const saveLabel = () => {
+    const trimmed = label.trim();
+    if (!trimmed || trimmed === source.label) {
+      setLabel(source.label);
+      return;
+    }
+    updateDirectorySource(source.path, { label: trimmed });
+    onChanged();
+  };
+
+  return (
+    <li className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <Input
+          aria-label="Label"
+          className="h-8 flex-1 text-sm"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onBlur={saveLabel}
+          onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+        />
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 w-8 p-0"
+          disabled={isDefault}
+          title={isDefault ? "The default directory can't be removed" : "Detach"}
+          onClick={() => {
+            removeDirectorySource(source.path);
+            onChanged();
+          }}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="truncate font-mono text-xs text-muted-foreground" title={source.path}>
+        {source.path}
+      </p>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+        <label className="flex items-center gap-1.5">
+          <input
+            type="radio"
+            name="default-directory"
+            checked={isDefault}
+            disabled={source.readOnly}
+            onChange={() => {
+              setDefaultDirectory(source.path);
+              onChanged();
+            }}
+          />
+          New prompts go here
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={source.readOnly}
+            disabled={isDefault}
+            onChange={(e) => {
+              updateDirectorySource(source.path, { readOnly: e.target.checked });
+              onChanged();
+            }}
+          />
+          Read-only
+        </label>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * The attached directories: their labels, which one new prompts are
+ * written to, and which are read-only
+ */
+export function DirectorySources() {
+  const { directorySources, attachedDirectory, addDirectorySource } = useSyncMode();
+  const loadPrompts = usePrompts((state) => state.loadPrompts);
+
+  const handleAdd = async () => {
+    if (await addDirectorySource()) {
+      await loadPrompts();
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium">Directories</h3>
+        <Button size="sm" variant="outline" className="h-7" onClick={handleAdd}>
+          <FolderPlus className="mr-1.5 h-3.5 w-3.5" />
+          Add directory
+        </Button>
+      </div>
+
+      <ul className="space-y-4">
+        {directorySources.map((source) => (
+          <SourceRow
+            key={source.path}
+            source={source}
+            isDefault={source.path === attachedDirectory}
+            onChanged={() => void loadPrompts()}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
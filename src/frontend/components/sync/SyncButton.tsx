@@ -1,10 +1,8 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Cloud,
   Database,
   Folder,
-  Sparkles,
-  Check,
   AlertCircle,
   RotateCcw,
 } from "lucide-react";
@@ -17,47 +15,65 @@ import {
   DialogDescription,
 } from "@/frontend/components/ui/dialog";
 import { Input } from "@/frontend/components/ui/input";
+import { Label } from "@/frontend/components/ui/label";
 import { type SyncMode, SYNC_MODES } from "@/shared/types/sync";
 import { useSyncModeStatus, useSyncMode } from "@/frontend/hooks/useSyncMode";
+import { useCloudSync } from "@/frontend/hooks/useCloudSync";
+import { useConflicts } from "@/frontend/hooks/useConflicts";
+import { useDirectoryDiagnostics } from "@/frontend/hooks/useDirectoryDiagnostics";
+import { CloudSyncPanel } from "./CloudSyncPanel";
+import { DirectoryDiagnostics } from "./DirectoryDiagnostics";
+import { DirectoryPanel } from "./DirectoryPanel";
+import { DirectorySources } from "./DirectorySources";
 
 export function SyncButton() {
   const [showModal, setShowModal] = useState(false);
-  const [email, setEmail] = useState("");
-  const [submitted, setSubmitted] = useState(false);
-  const [loading, setLoading] = useState(false);
   const [selectedMode, setSelectedMode] = useState<SyncMode | null>(null);
 
   const syncStatus = useSyncModeStatus();
-  const { switchMode, attachDirectory } = useSyncMode();
+  const { switchMode, attachDirectory, connectCloudSync, cloudSync } =
+    useSyncMode();
+  const [serverUrl, setServerUrl] = useState(cloudSync?.url ?? "");
+  const [authToken, setAuthToken] = useState(cloudSync?.authToken ?? "");
+
+  const { status: cloudStatus, bind } = useCloudSync();
+  const conflicts = useConflicts((state) => state.conflicts);
+  const { issues, bind: bindDiagnostics } = useDirectoryDiagnostics();
+  const needsAttention =
+    (!!cloudStatus && (!!cloudStatus.error || conflicts.length > 0)) ||
+    issues.length > 0;
+
+  // Follow background sync while in cloud sync mode
+  useEffect(() => {
+    if (syncStatus.mode !== "cloud-sync") return;
+    return bind();
+  }, [syncStatus.mode, bind]);
+
+  // Follow file problems while a directory is attached
+  useEffect(() => {
+    if (syncStatus.mode !== "attached-directory") return;
+    return bindDiagnostics();
+  }, [syncStatus.mode, bindDiagnostics]);
 
   const handleClick = () => {
     setShowModal(true);
     setSelectedMode(null);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleConnect = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!email.trim()) return;
-
-    setLoading(true);
-
-    // Log for validation - in production, send to backend/Typeform
-    console.log("[Waitlist] Cloud Sync interest:", email);
-
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 500));
+    if (!serverUrl.trim()) return;
 
-    setSubmitted(true);
-    setLoading(false);
-  };
-
-  const handleClose = () => {
-    setShowModal(false);
-    setTimeout(() => {
-      setSubmitted(false);
-      setEmail("");
-      setSelectedMode(null);
-    }, 200);
+    const success = await connectCloudSync({
+      url: serverUrl.trim(),
+      authToken: authToken.trim() || undefined,
+    });
+    if (success) {
+      // Reload to apply the new mode
+      setTimeout(() => {
+        window.location.reload();
+      }, 1000);
+    }
   };
 
   const handleModeSelect = async (mode: SyncMode) => {
@@ -72,7 +88,7 @@ export function SyncButton() {
         }, 1000);
       }
     } else if (mode === "cloud-sync") {
-      // Show waitlist for cloud sync
+      // Ask for the sync server before switching
       setSelectedMode(mode);
     } else {
       // Simple mode switch for app-only
@@ -102,8 +118,17 @@ export function SyncButton() {
 
   return (
     <>
-      <Button variant="ghost" className="h-8 w-8 p-0" onClick={handleClick}>
-        <RotateCcw className="h-4 w-4" />
+      <Button
+        variant="ghost"
+        className="relative h-8 w-8 p-0"
+        onClick={handleClick}
+      >
+        <RotateCcw
+          className={`h-4 w-4 ${cloudStatus?.syncing ? "animate-spin" : ""}`}
+        />
+        {needsAttention && (
+          <span className="absolute top-1 right-1 h-2 w-2 rounded-full bg-amber-500" />
+        )}
       </Button>
 
       <Dialog open={showModal} onOpenChange={setShowModal}>
@@ -115,63 +140,83 @@ export function SyncButton() {
             </DialogDescription>
           </DialogHeader>
 
-          {selectedMode === "cloud-sync" && submitted ? (
-            <div className="py-6 text-center space-y-4">
-              <div className="mx-auto w-12 h-12 rounded-full bg-green-100 dark:bg-green-900/30 flex items-center justify-center">
-                <Check className="w-6 h-6 text-green-600 dark:text-green-400" />
-              </div>
-              <div>
-                <h3 className="font-semibold text-lg">You're on the list!</h3>
-                <p className="text-sm text-muted-foreground mt-1">
-                  We'll notify you when Cloud Sync launches.
-                </p>
-              </div>
-              <Button onClick={handleClose} variant="outline" className="mt-4">
-                Close
-              </Button>
-            </div>
-          ) : selectedMode === "cloud-sync" ? (
-            <div className="space-y-6 px-6 pb-6">
-              <div className="space-y-3">
-                <Feature
-                  icon={<Cloud className="h-4 w-4" />}
-                  title="Sync Across Devices"
-                  description="Your prompts, everywhere you work"
-                />
-                <Feature
-                  icon={<Sparkles className="h-4 w-4" />}
-                  title="Automatic Backup"
-                  description="Never lose your carefully crafted prompts"
-                />
-              </div>
+          {selectedMode === "cloud-sync" ? (
+            <form onSubmit={handleConnect} className="space-y-4 px-6 pb-6">
+              <p className="text-sm text-muted-foreground">
+                Connect to a libSQL server: a Turso database, or your own{" "}
+                <code className="text-xs bg-muted px-1 py-0.5 rounded">
+                  sqld
+                </code>
+                . Your prompts stay on this device and sync in the background.
+              </p>
 
-              <div className="rounded-lg bg-muted/50 p-4 text-center">
-                <p className="text-sm text-muted-foreground">
-                  Cloud sync is coming soon! Join the waitlist to get early
-                  access.
-                </p>
+              <div className="space-y-2">
+                <Label htmlFor="sync-server-url">Server URL</Label>
+                <Input
+                  id="sync-server-url"
+                  placeholder="libsql://my-db.turso.io or http://127.0.0.1:8080"
+                  value={serverUrl}
+                  onChange={(e) => setServerUrl(e.target.value)}
+                  required
+                />
               </div>
 
-              <form onSubmit={handleSubmit} className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="sync-auth-token">Auth token (optional)</Label>
                 <Input
-                  type="email"
-                  placeholder="you@email.com"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                  className="w-full"
+                  id="sync-auth-token"
+                  type="password"
+                  value={authToken}
+                  onChange={(e) => setAuthToken(e.target.value)}
                 />
-                <Button type="submit" className="w-full" disabled={loading}>
-                  {loading ? "Joining..." : "Get Early Access"}
-                </Button>
-              </form>
+              </div>
 
-              <p className="text-xs text-center text-muted-foreground">
-                Be first to know when Cloud Sync launches. No spam.
-              </p>
-            </div>
+              {syncStatus.error && (
+                <div className="rounded-lg bg-destructive/10 border border-destructive/20 p-3">
+                  <div className="flex items-start gap-2">
+                    <AlertCircle className="w-4 h-4 text-destructive mt-0.5 flex-shrink-0" />
+                    <p className="text-sm text-destructive">
+                      {syncStatus.error}
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setSelectedMode(null)}
+                >
+                  Back
+                </Button>
+                <Button
+                  type="submit"
+                  className="flex-1"
+                  disabled={syncStatus.isSwitching || !serverUrl.trim()}
+                >
+                  {syncStatus.isSwitching ? "Connecting..." : "Connect"}
+                </Button>
+              </div>
+            </form>
           ) : (
             <div className="space-y-4 px-6 pb-6">
+              {syncStatus.mode === "cloud-sync" && (
+                <CloudSyncPanel
+                  serverUrl={cloudSync?.url ?? ""}
+                  onEditServer={() => setSelectedMode("cloud-sync")}
+                />
+              )}
+
+              {syncStatus.mode === "attached-directory" &&
+                syncStatus.attachedDirectory && (
+                  <>
+                    <DirectorySources />
+                    <DirectoryPanel />
+                    <DirectoryDiagnostics />
+                  </>
+                )}
+
               {(
                 Object.entries(SYNC_MODES) as [
                   SyncMode,
@@ -282,25 +327,3 @@ export function SyncButton() {
     </>
   );
 }
-
-function Feature({
-  icon,
-  title,
-  description,
-}: {
-  icon: React.ReactNode;
-  title: string;
-  description: string;
-}) {
-  return (
-    <div className="flex items-start gap-3">
-      <div className="mt-0.5 p-2 rounded-lg bg-primary/10 text-primary">
-        {icon}
-      </div>
-      <div>
-        <h4 className="font-medium text-sm">{title}</h4>
-        <p className="text-xs text-muted-foreground">{description}</p>
-      </div>
-    </div>
-  );
-}
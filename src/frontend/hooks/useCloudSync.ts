@@ -0,0 +1,43 @@
+/**
+ * Cloud sync status hook
+ * Mirrors the active backend's SyncStatus for the UI (conflicts live in useConflicts)
+ */
+import { create } from 'zustand';
+import type { SyncStatus } from '@/shared/interfaces/StorageBackend';
+import { getStorageBackend } from './usePrompts';
+import { useSyncMode } from './useSyncMode';
+
+interface CloudSyncState {
+  /** Null when the active backend doesn't sync */
+  status: SyncStatus | null;
+
+  /** Follow the active backend's sync status; returns an unsubscribe function */
+  bind: () => () => void;
+  syncNow: () => Promise<void>;
+  setAutoSync: (enabled: boolean) => void;
+}
+
+export const useCloudSync = create<CloudSyncState>((set) => ({
+  status: null,
+
+  bind: () => {
+    const sync = getStorageBackend().sync;
+    if (!sync) {
+      set({ status: null });
+      return () => {};
+    }
+
+    set({ status: sync.getSyncStatus() });
+    return sync.onSyncStatusChange((status) => set({ status }));
+  },
+
+  syncNow: async () => {
+    await getStorageBackend().sync?.sync();
+  },
+
+  setAutoSync: (enabled) => {
+    useSyncMode.getState().setCloudAutoSync(enabled);
+    // Applied to the running backend
+    getStorageBackend();
+  },
+}));
@@ -0,0 +1,65 @@
+/**
+ * Conflicts hook
+ * Open edit conflicts from the active backend (cloud sync or an attached
+ * directory) and the merge dialog that resolves them
+ */
+import { create } from 'zustand';
+import type { PromptConflict, ConflictResolution } from '@/shared/interfaces/StorageBackend';
+import { getStorageBackend, usePrompts } from './usePrompts';
+
+interface ConflictsState {
+  conflicts: PromptConflict[];
+  /** Whether the merge dialog is open */
+  open: boolean;
+
+  /** Follow the active backend's conflicts; returns an unsubscribe function */
+  bind: () => () => void;
+  loadConflicts: () => Promise<void>;
+  resolveConflict: (promptId: string, resolution: ConflictResolution) => Promise<boolean>;
+  setOpen: (open: boolean) => void;
+}
+
+export const useConflicts = create<ConflictsState>((set, get) => ({
+  conflicts: [],
+  open: false,
+
+  bind: () => {
+    const conflicts = getStorageBackend().conflicts;
+    if (!conflicts) {
+      set({ conflicts: [] });
+      return () => {};
+    }
+
+    void get().loadConflicts();
+    return conflicts.onConflictsChange(() => void get().loadConflicts());
+  },
+
+  loadConflicts: async () => {
+    const conflicts = getStorageBackend().conflicts;
+    if (!conflicts) return;
+
+    try {
+      set({ conflicts: await conflicts.getConflicts() });
+    } catch (error) {
+      // Offline: keep showing the conflicts we already know about
+      console.warn('[Conflicts] Failed to load conflicts:', error);
+    }
+  },
+
+  resolveConflict: async (promptId, resolution) => {
+    const conflicts = getStorageBackend().conflicts;
+    if (!conflicts) return false;
+
+    try {
+      await conflicts.resolveConflict(promptId, resolution);
+      set(state => ({ conflicts: state.conflicts.filter(c => c.promptId !== promptId) }));
+      await usePrompts.getState().loadPrompts();
+      return true;
+    } catch (error) {
+      console.error('[Conflicts] Failed to resolve conflict:', error);
+      return false;
+    }
+  },
+
+  setOpen: (open) => set({ open }),
+}));
@@ -0,0 +1,55 @@
+/**
+ * Database readiness hook
+ * Runs schema migrations once on startup; identity and data loading wait for it
+ */
+import { create } from 'zustand';
+import { isTursoConfigured, migrateDatabase } from '@/backend/api/turso';
+import { MigrationError } from '@/backend/api/migrations';
+
+export type DatabaseStatus = 'pending' | 'migrating' | 'ready' | 'failed';
+
+interface DatabaseState {
+  status: DatabaseStatus;
+  error: string | null;
+  /** Migration that failed, e.g. "5 (packs)" */
+  failedMigration: string | null;
+  backupPath: string | null;
+
+  migrate: () => Promise<void>;
+}
+
+export const useDatabase = create<DatabaseState>((set, get) => ({
+  status: 'pending',
+  error: null,
+  failedMigration: null,
+  backupPath: null,
+
+  migrate: async () => {
+    const { status } = get();
+    if (status === 'migrating' || status === 'ready') return;
+
+    // Nothing to migrate without a database (web build without Turso)
+    if (!isTursoConfigured()) {
+      set({ status: 'ready' });
+      return;
+    }
+
+    set({ status: 'migrating', error: null, failedMigration: null });
+
+    try {
+      const result = await migrateDatabase();
+      if (result.applied.length > 0) {
+        console.log(`[Database] Schema migrated from v${result.from} to v${result.to}`);
+      }
+      set({ status: 'ready', backupPath: result.backupPath ?? null });
+    } catch (error) {
+      console.error('[Database] Migration failed:', error);
+      set({
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to open the database',
+        failedMigration: error instanceof MigrationError ? `${error.version} (${error.migrationName})` : null,
+        backupPath: error instanceof MigrationError ? error.backupPath ?? null : null,
+      });
+    }
+  },
+}));
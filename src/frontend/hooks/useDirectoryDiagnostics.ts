@@ -0,0 +1,67 @@
+/**
+ * Directory diagnostics hook
+ * Problems with the attached directory's files (invalid notes, duplicate
+ * ids, file names differing only in case), refreshed whenever the directory is rescanned
+ */
+import { create } from 'zustand';
+import type { DirectoryFix, DirectoryIssue } from '@/shared/interfaces/StorageBackend';
+import { getStorageBackend, usePrompts } from './usePrompts';
+
+interface DirectoryDiagnosticsState {
+  issues: DirectoryIssue[];
+  /** Whether a fix is being applied */
+  fixing: boolean;
+  error: string | null;
+
+  /** Follow the active backend's diagnostics; returns an unsubscribe function */
+  bind: () => () => void;
+  loadIssues: () => Promise<void>;
+  fixIssue: (fix: DirectoryFix) => Promise<boolean>;
+}
+
+export const useDirectoryDiagnostics = create<DirectoryDiagnosticsState>((set, get) => ({
+  issues: [],
+  fixing: false,
+  error: null,
+
+  bind: () => {
+    const diagnostics = getStorageBackend().diagnostics;
+    if (!diagnostics) {
+      set({ issues: [] });
+      return () => {};
+    }
+
+    void get().loadIssues();
+    return diagnostics.onDiagnosticsChange(() => void get().loadIssues());
+  },
+
+  loadIssues: async () => {
+    const diagnostics = getStorageBackend().diagnostics;
+    if (!diagnostics) return;
+
+    try {
+      set({ issues: await diagnostics.getDiagnostics() });
+    } catch (error) {
+      console.warn('[Diagnostics] Failed to check directory:', error);
+    }
+  },
+
+  fixIssue: async (fix) => {
+    const diagnostics = getStorageBackend().diagnostics;
+    if (!diagnostics) return false;
+
+    set({ fixing: true, error: null });
+    try {
+      await diagnostics.fixIssue(fix);
+      await usePrompts.getState().loadPrompts();
+      await get().loadIssues();
+      return true;
+    } catch (error) {
+      console.error('[Diagnostics] Failed to fix issue:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to fix the file' });
+      return false;
+    } finally {
+      set({ fixing: false });
+    }
+  },
+}));
@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import {
+  getCustomProviders,
+  saveCustomProviders,
+  getDefaultProviderId,
+  saveDefaultProviderId,
+} from '@/core/storage/cache';
+import { createProviderId, getAllProviders, DEFAULT_PROVIDER_ID } from '@/core/llm/providers';
+import type { LLMProvider } from '@/core/llm/providers';
+
+interface LLMProvidersState {
+  customProviders: LLMProvider[];
+  defaultProviderId: string;
+  addCustomProvider: (name: string, urlTemplate: string) => LLMProvider;
+  removeCustomProvider: (id: string) => void;
+  setDefaultProviderId: (id: string) => void;
+}
+
+export const useLLMProviders = create<LLMProvidersState>((set, get) => ({
+  customProviders: getCustomProviders(),
+  defaultProviderId: getDefaultProviderId() || DEFAULT_PROVIDER_ID,
+
+  addCustomProvider: (name, urlTemplate) => {
+    const { customProviders } = get();
+    const provider: LLMProvider = {
+      id: createProviderId(name, getAllProviders(customProviders)),
+      name: name.trim(),
+      urlTemplate: urlTemplate.trim(),
+    };
+    const next = [...customProviders, provider];
+    saveCustomProviders(next);
+    set({ customProviders: next });
+    return provider;
+  },
+
+  removeCustomProvider: (id) => {
+    const { customProviders, defaultProviderId } = get();
+    const next = customProviders.filter(p => p.id !== id);
+    saveCustomProviders(next);
+    set({ customProviders: next });
+
+    if (defaultProviderId === id) {
+      saveDefaultProviderId(DEFAULT_PROVIDER_ID);
+      set({ defaultProviderId: DEFAULT_PROVIDER_ID });
+    }
+  },
+
+  setDefaultProviderId: (id) => {
+    saveDefaultProviderId(id);
+    set({ defaultProviderId: id });
+  },
+}));
@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import {
+  getCopyCounts,
+  getListOptions,
+  getViewMode,
+  recordPromptCopy,
+  saveListOptions,
+  saveViewMode,
+} from '@/core/storage/cache';
+import type { ListOptions } from '@/core/search/sort';
+
+interface ListOptionsState extends ListOptions {
+  viewMode: 'list' | 'cards';
+  /** Times each prompt was copied, by ID */
+  copyCounts: Record<string, number>;
+  setListOptions: (changes: Partial<ListOptions>) => void;
+  setViewMode: (mode: 'list' | 'cards') => void;
+  recordCopy: (promptId: string) => void;
+  /** Pick up copies counted in other windows (the quick launch overlay) */
+  reloadCopyCounts: () => void;
+}
+
+export const useListOptions = create<ListOptionsState>((set, get) => ({
+  ...getListOptions(),
+  viewMode: getViewMode(),
+  copyCounts: getCopyCounts(),
+
+  setListOptions: (changes) => {
+    const { sortKey, sortDirection, thenBy, groupBy } = { ...get(), ...changes };
+    const options: ListOptions = { sortKey, sortDirection, thenBy, groupBy };
+    saveListOptions(options);
+    set(options);
+  },
+
+  setViewMode: (mode) => {
+    saveViewMode(mode);
+    set({ viewMode: mode });
+  },
+
+  recordCopy: (promptId) => {
+    set({ copyCounts: recordPromptCopy(promptId) });
+  },
+
+  reloadCopyCounts: () => {
+    const copyCounts = getCopyCounts();
+    // Unchanged counts keep the list from being sorted again
+    if (JSON.stringify(copyCounts) !== JSON.stringify(get().copyCounts)) {
+      set({ copyCounts });
+    }
+  },
+}));
@@ -0,0 +1,155 @@
+import { create } from 'zustand';
+import type { Pack, CreatePackData } from '@/shared/interfaces/StorageBackend';
+import { getDeviceId } from '@/core/identity/device';
+import { getOrCreateUser, tursoPackStorage as packStorage } from '@/backend/api/turso-queries';
+
+interface PacksState {
+  packs: Pack[];
+  loading: boolean;
+  error: string | null;
+
+  loadPacks: () => Promise<void>;
+  createPack: (data: CreatePackData) => Promise<Pack | null>;
+  updatePack: (packId: string, updates: Partial<CreatePackData>) => Promise<void>;
+  deletePack: (packId: string) => Promise<void>;
+  addPromptsToPack: (packId: string, promptIds: string[]) => Promise<void>;
+  removePromptsFromPack: (packId: string, promptIds: string[]) => Promise<void>;
+  reorderPackPrompts: (packId: string, promptIds: string[]) => Promise<void>;
+  sharePack: (packId: string) => Promise<string | null>;
+  unsharePack: (packId: string) => Promise<void>;
+  importPack: (shareToken: string) => Promise<Pack | null>;
+}
+
+async function getCurrentUserId(): Promise<string> {
+  const user = await getOrCreateUser(getDeviceId());
+  return user.id;
+}
+
+/**
+ * Packs store (Turso only - packs reference prompts by database ID)
+ */
+export const usePacks = create<PacksState>((set, get) => {
+  // Re-read one pack after a membership change
+  const refreshPack = async (packId: string) => {
+    const pack = await packStorage.getPackById(packId);
+    if (pack) {
+      set({ packs: get().packs.map(p => (p.id === packId ? pack : p)) });
+    }
+  };
+
+  const fail = (action: string, error: unknown) => {
+    console.error(`[usePacks] Failed to ${action}:`, error);
+    set({ error: `Failed to ${action}` });
+  };
+
+  return {
+    packs: [],
+    loading: false,
+    error: null,
+
+    loadPacks: async () => {
+      set({ loading: true, error: null });
+      try {
+        const packs = await packStorage.getPacksByUserId(await getCurrentUserId());
+        set({ packs, loading: false });
+      } catch (error) {
+        fail('load packs', error);
+        set({ loading: false });
+      }
+    },
+
+    createPack: async (data) => {
+      try {
+        const pack = await packStorage.createPack(await getCurrentUserId(), data);
+        set({ packs: [pack, ...get().packs], error: null });
+        return pack;
+      } catch (error) {
+        fail('create pack', error);
+        return null;
+      }
+    },
+
+    updatePack: async (packId, updates) => {
+      try {
+        const pack = await packStorage.updatePack(packId, updates);
+        if (pack) {
+          set({ packs: get().packs.map(p => (p.id === packId ? pack : p)), error: null });
+        }
+      } catch (error) {
+        fail('update pack', error);
+      }
+    },
+
+    deletePack: async (packId) => {
+      try {
+        await packStorage.deletePack(packId);
+        set({ packs: get().packs.filter(p => p.id !== packId), error: null });
+      } catch (error) {
+        fail('delete pack', error);
+      }
+    },
+
+    addPromptsToPack: async (packId, promptIds) => {
+      try {
+        await packStorage.addPromptsToPack(packId, promptIds);
+        await refreshPack(packId);
+      } catch (error) {
+        fail('add prompts to pack', error);
+      }
+    },
+
+    removePromptsFromPack: async (packId, promptIds) => {
+      try {
+        await packStorage.removePromptsFromPack(packId, promptIds);
+        await refreshPack(packId);
+      } catch (error) {
+        fail('remove prompts from pack', error);
+      }
+    },
+
+    reorderPackPrompts: async (packId, promptIds) => {
+      // Optimistic so drag/arrow reordering feels instant
+      const previous = get().packs;
+      set({ packs: previous.map(p => (p.id === packId ? { ...p, promptIds } : p)) });
+      try {
+        await packStorage.reorderPackPrompts(packId, promptIds);
+      } catch (error) {
+        set({ packs: previous });
+        fail('reorder pack', error);
+      }
+    },
+
+    sharePack: async (packId) => {
+      try {
+        const token = await packStorage.sharePack(packId);
+        await refreshPack(packId);
+        return token;
+      } catch (error) {
+        fail('share pack', error);
+        return null;
+      }
+    },
+
+    unsharePack: async (packId) => {
+      try {
+        await packStorage.unsharePack(packId);
+        await refreshPack(packId);
+      } catch (error) {
+        fail('unshare pack', error);
+      }
+    },
+
+    importPack: async (shareToken) => {
+      try {
+        const pack = await packStorage.importPack(await getCurrentUserId(), shareToken);
+        if (!get().packs.some(p => p.id === pack.id)) {
+          set({ packs: [pack, ...get().packs], error: null });
+        }
+        return pack;
+      } catch (error) {
+        fail('import pack', error);
+        return null;
+      }
+    },
+  };
+});
@@ -1,11 +1,16 @@
 import { create } from 'zustand';
 import type { Prompt, PromptMetadata, BooleanExpression, SavedSearch } from '@/shared/types/prompt';
-import { getCachedPrompts, cachePrompt, addPromptToProfile, archivePrompt as archivePromptStorage, restorePrompt as restorePromptStorage } from '@/core/storage/cache';
-import { indexPrompts, addToIndex, removeFromIndex } from '@/core/search';
+import { getCachedPrompts, cachePrompt, addPromptToProfile, archivePrompt as archivePromptStorage, restorePrompt as restorePromptStorage, getFuzzySearch, saveFuzzySearch } from '@/core/storage/cache';
+import { addToIndex, removeFromIndex } from '@/core/search';
+import { loadSearchIndex, resetSearchIndex } from '@/core/search/persistent-index';
+import { getSearchIndexStore } from '@/backend/api/search-index-store';
 import { getDeviceId } from '@/core/identity/device';
 import * as tursoQueries from '@/backend/api/turso-queries';
-import * as directoryStorage from '@/backend/api/directory-storage';
+import { createStorageBackend, type StorageBackend, type BackendConfig, type PromptChanges } from '@/shared/interfaces/StorageBackend';
+import { ReadOnlySourceError } from '@/backend/storage/DirectoryBackend';
 import { useSyncMode } from './useSyncMode';
+import { useSemanticSearch } from './useSemanticSearch';
+import { useListOptions } from './useListOptions';
 
 // Notification callbacks for upload tracking
 export type UploadStartCallback = (txId: string, title: string) => void;
@@ -19,6 +24,8 @@ interface PromptsState {
   selectedTags: string[];
   booleanExpression: BooleanExpression | null;
   activeSavedSearch: SavedSearch | null;
+  /** Typo-tolerant search with English stemming (see core/search/fuzzy.ts) */
+  fuzzySearch: boolean;
   onUploadStart?: UploadStartCallback;
   onUploadComplete?: UploadCompleteCallback;
 
@@ -26,12 +33,16 @@ interface PromptsState {
   directorySyncing: boolean; // True when syncing with attached directory
 
   loadPrompts: (password?: string) => Promise<void>;
+  /** Load prompts without watching them or syncing (the quick launch overlay only shows them) */
+  readPrompts: () => Promise<void>;
   addPrompt: (prompt: Omit<Prompt, 'id' | 'createdAt' | 'updatedAt'>, password?: string) => Promise<boolean>;
-  updatePrompt: (id: string, updates: Partial<Prompt>, password?: string) => Promise<boolean>;
+  /** `basedOn` is the copy the edit started from, used to detect concurrent changes */
+  updatePrompt: (id: string, updates: Partial<Prompt>, password?: string, basedOn?: Prompt) => Promise<boolean>;
   archivePrompt: (id: string, password?: string) => Promise<void>;
   restorePrompt: (id: string, password?: string) => Promise<void>;
   deletePrompt: (id: string) => Promise<void>;
   setSearchQuery: (query: string) => void;
+  setFuzzySearch: (enabled: boolean) => void;
   toggleTag: (tag: string) => void;
   clearFilters: () => void;
   setBooleanExpression: (expression: BooleanExpression | null, textQuery?: string) => void;
@@ -53,6 +64,7 @@ export const usePrompts = create<PromptsState>((set, get) => {
     selectedTags: [],
     booleanExpression: null,
     activeSavedSearch: null,
+    fuzzySearch: getFuzzySearch(),
     onUploadStart: undefined,
     onUploadComplete: undefined,
 
@@ -60,80 +72,251 @@ export const usePrompts = create<PromptsState>((set, get) => {
     directorySyncing: false,
 
     loadPrompts: async (_password?: string) => {
-    const { currentMode, attachedDirectory } = useSyncMode.getState();
-    const isAttachedDirectory = currentMode === 'attached-directory' && attachedDirectory !== null;
-    
-    console.log('[DEBUG] loadPrompts called:', {
-      isAttachedDirectory,
-      attachedDirectory,
-      hasDirectory: isAttachedDirectory && !!attachedDirectory
-    });
-    
-    // Use explicit sync mode instead of localStorage detection
-    if (isAttachedDirectory && attachedDirectory) {
-      console.log('[DEBUG] Initializing directory mode with path:', attachedDirectory);
+      set({ loading: true, error: null });
+      const backend = getStorageBackend();
+
       try {
-        return await initializeDirectoryMode(set, get, attachedDirectory);
-      } catch (dirError) {
-        console.error('[DEBUG] Directory mode failed, falling back to Turso:', dirError);
-        // Fall back to Turso if directory fails
-        return loadPromptsFromTurso(set, get);
+        await ensureReady(backend);
+        const user = await backend.getOrCreateUser(getDeviceId());
+
+        console.log(`Loading prompts from ${backend.type} backend for user:`, user.id);
+
+        // Fetch all prompts (including archived for now, filter in UI)
+        const prompts = await backend.getPromptsByUserId(user.id, { includeArchived: true });
+
+        console.log(`Loaded ${prompts.length} prompts from ${backend.type} backend`);
+
+        // Cache locally for offline access
+        prompts.forEach(p => cachePrompt(p));
+
+        // Index for search: the saved index, updated where prompts changed,
+        // or built in the background
+        void loadSearchIndex(prompts, getSearchIndexStore(), () => get().prompts);
+
+        set({ prompts, loading: false, directorySyncing: false });
+      } catch (error) {
+        console.error(`Load prompts error (${backend.type}):`, error);
+
+        // Fall back to cache on error
+        const cached = getCachedPrompts();
+        const cachedPrompts = Object.values(cached);
+        void loadSearchIndex(cachedPrompts, getSearchIndexStore(), () => get().prompts);
+
+        const reason = error instanceof Error ? error.message : 'Failed to load prompts.';
+        set({
+          prompts: cachedPrompts,
+          loading: false,
+          directorySyncing: false,
+          error: `${reason} Showing cached data.`,
+        });
+        return;
       }
-    }
-    
-    console.log('[DEBUG] Loading from Turso (app-only mode)');
-    return loadPromptsFromTurso(set, get);
-  },
+
+      // Pick up edits made outside the app (attached directory, other devices)
+      if (backend.watch) {
+        await backend.watch((changes) => {
+          const changed = [...changes.added, ...changes.updated];
+          // Skip no-op notifications so the UI doesn't churn
+          if (changed.length === 0 && changes.removed.length === 0) return;
+
+          console.log(`[UsePrompts] External changes detected (${backend.type}), updating index and state`);
+          for (const prompt of changed) {
+            cachePrompt(prompt);
+            if (prompt.isArchived) {
+              removeFromIndex(prompt.id);
+            } else {
+              addToIndex(prompt);
+            }
+          }
+          changes.removed.forEach(removeFromIndex);
+          set(state => ({ prompts: applyPromptChanges(state.prompts, changes) }));
+        });
+      }
+    },
+
+    readPrompts: async () => {
+      set({ loading: true, error: null });
+      // A backend of its own, so nothing of the main window's is started here
+      const backend = createStorageBackend({ ...currentBackendConfig(), readOnly: true });
+
+      try {
+        await backend.initialize();
+        const user = await backend.getOrCreateUser(getDeviceId());
+        const prompts = await backend.getPromptsByUserId(user.id, { includeArchived: true });
+
+        void loadSearchIndex(prompts, getSearchIndexStore(), () => get().prompts);
+        set({ prompts });
+      } finally {
+        set({ loading: false });
+        await backend.dispose?.();
+      }
+    },
 
     addPrompt: async (promptData, _password?: string) => {
-      const { currentMode, attachedDirectory } = useSyncMode.getState();
-      const isAttachedDirectory = currentMode === 'attached-directory' && attachedDirectory !== null;
-      
-      if (isAttachedDirectory && attachedDirectory) {
-        return addPromptToDirectory(set, get, promptData, attachedDirectory);
+      const backend = getStorageBackend();
+      try {
+        await ensureReady(backend);
+        const user = await backend.getOrCreateUser(getDeviceId());
+
+        const prompt = await backend.createPrompt(user.id, {
+          title: promptData.title,
+          description: promptData.description,
+          content: promptData.content,
+          tags: promptData.tags,
+          variables: promptData.variables,
+          defaultProvider: promptData.defaultProvider,
+        });
+
+        // Cache locally and update profile metadata
+        cachePrompt(prompt);
+        addPromptToProfile(toMetadata(prompt));
+
+        // Add to index and state
+        addToIndex(prompt);
+        set(state => ({ prompts: [prompt, ...state.prompts] }));
+
+        // Notify if callback set (for UI feedback)
+        const { onUploadStart } = get();
+        if (onUploadStart) {
+          onUploadStart(prompt.id, prompt.title);
+        }
+
+        return true;
+      } catch (error) {
+        console.error(`Add prompt error (${backend.type}):`, error);
+        set({ error: error instanceof ReadOnlySourceError ? error.message : 'Failed to create prompt' });
+        return false;
       }
-      return addPromptToTurso(set, get, promptData);
     },
 
-    updatePrompt: async (id, updates, _password?: string) => {
-      const { currentMode, attachedDirectory } = useSyncMode.getState();
-      const isAttachedDirectory = currentMode === 'attached-directory' && attachedDirectory !== null;
-      
-      if (isAttachedDirectory && attachedDirectory) {
-        return updatePromptInDirectory(set, get, id, updates, attachedDirectory);
+    updatePrompt: async (id, updates, _password?: string, basedOn?: Prompt) => {
+      const backend = getStorageBackend();
+      try {
+        const existingPrompt = get().prompts.find(p => p.id === id);
+        if (!existingPrompt) {
+          throw new Error('Prompt not found');
+        }
+
+        const changeNote = updates.content !== undefined && updates.content !== existingPrompt.content
+          ? 'Content updated'
+          : 'Metadata updated';
+
+        await ensureReady(backend);
+        const updatedPrompt = await backend.updatePrompt(id, {
+          title: updates.title,
+          description: updates.description,
+          content: updates.content,
+          tags: updates.tags,
+          variables: updates.variables,
+          defaultProvider: updates.defaultProvider,
+          baseContent: basedOn?.content,
+        }, changeNote);
+
+        if (!updatedPrompt) {
+          throw new Error('Update failed');
+        }
+
+        // Cache locally and update profile metadata
+        cachePrompt(updatedPrompt);
+        addPromptToProfile(toMetadata(updatedPrompt));
+
+        // Update index and state
+        addToIndex(updatedPrompt);
+        set(state => ({
+          prompts: state.prompts.map(p => p.id === id ? updatedPrompt : p),
+        }));
+
+        return true;
+      } catch (error) {
+        console.error(`Update prompt error (${backend.type}):`, error);
+        set({ error: error instanceof ReadOnlySourceError ? error.message : 'Failed to update prompt' });
+        return false;
       }
-      return updatePromptInTurso(set, get, id, updates);
     },
 
     archivePrompt: async (id, _password?: string) => {
-      const { currentMode, attachedDirectory } = useSyncMode.getState();
-      const isAttachedDirectory = currentMode === 'attached-directory' && attachedDirectory !== null;
-      
-      if (isAttachedDirectory && attachedDirectory) {
-        return archivePromptInDirectory(set, get, id, attachedDirectory);
+      const prompt = get().prompts.find(p => p.id === id);
+      if (!prompt) return;
+
+      // Optimistically update UI
+      archivePromptStorage(id);
+      removeFromIndex(id);
+      set(state => ({
+        prompts: state.prompts.map(p =>
+          p.id === id ? { ...p, isArchived: true } : p
+        ),
+      }));
+
+      const backend = getStorageBackend();
+      try {
+        await ensureReady(backend);
+        await backend.archivePrompt(id);
+      } catch (error) {
+        console.error(`Failed to archive prompt (${backend.type}):`, error);
+        if (error instanceof ReadOnlySourceError) {
+          // Refused rather than failed: undo the optimistic update
+          set({ error: error.message });
+          await get().loadPrompts();
+        }
+        // UI already updated optimistically
       }
-      return archivePromptInTurso(set, get, id);
     },
 
     restorePrompt: async (id, _password?: string) => {
-      const { currentMode, attachedDirectory } = useSyncMode.getState();
-      const isAttachedDirectory = currentMode === 'attached-directory' && attachedDirectory !== null;
-      
-      if (isAttachedDirectory && attachedDirectory) {
-        return restorePromptInDirectory(set, get, id, attachedDirectory);
+      const prompt = get().prompts.find(p => p.id === id);
+      if (!prompt) return;
+
+      // Optimistically update UI
+      restorePromptStorage(id);
+      addToIndex({ ...prompt, isArchived: false });
+      set(state => ({
+        prompts: state.prompts.map(p =>
+          p.id === id ? { ...p, isArchived: false } : p
+        ),
+      }));
+
+      const backend = getStorageBackend();
+      try {
+        await ensureReady(backend);
+        await backend.restorePrompt(id);
+      } catch (error) {
+        console.error(`Failed to restore prompt (${backend.type}):`, error);
+        if (error instanceof ReadOnlySourceError) {
+          // Refused rather than failed: undo the optimistic update
+          set({ error: error.message });
+          await get().loadPrompts();
+        }
+        // UI already updated optimistically
       }
-      return restorePromptInTurso(set, get, id);
     },
 
     deletePrompt: async (id) => {
-      const { currentMode, attachedDirectory } = useSyncMode.getState();
-      const isAttachedDirectory = currentMode === 'attached-directory' && attachedDirectory !== null;
-      
-      if (isAttachedDirectory && attachedDirectory) {
-        return deletePromptInDirectory(set, get, id, attachedDirectory);
+      const backend = getStorageBackend();
+
+      // In database mode, we just archive (soft delete) so the history survives
+      if (backend.type !== 'directory') {
+        return get().archivePrompt(id);
+      }
+
+      if (!get().prompts.some(p => p.id === id)) return;
+
+      // Update UI - remove from state entirely
+      removeFromIndex(id);
+      set(state => ({
+        prompts: state.prompts.filter(p => p.id !== id),
+      }));
+
+      try {
+        await ensureReady(backend);
+        await backend.deletePrompt(id);
+      } catch (error) {
+        console.error(`Failed to delete prompt (${backend.type}):`, error);
+        if (error instanceof ReadOnlySourceError) {
+          // Refused rather than failed: undo the optimistic update
+          set({ error: error.message });
+          await get().loadPrompts();
+        }
       }
-      // In database mode, we just archive (soft delete)
-      return archivePromptInTurso(set, get, id);
     },
 
   setSearchQuery: (query) => {
@@ -155,6 +338,11 @@ export const usePrompts = create<PromptsState>((set, get) => {
     }));
   },
 
+  setFuzzySearch: (enabled) => {
+    saveFuzzySearch(enabled);
+    set({ fuzzySearch: enabled });
+  },
+
   clearFilters: () => {
     set({ searchQuery: '', selectedTags: [], booleanExpression: null, activeSavedSearch: null });
   },
@@ -206,14 +394,23 @@ export const usePrompts = create<PromptsState>((set, get) => {
 
 
     resetAllData: async () => {
-      // Clear FlexSearch index
-      const { indexPrompts } = await import('@/core/search');
-      indexPrompts([]); // Clear index by reinitializing with empty array
+      // Clear FlexSearch index and its saved copy
+      try {
+        await resetSearchIndex();
+      } catch (error) {
+        console.warn('Failed to clear the saved search index:', error);
+      }
+
+      // Clear prompt embeddings
+      try {
+        await useSemanticSearch.getState().reset();
+      } catch (error) {
+        console.warn('Failed to clear prompt embeddings:', error);
+      }
 
       // Clear Turso data if user exists
       try {
-        const deviceId = getDeviceId();
-        const user = await tursoQueries.getOrCreateUser(deviceId);
+        const user = await tursoQueries.getOrCreateUser(getDeviceId());
         await tursoQueries.clearAllUserData(user.id);
       } catch (error) {
         console.warn('Failed to clear Turso data:', error);
@@ -222,6 +419,7 @@ export const usePrompts = create<PromptsState>((set, get) => {
       // Clear localStorage cache
       const { clearCache } = await import('@/core/storage/cache');
       clearCache();
+      useListOptions.setState({ copyCounts: {} });
 
       // Detach directory if attached using sync mode hook
       const { detachDirectory, currentMode, attachedDirectory } = useSyncMode.getState();
@@ -239,650 +437,86 @@ export const usePrompts = create<PromptsState>((set, get) => {
 });
 
 // =============================================================================
-// Turso Backend Implementation
+// Storage Backend
 // =============================================================================
 
-type SetState = (partial: Partial<PromptsState> | ((state: PromptsState) => Partial<PromptsState>)) => void;
-type GetState = () => PromptsState;
-
-async function loadPromptsFromTurso(set: SetState, _get: GetState): Promise<void> {
-  set({ loading: true, error: null });
-
-  try {
-    const deviceId = getDeviceId();
-    const user = await tursoQueries.getOrCreateUser(deviceId);
-
-    console.log('Loading prompts from Turso for user:', user.id);
-
-    // Fetch all prompts (including archived for now, filter in UI)
-    const prompts = await tursoQueries.getPromptsByUserId(user.id, { includeArchived: true });
-
-    console.log(`Loaded ${prompts.length} prompts from Turso`);
-
-    // Cache locally for offline access
-    prompts.forEach(p => cachePrompt(p));
-
-    // Index for search
-    indexPrompts(prompts);
-
-    set({ prompts, loading: false });
-  } catch (error) {
-    console.error('Load prompts error (Turso):', error);
-
-    // Fall back to cache on error
-    const cached = getCachedPrompts();
-    const cachedPrompts = Object.values(cached);
-    indexPrompts(cachedPrompts);
-
-    set({
-      prompts: cachedPrompts,
-      loading: false,
-      error: 'Failed to sync with server. Showing cached data.',
-    });
-  }
-}
-
-async function addPromptToTurso(
-  set: SetState,
-  get: GetState,
-  promptData: Omit<Prompt, 'id' | 'createdAt' | 'updatedAt'>
-): Promise<boolean> {
-  try {
-    const deviceId = getDeviceId();
-    const user = await tursoQueries.getOrCreateUser(deviceId);
-
-    const prompt = await tursoQueries.createPrompt(user.id, {
-      title: promptData.title,
-      description: promptData.description,
-      content: promptData.content,
-      tags: promptData.tags,
-    });
-
-    // Cache locally
-    cachePrompt(prompt);
-
-    // Update profile metadata
-    const metadata: PromptMetadata = {
-      id: prompt.id,
-      title: prompt.title,
-      tags: prompt.tags,
-      currentTxId: prompt.currentTxId,
-      updatedAt: prompt.updatedAt,
-      isArchived: false,
-    };
-    addPromptToProfile(metadata);
-
-    // Add to index and state
-    addToIndex(prompt);
-    set(state => ({ prompts: [prompt, ...state.prompts] }));
-
-    // Notify if callback set (for UI feedback)
-    const { onUploadStart } = get();
-    if (onUploadStart) {
-      onUploadStart(prompt.id, prompt.title);
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Add prompt error (Turso):', error);
-    set({ error: 'Failed to create prompt' });
-    return false;
-  }
-}
-
-async function updatePromptInTurso(
-  set: SetState,
-  get: GetState,
-  id: string,
-  updates: Partial<Prompt>
-): Promise<boolean> {
-  try {
-    const state = get();
-    const existingPrompt = state.prompts.find(p => p.id === id);
-    if (!existingPrompt) {
-      throw new Error('Prompt not found');
-    }
-
-    const changeNote = updates.content !== existingPrompt.content
-      ? 'Content updated'
-      : 'Metadata updated';
-
-    const updatedPrompt = await tursoQueries.updatePrompt(id, {
-      title: updates.title,
-      description: updates.description,
-      content: updates.content,
-      tags: updates.tags,
-    }, changeNote);
-
-    if (!updatedPrompt) {
-      throw new Error('Update failed');
-    }
-
-    // Cache locally
-    cachePrompt(updatedPrompt);
-
-    // Update profile metadata
-    const metadata: PromptMetadata = {
-      id: updatedPrompt.id,
-      title: updatedPrompt.title,
-      tags: updatedPrompt.tags,
-      currentTxId: updatedPrompt.currentTxId,
-      updatedAt: updatedPrompt.updatedAt,
-      isArchived: updatedPrompt.isArchived,
-    };
-    addPromptToProfile(metadata);
-
-    // Update index and state
-    addToIndex(updatedPrompt);
-    set(state => ({
-      prompts: state.prompts.map(p => p.id === id ? updatedPrompt : p),
-    }));
-
-    return true;
-  } catch (error) {
-    console.error('Update prompt error (Turso):', error);
-    set({ error: 'Failed to update prompt' });
-    return false;
-  }
-}
-
-async function archivePromptInTurso(set: SetState, get: GetState, id: string): Promise<void> {
-  const prompt = get().prompts.find(p => p.id === id);
-  if (!prompt) return;
-
-  // Optimistically update UI
-  archivePromptStorage(id);
-  removeFromIndex(id);
-  set(state => ({
-    prompts: state.prompts.map(p =>
-      p.id === id ? { ...p, isArchived: true } : p
-    ),
-  }));
-
-  try {
-    await tursoQueries.archivePrompt(id);
-  } catch (error) {
-    console.error('Failed to archive prompt in Turso:', error);
-    // UI already updated optimistically
-  }
-}
-
-async function restorePromptInTurso(set: SetState, get: GetState, id: string): Promise<void> {
-  const prompt = get().prompts.find(p => p.id === id);
-  if (!prompt) return;
-
-  // Optimistically update UI
-  restorePromptStorage(id);
-  addToIndex({ ...prompt, isArchived: false });
-  set(state => ({
-    prompts: state.prompts.map(p =>
-      p.id === id ? { ...p, isArchived: false } : p
-    ),
-  }));
-
-  try {
-    await tursoQueries.restorePrompt(id);
-  } catch (error) {
-    console.error('Failed to restore prompt in Turso:', error);
-    // UI already updated optimistically
-  }
-}
-
-// =============================================================================
-// Directory Backend Implementation
-// =============================================================================
+let activeBackend: StorageBackend | null = null;
+let activeBackendKey = '';
+/** Background sync setting the active cloud backend runs with */
+let activeAutoSync: boolean | undefined;
 
 /**
- * Compare two arrays of prompts to check if they're effectively the same
- * Used to avoid unnecessary sync operations when no actual changes occurred
+ * Backend for the current sync mode. Reused until the mode, the attached
+ * directories (or their scan options) or the sync server or its token
+ * change, then the old one is disposed (stopping its watchers or background
+ * sync). Turning auto sync on or off applies to the running backend.
  */
-function arePromptsEqual(prompts1: Prompt[], prompts2: Prompt[]): boolean {
-  if (prompts1.length !== prompts2.length) {
-    return false;
+export function getStorageBackend(): StorageBackend {
+  const config = currentBackendConfig();
+  // Kept in memory only, so the token can be part of it
+  const key = config.directoryOptions
+    ? `${config.type}:${config.directoryPath}:${JSON.stringify([config.directorySources, config.directoryOptions])}`
+    : config.type === 'turso-cloud'
+      ? `${config.type}:${JSON.stringify([config.tursoUrl, config.tursoToken ?? ''])}`
+      : `${config.type}:${config.directoryPath ?? ''}`;
+  const autoSync = config.type === 'turso-cloud' ? config.autoSync ?? true : undefined;
+
+  // A backend not yet initialized would start with its old setting
+  if (!activeBackend || key !== activeBackendKey || (autoSync !== activeAutoSync && !activeBackend.isReady())) {
+    void activeBackend?.dispose?.();
+    activeBackend = createStorageBackend(config);
+    activeBackendKey = key;
+    activeAutoSync = autoSync;
+  } else if (autoSync !== undefined && autoSync !== activeAutoSync) {
+    activeBackend.sync?.setAutoSync(autoSync);
+    activeAutoSync = autoSync;
   }
-  
-  // Create maps by ID for efficient comparison
-  const map1 = new Map(prompts1.map(p => [p.id, p]));
-  const map2 = new Map(prompts2.map(p => [p.id, p]));
-  
-  // Check each prompt for equality
-  for (const [id, prompt1] of map1) {
-    const prompt2 = map2.get(id);
-    if (!prompt2) {
-      return false; // Prompt with this ID doesn't exist in second array
-    }
-    
-    // Compare key fields that matter for changes
-    if (
-      prompt1.title !== prompt2.title ||
-      prompt1.description !== prompt2.description ||
-      prompt1.content !== prompt2.content ||
-      prompt1.updatedAt !== prompt2.updatedAt ||
-      prompt1.isArchived !== prompt2.isArchived ||
-      JSON.stringify(prompt1.tags.sort()) !== JSON.stringify(prompt2.tags.sort())
-    ) {
-      return false;
-    }
-  }
-  
-  return true;
+  return activeBackend;
 }
 
-/**
- * Initialize directory mode with comprehensive sync between directory, Turso, and FlexSearch
- * Directory is ALWAYS the source of truth on startup - loads fresh every time
- */
-async function initializeDirectoryMode(
-  set: SetState,
-  _get: GetState,
-  directoryPath: string
-): Promise<void> {
-  console.log('[DEBUG] initializeDirectoryMode called with path:', directoryPath);
-  set({ loading: true, error: null });
-
-  try {
-    console.log('[Directory] Initializing directory mode - DIRECTORY IS SOURCE OF TRUTH:', directoryPath);
-
-    // Phase 1: ALWAYS load from directory first (source of truth)
-    let directoryPrompts: Prompt[] = [];
-    let directoryError: Error | null = null;
-
-    // Force load from directory - this is the source of truth
-    try {
-      console.log('[DEBUG] FORCE LOADING from directory (source of truth):', directoryPath);
-      directoryPrompts = await directoryStorage.readPromptsFromDirectory(directoryPath);
-      console.log(`[DEBUG] Successfully loaded ${directoryPrompts.length} prompts from filesystem (SOURCE OF TRUTH)`);
-    } catch (error) {
-      directoryError = error as Error;
-      console.error('[DEBUG] CRITICAL: Failed to load from directory (source of truth):', error);
-    }
-
-    // Phase 2: If directory loading failed, we cannot proceed
-    if (directoryError) {
-      const errorMsg = `Directory is not accessible: ${directoryError.message}. Directory must be accessible as the source of truth.`;
-      console.error('[DEBUG] Directory access failed - cannot proceed:', errorMsg);
-      throw new Error(errorMsg);
-    }
-
-    // Phase 3: IMMEDIATELY index FlexSearch and set state with directory data
-    // This ensures search works instantly - don't wait for Turso backup
-    console.log('[DEBUG] Final prompts from directory (source of truth):', directoryPrompts.length);
-    indexPrompts(directoryPrompts);
-    console.log('[DEBUG] FlexSearch index updated with directory data');
-
-    console.log('[DEBUG] Setting state with directory prompts:', directoryPrompts.length);
-    set({
-      prompts: directoryPrompts,
-      loading: false,
-      directorySyncing: false
-    });
-
-    // Phase 4: Sync to Turso in background (non-blocking) - don't await this
-    (async () => {
-      try {
-        console.log('[DEBUG] Loading from Turso for backup/sync purposes (background)...');
-        const deviceId = getDeviceId();
-        const user = await tursoQueries.getOrCreateUser(deviceId);
-        const tursoPrompts = await tursoQueries.getPromptsByUserId(user.id, { includeArchived: true });
-        console.log(`[DEBUG] Loaded ${tursoPrompts.length} prompts from Turso (backup only)`);
-
-        // Sync directory prompts to Turso as backup
-        for (const prompt of directoryPrompts) {
-          try {
-            await tursoQueries.createPrompt(user.id, {
-              id: prompt.id,
-              title: prompt.title,
-              description: prompt.description,
-              content: prompt.content,
-              tags: prompt.tags,
-              createdAt: prompt.createdAt,
-              updatedAt: prompt.updatedAt,
-            });
-          } catch (syncError) {
-            console.warn(`[Directory] Failed to sync prompt ${prompt.id} to Turso:`, syncError);
-          }
-        }
-        console.log(`[Directory] Background sync to Turso complete`);
-      } catch (error) {
-        console.warn('[DEBUG] Failed to load/sync to Turso (continuing with directory only):', error);
-      }
-    })();
-
-    // Phase 6: Setup directory watcher for real-time updates (after initial load is complete)
-    if (!directoryError) {
-      console.log('[Directory] Setting up file watcher for real-time updates...');
-      await directoryStorage.watchDirectory(directoryPath, async (updatedPrompts) => {
-        console.log('[Directory] Filesystem change detected - checking for actual changes');
-        
-        // Get current prompts to compare with updated prompts
-        const currentPrompts = _get().prompts;
-        
-        // Check if prompts actually changed (avoid showing sync for no-op changes)
-        const promptsChanged = !arePromptsEqual(currentPrompts, updatedPrompts);
-        
-        if (!promptsChanged) {
-          console.log('[Directory] No actual changes detected, skipping sync update');
-          return; // Don't show syncing indicator if no changes
-        }
-        
-        console.log('[Directory] Actual changes detected, updating indices and state');
-
-        // Update FlexSearch index synchronously with directory data
-        indexPrompts(updatedPrompts);
-
-        // Update state with directory data (source of truth)
-        // Note: Don't show syncing indicator for file watching - only for explicit CRUD actions
-        set({ prompts: updatedPrompts });
-        
-        // Sync directory changes to Turso in background (non-blocking)
-        try {
-          const deviceId = getDeviceId();
-          const user = await tursoQueries.getOrCreateUser(deviceId);
-          
-          for (const prompt of updatedPrompts) {
-            try {
-              await tursoQueries.createPrompt(user.id, {
-                id: prompt.id,
-                title: prompt.title,
-                description: prompt.description,
-                content: prompt.content,
-                tags: prompt.tags,
-                createdAt: prompt.createdAt,
-                updatedAt: prompt.updatedAt,
-              });
-            } catch (syncError) {
-              console.warn(`[Directory] Failed to sync prompt ${prompt.id} to Turso:`, syncError);
-            }
-          }
-          console.log(`[Directory] Synced ${updatedPrompts.length} directory prompts to Turso (backup)`);
-        } catch (tursoError) {
-          console.warn('[Directory] Failed to sync to Turso (continuing with directory only):', tursoError);
-        }
-      });
-      console.log('[Directory] File watcher setup completed - directory is source of truth');
-    }
-
-    console.log('[DEBUG] Directory initialization completed successfully');
-  } catch (error) {
-    console.error('[DEBUG] Directory initialization failed:', error);
-    set({
-      prompts: [],
-      loading: false,
-      directorySyncing: false,
-      error: error instanceof Error ? error.message : 'Failed to initialize directory mode',
-    });
+/** Backend settings for the current sync mode */
+function currentBackendConfig(): BackendConfig {
+  const { currentMode, attachedDirectory, directorySources, directoryOptions, cloudSync } = useSyncMode.getState();
+  if (currentMode === 'attached-directory' && attachedDirectory) {
+    return { type: 'directory', directoryPath: attachedDirectory, directorySources, directoryOptions };
   }
-}
-
-async function addPromptToDirectory(
-  set: SetState,
-  get: GetState,
-  promptData: Omit<Prompt, 'id' | 'createdAt' | 'updatedAt'>,
-  directoryPath: string
-): Promise<boolean> {
-  try {
-    const now = Date.now();
-    const prompt: Prompt = {
-      id: directoryStorage.generatePromptId(),
-      title: promptData.title,
-      description: promptData.description,
-      content: promptData.content,
-      tags: promptData.tags,
-      currentTxId: '',
-      versions: [],
-      createdAt: now,
-      updatedAt: now,
-      isArchived: false,
-      isSynced: true,
-    };
-
-    // Write to filesystem
-    const filePath = await directoryStorage.writePromptToDirectory(directoryPath, prompt);
-    console.log('Created prompt file:', filePath);
-
-    // Add to index and state
-    addToIndex(prompt);
-    set(state => ({ prompts: [prompt, ...state.prompts] }));
-
-    // Notify if callback set
-    const { onUploadStart } = get();
-    if (onUploadStart) {
-      onUploadStart(prompt.id, prompt.title);
-    }
-
-    // Sync to Turso in background (non-blocking)
-    try {
-      const deviceId = getDeviceId();
-      const user = await tursoQueries.getOrCreateUser(deviceId);
-      await tursoQueries.createPrompt(user.id, {
-        id: prompt.id,
-        title: prompt.title,
-        description: prompt.description,
-        content: prompt.content,
-        tags: prompt.tags,
-        createdAt: prompt.createdAt,
-        updatedAt: prompt.updatedAt,
-      });
-    } catch (tursoError) {
-      console.warn('Failed to sync new prompt to Turso (continuing anyway):', tursoError);
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Add prompt error (Directory):', error);
-    set({ error: 'Failed to create prompt file' });
-    return false;
+  if (currentMode === 'cloud-sync' && cloudSync) {
+    return { type: 'turso-cloud', tursoUrl: cloudSync.url, tursoToken: cloudSync.authToken, autoSync: cloudSync.autoSync };
   }
+  return { type: 'turso-local' };
 }
 
-async function updatePromptInDirectory(
-  set: SetState,
-  get: GetState,
-  id: string,
-  updates: Partial<Prompt>,
-  directoryPath: string
-): Promise<boolean> {
-  try {
-    const state = get();
-    const existingPrompt = state.prompts.find(p => p.id === id) as (Prompt & { _filePath?: string }) | undefined;
-    if (!existingPrompt) {
-      throw new Error('Prompt not found');
-    }
-
-    const updatedPrompt: Prompt = {
-      ...existingPrompt,
-      ...updates,
-      updatedAt: Date.now(),
-    };
-
-    // Find the old file path if available, or search for it
-    let oldFilePath = existingPrompt._filePath;
-    if (!oldFilePath) {
-      oldFilePath = await directoryStorage.findPromptFilePath(directoryPath, id) || undefined;
-    }
-
-    // Write to filesystem
-    await directoryStorage.updatePromptInDirectory(directoryPath, updatedPrompt, oldFilePath);
-
-    // Update index and state
-    addToIndex(updatedPrompt);
-    set(state => ({
-      prompts: state.prompts.map(p => p.id === id ? updatedPrompt : p),
-    }));
-
-    // Sync to Turso in background (non-blocking)
-    try {
-      const deviceId = getDeviceId();
-      const user = await tursoQueries.getOrCreateUser(deviceId);
-      await tursoQueries.createPrompt(user.id, {
-        id: updatedPrompt.id,
-        title: updatedPrompt.title,
-        description: updatedPrompt.description,
-        content: updatedPrompt.content,
-        tags: updatedPrompt.tags,
-        createdAt: updatedPrompt.createdAt,
-        updatedAt: updatedPrompt.updatedAt,
-      });
-    } catch (tursoError) {
-      console.warn('Failed to sync updated prompt to Turso (continuing anyway):', tursoError);
-    }
-
-    return true;
-  } catch (error) {
-    console.error('Update prompt error (Directory):', error);
-    set({ error: 'Failed to update prompt file' });
-    return false;
+async function ensureReady(backend: StorageBackend): Promise<void> {
+  if (!backend.isReady()) {
+    await backend.initialize();
   }
 }
 
-async function archivePromptInDirectory(
-  set: SetState,
-  get: GetState,
-  id: string,
-  directoryPath: string
-): Promise<void> {
-  const existingPrompt = get().prompts.find(p => p.id === id) as (Prompt & { _filePath?: string }) | undefined;
-  if (!existingPrompt) return;
-
-  const updatedPrompt: Prompt = {
-    ...existingPrompt,
-    isArchived: true,
-    updatedAt: Date.now(),
+function toMetadata(prompt: Prompt): PromptMetadata {
+  return {
+    id: prompt.id,
+    title: prompt.title,
+    tags: prompt.tags,
+    currentTxId: prompt.currentTxId,
+    updatedAt: prompt.updatedAt,
+    isArchived: prompt.isArchived,
   };
-
-  // Find the file path
-  let filePath = existingPrompt._filePath;
-  if (!filePath) {
-    filePath = await directoryStorage.findPromptFilePath(directoryPath, id) || undefined;
-  }
-
-  if (filePath) {
-    try {
-      // Update the file with archived flag
-      await directoryStorage.updatePromptInDirectory(directoryPath, updatedPrompt, filePath);
-    } catch (error) {
-      console.error('Failed to archive prompt in directory:', error);
-    }
-  }
-
-  // Update UI
-  removeFromIndex(id);
-  set(state => ({
-    prompts: state.prompts.map(p =>
-      p.id === id ? { ...p, isArchived: true } : p
-    ),
-  }));
-
-  // Sync to Turso in background (non-blocking)
-  try {
-    const deviceId = getDeviceId();
-    const user = await tursoQueries.getOrCreateUser(deviceId);
-    await tursoQueries.createPrompt(user.id, {
-      id: updatedPrompt.id,
-      title: updatedPrompt.title,
-      description: updatedPrompt.description,
-      content: updatedPrompt.content,
-      tags: updatedPrompt.tags,
-      createdAt: updatedPrompt.createdAt,
-      updatedAt: updatedPrompt.updatedAt,
-    });
-  } catch (tursoError) {
-    console.warn('Failed to sync archived prompt to Turso (continuing anyway):', tursoError);
-  }
 }
 
-async function restorePromptInDirectory(
-  set: SetState,
-  get: GetState,
-  id: string,
-  directoryPath: string
-): Promise<void> {
-  const existingPrompt = get().prompts.find(p => p.id === id) as (Prompt & { _filePath?: string }) | undefined;
-  if (!existingPrompt) return;
-
-  const updatedPrompt: Prompt = {
-    ...existingPrompt,
-    isArchived: false,
-    updatedAt: Date.now(),
-  };
-
-  // Find the file path
-  let filePath = existingPrompt._filePath;
-  if (!filePath) {
-    filePath = await directoryStorage.findPromptFilePath(directoryPath, id) || undefined;
-  }
-
-  if (filePath) {
-    try {
-      // Update the file with archived flag removed
-      await directoryStorage.updatePromptInDirectory(directoryPath, updatedPrompt, filePath);
-    } catch (error) {
-      console.error('Failed to restore prompt in directory:', error);
-    }
-  }
-
-  // Update UI
-  addToIndex({ ...existingPrompt, isArchived: false });
-  set(state => ({
-    prompts: state.prompts.map(p =>
-      p.id === id ? { ...p, isArchived: false } : p
-    ),
-  }));
-
-  // Sync to Turso in background (non-blocking)
-  try {
-    const deviceId = getDeviceId();
-    const user = await tursoQueries.getOrCreateUser(deviceId);
-    await tursoQueries.createPrompt(user.id, {
-      id: updatedPrompt.id,
-      title: updatedPrompt.title,
-      description: updatedPrompt.description,
-      content: updatedPrompt.content,
-      tags: updatedPrompt.tags,
-      createdAt: updatedPrompt.createdAt,
-      updatedAt: updatedPrompt.updatedAt,
+/**
+ * Apply changes reported by a backend watcher: updated prompts are
+ * replaced in place, added ones go first, removed ones are dropped
+ */
+function applyPromptChanges(prompts: Prompt[], changes: PromptChanges): Prompt[] {
+  const updated = new Map([...changes.added, ...changes.updated].map(p => [p.id, p]));
+  const removed = new Set(changes.removed);
+
+  const kept = prompts
+    .filter(p => !removed.has(p.id))
+    .map(p => {
+      const next = updated.get(p.id);
+      updated.delete(p.id);
+      return next ?? p;
     });
-  } catch (tursoError) {
-    console.warn('Failed to sync restored prompt to Turso (continuing anyway):', tursoError);
-  }
+  return [...updated.values(), ...kept];
 }
-
-async function deletePromptInDirectory(
-  set: SetState,
-  get: GetState,
-  id: string,
-  directoryPath: string
-): Promise<void> {
-  const existingPrompt = get().prompts.find(p => p.id === id) as (Prompt & { _filePath?: string }) | undefined;
-  if (!existingPrompt) return;
-
-  // Find the file path
-  let filePath = existingPrompt._filePath;
-  if (!filePath) {
-    filePath = await directoryStorage.findPromptFilePath(directoryPath, id) || undefined;
-  }
-
-  if (filePath) {
-    try {
-      await directoryStorage.deletePromptFromDirectory(filePath);
-    } catch (error) {
-      console.error('Failed to delete prompt file:', error);
-    }
-  }
-
-  // Update UI - remove from state entirely
-  removeFromIndex(id);
-  set(state => ({
-    prompts: state.prompts.filter(p => p.id !== id),
-  }));
-
-  // Delete from Turso in background (non-blocking)
-  try {
-    const deviceId = getDeviceId();
-    await tursoQueries.getOrCreateUser(deviceId);
-    await tursoQueries.deletePrompt(existingPrompt.id);
-  } catch (tursoError) {
-    console.warn('Failed to delete prompt from Turso (continuing anyway):', tursoError);
-  }
-}
-
@@ -0,0 +1,88 @@
+import { create } from 'zustand';
+import { getSemanticSearchSettings, saveSemanticSearchSettings } from '@/core/storage/cache';
+import {
+  configureEmbeddings,
+  createEndpointEmbedder,
+  createLocalEmbedder,
+  resetEmbeddings,
+  similarPrompts,
+  syncEmbeddings,
+} from '@/core/search/semantic';
+import type { EmbeddingEndpoint, SimilarPrompt } from '@/core/search/semantic';
+import { getEmbeddingStore } from '@/backend/api/embedding-store';
+import type { Prompt } from '@/shared/types/prompt';
+
+type SemanticStatus = 'idle' | 'indexing' | 'ready' | 'error';
+
+interface SemanticSearchState {
+  /** Blend semantic matches into searches */
+  enabled: boolean;
+  /** Local embedding server; the built-in embedder when null */
+  endpoint: EmbeddingEndpoint | null;
+  status: SemanticStatus;
+  error: string | null;
+  /** Bumped after each sync and settings change, so searches can re-run */
+  version: number;
+  setEnabled: (enabled: boolean) => void;
+  setEndpoint: (endpoint: EmbeddingEndpoint | null) => void;
+  /** Embed the prompts that changed since the last sync */
+  syncPrompts: (prompts: Prompt[]) => Promise<void>;
+  /** Prompts most like prompt, syncing embeddings first */
+  findSimilar: (prompt: Prompt, prompts: Prompt[]) => Promise<SimilarPrompt[]>;
+  reset: () => Promise<void>;
+}
+
+function applyEndpoint(endpoint: EmbeddingEndpoint | null): void {
+  configureEmbeddings(endpoint ? createEndpointEmbedder(endpoint) : createLocalEmbedder(), getEmbeddingStore());
+}
+
+// Syncs run one after another, so a slow endpoint isn't asked twice for the same prompts
+let queue: Promise<void> = Promise.resolve();
+
+export const useSemanticSearch = create<SemanticSearchState>((set, get) => {
+  const settings = getSemanticSearchSettings();
+  applyEndpoint(settings.endpoint);
+
+  return {
+    enabled: settings.enabled,
+    endpoint: settings.endpoint,
+    status: 'idle',
+    error: null,
+    version: 0,
+
+    setEnabled: (enabled) => {
+      saveSemanticSearchSettings({ enabled, endpoint: get().endpoint });
+      set({ enabled });
+    },
+
+    setEndpoint: (endpoint) => {
+      saveSemanticSearchSettings({ enabled: get().enabled, endpoint });
+      applyEndpoint(endpoint);
+      set({ endpoint, status: 'idle', error: null, version: get().version + 1 });
+    },
+
+    syncPrompts: (prompts) => {
+      queue = queue.then(async () => {
+        set({ status: 'indexing' });
+        try {
+          await syncEmbeddings(prompts);
+          set({ status: 'ready', error: null, version: get().version + 1 });
+        } catch (error) {
+          console.warn('[Semantic] Failed to embed prompts:', error);
+          set({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+        }
+      });
+      return queue;
+    },
+
+    findSimilar: async (prompt, prompts) => {
+      await get().syncPrompts(prompts);
+      return similarPrompts(prompt.id);
+    },
+
+    reset: async () => {
+      await resetEmbeddings();
+      set({ status: 'idle', error: null, version: get().version + 1 });
+    },
+  };
+});
@@ -5,21 +5,31 @@
  * and state management. Replaces implicit localStorage detection.
  */
 
+import { useMemo } from 'react';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { SyncMode } from '@/shared/types/sync';
+import type { SyncMode, CloudSyncConfig, DirectorySource } from '@/shared/types/sync';
 import {
   SYNC_MODES,
+  directorySource,
   setCurrentSyncMode,
   setAttachedDirectory
 } from '@/shared/types/sync';
 import * as directoryStorage from '@/backend/api/directory-storage';
+import { verifySyncServer } from '@/backend/api/turso';
+import { DEFAULT_DIRECTORY_OPTIONS, type DirectoryOptions } from '@/core/directory/folders';
 
 interface SyncModeState {
   /** Current sync mode */
   currentMode: SyncMode;
-  /** Attached directory path (null if not attached) */
+  /** Attached directory path (null if not attached); new prompts go here */
   attachedDirectory: string | null;
+  /** Every attached directory, including attachedDirectory */
+  directorySources: DirectorySource[];
+  /** Which files of the attached directory are read, and folder tagging */
+  directoryOptions: DirectoryOptions;
+  /** Cloud sync server settings (kept after leaving cloud sync mode) */
+  cloudSync: CloudSyncConfig | null;
   /** Whether we're currently switching modes */
   isSwitching: boolean;
   /** Any error that occurred during mode switching */
@@ -29,6 +39,13 @@ interface SyncModeState {
   switchMode: (mode: SyncMode, directoryPath?: string) => Promise<boolean>;
   attachDirectory: () => Promise<boolean>;
   detachDirectory: () => void;
+  addDirectorySource: () => Promise<boolean>;
+  updateDirectorySource: (path: string, changes: Partial<Omit<DirectorySource, 'path'>>) => void;
+  removeDirectorySource: (path: string) => void;
+  setDefaultDirectory: (path: string) => void;
+  setDirectoryOptions: (options: Partial<DirectoryOptions>) => void;
+  connectCloudSync: (config: CloudSyncConfig) => Promise<boolean>;
+  setCloudAutoSync: (enabled: boolean) => void;
   clearError: () => void;
   validateCurrentMode: () => Promise<boolean>;
 }
@@ -39,6 +56,9 @@ export const useSyncMode = create<SyncModeState>()(
       // Default state - zustand persist will hydrate from storage
       currentMode: 'app-only' as SyncMode,
       attachedDirectory: null,
+      directorySources: [],
+      directoryOptions: DEFAULT_DIRECTORY_OPTIONS,
+      cloudSync: null,
       isSwitching: false,
       error: null,
 
@@ -56,6 +76,11 @@ export const useSyncMode = create<SyncModeState>()(
           return false;
         }
 
+        if (mode === 'cloud-sync' && !get().cloudSync) {
+          set({ error: 'A sync server is required for cloud sync mode' });
+          return false;
+        }
+
         set({ isSwitching: true, error: null });
 
         try {
@@ -68,19 +93,25 @@ export const useSyncMode = create<SyncModeState>()(
 
             // Validate directory exists and is readable
             try {
-              await directoryStorage.readPromptsFromDirectory(pathToUse);
+              await directoryStorage.readPromptsFromDirectory(pathToUse, get().directoryOptions);
             } catch (dirError) {
               throw new Error(`Cannot access directory: ${dirError instanceof Error ? dirError.message : 'Unknown error'}`);
             }
 
             setAttachedDirectory(pathToUse);
-            set({ attachedDirectory: pathToUse });
+            const { directorySources } = get();
+            set({
+              attachedDirectory: pathToUse,
+              directorySources: directorySources.some((source) => source.path === pathToUse)
+                ? directorySources
+                : [directorySource(pathToUse)],
+            });
           }
 
           // If switching away from attached-directory, clear directory
           if (get().currentMode === 'attached-directory' && mode !== 'attached-directory') {
             setAttachedDirectory(null);
-            set({ attachedDirectory: null });
+            set({ attachedDirectory: null, directorySources: [] });
             directoryStorage.stopWatching();
           }
 
@@ -108,7 +139,7 @@ export const useSyncMode = create<SyncModeState>()(
 
           // Validate directory
           try {
-            await directoryStorage.readPromptsFromDirectory(path);
+            await directoryStorage.readPromptsFromDirectory(path, get().directoryOptions);
           } catch (dirError) {
             throw new Error(`Cannot access directory: ${dirError instanceof Error ? dirError.message : 'Unknown error'}`);
           }
@@ -136,11 +167,92 @@ export const useSyncMode = create<SyncModeState>()(
         setCurrentSyncMode('app-only');
         set({ 
           attachedDirectory: null, 
+          directorySources: [],
           currentMode: 'app-only',
           error: null 
         });
       },
 
+      addDirectorySource: async () => {
+        set({ error: null });
+
+        try {
+          const path = await directoryStorage.selectDirectory();
+          if (!path) return false; // User cancelled
+          if (get().directorySources.some((source) => source.path === path)) {
+            set({ error: 'That directory is already attached' });
+            return false;
+          }
+
+          try {
+            await directoryStorage.readPromptsFromDirectory(path, get().directoryOptions);
+          } catch (dirError) {
+            throw new Error(`Cannot access directory: ${dirError instanceof Error ? dirError.message : 'Unknown error'}`);
+          }
+
+          set({ directorySources: [...get().directorySources, directorySource(path)] });
+          return true;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to attach directory';
+          set({ error: errorMessage });
+          return false;
+        }
+      },
+
+      updateDirectorySource: (path, changes) => {
+        // The default directory has to stay writable
+        const readOnly = path === get().attachedDirectory ? { readOnly: false } : {};
+        set({
+          directorySources: get().directorySources.map((source) =>
+            source.path === path ? { ...source, ...changes, ...readOnly } : source
+          ),
+        });
+      },
+
+      removeDirectorySource: (path) => {
+        if (path === get().attachedDirectory) return;
+        directoryStorage.stopWatching(path);
+        set({ directorySources: get().directorySources.filter((source) => source.path !== path) });
+      },
+
+      setDefaultDirectory: (path) => {
+        const source = get().directorySources.find((s) => s.path === path);
+        if (!source || source.readOnly) return;
+        setAttachedDirectory(path);
+        set({ attachedDirectory: path });
+      },
+
+      setDirectoryOptions: (options: Partial<DirectoryOptions>) => {
+        set({ directoryOptions: { ...get().directoryOptions, ...options } });
+      },
+
+      connectCloudSync: async (config: CloudSyncConfig) => {
+        set({ isSwitching: true, error: null });
+
+        try {
+          // Reach the server and bring its schema up to date before switching
+          try {
+            await verifySyncServer(config.url, config.authToken);
+          } catch (serverError) {
+            throw new Error(`Cannot reach sync server: ${serverError instanceof Error ? serverError.message : 'Unknown error'}`);
+          }
+
+          set({ cloudSync: { ...get().cloudSync, ...config } });
+          return await get().switchMode('cloud-sync');
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Failed to connect to sync server';
+          set({ error: errorMessage, isSwitching: false });
+          return false;
+        }
+      },
+
+      setCloudAutoSync: (enabled: boolean) => {
+        const { cloudSync } = get();
+        if (cloudSync) {
+          set({ cloudSync: { ...cloudSync, autoSync: enabled } });
+        }
+      },
+
       clearError: () => {
         set({ error: null });
       },
@@ -156,7 +268,7 @@ export const useSyncMode = create<SyncModeState>()(
             // Validate directory is still accessible - CRITICAL for startup
             try {
               console.log('[SyncMode] Validating directory access on startup:', get().attachedDirectory);
-              await directoryStorage.readPromptsFromDirectory(get().attachedDirectory!);
+              await directoryStorage.readPromptsFromDirectory(get().attachedDirectory!, get().directoryOptions);
               console.log('[SyncMode] Directory validation successful');
             } catch (dirError) {
               const errorMsg = `Attached directory is no longer accessible: ${dirError instanceof Error ? dirError.message : 'Unknown error'}`;
@@ -166,6 +278,11 @@ export const useSyncMode = create<SyncModeState>()(
             }
           }
 
+          if (get().currentMode === 'cloud-sync' && !get().cloudSync) {
+            set({ error: 'Cloud sync mode selected but no sync server configured' });
+            return false;
+          }
+
           set({ error: null });
           return true;
         } catch (error) {
@@ -180,7 +297,23 @@ export const useSyncMode = create<SyncModeState>()(
       partialize: (state) => ({
         currentMode: state.currentMode,
         attachedDirectory: state.attachedDirectory,
+        directorySources: state.directorySources,
+        directoryOptions: state.directoryOptions,
+        cloudSync: state.cloudSync,
       }),
+      // Options saved before a setting existed get its default
+      merge: (persisted, current) => {
+        const saved = persisted as Partial<SyncModeState> | undefined;
+        const attachedDirectory = saved?.attachedDirectory ?? current.attachedDirectory;
+        return {
+          ...current,
+          ...saved,
+          directoryOptions: { ...current.directoryOptions, ...saved?.directoryOptions },
+          // Saved when only one directory could be attached
+          directorySources: saved?.directorySources ??
+            (attachedDirectory ? [directorySource(attachedDirectory)] : []),
+        };
+      },
       onRehydrateStorage: () => (state) => {
         if (state) {
           console.log('[SyncMode] Hydrated from storage:', {
@@ -228,7 +361,7 @@ export async function validateDirectoryOnStartup(): Promise<boolean> {
   if (state.currentMode === 'attached-directory' && state.attachedDirectory) {
     try {
       console.log('[SyncMode] Startup validation - checking directory access:', state.attachedDirectory);
-      await directoryStorage.readPromptsFromDirectory(state.attachedDirectory);
+      await directoryStorage.readPromptsFromDirectory(state.attachedDirectory, state.directoryOptions);
       console.log('[SyncMode] Startup validation successful - directory is accessible');
       return true;
     } catch (error) {
@@ -242,6 +375,20 @@ export async function validateDirectoryOnStartup(): Promise<boolean> {
   return true; // No validation needed for other modes
 }
 
+/**
+ * Labels of the attached directories by path, for telling prompts from
+ * different directories apart (empty unless several are attached)
+ */
+export function useSourceLabels(): Map<string, string> {
+  const currentMode = useSyncMode((state) => state.currentMode);
+  const directorySources = useSyncMode((state) => state.directorySources);
+
+  return useMemo(() => {
+    if (currentMode !== 'attached-directory' || directorySources.length < 2) return new Map();
+    return new Map(directorySources.map((source) => [source.path, source.label]));
+  }, [currentMode, directorySources]);
+}
+
 /**
  * Hook to get sync mode status for UI display
  */
@@ -0,0 +1,21 @@
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import './index.css'
+import { QuickLaunch } from './components/quick-launch/QuickLaunch'
+
+// Entry point for the desktop quick-launch overlay window (see src-tauri/src/lib.rs)
+
+// Detect platform for CSS styling
+if (navigator.userAgent.includes('Mac')) {
+  document.documentElement.setAttribute('data-platform', 'macos')
+} else if (navigator.userAgent.includes('Windows')) {
+  document.documentElement.setAttribute('data-platform', 'windows')
+} else if (navigator.userAgent.includes('Linux')) {
+  document.documentElement.setAttribute('data-platform', 'linux')
+}
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <QuickLaunch />
+  </StrictMode>,
+)
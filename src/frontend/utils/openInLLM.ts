@@ -0,0 +1,50 @@
+/**
+ * "Open in LLM" launcher
+ * Opens a rendered prompt in a chat provider, falling back to clipboard + open
+ */
+
+import type { Prompt } from '@/shared/types/prompt';
+import { buildProviderLaunch, getAllProviders, resolveProvider } from '@/core/llm/providers';
+import type { LLMProvider, ProviderLaunch } from '@/core/llm/providers';
+import { useLLMProviders } from '@/frontend/hooks/useLLMProviders';
+import { isTauri } from '@/frontend/utils/protocolLinks';
+
+/**
+ * All configured providers (built-in and custom)
+ */
+export function getConfiguredProviders(): LLMProvider[] {
+  return getAllProviders(useLLMProviders.getState().customProviders);
+}
+
+/**
+ * The provider a prompt opens in: its own default, else the global default
+ */
+export function getPromptProvider(prompt: Pick<Prompt, 'defaultProvider'>, providerId?: string): LLMProvider {
+  const { defaultProviderId } = useLLMProviders.getState();
+  return resolveProvider(getConfiguredProviders(), providerId ?? prompt.defaultProvider, defaultProviderId);
+}
+
+/**
+ * Open a URL in the system browser (desktop) or a new tab (web)
+ */
+export async function openExternalUrl(url: string): Promise<void> {
+  if (isTauri()) {
+    const { invoke } = await import('@tauri-apps/api/core');
+    await invoke('open_external_url', { url });
+    return;
+  }
+  window.open(url, '_blank', 'noopener,noreferrer');
+}
+
+/**
+ * Open text in a provider; when it can't be passed in the URL it is copied
+ * to the clipboard first so it can be pasted
+ */
+export async function launchInProvider(provider: LLMProvider, text: string): Promise<ProviderLaunch> {
+  const launch = buildProviderLaunch(provider, text);
+  if (launch.viaClipboard) {
+    await navigator.clipboard.writeText(text);
+  }
+  await openExternalUrl(launch.url);
+  return launch;
+}
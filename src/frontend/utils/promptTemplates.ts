@@ -0,0 +1,29 @@
+/**
+ * Prompt Template Utilities
+ * Resolves includes against the prompt library before copying or previewing
+ */
+
+import type { Prompt } from '@/shared/types/prompt';
+import { composePrompt, hasIncludes } from '@/core/template/includes';
+import { usePrompts } from '@/frontend/hooks/usePrompts';
+import * as tursoQueries from '@/backend/api/turso-queries';
+
+/**
+ * Load the content of a pinned prompt version from the database
+ */
+export async function loadPinnedVersion(promptId: string, version: number): Promise<string | null> {
+  const pinned = await tursoQueries.getVersionWithContent(promptId, version);
+  return pinned?.content ?? null;
+}
+
+/**
+ * Expand includes in a prompt using the current prompt library
+ * Returns the prompt unchanged when it has no includes
+ */
+export async function resolvePromptIncludes(prompt: Prompt): Promise<Prompt> {
+  if (!hasIncludes(prompt.content)) return prompt;
+
+  return composePrompt(prompt, usePrompts.getState().prompts, {
+    loadVersion: loadPinnedVersion,
+  });
+}
@@ -5,13 +5,19 @@
  * The app supports multiple storage strategies:
  *
  * 1. Local-first (current): Turso SQLite for offline-capable storage
- * 2. Cloud sync (future): Turso cloud with automatic sync
- * 3. Arweave (segregated): Permanent, decentralized storage
+ * 2. Attached directory (current): markdown files, mirrored into Turso
+ * 3. Cloud sync (current): local Turso synced with a libSQL server
+ * 4. Arweave (segregated): Permanent, decentralized storage
  *
  * All backends should implement these interfaces for seamless switching.
  */
 
-import type { Prompt, PromptVersion, SavedSearch } from '@/shared/types/prompt';
+import type { Prompt, PromptVersion, PromptVariable, SavedSearch } from '@/shared/types/prompt';
+import { DEFAULT_DIRECTORY_OPTIONS, type DirectoryOptions } from '@/core/directory/folders';
+import { directorySource, type DirectorySource } from '@/shared/types/sync';
+import { TursoLocalBackend } from '@/backend/storage/TursoLocalBackend';
+import { DirectoryBackend } from '@/backend/storage/DirectoryBackend';
+import { TursoCloudBackend } from '@/backend/storage/TursoCloudBackend';
 
 // =============================================================================
 // Core Types
@@ -45,6 +51,23 @@ export interface ConflictResolution {
   strategy: 'local' | 'remote' | 'merge';
   /** For merge strategy: the merged content */
   mergedContent?: string;
+  /** Change note for the version the resolution is saved as */
+  changeNote?: string;
+}
+
+/** A prompt edited in two places at once */
+export interface PromptConflict {
+  promptId: string;
+  /** Where the other copy lives: another device, or the attached directory's file */
+  source: 'cloud' | 'directory';
+  /** This app's copy */
+  localVersion: Prompt;
+  /** The other copy */
+  remoteVersion: Prompt;
+  /** Last version both copies share, from prompt_versions (null if none) */
+  baseVersion: number | null;
+  baseContent: string | null;
+  detectedAt: number;
 }
 
 // =============================================================================
@@ -57,6 +80,10 @@ export interface CreatePromptData {
   description: string;
   content: string;
   tags: string[];
+  variables?: PromptVariable[];
+  defaultProvider?: string;
+  /** Folder to create the file in (directory backend; defaults to the one matching its tags) */
+  folder?: string;
   createdAt?: number;
   updatedAt?: number;
 }
@@ -66,6 +93,22 @@ export interface UpdatePromptData {
   description?: string;
   content?: string;
   tags?: string[];
+  variables?: PromptVariable[];
+  /** Empty string clears it */
+  defaultProvider?: string;
+  /**
+   * Content the edit started from. Backends that can be changed outside
+   * the app record a conflict instead of overwriting newer content.
+   */
+  baseContent?: string;
+}
+
+/** Prompts changed outside the app since the last notification */
+export interface PromptChanges {
+  added: Prompt[];
+  updated: Prompt[];
+  /** IDs of prompts that are gone */
+  removed: string[];
 }
 
 export interface PromptStorage {
@@ -193,7 +236,7 @@ export interface Pack {
   description: string;
   /** User who created the pack */
   ownerId: string;
-  /** IDs of prompts in this pack */
+  /** IDs of prompts in this pack, in display order */
   promptIds: string[];
   /** Pack visibility */
   visibility: 'private' | 'shared' | 'public';
@@ -203,6 +246,8 @@ export interface Pack {
   tags: string[];
   /** Cover image URL */
   coverImage?: string;
+  /** Cover accent color (CSS color), used when there is no image */
+  coverColor?: string;
   createdAt: number;
   updatedAt: number;
 }
@@ -214,6 +259,7 @@ export interface CreatePackData {
   tags?: string[];
   visibility?: 'private' | 'shared' | 'public';
   coverImage?: string;
+  coverColor?: string;
 }
 
 export interface PackStorage {
@@ -238,6 +284,9 @@ export interface PackStorage {
   /** Remove prompts from a pack */
   removePromptsFromPack(packId: string, promptIds: string[]): Promise<void>;
 
+  /** Reorder a pack's prompts (promptIds in the new order) */
+  reorderPackPrompts(packId: string, promptIds: string[]): Promise<void>;
+
   /** Share a pack */
   sharePack(packId: string): Promise<string>; // Returns share token
 
@@ -255,7 +304,18 @@ export interface PackStorage {
 // Cloud Sync
 // =============================================================================
 
-export interface SyncStorage {
+export interface ConflictStorage {
+  /** Get list of conflicts needing resolution */
+  getConflicts(): Promise<PromptConflict[]>;
+
+  /** Resolve a conflict; the result is saved as a new version of the prompt */
+  resolveConflict(promptId: string, resolution: ConflictResolution): Promise<void>;
+
+  /** Subscribe to conflicts being recorded or resolved */
+  onConflictsChange(callback: () => void): () => void;
+}
+
+export interface SyncStorage extends ConflictStorage {
   /** Get current sync status */
   getSyncStatus(): SyncStatus;
 
@@ -265,20 +325,66 @@ export interface SyncStorage {
   /** Enable/disable auto-sync */
   setAutoSync(enabled: boolean): void;
 
-  /** Handle sync conflicts */
-  resolveConflict(promptId: string, resolution: ConflictResolution): Promise<void>;
-
-  /** Get list of conflicts needing resolution */
-  getConflicts(): Promise<Array<{
-    promptId: string;
-    localVersion: Prompt;
-    remoteVersion: Prompt;
-  }>>;
-
   /** Subscribe to sync status changes */
   onSyncStatusChange(callback: (status: SyncStatus) => void): () => void;
 }
 
+// =============================================================================
+// Attached Directory Diagnostics
+// =============================================================================
+
+/** A file problem that keeps prompts from showing up, or from saving cleanly */
+export type DirectoryIssue =
+  /** Not a valid prompt; missingId if it only lacks an id */
+  | { kind: 'invalid'; path: string; error: string; missingId: boolean }
+  /** One id in several files; only one of them shows up */
+  | { kind: 'duplicate-id'; promptId: string; paths: string[] }
+  /** One id in several attached directories; the copy in the first one listed shows up */
+  | { kind: 'source-collision'; promptId: string; paths: string[] }
+  /** Files whose names differ only in case, one file on case-insensitive file systems */
+  | { kind: 'filename-collision'; fileName: string; paths: string[] };
+
+export type DirectoryFix =
+  /** Give the file a new id (replacing a duplicate one) */
+  | { kind: 'add-id'; path: string }
+  /** Move the file to a name no other file has */
+  | { kind: 'rename'; path: string }
+  /** Keep the newest copy of a duplicated prompt, with every copy's tags */
+  | { kind: 'merge'; promptId: string };
+
+export interface DiagnosticsStorage {
+  /** Problems found in the last scan */
+  getDiagnostics(): Promise<DirectoryIssue[]>;
+
+  /** Apply a one-click fix */
+  fixIssue(fix: DirectoryFix): Promise<void>;
+
+  /** Subscribe to rescans that may have changed the problems */
+  onDiagnosticsChange(callback: () => void): () => void;
+}
+
+// =============================================================================
+// Attached Directory History
+// =============================================================================
+
+/** A commit that touched a prompt's file */
+export interface FileRevision {
+  hash: string;
+  timestamp: number;
+  author: string;
+  subject: string;
+  /** The file's path at this commit, relative to the repository root */
+  path: string;
+}
+
+export interface FileHistoryStorage {
+  /** Commits touching the prompt's file, newest first ([] outside a git repository) */
+  getFileHistory(promptId: string): Promise<FileRevision[]>;
+
+  /** The prompt's content at a revision (the whole file if it wasn't a valid prompt then) */
+  getRevisionContent(promptId: string, revision: FileRevision): Promise<string>;
+}
+
 // =============================================================================
 // Combined Backend Interface
 // =============================================================================
@@ -289,6 +395,9 @@ export interface StorageBackend extends
   TagStorage,
   SavedSearchStorage {
 
+  /** Which backend this is */
+  readonly type: BackendType;
+
   /** Initialize the storage backend */
   initialize(): Promise<void>;
 
@@ -310,6 +419,21 @@ export interface StorageBackend extends
   /** Cloud sync operations (optional) */
   sync?: SyncStorage;
 
+  /** Concurrent edit conflicts (optional) */
+  conflicts?: ConflictStorage;
+
+  /** Problems with an attached directory's files (optional) */
+  diagnostics?: DiagnosticsStorage;
+
+  /** Git history of an attached directory's files (optional) */
+  history?: FileHistoryStorage;
+
+  /**
+   * Watch for changes made outside the app (optional).
+   * Calls onChange with the prompts that changed; resolves to an unsubscribe function.
+   */
+  watch?(onChange: (changes: PromptChanges) => void): Promise<() => void>;
+
   /** Clean up resources */
   dispose?(): Promise<void>;
 }
@@ -318,14 +442,24 @@ export interface StorageBackend extends
 // Backend Factory
 // =============================================================================
 
-export type BackendType = 'turso-local' | 'turso-cloud' | 'arweave';
+export type BackendType = 'turso-local' | 'directory' | 'turso-cloud' | 'arweave';
 
 export interface BackendConfig {
   type: BackendType;
+  /** Attached directory for the directory backend (the one new prompts go to) */
+  directoryPath?: string;
+  /** Every attached directory, when there's more than one */
+  directorySources?: DirectorySource[];
+  /** Which files of the attached directory are read, and folder tagging */
+  directoryOptions?: DirectoryOptions;
   /** Turso database URL for cloud sync */
   tursoUrl?: string;
   /** Turso auth token */
   tursoToken?: string;
+  /** Sync in the background (turso-cloud, default true) */
+  autoSync?: boolean;
+  /** Only read prompts: files are never written and nothing syncs (windows that only show prompts) */
+  readOnly?: boolean;
   /** Arweave gateway URL */
   arweaveGateway?: string;
   /** Enable offline support */
@@ -339,12 +473,32 @@ export interface BackendConfig {
 export function createStorageBackend(config: BackendConfig): StorageBackend {
   switch (config.type) {
     case 'turso-local':
-      // Return local Turso backend (current implementation)
-      throw new Error('Use turso-queries directly for local backend');
+      return new TursoLocalBackend();
+
+    case 'directory':
+      // Files are the source of truth; the database keeps a backup copy,
+      // version history and saved searches
+      if (!config.directoryPath) {
+        throw new Error('Directory backend requires a directoryPath');
+      }
+      return new DirectoryBackend(
+        config.directorySources ?? [directorySource(config.directoryPath)],
+        new TursoLocalBackend(),
+        config.readOnly
+          ? { ...(config.directoryOptions ?? DEFAULT_DIRECTORY_OPTIONS), readOnly: true }
+          : config.directoryOptions,
+        config.directoryPath
+      );
 
     case 'turso-cloud':
-      // Future: Return cloud-synced Turso backend
-      throw new Error('Turso cloud backend not yet implemented');
+      if (!config.tursoUrl) {
+        throw new Error('Turso cloud backend requires a tursoUrl');
+      }
+      if (config.readOnly) {
+        // The local copy cloud sync keeps up to date, without syncing it
+        return new TursoLocalBackend();
+      }
+      return new TursoCloudBackend(config.tursoUrl, config.tursoToken, config.autoSync);
 
     case 'arweave':
       // Future: Return Arweave backend (from src/arweave/)
@@ -0,0 +1,21 @@
+import type { Prompt } from '@/shared/types/prompt';
+
+/**
+ * A prompt for tests: empty fields and zero timestamps unless overridden
+ */
+export function createPrompt(id: string, overrides: Partial<Prompt> = {}): Prompt {
+  return {
+    id,
+    title: `Prompt ${id}`,
+    description: '',
+    content: '',
+    tags: [],
+    currentTxId: `tx-${id}`,
+    versions: [],
+    createdAt: 0,
+    updatedAt: 0,
+    isArchived: false,
+    isSynced: true,
+    ...overrides,
+  };
+}
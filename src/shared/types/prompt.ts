@@ -4,6 +4,10 @@ export interface Prompt {
   description: string;
   content: string;
   tags: string[];
+  variables?: PromptVariable[]; // Declared template variables (frontmatter)
+  defaultProvider?: string; // "Open in LLM" provider id for this prompt
+  folder?: string; // Attached directory only: folder relative to the directory ('' for its root)
+  source?: string; // Attached directory only: path of the attached directory the prompt is read from
 
   // Arweave data
   currentTxId: string;
@@ -18,6 +22,16 @@ export interface Prompt {
   isSynced: boolean;
 }
 
+export type PromptVariableType = 'text' | 'multiline' | 'number' | 'enum';
+
+export interface PromptVariable {
+  name: string;
+  type?: PromptVariableType;
+  default?: string;
+  options?: string[]; // Choices for enum variables
+  description?: string;
+}
+
 export interface PromptVersion {
   txId: string;
   version: number;
@@ -53,7 +67,7 @@ export interface SavedSearch {
   name: string;
   description?: string;
   expression: BooleanExpression;
-  textQuery?: string; // Optional text search to combine with boolean
+  textQuery?: string; // Optional search query (see core/search/query) to combine with boolean
   updatedAt: number;
 }
 
@@ -4,7 +4,7 @@
  * Defines the three distinct sync modes for Pocket Prompt:
  * 1. App-Only Mode: Data stored in Turso DB only
  * 2. Attached Directory Mode: MD files as source of truth, synced to Turso
- * 3. Cloud Sync Mode: Future multi-device sync (disabled for now)
+ * 3. Cloud Sync Mode: Local Turso DB synced with a libSQL server across devices
  */
 
 export type SyncMode = 'app-only' | 'attached-directory' | 'cloud-sync';
@@ -51,8 +51,8 @@ export const SYNC_MODES: Record<SyncMode, SyncModeConfig> = {
   },
   'cloud-sync': {
     name: 'Cloud Sync',
-    description: 'Access your prompts from any device with automatic cloud backup and sync.',
-    available: false,
+    description: 'Sync your prompts across devices through a libSQL server. Works offline and catches up when you reconnect.',
+    available: true,
     icon: 'cloud',
     requiresDirectory: false,
     primaryStorage: 'cloud',
@@ -61,6 +61,33 @@ export const SYNC_MODES: Record<SyncMode, SyncModeConfig> = {
   },
 };
 
+/** Connection settings for the cloud sync server */
+export interface CloudSyncConfig {
+  /** libSQL server URL, e.g. libsql://my-db.turso.io or http://127.0.0.1:8080 */
+  url: string;
+  authToken?: string;
+  /** Sync in the background (default true) */
+  autoSync?: boolean;
+}
+
+/** A directory attached as a source of prompts */
+export interface DirectorySource {
+  /** Absolute path; also identifies the source */
+  path: string;
+  /** Shown next to its prompts when several directories are attached */
+  label: string;
+  /** Prompts are read from it, but never written to it */
+  readOnly: boolean;
+}
+
+/**
+ * A writable source labelled with the directory's name
+ */
+export function directorySource(path: string): DirectorySource {
+  const name = path.replace(/[\\/]+$/, '').split(/[\\/]/).pop();
+  return { path, label: name || path, readOnly: false };
+}
+
 // localStorage keys
 export const SYNC_MODE_KEY = 'pocket_prompt_sync_mode';
 export const ATTACHED_DIRECTORY_KEY = 'pocket_prompt_attached_directory';
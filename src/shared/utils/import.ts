@@ -1,4 +1,11 @@
 import matter from 'gray-matter';
+import type { PromptVariable } from '@/shared/types/prompt';
+import { parseVariableDeclarations } from '@/core/template/variables';
+import {
+  DEFAULT_FRONTMATTER_PROFILE,
+  readFrontmatter,
+  type FrontmatterProfile,
+} from '@/core/directory/frontmatter';
 
 export interface ImportedPrompt {
   id: string;
@@ -6,6 +13,8 @@ export interface ImportedPrompt {
   description: string;
   content: string;
   tags: string[];
+  variables?: PromptVariable[];
+  defaultProvider?: string;
   createdAt?: number;
   updatedAt?: number;
   isArchived?: boolean;
@@ -32,66 +41,53 @@ export interface BatchImportResult {
 }
 
 /**
- * Parse a markdown file with frontmatter and extract prompt data
+ * Parse a markdown file with frontmatter and extract prompt data.
+ * The profile says which keys hold which fields; notes without a title
+ * use `fallbackTitle` (e.g. the file name) when given.
  */
-export function parseMarkdownPrompt(fileContent: string): ImportResult {
+export function parseMarkdownPrompt(
+  fileContent: string,
+  profile: FrontmatterProfile = DEFAULT_FRONTMATTER_PROFILE,
+  fallbackTitle?: string
+): ImportResult {
   try {
     // Parse the markdown with frontmatter
     const { data, content } = matter(fileContent);
+    const fields = readFrontmatter(data, profile);
 
     // Validate required fields
-    if (!data.id) {
+    if (!fields.id) {
       return {
         success: false,
         error: 'Missing required field: id',
       };
     }
 
-    if (!data.title && !content.trim()) {
+    if (!fields.title && !fallbackTitle && !content.trim()) {
       return {
         success: false,
         error: 'Missing required field: title (or content for fallback)',
       };
     }
 
-    // Extract and convert fields
-    const id = String(data.id);
-    const title = data.title || 'Untitled';
-    const description = data.description || '';
-    const tags = Array.isArray(data.tags) ? data.tags : [];
-
-    // Convert timestamps if present
-    let createdAt: number | undefined;
-    let updatedAt: number | undefined;
-
-    if (data.created_at) {
-      const createdDate = new Date(data.created_at);
-      if (!isNaN(createdDate.getTime())) {
-        createdAt = createdDate.getTime();
-      }
-    }
-
-    if (data.updated_at) {
-      const updatedDate = new Date(data.updated_at);
-      if (!isNaN(updatedDate.getTime())) {
-        updatedAt = updatedDate.getTime();
-      }
-    }
-
-    // Check archived status
-    const isArchived = data.archived === true;
+    const variables = parseVariableDeclarations(data.variables);
+    const defaultProvider = typeof data.provider === 'string' && data.provider.trim()
+      ? data.provider.trim()
+      : undefined;
 
     return {
       success: true,
       prompt: {
-        id,
-        title,
-        description,
+        id: fields.id,
+        title: fields.title || fallbackTitle || 'Untitled',
+        description: fields.description,
         content: content.trim(),
-        tags,
-        createdAt,
-        updatedAt,
-        isArchived,
+        tags: fields.tags,
+        variables: variables.length > 0 ? variables : undefined,
+        defaultProvider,
+        createdAt: fields.createdAt,
+        updatedAt: fields.updatedAt,
+        isArchived: fields.isArchived,
       },
     };
   } catch (error) {